@@ -1,6 +1,8 @@
 // Lightweight adapter around MediaPipe Selfie Segmentation.
 // We load via CDN on demand so you don't have to install anything yet.
 
+import { recordSegmentation } from '../media/perfMonitor';
+
 export interface ISegmenter {
     init(): Promise<void>;
     setVideo(input: HTMLVideoElement): void;
@@ -137,7 +139,9 @@ export interface ISegmenter {
         }
 
         try {
+          const sentAt = performance.now();
           await this.selfie.send({ image: this.inputVideo });
+          recordSegmentation(performance.now() - sentAt);
         } catch (err) {
           this.errorCount++;
           console.error('[MediaPipe] Error processing frame:', err);
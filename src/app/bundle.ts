@@ -0,0 +1,370 @@
+/**
+ * Portable `.classcast` bundles: a ZIP holding scene (or layer template)
+ * JSON, the asset blobs they reference, and a manifest describing both.
+ *
+ * Layout:
+ *   manifest.json                BundleManifest
+ *   scenes/<sceneId>.json        Scene
+ *   templates/<templateId>.json  LayerTemplate
+ *   assets/<assetId>             raw blob
+ *
+ * Imports go through the regular persistence adapter and asset store, so
+ * blobs are deduplicated and reference-counted like local uploads. Scene and
+ * layer IDs are regenerated on import so a bundle can be opened repeatedly
+ * (or next to its source) without collisions.
+ */
+
+import type { Layer, OutputProfileId, Scene, SceneCollection, SceneTransition } from '../types/scene';
+import type { LayerTemplate } from '../types/template';
+import { createId } from '../utils/id';
+import { downloadBlob } from '../utils/download';
+import { createZip, readZip, type ZipEntry } from '../utils/zip';
+import { loadAsset, saveCollection, saveScene, saveTemplate, storeAsset } from './persistence';
+import { CURRENT_SCENE_SCHEMA_VERSION, upgradeScene, upgradeTemplate } from './sceneSchema';
+
+/** File extension used for downloaded bundles */
+export const BUNDLE_EXTENSION = '.classcast';
+
+/** Bumped whenever the bundle layout or manifest shape changes */
+export const BUNDLE_SCHEMA_VERSION = 2;
+
+const BUNDLE_FORMAT = 'classcast';
+const MANIFEST_FILE = 'manifest.json';
+
+interface BundleSceneEntry {
+  id: string;
+  name: string;
+  file: string;
+}
+
+interface BundleTemplateEntry {
+  id: string;
+  name: string;
+  file: string;
+}
+
+interface BundleAssetEntry {
+  id: string;
+  sha256: string;
+  type: string;
+  size: number;
+  file: string;
+}
+
+/**
+ * Contents of `manifest.json`.
+ */
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  /** Epoch milliseconds */
+  exportedAt: number;
+  /** A single scene, a whole class, or a layer template library */
+  kind: 'scene' | 'collection' | 'templates';
+  /** Scenes in switcher order */
+  scenes: BundleSceneEntry[];
+  /** Layer templates (schema 2+, `templates` bundles only) */
+  templates?: BundleTemplateEntry[];
+  collection?: {
+    name: string;
+    transition: SceneTransition;
+    activeSceneId?: string | null;
+    /** Output profile id, when the class has one */
+    outputProfile?: OutputProfileId;
+  };
+  assets: BundleAssetEntry[];
+}
+
+/**
+ * Result of importing a bundle. Scenes are already persisted; `collection`
+ * is set (and persisted) only for class bundles.
+ */
+export interface ImportedBundle {
+  kind: BundleManifest['kind'];
+  scenes: Scene[];
+  collection: SceneCollection | null;
+}
+
+/**
+ * Package one scene as a `.classcast` bundle.
+ */
+export async function exportSceneBundle(scene: Scene): Promise<Blob> {
+  return buildBundle('scene', [scene], null);
+}
+
+/**
+ * Package a class and all of its scenes as a `.classcast` bundle.
+ */
+export async function exportCollectionBundle(
+  collection: SceneCollection,
+  scenes: Record<string, Scene>
+): Promise<Blob> {
+  const ordered = collection.sceneIds
+    .map((id) => scenes[id])
+    .filter((scene): scene is Scene => Boolean(scene));
+  return buildBundle('collection', ordered, collection);
+}
+
+/**
+ * Package layer templates as a `.classcast` bundle.
+ */
+export async function exportTemplateBundle(templates: LayerTemplate[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const manifest = createManifest('templates');
+  manifest.templates = [];
+
+  const assetIds = new Set<string>();
+  templates.forEach((template) => {
+    const file = `templates/${template.id}.json`;
+    manifest.templates?.push({ id: template.id, name: template.name, file });
+    const data: LayerTemplate = { ...template, builtIn: undefined, schemaVersion: CURRENT_SCENE_SCHEMA_VERSION };
+    entries.push({ name: file, data: encoder.encode(JSON.stringify(data)) });
+    template.layers.forEach((layer) => getLayerAssetIds(layer).forEach((assetId) => assetIds.add(assetId)));
+  });
+
+  await addAssetEntries(manifest, entries, assetIds);
+  entries.unshift({ name: MANIFEST_FILE, data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+}
+
+/**
+ * Read a templates bundle and save its templates (with fresh IDs) to the
+ * user's library.
+ */
+export async function importTemplateBundle(file: Blob): Promise<LayerTemplate[]> {
+  const { manifest, files } = await readBundle(file);
+  if (manifest.kind !== 'templates') {
+    throw new Error('This bundle contains scenes, not templates');
+  }
+  const assetIds = await importAssets(manifest, files);
+
+  const templates: LayerTemplate[] = [];
+  for (const entry of manifest.templates ?? []) {
+    const data = files.get(entry.file);
+    if (!data) {
+      console.warn('Bundle: template missing from archive', entry.file);
+      continue;
+    }
+    const source = upgradeTemplate(JSON.parse(new TextDecoder().decode(data)));
+    const template: LayerTemplate = {
+      ...source,
+      id: createId('template'),
+      builtIn: undefined,
+      // Scenes a timer switches to are not part of a template bundle.
+      layers: remapLayers(source.layers, assetIds, new Map()),
+    };
+    await saveTemplate(template);
+    templates.push(template);
+  }
+  if (templates.length === 0) {
+    throw new Error('Bundle contains no templates');
+  }
+  return templates;
+}
+
+/**
+ * Read a `.classcast` bundle and persist its assets, scenes and class.
+ */
+export async function importBundle(file: Blob): Promise<ImportedBundle> {
+  const { manifest, files } = await readBundle(file);
+  if (manifest.kind === 'templates') {
+    throw new Error('This bundle contains layer templates; import it from the template library');
+  }
+  const assetIds = await importAssets(manifest, files);
+
+  // Every new scene ID up front, so timers can point at scenes imported after them.
+  const sceneIds = new Map<string, string>();
+  for (const entry of manifest.scenes ?? []) {
+    if (files.has(entry.file)) sceneIds.set(entry.id, createId('scene'));
+  }
+  const scenes: Scene[] = [];
+  for (const entry of manifest.scenes ?? []) {
+    const data = files.get(entry.file);
+    const id = sceneIds.get(entry.id);
+    if (!data || !id) {
+      console.warn('Bundle: scene missing from archive', entry.file);
+      continue;
+    }
+    // Scenes carry their own schemaVersion and are migrated like stored ones.
+    const source = upgradeScene(JSON.parse(new TextDecoder().decode(data)));
+    const scene: Scene = {
+      ...source,
+      id,
+      name: source.name ?? entry.name,
+      layers: remapLayers(source.layers ?? [], assetIds, sceneIds),
+    };
+    await saveScene(scene);
+    scenes.push(scene);
+  }
+  if (scenes.length === 0) {
+    throw new Error('Bundle contains no scenes');
+  }
+
+  let collection: SceneCollection | null = null;
+  if (manifest.kind === 'collection' && manifest.collection) {
+    const activeSceneId = manifest.collection.activeSceneId
+      ? sceneIds.get(manifest.collection.activeSceneId) ?? null
+      : null;
+    collection = {
+      id: createId('collection'),
+      name: manifest.collection.name,
+      sceneIds: scenes.map((scene) => scene.id as string),
+      activeSceneId: activeSceneId ?? scenes[0].id ?? null,
+      transition: manifest.collection.transition,
+      ...(manifest.collection.outputProfile ? { outputProfile: manifest.collection.outputProfile } : {}),
+    };
+    await saveCollection(collection);
+  }
+
+  return { kind: manifest.kind, scenes, collection };
+}
+
+async function readBundle(file: Blob): Promise<{ manifest: BundleManifest; files: Map<string, Uint8Array> }> {
+  const files = await readZip(file);
+  const manifestData = files.get(MANIFEST_FILE);
+  if (!manifestData) {
+    throw new Error('Not a .classcast bundle (manifest.json missing)');
+  }
+  const manifest = JSON.parse(new TextDecoder().decode(manifestData)) as BundleManifest;
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error('Not a .classcast bundle');
+  }
+  if (typeof manifest.schemaVersion !== 'number' || manifest.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+    throw new Error(
+      `Bundle was created by a newer version (schema ${manifest.schemaVersion}); please update the app`
+    );
+  }
+  return { manifest, files };
+}
+
+/**
+ * Store a bundle's assets; returns bundle asset IDs mapped to local ones.
+ */
+async function importAssets(manifest: BundleManifest, files: Map<string, Uint8Array>): Promise<Map<string, string>> {
+  const assetIds = new Map<string, string>();
+  for (const entry of manifest.assets ?? []) {
+    const data = files.get(entry.file);
+    if (!data) {
+      console.warn('Bundle: asset missing from archive', entry.file);
+      continue;
+    }
+    const stored = await storeAsset(new Blob([data as Uint8Array<ArrayBuffer>], { type: entry.type }));
+    assetIds.set(entry.id, stored.blobId);
+  }
+  return assetIds;
+}
+
+/**
+ * Trigger a browser download for an exported bundle.
+ */
+export function downloadBundle(blob: Blob, name: string): void {
+  const safeName = name.trim().replace(/[\\/:*?"<>|]+/g, '-') || 'classcast';
+  downloadBlob(blob, `${safeName}${BUNDLE_EXTENSION}`);
+}
+
+function createManifest(kind: BundleManifest['kind']): BundleManifest {
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    kind,
+    scenes: [],
+    assets: [],
+  };
+}
+
+async function addAssetEntries(manifest: BundleManifest, entries: ZipEntry[], assetIds: Set<string>): Promise<void> {
+  for (const id of assetIds) {
+    const asset = await loadAsset(id);
+    if (!asset) {
+      console.warn('Bundle: asset not found, exporting without it', id);
+      continue;
+    }
+    const file = `assets/${id}`;
+    manifest.assets.push({ id, sha256: asset.sha256, type: asset.type, size: asset.size, file });
+    entries.push({ name: file, data: new Uint8Array(await asset.blob.arrayBuffer()) });
+  }
+}
+
+async function buildBundle(
+  kind: BundleManifest['kind'],
+  scenes: Scene[],
+  collection: SceneCollection | null
+): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const manifest = createManifest(kind);
+  if (collection) {
+    manifest.collection = {
+      name: collection.name,
+      transition: collection.transition,
+      activeSceneId: collection.activeSceneId ?? null,
+      ...(collection.outputProfile ? { outputProfile: collection.outputProfile } : {}),
+    };
+  }
+
+  const assetIds = new Set<string>();
+  scenes.forEach((scene, index) => {
+    const id = scene.id ?? `scene-${index + 1}`;
+    const file = `scenes/${id}.json`;
+    manifest.scenes.push({ id, name: scene.name ?? 'Untitled Scene', file });
+    const data = { ...scene, id, schemaVersion: CURRENT_SCENE_SCHEMA_VERSION };
+    entries.push({ name: file, data: encoder.encode(JSON.stringify(data)) });
+    for (const layer of scene.layers) {
+      getLayerAssetIds(layer).forEach((assetId) => assetIds.add(assetId));
+    }
+  });
+
+  await addAssetEntries(manifest, entries, assetIds);
+  entries.unshift({ name: MANIFEST_FILE, data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+}
+
+/**
+ * Asset store IDs a layer depends on. Inline data URI images travel inside
+ * the scene JSON instead.
+ */
+function getLayerAssetIds(layer: Layer): string[] {
+  if (layer.type === 'video') return [layer.assetId];
+  if (layer.type === 'image' && !layer.dataUri && layer.assetId !== 'placeholder') {
+    return [layer.assetId];
+  }
+  if (layer.type === 'text' && layer.fontAssetId) return [layer.fontAssetId];
+  return [];
+}
+
+/**
+ * Give every layer a fresh ID and rewrite group membership, asset
+ * references and timer target scenes to match.
+ */
+function remapLayers(layers: Layer[], assetIds: Map<string, string>, sceneIds: Map<string, string>): Layer[] {
+  const layerIds = new Map<string, string>();
+  layers.forEach((layer) => layerIds.set(layer.id, createId('layer')));
+  const mapLayerId = (id: string) => layerIds.get(id) ?? id;
+
+  return layers.map((layer) => {
+    const next = {
+      ...layer,
+      id: mapLayerId(layer.id),
+      parentId: layer.parentId ? mapLayerId(layer.parentId) : layer.parentId,
+    } as Layer;
+
+    if (next.type === 'group') {
+      next.children = next.children.map(mapLayerId);
+      if (next.childVisibility) {
+        next.childVisibility = Object.fromEntries(
+          Object.entries(next.childVisibility).map(([id, visible]) => [mapLayerId(id), visible])
+        );
+      }
+    } else if (next.type === 'video' || (next.type === 'image' && !next.dataUri)) {
+      next.assetId = assetIds.get(next.assetId) ?? next.assetId;
+    } else if (next.type === 'text' && next.fontAssetId) {
+      next.fontAssetId = assetIds.get(next.fontAssetId) ?? next.fontAssetId;
+    } else if (next.type === 'timer' && next.targetSceneId) {
+      // A target left out of the bundle would never resolve.
+      next.targetSceneId = sceneIds.get(next.targetSceneId) ?? null;
+    }
+    return next;
+  });
+}
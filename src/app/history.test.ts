@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HISTORY_COALESCE_MS,
+  applyScenePatch,
+  diffScenes,
+  mergeScenePatches,
+  pushHistoryEntry,
+} from './history';
+import { createAnnotationLayer, createTextLayer } from '../layers/factory';
+import type { AnnotationStroke, Layer, Scene } from '../types/scene';
+import type { ScenePatch } from '../types/history';
+
+function makeScene(layers: Layer[]): Scene {
+  return { id: 'scene', name: 'Scene', width: 1920, height: 1080, layers };
+}
+
+function makeStroke(id: string, points: number[] = [0, 0]): AnnotationStroke {
+  return { id, tool: 'pen', color: '#ff0000', width: 4, points };
+}
+
+function diff(before: Scene, after: Scene): ScenePatch {
+  const patch = diffScenes(before, after);
+  if (!patch) throw new Error('expected the scenes to differ');
+  return patch;
+}
+
+const title = createTextLayer('title', 1920, 1080);
+const caption = { ...createTextLayer('caption', 1920, 1080), content: 'Caption' };
+const ink = createAnnotationLayer('ink', 1920, 1080);
+
+describe('diffScenes', () => {
+  it('returns null when nothing changed', () => {
+    const scene = makeScene([title]);
+    expect(diffScenes(scene, { ...scene, layers: [...scene.layers] })).toBeNull();
+  });
+
+  it('records only the changed fields of an updated layer', () => {
+    const before = makeScene([title]);
+    const after = makeScene([{ ...title, content: 'Renamed' }]);
+
+    expect(diff(before, after).layers).toEqual([
+      { op: 'update', id: 'title', keys: ['content'], before: { content: 'New Text' }, after: { content: 'Renamed' } },
+    ]);
+  });
+
+  it('records an appended stroke on its own, not the whole stroke list', () => {
+    const earlier = Array.from({ length: 5 }, (_, index) => makeStroke(`stroke-${index}`));
+    const drawn = makeStroke('new');
+    const before = makeScene([{ ...ink, strokes: earlier }]);
+    const after = makeScene([{ ...ink, strokes: [...earlier, drawn] }]);
+
+    expect(diff(before, after).layers).toEqual([
+      {
+        op: 'update',
+        id: 'ink',
+        keys: [],
+        before: {},
+        after: {},
+        strokes: { removed: [], added: [{ index: 5, item: drawn }] },
+      },
+    ]);
+  });
+});
+
+describe('applyScenePatch', () => {
+  const cases: { name: string; before: Scene; after: Scene }[] = [
+    { name: 'a field update', before: makeScene([title]), after: makeScene([{ ...title, fontSize: 72 }]) },
+    {
+      name: 'an added field',
+      before: makeScene([title]),
+      after: makeScene([{ ...title, lines: [{ runs: [], bullet: true }] }]),
+    },
+    { name: 'an added layer', before: makeScene([title]), after: makeScene([title, caption]) },
+    { name: 'a removed layer', before: makeScene([title, caption]), after: makeScene([caption]) },
+    { name: 'a reorder', before: makeScene([title, caption]), after: makeScene([caption, title]) },
+    { name: 'a scene field', before: makeScene([title]), after: { ...makeScene([title]), name: 'Renamed' } },
+    {
+      name: 'stroke edits',
+      before: makeScene([{ ...ink, strokes: [makeStroke('a'), makeStroke('b'), makeStroke('c')] }]),
+      after: makeScene([{ ...ink, strokes: [makeStroke('a'), makeStroke('c', [1, 1]), makeStroke('d')] }]),
+    },
+  ];
+
+  it.each(cases)('redo then undo of $name restores the scene', ({ before, after }) => {
+    const patch = diff(before, after);
+    const redone = applyScenePatch(before, patch, 'redo');
+
+    expect(redone).toEqual(after);
+    expect(applyScenePatch(redone, patch, 'undo')).toEqual(before);
+  });
+
+  it('skips layers the scene no longer has', () => {
+    const patch = diff(makeScene([title]), makeScene([{ ...title, fontSize: 72 }]));
+    expect(applyScenePatch(makeScene([caption]), patch, 'redo')).toEqual(makeScene([caption]));
+  });
+});
+
+describe('mergeScenePatches', () => {
+  function expectMerged(steps: Scene[]) {
+    const patches = steps.slice(1).map((scene, index) => diff(steps[index], scene));
+    const merged = patches.reduce<ScenePatch | null>(
+      (result, patch) => (result ? mergeScenePatches(result, patch) : patch),
+      null
+    );
+    const first = steps[0];
+    const last = steps[steps.length - 1];
+    if (!merged) throw new Error('expected the merged patch to change something');
+
+    expect(applyScenePatch(first, merged, 'redo')).toEqual(last);
+    expect(applyScenePatch(last, merged, 'undo')).toEqual(first);
+    return merged;
+  }
+
+  it('folds an update into an added layer', () => {
+    const merged = expectMerged([
+      makeScene([title]),
+      makeScene([title, caption]),
+      makeScene([title, { ...caption, fontSize: 20 }]),
+    ]);
+    expect(merged.layers).toEqual([{ op: 'add', layer: { ...caption, fontSize: 20 } }]);
+  });
+
+  it('removes the original layer when an update is followed by a remove', () => {
+    const merged = expectMerged([
+      makeScene([title, caption]),
+      makeScene([title, { ...caption, fontSize: 20 }]),
+      makeScene([title]),
+    ]);
+    expect(merged.layers).toEqual([{ op: 'remove', layer: caption }]);
+  });
+
+  it('turns a remove followed by an add of the same layer into an update', () => {
+    const merged = expectMerged([makeScene([caption]), makeScene([]), makeScene([{ ...caption, content: 'Back' }])]);
+    expect(merged.layers).toEqual([
+      { op: 'update', id: 'caption', keys: ['content'], before: { content: 'Caption' }, after: { content: 'Back' } },
+    ]);
+  });
+
+  it('cancels out an add followed by a remove', () => {
+    const added = diff(makeScene([title]), makeScene([title, caption]));
+    const removed = diff(makeScene([title, caption]), makeScene([title]));
+    expect(mergeScenePatches(added, removed)).toBeNull();
+  });
+
+  it('keeps the first order before and the last order after', () => {
+    const merged = expectMerged([
+      makeScene([title, caption, ink]),
+      makeScene([caption, title, ink]),
+      makeScene([ink, caption, title]),
+    ]);
+    expect(merged.order).toEqual({ before: ['title', 'caption', 'ink'], after: ['ink', 'caption', 'title'] });
+  });
+
+  it('drops the order when the layers end up where they started', () => {
+    const there = diff(makeScene([title, caption]), makeScene([caption, title]));
+    const back = diff(makeScene([caption, title]), makeScene([title, caption]));
+    expect(mergeScenePatches(there, back)).toBeNull();
+  });
+
+  it('merges a stroke drawn point by point into one added stroke', () => {
+    const earlier = [makeStroke('a'), makeStroke('b')];
+    const steps = [[0, 0], [0, 0, 5, 5], [0, 0, 5, 5, 9, 9]].map((points) =>
+      makeScene([{ ...ink, strokes: [...earlier, makeStroke('new', points)] }])
+    );
+    const merged = expectMerged([makeScene([{ ...ink, strokes: earlier }]), ...steps]);
+
+    expect(merged.layers).toEqual([
+      {
+        op: 'update',
+        id: 'ink',
+        keys: [],
+        before: {},
+        after: {},
+        strokes: { removed: [], added: [{ index: 2, item: makeStroke('new', [0, 0, 5, 5, 9, 9]) }] },
+      },
+    ]);
+  });
+
+  it('re-indexes stroke edits across both patches', () => {
+    expectMerged([
+      makeScene([{ ...ink, strokes: [makeStroke('a'), makeStroke('b'), makeStroke('c')] }]),
+      makeScene([{ ...ink, strokes: [makeStroke('a'), makeStroke('c'), makeStroke('d')] }]),
+      makeScene([{ ...ink, strokes: [makeStroke('e'), makeStroke('c'), makeStroke('d', [2, 2]), makeStroke('f')] }]),
+    ]);
+  });
+});
+
+describe('pushHistoryEntry', () => {
+  const patch = (fontSize: number) => diff(makeScene([title]), makeScene([{ ...title, fontSize }]));
+
+  it('keeps edits without a coalesce key as separate entries', () => {
+    const stack = pushHistoryEntry([], 'Edit', patch(50), undefined, 0);
+    expect(pushHistoryEntry(stack, 'Edit', patch(52), undefined, 10)).toHaveLength(2);
+  });
+
+  it('merges keyed edits only inside the coalesce window', () => {
+    const key = { key: 'edit:title:fontSize' };
+    const stack = pushHistoryEntry([], 'Edit', patch(50), key, 0);
+
+    expect(pushHistoryEntry(stack, 'Edit', patch(52), key, HISTORY_COALESCE_MS)).toHaveLength(1);
+    expect(pushHistoryEntry(stack, 'Edit', patch(52), key, HISTORY_COALESCE_MS + 1)).toHaveLength(2);
+  });
+
+  it('merges a gesture however long it pauses', () => {
+    const gesture = { key: 'drag-1', gesture: true };
+    const stack = pushHistoryEntry([], 'Transform', patch(50), gesture, 0);
+    const merged = pushHistoryEntry(stack, 'Transform', patch(52), gesture, 60_000);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].timestamp).toBe(60_000);
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Patch-based undo/redo: diff a scene before and after an edit, apply a
+ * patch in either direction, and merge consecutive edits (drags, nudges,
+ * slider scrubs) into a single history entry.
+ *
+ * Patches share unchanged values with the scene they were taken from; store
+ * state is never mutated in place, so no copies are needed.
+ */
+
+import type { AnnotationStroke, Layer, Scene } from '../types/scene';
+import type {
+  FieldPatch,
+  HistoryCoalesce,
+  HistoryEntry,
+  LayerPatch,
+  ListPatch,
+  ScenePatch,
+} from '../types/history';
+import { createId } from '../utils/id';
+
+/** Undo entries kept per scene; older ones are dropped */
+export const MAX_HISTORY_ENTRIES = 200;
+
+/** Non-gesture edits with the same coalesce key merge while they come this close together */
+export const HISTORY_COALESCE_MS = 1000;
+
+type Fields = Record<string, unknown>;
+type LayerUpdate = Extract<LayerPatch, { op: 'update' }>;
+
+function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => isEqualValue(value, b[index]));
+  }
+  const aFields = a as Fields;
+  const bFields = b as Fields;
+  const keys = Object.keys(aFields);
+  if (keys.length !== Object.keys(bFields).length) return false;
+  return keys.every((key) => key in bFields && isEqualValue(aFields[key], bFields[key]));
+}
+
+function diffFields<T extends object>(before: T, after: T, ignore: string[] = []): FieldPatch<T> | null {
+  const beforeFields = before as Fields;
+  const afterFields = after as Fields;
+  const keys = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]);
+  const patch: FieldPatch<T> = { keys: [], before: {}, after: {} };
+  for (const key of keys) {
+    if (ignore.includes(key)) continue;
+    const hadBefore = key in beforeFields && beforeFields[key] !== undefined;
+    const hasAfter = key in afterFields && afterFields[key] !== undefined;
+    if (hadBefore === hasAfter && isEqualValue(beforeFields[key], afterFields[key])) continue;
+    patch.keys.push(key);
+    if (hadBefore) (patch.before as Fields)[key] = beforeFields[key];
+    if (hasAfter) (patch.after as Fields)[key] = afterFields[key];
+  }
+  return patch.keys.length > 0 ? patch : null;
+}
+
+/**
+ * Set `keys` on `target` from `values`, removing keys that `values` lacks.
+ */
+function applyFields<T extends object>(target: T, keys: string[], values: Partial<T>): T {
+  const next = { ...target } as Fields;
+  const source = values as Fields;
+  for (const key of keys) {
+    if (key in source) {
+      next[key] = source[key];
+    } else {
+      delete next[key];
+    }
+  }
+  return next as T;
+}
+
+/**
+ * Merge two field patches for the same object, applied one after the other.
+ */
+function mergeFields<T extends object>(first: FieldPatch<T>, second: FieldPatch<T>): FieldPatch<T> | null {
+  const keys = new Set([...first.keys, ...second.keys]);
+  const before: Fields = {};
+  const after: Fields = {};
+  for (const key of keys) {
+    const beforeSource = (first.keys.includes(key) ? first.before : second.before) as Fields;
+    const afterSource = (second.keys.includes(key) ? second.after : first.after) as Fields;
+    if (key in beforeSource) before[key] = beforeSource[key];
+    if (key in afterSource) after[key] = afterSource[key];
+  }
+  return diffFields(before as T, after as T);
+}
+
+function sameOrder(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, index) => id === b[index]);
+}
+
+function sameItem<T>(a: T, b: T | undefined): boolean {
+  return b !== undefined && (a === b || isEqualValue(a, b));
+}
+
+/**
+ * Items that differ between two versions of an id-keyed list. If the items
+ * both versions share were reordered, every shared item counts as changed.
+ */
+function diffList<T extends { id: string }>(before: T[], after: T[]): ListPatch<T> | null {
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const afterById = new Map(after.map((item) => [item.id, item]));
+  const keptBefore = before.filter((item) => sameItem(item, afterById.get(item.id))).map((item) => item.id);
+  const keptAfter = after.filter((item) => sameItem(item, beforeById.get(item.id))).map((item) => item.id);
+  const kept = new Set(sameOrder(keptBefore, keptAfter) ? keptBefore : []);
+  const removed = before.flatMap((item, index) => (kept.has(item.id) ? [] : [{ index, item }]));
+  const added = after.flatMap((item, index) => (kept.has(item.id) ? [] : [{ index, item }]));
+  return removed.length > 0 || added.length > 0 ? { removed, added } : null;
+}
+
+function applyList<T extends { id: string }>(list: T[], patch: ListPatch<T>, forward: boolean): T[] {
+  const taken = new Set((forward ? patch.removed : patch.added).map(({ item }) => item.id));
+  const next = list.filter((item) => !taken.has(item.id));
+  for (const { index, item } of forward ? patch.added : patch.removed) next.splice(index, 0, item);
+  return next;
+}
+
+/** Where `index` lands once the items at `inserted` (ascending) are taken out */
+function indexWithout(index: number, inserted: number[]): number {
+  return index - inserted.filter((other) => other < index).length;
+}
+
+/** Where `index` lands once items are inserted at `inserted` (ascending) */
+function indexWith(index: number, inserted: number[]): number {
+  let next = index;
+  for (const other of inserted) {
+    if (other <= next) next += 1;
+  }
+  return next;
+}
+
+/**
+ * Merge two list patches applied one after the other. Items the first adds
+ * and the second removes drop out; the rest are re-indexed against the list
+ * before the first and after the second.
+ */
+function mergeLists<T>(first: ListPatch<T>, second: ListPatch<T>): ListPatch<T> | null {
+  const firstRemoved = first.removed.map(({ index }) => index);
+  const firstAdded = first.added.map(({ index }) => index);
+  const secondRemoved = second.removed.map(({ index }) => index);
+  const secondAdded = second.added.map(({ index }) => index);
+  const byIndex = (a: { index: number }, b: { index: number }) => a.index - b.index;
+  const removed = [
+    ...first.removed,
+    ...second.removed
+      .filter(({ index }) => !firstAdded.includes(index))
+      .map(({ index, item }) => ({ index: indexWith(indexWithout(index, firstAdded), firstRemoved), item })),
+  ].sort(byIndex);
+  const added = [
+    ...second.added,
+    ...first.added
+      .filter(({ index }) => !secondRemoved.includes(index))
+      .map(({ index, item }) => ({ index: indexWith(indexWithout(index, secondRemoved), secondAdded), item })),
+  ].sort(byIndex);
+  return removed.length > 0 || added.length > 0 ? { removed, added } : null;
+}
+
+function toLayerUpdate(
+  id: string,
+  fields: FieldPatch<Layer> | null,
+  strokes: ListPatch<AnnotationStroke> | null | undefined
+): LayerUpdate | null {
+  if (!fields && !strokes) return null;
+  return { op: 'update', id, ...(fields ?? { keys: [], before: {}, after: {} }), ...(strokes ? { strokes } : {}) };
+}
+
+/**
+ * What changed on a layer. Annotation strokes are diffed one by one, so a
+ * new stroke does not copy every earlier one into history.
+ */
+function diffLayer(before: Layer, after: Layer): LayerUpdate | null {
+  if (before.type === 'annotation' && after.type === 'annotation') {
+    const strokes = diffList(before.strokes, after.strokes);
+    return toLayerUpdate(after.id, diffFields<Layer>(before, after, ['strokes']), strokes);
+  }
+  return toLayerUpdate(after.id, diffFields<Layer>(before, after), null);
+}
+
+function applyLayerUpdate(layer: Layer, patch: LayerUpdate, forward: boolean): Layer {
+  const next = applyFields(layer, patch.keys, forward ? patch.after : patch.before);
+  return patch.strokes && next.type === 'annotation'
+    ? { ...next, strokes: applyList(next.strokes, patch.strokes, forward) }
+    : next;
+}
+
+/**
+ * What changed between two versions of a scene, or null when nothing did.
+ */
+export function diffScenes(before: Scene, after: Scene): ScenePatch | null {
+  const beforeLayers = new Map(before.layers.map((layer) => [layer.id, layer]));
+  const afterIds = new Set(after.layers.map((layer) => layer.id));
+  const layers: LayerPatch[] = [];
+
+  for (const layer of after.layers) {
+    const previous = beforeLayers.get(layer.id);
+    if (!previous) {
+      layers.push({ op: 'add', layer });
+    } else if (previous !== layer) {
+      const update = diffLayer(previous, layer);
+      if (update) layers.push(update);
+    }
+  }
+  for (const layer of before.layers) {
+    if (!afterIds.has(layer.id)) layers.push({ op: 'remove', layer });
+  }
+
+  const patch: ScenePatch = { layers };
+  const beforeOrder = before.layers.map((layer) => layer.id);
+  const afterOrder = after.layers.map((layer) => layer.id);
+  if (!sameOrder(beforeOrder, afterOrder)) {
+    patch.order = { before: beforeOrder, after: afterOrder };
+  }
+  const sceneFields = diffFields<Scene>(before, after, ['layers']);
+  if (sceneFields) patch.scene = sceneFields;
+
+  return layers.length > 0 || patch.order || patch.scene ? patch : null;
+}
+
+/**
+ * Apply a patch to a scene: `undo` restores the before side, `redo` the
+ * after side. Layers the patch refers to but the scene lacks are skipped.
+ */
+export function applyScenePatch(scene: Scene, patch: ScenePatch, direction: 'undo' | 'redo'): Scene {
+  const forward = direction === 'redo';
+  const layers = new Map(scene.layers.map((layer) => [layer.id, layer]));
+
+  for (const entry of patch.layers) {
+    if (entry.op === 'update') {
+      const layer = layers.get(entry.id);
+      if (layer) layers.set(entry.id, applyLayerUpdate(layer, entry, forward));
+    } else if ((entry.op === 'add') === forward) {
+      layers.set(entry.layer.id, entry.layer);
+    } else {
+      layers.delete(entry.layer.id);
+    }
+  }
+
+  const targetOrder = patch.order ? (forward ? patch.order.after : patch.order.before) : null;
+  const orderedIds = targetOrder ?? scene.layers.map((layer) => layer.id);
+  const ordered: Layer[] = [];
+  for (const id of orderedIds) {
+    const layer = layers.get(id);
+    if (!layer) continue;
+    ordered.push(layer);
+    layers.delete(id);
+  }
+  // Anything the order did not mention (e.g. edits made outside history) stays on top.
+  ordered.push(...layers.values());
+
+  const next: Scene = patch.scene
+    ? applyFields(scene, patch.scene.keys, forward ? patch.scene.after : patch.scene.before)
+    : { ...scene };
+  next.layers = ordered;
+  return next;
+}
+
+function mergeLayerPatches(first: LayerPatch, second: LayerPatch): LayerPatch | null {
+  if (first.op === 'add') {
+    if (second.op === 'remove') return null;
+    if (second.op === 'update') {
+      return { op: 'add', layer: applyLayerUpdate(first.layer, second, true) };
+    }
+  } else if (first.op === 'update') {
+    if (second.op === 'update') {
+      const strokes = first.strokes && second.strokes
+        ? mergeLists(first.strokes, second.strokes)
+        : first.strokes ?? second.strokes;
+      return toLayerUpdate(first.id, mergeFields(first, second), strokes);
+    }
+    if (second.op === 'remove') {
+      return { op: 'remove', layer: applyLayerUpdate(second.layer, first, false) };
+    }
+  } else if (second.op === 'add') {
+    return diffLayer(first.layer, second.layer);
+  }
+  return second;
+}
+
+function getPatchLayerId(patch: LayerPatch): string {
+  return patch.op === 'update' ? patch.id : patch.layer.id;
+}
+
+/**
+ * One patch with the effect of applying `first` then `second`, or null when
+ * together they change nothing.
+ */
+export function mergeScenePatches(first: ScenePatch, second: ScenePatch): ScenePatch | null {
+  const merged = new Map<string, LayerPatch | null>();
+  for (const entry of first.layers) merged.set(getPatchLayerId(entry), entry);
+  for (const entry of second.layers) {
+    const id = getPatchLayerId(entry);
+    const previous = merged.get(id);
+    merged.set(id, previous ? mergeLayerPatches(previous, entry) : entry);
+  }
+  const layers = Array.from(merged.values()).filter((entry): entry is LayerPatch => entry !== null);
+
+  const patch: ScenePatch = { layers };
+  const orderBefore = first.order?.before ?? second.order?.before;
+  const orderAfter = second.order?.after ?? first.order?.after;
+  if (orderBefore && orderAfter && !sameOrder(orderBefore, orderAfter)) {
+    patch.order = { before: orderBefore, after: orderAfter };
+  }
+  const sceneFields = first.scene && second.scene
+    ? mergeFields(first.scene, second.scene)
+    : first.scene ?? second.scene;
+  if (sceneFields) patch.scene = sceneFields;
+
+  return layers.length > 0 || patch.order || patch.scene ? patch : null;
+}
+
+/**
+ * Push a patch onto an undo stack, merging it into the newest entry when
+ * both share a coalesce key and the edit is part of the same gesture or
+ * arrives within `HISTORY_COALESCE_MS`.
+ */
+export function pushHistoryEntry(
+  stack: HistoryEntry[],
+  label: string,
+  patch: ScenePatch,
+  coalesce?: HistoryCoalesce,
+  now = Date.now()
+): HistoryEntry[] {
+  const last = stack[stack.length - 1];
+  const coalesceKey = coalesce?.key;
+  const inWindow = coalesce?.gesture || (last && now - last.timestamp <= HISTORY_COALESCE_MS);
+  if (coalesceKey && last?.coalesceKey === coalesceKey && inWindow) {
+    const merged = mergeScenePatches(last.patch, patch);
+    const rest = stack.slice(0, -1);
+    return merged ? [...rest, { ...last, patch: merged, timestamp: now }] : rest;
+  }
+  const entry: HistoryEntry = { id: createId('history'), label, patch, timestamp: now, coalesceKey };
+  return [...stack, entry].slice(-MAX_HISTORY_ENTRIES);
+}
+
+/**
+ * History label for an edit to one or more layers.
+ */
+export function describeLayerChange(layers: Layer[], changes: Partial<Layer>): string {
+  const target = layers.length === 1 ? layers[0].name || 'layer' : `${layers.length} layers`;
+  const keys = Object.keys(changes);
+  if (keys.length === 1) {
+    switch (keys[0]) {
+      case 'transform':
+        return `Transform ${target}`;
+      case 'visible':
+        return `${changes.visible ? 'Show' : 'Hide'} ${target}`;
+      case 'locked':
+        return `${changes.locked ? 'Lock' : 'Unlock'} ${target}`;
+      case 'name':
+        return `Rename ${layers.length === 1 ? 'layer' : target}`;
+      default:
+        break;
+    }
+  }
+  if (keys.includes('content')) return `Edit text in ${target}`;
+  return `Edit ${target}`;
+}
@@ -0,0 +1,96 @@
+/**
+ * Output profiles: the scene size, capture frame rate and encoder bitrate a
+ * class is produced at, chosen together so they always match.
+ *
+ * A profile belongs to the class (scene collection). Switching it resizes
+ * every scene in the class and re-lays out their layers proportionally.
+ */
+
+import type { Layer, OutputProfileId, Scene, Transform, TransformKeyframes } from '../types/scene';
+
+export interface OutputProfile {
+  id: OutputProfileId;
+  label: string;
+  /** Scene size in pixels */
+  width: number;
+  height: number;
+  /** Canvas capture and program render rate */
+  fps: number;
+  /** Encoder ceiling for viewers and recordings, in bits per second */
+  videoBitrate: number;
+}
+
+type CanvasSize = Pick<Scene, 'width' | 'height'>;
+
+export const OUTPUT_PROFILES: readonly OutputProfile[] = [
+  { id: '720p30', label: '720p · 30 fps', width: 1280, height: 720, fps: 30, videoBitrate: 2_500_000 },
+  { id: '1080p30', label: '1080p · 30 fps', width: 1920, height: 1080, fps: 30, videoBitrate: 4_500_000 },
+  { id: '1080p60', label: '1080p · 60 fps', width: 1920, height: 1080, fps: 60, videoBitrate: 7_500_000 },
+  { id: 'vertical', label: 'Vertical 1080×1920', width: 1080, height: 1920, fps: 30, videoBitrate: 4_500_000 },
+  { id: 'projector', label: '4:3 projector', width: 1024, height: 768, fps: 30, videoBitrate: 2_000_000 },
+];
+
+/** Matches the historical 1920×1080 scenes captured at 30 fps */
+export const DEFAULT_OUTPUT_PROFILE_ID: OutputProfileId = '1080p30';
+
+/**
+ * Profile by id, falling back to the default for classes saved before
+ * profiles existed.
+ */
+export function getOutputProfile(id: OutputProfileId | null | undefined): OutputProfile {
+  const fallback = OUTPUT_PROFILES.find((profile) => profile.id === DEFAULT_OUTPUT_PROFILE_ID) ?? OUTPUT_PROFILES[0];
+  return OUTPUT_PROFILES.find((profile) => profile.id === id) ?? fallback;
+}
+
+function scaleKeyframes(keyframes: TransformKeyframes, scaleX: number, scaleY: number, sizeScale: number) {
+  const next: TransformKeyframes = { ...keyframes };
+  if (keyframes.position) {
+    next.position = keyframes.position.map((key) => ({
+      ...key,
+      value: { x: key.value.x * scaleX, y: key.value.y * scaleY },
+    }));
+  }
+  if (keyframes.scale) {
+    next.scale = keyframes.scale.map((key) => ({
+      ...key,
+      value: { x: key.value.x * sizeScale, y: key.value.y * sizeScale },
+    }));
+  }
+  return next;
+}
+
+/**
+ * `transform` moved from a canvas of size `from` onto one of size `to`.
+ * Positions (and keyframed positions) follow the canvas on each axis; sizes
+ * scale uniformly by the smaller factor so nothing is stretched, which keeps
+ * layers inside the frame when the aspect ratio changes.
+ */
+export function rescaleTransform(transform: Transform, from: CanvasSize, to: CanvasSize): Transform {
+  const scaleX = to.width / (from.width || to.width);
+  const scaleY = to.height / (from.height || to.height);
+  const sizeScale = Math.min(scaleX, scaleY);
+  const { pos, scale, keyframes } = transform;
+  return {
+    ...transform,
+    pos: { x: pos.x * scaleX, y: pos.y * scaleY },
+    scale: { x: scale.x * sizeScale, y: scale.y * sizeScale },
+    ...(keyframes ? { keyframes: scaleKeyframes(keyframes, scaleX, scaleY, sizeScale) } : {}),
+  };
+}
+
+/**
+ * `scene` resized to `width`×`height`, its layers rescaled with
+ * `rescaleTransform`.
+ */
+export function resizeSceneLayout(scene: Scene, width: number, height: number): Scene {
+  if (scene.width === width && scene.height === height) return scene;
+  const size = { width, height };
+  return {
+    ...scene,
+    width,
+    height,
+    layers: scene.layers.map(
+      (layer): Layer => ({ ...layer, transform: rescaleTransform(layer.transform, scene, size) })
+    ),
+  };
+}
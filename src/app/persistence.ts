@@ -7,7 +7,12 @@
  */
 
 import Dexie, { type Table } from 'dexie';
-import type { Scene } from '../types/scene';
+import type { Layer, Scene, SceneCollection } from '../types/scene';
+import type { EmbeddedAsset, StoredAsset } from '../types/assets';
+import type { LayerTemplate } from '../types/template';
+import type { SceneHistory } from '../types/history';
+import { createId } from '../utils/id';
+import { CURRENT_SCENE_SCHEMA_VERSION, upgradeScene, upgradeTemplate } from './sceneSchema';
 
 /**
  * Storage key prefix for scenes.
@@ -15,6 +20,16 @@ import type { Scene } from '../types/scene';
 const SCENES_KEY_PREFIX = 'classroom-compositor:scenes:';
 const SCENES_METADATA_KEY = 'classroom-compositor:scenes-metadata';
 const LEGACY_MIGRATION_FLAG = 'classroom-compositor:migrated-v1';
+const COLLECTIONS_KEY = 'classroom-compositor:collections';
+const INLINE_ASSET_MIGRATION_FLAG = 'classroom-compositor:migrated-assets-v1';
+const TEMPLATES_KEY = 'classroom-compositor:templates';
+const HISTORY_KEY_PREFIX = 'classroom-compositor:history:';
+
+/**
+ * Unreferenced assets younger than this survive garbage collection, so a
+ * freshly uploaded file is not collected before its scene autosaves.
+ */
+const ASSET_GC_GRACE_MS = 10 * 60 * 1000;
 
 /**
  * Metadata about saved scenes (for listing/loading most recent).
@@ -29,17 +44,89 @@ interface SceneRecord extends SceneMetadata {
   data: Scene;
 }
 
+interface CollectionRecord extends SceneCollection {
+  updatedAt: number;
+}
+
+/**
+ * A program recording whose chunks are (or were being) written to IndexedDB.
+ * Entries left behind by a crashed tab can be recovered on the next load.
+ */
+export interface RecordingMetadata {
+  id: string;
+  mimeType: string;
+  /** Epoch milliseconds */
+  startedAt: number;
+  updatedAt: number;
+  /** Recorded time, excluding pauses */
+  durationMs: number;
+  chunkCount: number;
+}
+
+interface RecordingChunkRecord {
+  recordingId: string;
+  index: number;
+  blob: Blob;
+}
+
+interface AssetRecord extends StoredAsset {
+  /** Number of saved scenes, templates and scene histories referencing this asset */
+  refCount: number;
+  createdAt: number;
+  /** Last time the blob was stored or deduplicated against */
+  touchedAt: number;
+}
+
 /**
  * Dexie database schema.
  */
 class ClassroomCompositorDB extends Dexie {
   scenes!: Table<SceneRecord, string>;
+  collections!: Table<CollectionRecord, string>;
+  assets!: Table<AssetRecord, string>;
+  recordings!: Table<RecordingMetadata, string>;
+  recordingChunks!: Table<RecordingChunkRecord, [string, number]>;
+  templates!: Table<LayerTemplate, string>;
+  history!: Table<SceneHistory, string>;
 
   constructor() {
     super('classroom-compositor');
     this.version(1).stores({
       scenes: '&id, updatedAt, name',
     });
+    this.version(2).stores({
+      scenes: '&id, updatedAt, name',
+      collections: '&id, updatedAt, name',
+    });
+    this.version(3).stores({
+      scenes: '&id, updatedAt, name',
+      collections: '&id, updatedAt, name',
+      assets: '&id, sha256, refCount',
+    });
+    this.version(4).stores({
+      scenes: '&id, updatedAt, name',
+      collections: '&id, updatedAt, name',
+      assets: '&id, sha256, refCount',
+      recordings: '&id, updatedAt',
+      recordingChunks: '&[recordingId+index], recordingId',
+    });
+    this.version(5).stores({
+      scenes: '&id, updatedAt, name',
+      collections: '&id, updatedAt, name',
+      assets: '&id, sha256, refCount',
+      recordings: '&id, updatedAt',
+      recordingChunks: '&[recordingId+index], recordingId',
+      templates: '&id, updatedAt, name',
+    });
+    this.version(6).stores({
+      scenes: '&id, updatedAt, name',
+      collections: '&id, updatedAt, name',
+      assets: '&id, sha256, refCount',
+      recordings: '&id, updatedAt',
+      recordingChunks: '&[recordingId+index], recordingId',
+      templates: '&id, updatedAt, name',
+      history: '&sceneId, updatedAt',
+    });
   }
 }
 
@@ -63,9 +150,88 @@ export interface PersistenceAdapter {
   saveScene: (scene: Scene) => Promise<void>;
 
   /**
-   * Delete a scene.
+   * Delete a scene and its undo history.
    */
   deleteScene: (id: string) => Promise<void>;
+
+  /**
+   * Load a scene's undo/redo history. Returns null when none was saved or it
+   * was written by an older scene schema.
+   */
+  loadSceneHistory: (sceneId: string) => Promise<SceneHistory | null>;
+
+  /**
+   * Save a scene's undo/redo history. Assets that undo could bring back are
+   * kept alive like a scene's.
+   */
+  saveSceneHistory: (history: SceneHistory) => Promise<void>;
+
+  /**
+   * Load all scene collections ("classes"), most recently updated first.
+   */
+  loadCollections: () => Promise<SceneCollection[]>;
+
+  /**
+   * Save a scene collection.
+   */
+  saveCollection: (collection: SceneCollection) => Promise<void>;
+
+  /**
+   * Delete a scene collection (its scenes are left untouched).
+   */
+  deleteCollection: (id: string) => Promise<void>;
+
+  /**
+   * Load the user's layer templates, most recently updated first.
+   */
+  loadTemplates: () => Promise<LayerTemplate[]>;
+
+  /**
+   * Save a layer template. Assets it references are kept alive like a
+   * scene's.
+   */
+  saveTemplate: (template: LayerTemplate) => Promise<void>;
+
+  /**
+   * Delete a layer template.
+   */
+  deleteTemplate: (id: string) => Promise<void>;
+
+  /**
+   * Store a blob in the asset store, reusing an existing asset with the same
+   * SHA256 hash.
+   */
+  storeAsset: (blob: Blob) => Promise<EmbeddedAsset>;
+
+  /**
+   * Load an asset blob by ID.
+   */
+  loadAsset: (id: string) => Promise<StoredAsset | null>;
+
+  /**
+   * Delete unreferenced assets. Returns the number removed.
+   */
+  collectAssetGarbage: () => Promise<number>;
+
+  /**
+   * Append a recorded chunk and update the recording's metadata.
+   */
+  saveRecordingChunk: (recording: RecordingMetadata, index: number, blob: Blob) => Promise<void>;
+
+  /**
+   * Load a recording's chunks in order.
+   */
+  loadRecordingChunks: (id: string) => Promise<Blob[]>;
+
+  /**
+   * List recordings that have not been finalized, most recent first.
+   */
+  listRecordings: () => Promise<RecordingMetadata[]>;
+
+  /**
+   * Delete a recording and its chunks.
+   */
+  deleteRecording: (id: string) => Promise<void>;
 }
 
 /**
@@ -87,7 +253,7 @@ class LocalStorageAdapter implements PersistenceAdapter {
     try {
       const data = localStorage.getItem(`${SCENES_KEY_PREFIX}${id}`);
       if (!data) return null;
-      return JSON.parse(data) as Scene;
+      return upgradeScene(JSON.parse(data));
     } catch (error) {
       console.error(`Failed to load scene ${id}:`, error);
       return null;
@@ -103,7 +269,7 @@ class LocalStorageAdapter implements PersistenceAdapter {
       // Save the scene data
       localStorage.setItem(
         `${SCENES_KEY_PREFIX}${scene.id}`,
-        JSON.stringify(scene)
+        JSON.stringify({ ...scene, schemaVersion: CURRENT_SCENE_SCHEMA_VERSION })
       );
 
       // Update metadata
@@ -135,6 +301,7 @@ class LocalStorageAdapter implements PersistenceAdapter {
     try {
       // Remove scene data
       localStorage.removeItem(`${SCENES_KEY_PREFIX}${id}`);
+      localStorage.removeItem(`${HISTORY_KEY_PREFIX}${id}`);
 
       // Update metadata
       const metadata = await this.loadScenesMetadata();
@@ -145,6 +312,131 @@ class LocalStorageAdapter implements PersistenceAdapter {
       throw error;
     }
   }
+
+  async loadSceneHistory(sceneId: string): Promise<SceneHistory | null> {
+    try {
+      const data = localStorage.getItem(`${HISTORY_KEY_PREFIX}${sceneId}`);
+      if (!data) return null;
+      return toSceneHistory(JSON.parse(data) as SceneHistory);
+    } catch (error) {
+      console.error(`Failed to load history for scene ${sceneId}:`, error);
+      return null;
+    }
+  }
+
+  async saveSceneHistory(history: SceneHistory): Promise<void> {
+    try {
+      localStorage.setItem(`${HISTORY_KEY_PREFIX}${history.sceneId}`, JSON.stringify(history));
+    } catch (error) {
+      console.error(`Failed to save history for scene ${history.sceneId}:`, error);
+      throw error;
+    }
+  }
+
+  async loadCollections(): Promise<SceneCollection[]> {
+    try {
+      const data = localStorage.getItem(COLLECTIONS_KEY);
+      if (!data) return [];
+      const records = JSON.parse(data) as CollectionRecord[];
+      return records.map(toCollection);
+    } catch (error) {
+      console.error('Failed to load collections:', error);
+      return [];
+    }
+  }
+
+  async saveCollection(collection: SceneCollection): Promise<void> {
+    try {
+      const data = localStorage.getItem(COLLECTIONS_KEY);
+      const records = data ? (JSON.parse(data) as CollectionRecord[]) : [];
+      const entry: CollectionRecord = { ...cloneCollection(collection), updatedAt: Date.now() };
+      const filtered = records.filter((record) => record.id !== collection.id);
+      filtered.unshift(entry);
+      localStorage.setItem(COLLECTIONS_KEY, JSON.stringify(filtered));
+    } catch (error) {
+      console.error(`Failed to save collection ${collection.id}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    try {
+      const data = localStorage.getItem(COLLECTIONS_KEY);
+      if (!data) return;
+      const records = JSON.parse(data) as CollectionRecord[];
+      localStorage.setItem(
+        COLLECTIONS_KEY,
+        JSON.stringify(records.filter((record) => record.id !== id))
+      );
+    } catch (error) {
+      console.error(`Failed to delete collection ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async loadTemplates(): Promise<LayerTemplate[]> {
+    try {
+      const data = localStorage.getItem(TEMPLATES_KEY);
+      if (!data) return [];
+      return upgradeTemplates(JSON.parse(data) as unknown[]);
+    } catch (error) {
+      console.error('Failed to load templates:', error);
+      return [];
+    }
+  }
+
+  async saveTemplate(template: LayerTemplate): Promise<void> {
+    try {
+      const data = localStorage.getItem(TEMPLATES_KEY);
+      const records = data ? (JSON.parse(data) as LayerTemplate[]) : [];
+      const filtered = records.filter((record) => record.id !== template.id);
+      filtered.unshift({ ...cloneTemplate(template), updatedAt: Date.now() });
+      localStorage.setItem(TEMPLATES_KEY, JSON.stringify(filtered));
+    } catch (error) {
+      console.error(`Failed to save template ${template.id}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    try {
+      const data = localStorage.getItem(TEMPLATES_KEY);
+      if (!data) return;
+      const records = JSON.parse(data) as LayerTemplate[];
+      localStorage.setItem(TEMPLATES_KEY, JSON.stringify(records.filter((record) => record.id !== id)));
+    } catch (error) {
+      console.error(`Failed to delete template ${id}:`, error);
+      throw error;
+    }
+  }
+
+  // Blobs are too large for localStorage quotas; callers fall back to inline data.
+  async storeAsset(): Promise<EmbeddedAsset> {
+    throw new Error('Asset store requires IndexedDB');
+  }
+
+  async loadAsset(): Promise<StoredAsset | null> {
+    return null;
+  }
+
+  async collectAssetGarbage(): Promise<number> {
+    return 0;
+  }
+
+  // Recordings stay in memory when IndexedDB is unavailable.
+  async saveRecordingChunk(): Promise<void> {
+    throw new Error('Recording storage requires IndexedDB');
+  }
+
+  async loadRecordingChunks(): Promise<Blob[]> {
+    return [];
+  }
+
+  async listRecordings(): Promise<RecordingMetadata[]> {
+    return [];
+  }
+
+  async deleteRecording(): Promise<void> {}
 }
 
 /**
@@ -159,6 +451,7 @@ class DexieAdapter implements PersistenceAdapter {
     this.db = new ClassroomCompositorDB();
     this.ready = this.db.open().then(async () => {
       await this.migrateLegacyData(this.db);
+      await this.migrateInlineImages(this.db);
       return this.db;
     });
   }
@@ -224,6 +517,114 @@ class DexieAdapter implements PersistenceAdapter {
     markMigrated();
   }
 
+  /**
+   * Replace image `dataUri`s inlined into scene records with asset references.
+   */
+  private async migrateInlineImages(db: ClassroomCompositorDB): Promise<void> {
+    try {
+      if (typeof localStorage !== 'undefined' && localStorage.getItem(INLINE_ASSET_MIGRATION_FLAG) === 'true') {
+        return;
+      }
+    } catch (error) {
+      console.warn('DexieAdapter: unable to read asset migration flag', error);
+    }
+
+    const records = await db.scenes.toArray();
+    for (const record of records) {
+      const scene = record.data;
+      // Runs before schema validation, so tolerate malformed records.
+      if (!Array.isArray(scene?.layers)) continue;
+      let changed = false;
+      for (const layer of scene.layers) {
+        if (layer.type !== 'image' || !layer.dataUri) continue;
+        try {
+          const blob = await (await fetch(layer.dataUri)).blob();
+          const asset = await this.putAsset(db, blob);
+          layer.assetId = asset.blobId;
+          delete layer.dataUri;
+          changed = true;
+        } catch (error) {
+          console.warn(`DexieAdapter: failed to migrate image ${layer.id}`, error);
+        }
+      }
+      if (changed) {
+        // Only the image layers were rewritten; the rest still awaits upgradeScene.
+        await this.writeScene(db, scene, record.updatedAt, true);
+      }
+    }
+
+    try {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(INLINE_ASSET_MIGRATION_FLAG, 'true');
+      }
+    } catch (error) {
+      console.warn('DexieAdapter: unable to set asset migration flag', error);
+    }
+  }
+
+  private async putAsset(db: ClassroomCompositorDB, blob: Blob): Promise<EmbeddedAsset> {
+    // Hash outside the transaction: it would commit while awaiting crypto.
+    const sha256 = await hashBlob(blob);
+    const now = Date.now();
+    // Lookup and insert in one transaction so concurrent uploads of the same
+    // file share a row.
+    const blobId = await db.transaction('rw', db.assets, async () => {
+      const existing = await db.assets.where('sha256').equals(sha256).first();
+      if (existing) {
+        await db.assets.update(existing.id, { touchedAt: now });
+        return existing.id;
+      }
+      const id = createId('asset');
+      await db.assets.add({
+        id,
+        sha256,
+        type: blob.type,
+        size: blob.size,
+        blob,
+        refCount: 0,
+        createdAt: now,
+        touchedAt: now,
+      });
+      return id;
+    });
+    return { kind: 'embedded', blobId, sha256 };
+  }
+
+  /**
+   * Save a scene record and move asset reference counts from the previous
+   * version of the scene to the new one. Records are stamped with the current
+   * schema version unless `keepSchemaVersion` is set (records not yet
+   * upgraded, which must still run their migrations on load).
+   */
+  private async writeScene(
+    db: ClassroomCompositorDB,
+    scene: Scene,
+    updatedAt = Date.now(),
+    keepSchemaVersion = false
+  ): Promise<void> {
+    if (!scene.id) {
+      throw new Error('Scene must have an ID to save');
+    }
+    const sceneId = scene.id;
+    const data = cloneScene(scene);
+    if (!keepSchemaVersion) data.schemaVersion = CURRENT_SCENE_SCHEMA_VERSION;
+    await db.transaction('rw', db.scenes, db.assets, async () => {
+      const previous = await db.scenes.get(sceneId);
+      const before = collectAssetIds(previous?.data ?? null);
+      const after = collectAssetIds(scene);
+      const added = [...after].filter((id) => !before.has(id));
+      const removed = [...before].filter((id) => !after.has(id));
+      await adjustRefCounts(db, added, 1);
+      await adjustRefCounts(db, removed, -1);
+      await db.scenes.put({
+        id: sceneId,
+        name: scene.name || 'Untitled Scene',
+        updatedAt,
+        data,
+      });
+    });
+  }
+
   async loadScenesMetadata(): Promise<SceneMetadata[]> {
     const db = await this.getDB();
     const rows = await db.scenes.orderBy('updatedAt').reverse().toArray();
@@ -233,7 +634,13 @@ class DexieAdapter implements PersistenceAdapter {
   async loadScene(id: string): Promise<Scene | null> {
     const db = await this.getDB();
     const record = await db.scenes.get(id);
-    return record ? cloneScene(record.data) : null;
+    if (!record) return null;
+    try {
+      return upgradeScene(cloneScene(record.data));
+    } catch (error) {
+      console.error(`DexieAdapter: unable to load scene ${id}`, error);
+      return null;
+    }
   }
 
   async saveScene(scene: Scene): Promise<void> {
@@ -241,19 +648,137 @@ class DexieAdapter implements PersistenceAdapter {
       throw new Error('Scene must have an ID to save');
     }
     const db = await this.getDB();
-    const name = scene.name || 'Untitled Scene';
-    const entry: SceneRecord = {
-      id: scene.id,
-      name,
-      updatedAt: Date.now(),
-      data: cloneScene(scene),
-    };
-    await db.scenes.put(entry);
+    await this.writeScene(db, scene);
   }
 
   async deleteScene(id: string): Promise<void> {
     const db = await this.getDB();
-    await db.scenes.delete(id);
+    await db.transaction('rw', db.scenes, db.history, db.assets, async () => {
+      const record = await db.scenes.get(id);
+      if (record) {
+        await adjustRefCounts(db, [...collectAssetIds(record.data)], -1);
+      }
+      const history = await db.history.get(id);
+      if (history) {
+        await adjustRefCounts(db, [...collectHistoryAssetIds(history)], -1);
+      }
+      await db.scenes.delete(id);
+      await db.history.delete(id);
+    });
+    await this.collectAssetGarbage();
+  }
+
+  async loadSceneHistory(sceneId: string): Promise<SceneHistory | null> {
+    const db = await this.getDB();
+    const record = await db.history.get(sceneId);
+    return record ? toSceneHistory(record) : null;
+  }
+
+  async saveSceneHistory(history: SceneHistory): Promise<void> {
+    const db = await this.getDB();
+    await db.transaction('rw', db.history, db.assets, async () => {
+      const previous = await db.history.get(history.sceneId);
+      const before = previous ? collectHistoryAssetIds(previous) : new Set<string>();
+      const after = collectHistoryAssetIds(history);
+      await adjustRefCounts(db, [...after].filter((id) => !before.has(id)), 1);
+      await adjustRefCounts(db, [...before].filter((id) => !after.has(id)), -1);
+      await db.history.put(cloneSceneHistory(history));
+    });
+  }
+
+  async loadCollections(): Promise<SceneCollection[]> {
+    const db = await this.getDB();
+    const rows = await db.collections.orderBy('updatedAt').reverse().toArray();
+    return rows.map(toCollection);
+  }
+
+  async saveCollection(collection: SceneCollection): Promise<void> {
+    const db = await this.getDB();
+    await db.collections.put({ ...cloneCollection(collection), updatedAt: Date.now() });
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    const db = await this.getDB();
+    await db.collections.delete(id);
+  }
+
+  async loadTemplates(): Promise<LayerTemplate[]> {
+    const db = await this.getDB();
+    const rows = await db.templates.orderBy('updatedAt').reverse().toArray();
+    return upgradeTemplates(rows);
+  }
+
+  async saveTemplate(template: LayerTemplate): Promise<void> {
+    const db = await this.getDB();
+    await db.transaction('rw', db.templates, db.assets, async () => {
+      const previous = await db.templates.get(template.id);
+      const before = collectLayerAssetIds(previous?.layers ?? []);
+      const after = collectLayerAssetIds(template.layers);
+      await adjustRefCounts(db, [...after].filter((id) => !before.has(id)), 1);
+      await adjustRefCounts(db, [...before].filter((id) => !after.has(id)), -1);
+      await db.templates.put({ ...cloneTemplate(template), updatedAt: Date.now() });
+    });
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    const db = await this.getDB();
+    await db.transaction('rw', db.templates, db.assets, async () => {
+      const record = await db.templates.get(id);
+      if (record) {
+        await adjustRefCounts(db, [...collectLayerAssetIds(record.layers)], -1);
+      }
+      await db.templates.delete(id);
+    });
+    await this.collectAssetGarbage();
+  }
+
+  async storeAsset(blob: Blob): Promise<EmbeddedAsset> {
+    const db = await this.getDB();
+    return this.putAsset(db, blob);
+  }
+
+  async loadAsset(id: string): Promise<StoredAsset | null> {
+    const db = await this.getDB();
+    const record = await db.assets.get(id);
+    if (!record) return null;
+    return { id: record.id, sha256: record.sha256, type: record.type, size: record.size, blob: record.blob };
+  }
+
+  async collectAssetGarbage(): Promise<number> {
+    const db = await this.getDB();
+    const cutoff = Date.now() - ASSET_GC_GRACE_MS;
+    return db.assets
+      .where('refCount')
+      .belowOrEqual(0)
+      .filter((asset) => asset.touchedAt < cutoff)
+      .delete();
+  }
+
+  async saveRecordingChunk(recording: RecordingMetadata, index: number, blob: Blob): Promise<void> {
+    const db = await this.getDB();
+    await db.transaction('rw', db.recordings, db.recordingChunks, async () => {
+      await db.recordingChunks.put({ recordingId: recording.id, index, blob });
+      await db.recordings.put({ ...recording });
+    });
+  }
+
+  async loadRecordingChunks(id: string): Promise<Blob[]> {
+    const db = await this.getDB();
+    const chunks = await db.recordingChunks.where('recordingId').equals(id).sortBy('index');
+    return chunks.map((chunk) => chunk.blob);
+  }
+
+  async listRecordings(): Promise<RecordingMetadata[]> {
+    const db = await this.getDB();
+    return db.recordings.orderBy('updatedAt').reverse().toArray();
+  }
+
+  async deleteRecording(id: string): Promise<void> {
+    const db = await this.getDB();
+    await db.transaction('rw', db.recordings, db.recordingChunks, async () => {
+      await db.recordingChunks.where('recordingId').equals(id).delete();
+      await db.recordings.delete(id);
+    });
   }
 }
 
@@ -264,6 +789,121 @@ function cloneScene(scene: Scene): Scene {
   return JSON.parse(JSON.stringify(scene)) as Scene;
 }
 
+function cloneTemplate(template: LayerTemplate): LayerTemplate {
+  if (typeof structuredClone === 'function') {
+    return structuredClone(template);
+  }
+  return JSON.parse(JSON.stringify(template)) as LayerTemplate;
+}
+
+function cloneSceneHistory(history: SceneHistory): SceneHistory {
+  if (typeof structuredClone === 'function') {
+    return structuredClone(history);
+  }
+  return JSON.parse(JSON.stringify(history)) as SceneHistory;
+}
+
+/**
+ * Stored history, or null when its patches were written against another
+ * scene schema and can no longer be applied safely.
+ */
+function toSceneHistory(record: SceneHistory): SceneHistory | null {
+  if (record.schemaVersion !== CURRENT_SCENE_SCHEMA_VERSION) return null;
+  if (!Array.isArray(record.undo) || !Array.isArray(record.redo)) return null;
+  return cloneSceneHistory(record);
+}
+
+/**
+ * Upgrade stored templates, skipping (and logging) ones that cannot be read.
+ */
+function upgradeTemplates(records: unknown[]): LayerTemplate[] {
+  const templates: LayerTemplate[] = [];
+  for (const record of records) {
+    try {
+      templates.push(upgradeTemplate(record));
+    } catch (error) {
+      console.error('Persistence: unable to load template', error);
+    }
+  }
+  return templates;
+}
+
+/**
+ * Asset IDs referenced by a scene's layers (each counted once per scene).
+ */
+function collectAssetIds(scene: Scene | null): Set<string> {
+  return collectLayerAssetIds(scene?.layers ?? []);
+}
+
+/**
+ * Asset IDs referenced by a set of layers (each counted once).
+ */
+function collectLayerAssetIds(layers: Layer[]): Set<string> {
+  const ids = new Set<string>();
+  for (const layer of layers) {
+    if ((layer.type === 'image' && !layer.dataUri) || layer.type === 'video') {
+      ids.add(layer.assetId);
+    } else if (layer.type === 'text' && layer.fontAssetId) {
+      ids.add(layer.fontAssetId);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Asset IDs that undoing or redoing any entry of a history could restore.
+ */
+function collectHistoryAssetIds(history: SceneHistory): Set<string> {
+  const ids = new Set<string>();
+  for (const entry of [...history.undo, ...history.redo]) {
+    for (const patch of entry.patch.layers) {
+      if (patch.op !== 'update') {
+        collectLayerAssetIds([patch.layer]).forEach((id) => ids.add(id));
+        continue;
+      }
+      for (const fields of [patch.before, patch.after] as Array<Record<string, unknown>>) {
+        if (typeof fields.assetId === 'string') ids.add(fields.assetId);
+        if (typeof fields.fontAssetId === 'string') ids.add(fields.fontAssetId);
+      }
+    }
+  }
+  return ids;
+}
+
+async function adjustRefCounts(db: ClassroomCompositorDB, ids: string[], delta: number): Promise<void> {
+  if (ids.length === 0) return;
+  await db.assets.where('id').anyOf(ids).modify((asset) => {
+    asset.refCount = Math.max(0, asset.refCount + delta);
+  });
+}
+
+async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function cloneCollection(collection: SceneCollection): SceneCollection {
+  return {
+    ...collection,
+    sceneIds: [...collection.sceneIds],
+    transition: { ...collection.transition },
+  };
+}
+
+function toCollection(record: CollectionRecord): SceneCollection {
+  // Strip persistence-only fields before handing the record to the store.
+  return cloneCollection({
+    id: record.id,
+    name: record.name,
+    sceneIds: record.sceneIds,
+    activeSceneId: record.activeSceneId ?? null,
+    transition: record.transition,
+    ...(record.outputProfile ? { outputProfile: record.outputProfile } : {}),
+  });
+}
+
 function canUseIndexedDB(): boolean {
   return typeof indexedDB !== 'undefined';
 }
@@ -312,6 +952,129 @@ export async function deleteScene(id: string): Promise<void> {
   return persistence.deleteScene(id);
 }
 
+/**
+ * Load a scene's undo/redo history.
+ */
+export async function loadSceneHistory(sceneId: string): Promise<SceneHistory | null> {
+  return persistence.loadSceneHistory(sceneId);
+}
+
+/**
+ * Save a scene's undo/redo history.
+ */
+export async function saveSceneHistory(history: SceneHistory): Promise<void> {
+  return persistence.saveSceneHistory(history);
+}
+
+/**
+ * Load all scene collections, most recently updated first.
+ */
+export async function loadCollections(): Promise<SceneCollection[]> {
+  return persistence.loadCollections();
+}
+
+/**
+ * Save a scene collection.
+ */
+export async function saveCollection(collection: SceneCollection): Promise<void> {
+  return persistence.saveCollection(collection);
+}
+
+/**
+ * Delete a scene collection.
+ */
+export async function deleteCollection(id: string): Promise<void> {
+  return persistence.deleteCollection(id);
+}
+
+/**
+ * Load the user's layer templates.
+ */
+export async function loadTemplates(): Promise<LayerTemplate[]> {
+  return persistence.loadTemplates();
+}
+
+/**
+ * Save a layer template.
+ */
+export async function saveTemplate(template: LayerTemplate): Promise<void> {
+  return persistence.saveTemplate(template);
+}
+
+/**
+ * Delete a layer template.
+ */
+export async function deleteTemplate(id: string): Promise<void> {
+  return persistence.deleteTemplate(id);
+}
+
+const assetStoredListeners = new Set<(assetId: string) => void>();
+
+/**
+ * Store a blob in the asset store (deduplicated by SHA256).
+ */
+export async function storeAsset(blob: Blob): Promise<EmbeddedAsset> {
+  const asset = await persistence.storeAsset(blob);
+  assetStoredListeners.forEach((listener) => listener(asset.blobId));
+  return asset;
+}
+
+/**
+ * Subscribe to blobs being written to the asset store.
+ */
+export function subscribeAssetStored(listener: (assetId: string) => void): () => void {
+  assetStoredListeners.add(listener);
+  return () => {
+    assetStoredListeners.delete(listener);
+  };
+}
+
+/**
+ * Load an asset blob by ID.
+ */
+export async function loadAsset(id: string): Promise<StoredAsset | null> {
+  return persistence.loadAsset(id);
+}
+
+/**
+ * Delete unreferenced assets.
+ */
+export async function collectAssetGarbage(): Promise<number> {
+  return persistence.collectAssetGarbage();
+}
+
+/**
+ * Append a recorded chunk to IndexedDB.
+ */
+export async function saveRecordingChunk(
+  recording: RecordingMetadata,
+  index: number,
+  blob: Blob
+): Promise<void> {
+  return persistence.saveRecordingChunk(recording, index, blob);
+}
+
+/**
+ * Load a recording's chunks in order.
+ */
+export async function loadRecordingChunks(id: string): Promise<Blob[]> {
+  return persistence.loadRecordingChunks(id);
+}
+
+/**
+ * List unfinalized recordings, most recent first.
+ */
+export async function listRecordings(): Promise<RecordingMetadata[]> {
+  return persistence.listRecordings();
+}
+
+/**
+ * Delete a recording and its chunks.
+ */
+export async function deleteRecording(id: string): Promise<void> {
+  return persistence.deleteRecording(id);
+}
+
 /**
  * Load the most recent scene, or return null if none exist.
  */
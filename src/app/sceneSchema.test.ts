@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CURRENT_SCENE_SCHEMA_VERSION,
+  SCENE_MIGRATIONS,
+  SceneSchemaError,
+  upgradeScene,
+  validateScene,
+} from './sceneSchema';
+import { createShapeLayer, createTextLayer, createTimerLayer } from '../layers/factory';
+import { createDefaultFraming } from '../utils/layerCrop';
+
+const transform = { pos: { x: 100, y: 200 }, scale: { x: 1, y: 1 }, rot: 0, opacity: 1 };
+const textDefaults = createTextLayer('text', 1920, 1080);
+const shapeDefaults = createShapeLayer('shape', 1920, 1080);
+const timerDefaults = createTimerLayer('timer', 1920, 1080);
+
+/** A scene as the first release saved it: no schemaVersion, no z-order */
+function legacyScene() {
+  return {
+    id: 'scene-1',
+    name: 'Lesson',
+    width: 1280,
+    height: 720,
+    layers: [
+      { id: 'screen', type: 'screen', name: 'Screen', visible: true, locked: false, transform, streamId: 'screen' },
+      {
+        id: 'title',
+        type: 'text',
+        name: 'Title',
+        visible: true,
+        locked: false,
+        transform,
+        content: 'Welcome',
+        font: 'Inter, system-ui, sans-serif',
+        fontSize: 48,
+        textAlign: 'center',
+        textColor: '#ffffff',
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        borderRadius: 16,
+        padding: 24,
+        shadow: 'none',
+        autoSize: true,
+      },
+    ],
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('SCENE_MIGRATIONS', () => {
+  it('numbers migrations one after another from 1', () => {
+    expect(SCENE_MIGRATIONS.map((migration) => migration.version)).toEqual(
+      SCENE_MIGRATIONS.map((_, index) => index + 1)
+    );
+    expect(CURRENT_SCENE_SCHEMA_VERSION).toBe(SCENE_MIGRATIONS.length);
+  });
+});
+
+describe('upgradeScene', () => {
+  it('upgrades an unversioned record to the current schema', () => {
+    const scene = upgradeScene(legacyScene());
+
+    expect(scene.schemaVersion).toBe(CURRENT_SCENE_SCHEMA_VERSION);
+    expect(scene.layers.map((layer) => [layer.id, layer.z])).toEqual([
+      ['screen', 0],
+      ['title', 1],
+    ]);
+    const [screen, title] = scene.layers;
+    expect(screen).toMatchObject({ type: 'screen', ...createDefaultFraming() });
+    expect(title).toMatchObject({ type: 'text', letterSpacing: 0, lineSpacing: 1, fontAssetId: null });
+  });
+
+  it('does not rerun migrations a record already has', () => {
+    const record = { ...legacyScene(), schemaVersion: CURRENT_SCENE_SCHEMA_VERSION };
+    record.layers = record.layers.map((layer) => ({ ...layer, z: 5 }));
+
+    expect(upgradeScene(record).layers.map((layer) => layer.z)).toEqual([5, 5]);
+  });
+
+  it.each([
+    { name: 'null', raw: null },
+    { name: 'a string', raw: 'scene' },
+    { name: 'an array', raw: [] },
+    { name: 'a newer schema', raw: { ...legacyScene(), schemaVersion: CURRENT_SCENE_SCHEMA_VERSION + 1 } },
+  ])('rejects $name', ({ raw }) => {
+    expect(() => upgradeScene(raw)).toThrow(SceneSchemaError);
+  });
+});
+
+describe('validateScene', () => {
+  it.each([
+    {
+      name: 'a text layer missing its style fields',
+      layer: { id: 'text', type: 'text', content: 'Hi', transform },
+      expected: {
+        id: 'text',
+        content: 'Hi',
+        fontSize: textDefaults.fontSize,
+        textColor: textDefaults.textColor,
+        visible: true,
+        z: 0,
+      },
+    },
+    {
+      name: 'fields of the wrong type',
+      layer: { id: 'shape', type: 'shape', transform, fillColor: 42, visible: 'yes', width: Number.NaN },
+      expected: { id: 'shape', fillColor: shapeDefaults.fillColor, visible: true, width: shapeDefaults.width },
+    },
+    {
+      name: 'a missing transform',
+      layer: { id: 'timer', type: 'timer' },
+      expected: { id: 'timer', transform: timerDefaults.transform },
+    },
+  ])('repairs $name from the factory defaults', ({ layer, expected }) => {
+    const scene = validateScene({ id: 'scene', width: 1920, height: 1080, layers: [layer] });
+
+    expect(scene.layers).toHaveLength(1);
+    expect(scene.layers[0]).toMatchObject(expected);
+  });
+
+  it.each([
+    { name: 'an unknown type', layer: { id: 'x', type: 'hologram', transform } },
+    { name: 'an image without pixels', layer: { id: 'img', type: 'image', transform, width: 10, height: 10 } },
+    { name: 'a video without an asset', layer: { id: 'vid', type: 'video', transform } },
+    { name: 'a non-object', layer: 'layer' },
+  ])('drops $name', ({ layer }) => {
+    const scene = validateScene({ id: 'scene', width: 1920, height: 1080, layers: [layer] });
+    expect(scene.layers).toEqual([]);
+  });
+
+  it('gives duplicate layer IDs a fresh ID', () => {
+    const layer = { id: 'same', type: 'timer', transform };
+    const ids = validateScene({ id: 'scene', layers: [layer, layer] }).layers.map((entry) => entry.id);
+
+    expect(ids[0]).toBe('same');
+    expect(ids[1]).not.toBe('same');
+  });
+
+  it('falls back to the default size and detaches layers from missing groups', () => {
+    const scene = validateScene({
+      id: 'scene',
+      width: -5,
+      layers: [{ id: 'timer', type: 'timer', transform, parentId: 'gone' }],
+    });
+
+    expect(scene).toMatchObject({ width: 1920, height: 1080 });
+    expect(scene.layers[0].parentId).toBeNull();
+  });
+});
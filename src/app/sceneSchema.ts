@@ -0,0 +1,499 @@
+/**
+ * Scene schema versioning.
+ *
+ * Saved scenes carry a `schemaVersion`. On load, records run through the
+ * ordered migration registry below and are then validated: malformed layers
+ * are repaired where a sensible default exists and dropped otherwise, so a
+ * bad record never reaches the renderer.
+ *
+ * To change the persisted shape: add a migration whose `version` is one
+ * higher than the last entry. CURRENT_SCENE_SCHEMA_VERSION follows the
+ * registry automatically.
+ */
+
+import type {
+  AnnotationTool,
+  CropInsets,
+  Layer,
+  LayerBlendMode,
+  LayerBorder,
+  LayerEffects,
+  LayerShadow,
+  Scene,
+  ShapeLayer,
+  TextLine,
+  Transform,
+} from '../types/scene';
+import type { LayerTemplate } from '../types/template';
+import {
+  createAnnotationLayer,
+  createCameraLayer,
+  createImageLayer,
+  createScreenLayer,
+  createShapeLayer,
+  createTextLayer,
+  createTimerLayer,
+  createVideoLayer,
+} from '../layers/factory';
+import { createId } from '../utils/id';
+import { clampCrop, createDefaultFraming, LAYER_MASK_SHAPES } from '../utils/layerCrop';
+import { KEYFRAME_TRACKS } from '../renderer/animation';
+import { DEFAULT_LAYER_FILTERS, LAYER_BLEND_MODES } from '../renderer/layerEffects';
+import { linesToContent } from '../utils/richText';
+import { ARROW_HEAD_STYLES, SHAPE_STROKE_DASHES, SHAPE_TYPES } from '../utils/shapeGeometry';
+
+/**
+ * Untyped scene record as read from storage, before migration.
+ */
+type RawRecord = Record<string, unknown>;
+
+/**
+ * A single upgrade step. `migrate` receives a record at `version - 1` and
+ * returns it at `version`; it may mutate its input.
+ */
+export interface SceneMigration {
+  version: number;
+  description: string;
+  migrate: (scene: RawRecord) => RawRecord;
+}
+
+/**
+ * Thrown when a stored scene cannot be upgraded or is not a scene at all.
+ */
+export class SceneSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SceneSchemaError';
+  }
+}
+
+const DEFAULT_SCENE_WIDTH = 1920;
+const DEFAULT_SCENE_HEIGHT = 1080;
+
+/**
+ * Ordered migration registry. Never edit or reorder shipped entries.
+ */
+export const SCENE_MIGRATIONS: readonly SceneMigration[] = [
+  {
+    version: 1,
+    description: 'Unversioned scenes: derive missing layer z-order from array order',
+    migrate: (scene) => {
+      forEachLayer(scene, (layer, index) => {
+        if (typeof layer.z !== 'number') layer.z = index;
+      });
+      return scene;
+    },
+  },
+  {
+    version: 2,
+    description: 'Screen and camera layers: crop insets and mask shape',
+    migrate: (scene) => {
+      forEachLayer(scene, (layer) => {
+        if (layer.type !== 'screen' && layer.type !== 'camera') return;
+        const framing = createDefaultFraming();
+        if (!isRecord(layer.crop)) layer.crop = framing.crop;
+        if (typeof layer.mask !== 'string') layer.mask = framing.mask;
+        if (typeof layer.maskRadius !== 'number') layer.maskRadius = framing.maskRadius;
+      });
+      return scene;
+    },
+  },
+  {
+    version: 3,
+    description: 'Text layers: letter/line spacing and uploaded font reference',
+    migrate: (scene) => {
+      forEachLayer(scene, (layer) => {
+        if (layer.type !== 'text') return;
+        if (typeof layer.letterSpacing !== 'number') layer.letterSpacing = 0;
+        if (typeof layer.lineSpacing !== 'number') layer.lineSpacing = 1;
+        if (typeof layer.fontAssetId !== 'string') layer.fontAssetId = null;
+      });
+      return scene;
+    },
+  },
+];
+
+/**
+ * Schema version written with every saved scene.
+ */
+export const CURRENT_SCENE_SCHEMA_VERSION = SCENE_MIGRATIONS[SCENE_MIGRATIONS.length - 1].version;
+
+/**
+ * Upgrade a stored scene to the current schema and repair its layers.
+ * Throws SceneSchemaError for records that are not scenes or were written by
+ * a newer version of the app (loading those could lose data on re-save).
+ */
+export function upgradeScene(raw: unknown): Scene {
+  if (!isRecord(raw)) {
+    throw new SceneSchemaError('Scene record is not an object');
+  }
+  const fromVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (fromVersion > CURRENT_SCENE_SCHEMA_VERSION) {
+    throw new SceneSchemaError(
+      `Scene ${String(raw.id ?? '')} uses schema ${fromVersion}; this version supports up to ${CURRENT_SCENE_SCHEMA_VERSION}`
+    );
+  }
+
+  let record = raw;
+  for (const migration of SCENE_MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    record = migration.migrate(record);
+    record.schemaVersion = migration.version;
+  }
+  return validateScene(record);
+}
+
+/**
+ * Upgrade a stored layer template. Its layers go through the same migrations
+ * and repairs as a scene of the template's size.
+ */
+export function upgradeTemplate(raw: unknown): LayerTemplate {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !raw.id) {
+    throw new SceneSchemaError('Template record is not an object with an id');
+  }
+  const scene = upgradeScene({
+    id: raw.id,
+    width: raw.width,
+    height: raw.height,
+    layers: raw.layers,
+    schemaVersion: raw.schemaVersion,
+  });
+  if (scene.layers.length === 0) {
+    throw new SceneSchemaError(`Template ${raw.id} has no usable layers`);
+  }
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' && raw.name ? raw.name : 'Untitled Template',
+    width: scene.width,
+    height: scene.height,
+    layers: scene.layers,
+    schemaVersion: CURRENT_SCENE_SCHEMA_VERSION,
+    builtIn: raw.builtIn === true ? true : undefined,
+    updatedAt: finiteNumber(raw.updatedAt, 0),
+  };
+}
+
+/**
+ * Check a scene's shape, repairing what can be repaired. Layers that cannot be
+ * salvaged (unknown type, missing media reference) are dropped with a warning.
+ */
+export function validateScene(raw: RawRecord): Scene {
+  const width = positiveNumber(raw.width, DEFAULT_SCENE_WIDTH);
+  const height = positiveNumber(raw.height, DEFAULT_SCENE_HEIGHT);
+  const sourceLayers = Array.isArray(raw.layers) ? raw.layers : [];
+  const seenIds = new Set<string>();
+  const layers: Layer[] = [];
+
+  sourceLayers.forEach((candidate, index) => {
+    const layer = repairLayer(candidate, index, width, height, seenIds);
+    if (layer) {
+      seenIds.add(layer.id);
+      layers.push(layer);
+    } else {
+      console.warn('SceneSchema: dropping malformed layer', raw.id, candidate);
+    }
+  });
+
+  // Group membership may reference layers that were just dropped.
+  const groupIds = new Set(layers.filter((layer) => layer.type === 'group').map((layer) => layer.id));
+  for (const layer of layers) {
+    if (layer.parentId && !groupIds.has(layer.parentId)) {
+      layer.parentId = null;
+    }
+    if (layer.type === 'group') {
+      layer.children = layer.children.filter((id) => seenIds.has(id) && id !== layer.id);
+    }
+    if (layer.effects !== undefined) {
+      // Optional field, so the template check above does not cover it.
+      const effects = repairEffects(layer.effects);
+      if (effects) {
+        layer.effects = effects;
+      } else {
+        delete layer.effects;
+      }
+    }
+    if (layer.type === 'annotation') {
+      layer.strokes = layer.strokes.filter(isValidStroke);
+    }
+    if (layer.type === 'timer') {
+      // Nullable run state is skipped by the template check above.
+      if (typeof layer.startedAt !== 'number' || !Number.isFinite(layer.startedAt)) layer.startedAt = null;
+      if (typeof layer.targetSceneId !== 'string') layer.targetSceneId = null;
+    }
+    if (layer.type === 'text') {
+      if (typeof layer.fontAssetId !== 'string' || !layer.fontAssetId) layer.fontAssetId = null;
+      layer.lineSpacing = layer.lineSpacing > 0 ? layer.lineSpacing : 1;
+      // Formatting that does not match the content would be ignored anyway.
+      if (layer.lines !== undefined) {
+        const lines = Array.isArray(layer.lines) && layer.lines.every(isValidTextLine) ? layer.lines : null;
+        if (lines && linesToContent(lines) === layer.content) {
+          layer.lines = lines;
+        } else {
+          delete layer.lines;
+        }
+      }
+    }
+    if (layer.type === 'shape') {
+      repairShape(layer);
+    }
+    if (layer.type === 'screen' || layer.type === 'camera') {
+      layer.crop = repairCrop(layer.crop);
+      if (!LAYER_MASK_SHAPES.includes(layer.mask)) layer.mask = 'none';
+      layer.maskRadius = Math.max(0, layer.maskRadius);
+    }
+  }
+
+  return {
+    ...(raw as unknown as Scene),
+    id: typeof raw.id === 'string' ? raw.id : undefined,
+    name: typeof raw.name === 'string' ? raw.name : undefined,
+    schemaVersion: CURRENT_SCENE_SCHEMA_VERSION,
+    width,
+    height,
+    layers,
+  };
+}
+
+function repairLayer(
+  candidate: unknown,
+  index: number,
+  sceneWidth: number,
+  sceneHeight: number,
+  seenIds: Set<string>
+): Layer | null {
+  if (!isRecord(candidate)) return null;
+  const id = typeof candidate.id === 'string' && candidate.id && !seenIds.has(candidate.id)
+    ? candidate.id
+    : createId('layer');
+
+  const template = createLayerTemplate(candidate, id, sceneWidth, sceneHeight);
+  if (!template) return null;
+
+  const repaired: RawRecord = { ...candidate, id };
+  // Any field whose stored type disagrees with the template falls back to it.
+  for (const [key, fallback] of Object.entries(template)) {
+    if (key === 'transform' || fallback === undefined || fallback === null) continue;
+    const value = repaired[key];
+    if (
+      typeof value !== typeof fallback ||
+      Array.isArray(value) !== Array.isArray(fallback) ||
+      (typeof value === 'number' && !Number.isFinite(value))
+    ) {
+      repaired[key] = fallback;
+    }
+  }
+  if (typeof repaired.z !== 'number') repaired.z = index;
+  if (repaired.parentId !== undefined && repaired.parentId !== null && typeof repaired.parentId !== 'string') {
+    repaired.parentId = null;
+  }
+  repaired.transform = repairTransform(candidate.transform, template.transform);
+  return repaired as unknown as Layer;
+}
+
+/**
+ * Default layer of the candidate's type, or null when the layer cannot be
+ * rendered at all.
+ */
+function createLayerTemplate(
+  candidate: RawRecord,
+  id: string,
+  sceneWidth: number,
+  sceneHeight: number
+): Layer | null {
+  switch (candidate.type) {
+    case 'screen':
+      return createScreenLayer(id, sceneWidth, sceneHeight);
+    case 'camera':
+      return createCameraLayer(id, sceneWidth, sceneHeight);
+    case 'text':
+      return createTextLayer(id, sceneWidth, sceneHeight);
+    case 'shape':
+      return createShapeLayer(id, sceneWidth, sceneHeight);
+    case 'annotation':
+      return createAnnotationLayer(id, sceneWidth, sceneHeight);
+    case 'timer':
+      return createTimerLayer(id, sceneWidth, sceneHeight);
+    case 'image': {
+      const hasAsset = typeof candidate.assetId === 'string' && candidate.assetId.length > 0;
+      const hasInline = typeof candidate.dataUri === 'string' && candidate.dataUri.length > 0;
+      if (!hasAsset && !hasInline) return null;
+      return createImageLayer(id, sceneWidth, sceneHeight, {
+        width: positiveNumber(candidate.width, 1),
+        height: positiveNumber(candidate.height, 1),
+        dataUri: hasInline ? (candidate.dataUri as string) : undefined,
+      });
+    }
+    case 'video':
+      if (typeof candidate.assetId !== 'string' || !candidate.assetId) return null;
+      return createVideoLayer(id, sceneWidth, sceneHeight, {
+        assetId: candidate.assetId,
+        width: positiveNumber(candidate.width, 1),
+        height: positiveNumber(candidate.height, 1),
+      });
+    case 'group':
+      return {
+        id,
+        type: 'group',
+        name: 'Group',
+        visible: true,
+        locked: false,
+        z: 0,
+        transform: { pos: { x: 0, y: 0 }, scale: { x: 1, y: 1 }, rot: 0, opacity: 1 },
+        children: [],
+      };
+    default:
+      return null;
+  }
+}
+
+function repairTransform(raw: unknown, fallback: Transform): Transform {
+  if (!isRecord(raw)) return fallback;
+  const pos = isRecord(raw.pos) ? raw.pos : {};
+  const scale = isRecord(raw.scale) ? raw.scale : {};
+  const transform: Transform = {
+    pos: { x: finiteNumber(pos.x, fallback.pos.x), y: finiteNumber(pos.y, fallback.pos.y) },
+    scale: { x: finiteNumber(scale.x, 1), y: finiteNumber(scale.y, 1) },
+    rot: finiteNumber(raw.rot, 0),
+    opacity: Math.min(1, Math.max(0, finiteNumber(raw.opacity, 1))),
+  };
+  if (isRecord(raw.keyframes)) {
+    transform.keyframes = repairKeyframes(raw.keyframes);
+  }
+  return transform;
+}
+
+/**
+ * Drop keys without a usable time or value; tracks are re-sorted by time.
+ */
+function repairKeyframes(raw: RawRecord): Transform['keyframes'] {
+  const keyframes: RawRecord = { ...raw };
+  for (const track of KEYFRAME_TRACKS) {
+    const keys = raw[track];
+    if (keys === undefined) continue;
+    if (!Array.isArray(keys)) {
+      delete keyframes[track];
+      continue;
+    }
+    keyframes[track] = keys
+      .filter((key): key is RawRecord => isRecord(key) && Number.isFinite(key.time) && key.value !== undefined)
+      .sort((a, b) => (a.time as number) - (b.time as number));
+  }
+  return keyframes as Transform['keyframes'];
+}
+
+function forEachLayer(scene: RawRecord, visit: (layer: RawRecord, index: number) => void): void {
+  if (!Array.isArray(scene.layers)) return;
+  scene.layers.forEach((layer, index) => {
+    if (isRecord(layer)) visit(layer, index);
+  });
+}
+
+const ANNOTATION_TOOLS: AnnotationTool[] = ['pen', 'highlighter', 'eraser'];
+
+function isValidStroke(stroke: unknown): boolean {
+  return (
+    isRecord(stroke) &&
+    typeof stroke.id === 'string' &&
+    ANNOTATION_TOOLS.includes(stroke.tool as AnnotationTool) &&
+    typeof stroke.color === 'string' &&
+    typeof stroke.width === 'number' &&
+    Array.isArray(stroke.points) &&
+    stroke.points.every((value) => typeof value === 'number' && Number.isFinite(value))
+  );
+}
+
+const TEXT_ALIGNMENTS = ['left', 'center', 'right'];
+
+function isValidTextLine(line: unknown): line is TextLine {
+  return (
+    isRecord(line) &&
+    Array.isArray(line.runs) &&
+    line.runs.every(
+      (run) =>
+        isRecord(run) &&
+        typeof run.text === 'string' &&
+        (run.color === undefined || typeof run.color === 'string')
+    ) &&
+    (line.align === undefined || TEXT_ALIGNMENTS.includes(line.align as string))
+  );
+}
+
+const SHAPE_NUMBER_FIELDS = ['cornerRadius', 'sides', 'innerRadius', 'tailPosition'] as const;
+
+/**
+ * Unknown shape types draw as rectangles; optional style fields that do not
+ * make sense are dropped so the defaults apply.
+ */
+function repairShape(layer: ShapeLayer): void {
+  if (!SHAPE_TYPES.includes(layer.shapeType)) layer.shapeType = 'rect';
+  if (!SHAPE_STROKE_DASHES.includes(layer.strokeDash ?? 'solid')) layer.strokeDash = 'solid';
+  if (layer.arrowStart !== undefined && !ARROW_HEAD_STYLES.includes(layer.arrowStart)) delete layer.arrowStart;
+  if (layer.arrowEnd !== undefined && !ARROW_HEAD_STYLES.includes(layer.arrowEnd)) delete layer.arrowEnd;
+  for (const field of SHAPE_NUMBER_FIELDS) {
+    const value = layer[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      delete layer[field];
+    }
+  }
+}
+
+function repairEffects(effects: unknown): LayerEffects | null {
+  if (!isRecord(effects)) return null;
+  const filters = isRecord(effects.filters) ? effects.filters : {};
+  return {
+    blendMode: LAYER_BLEND_MODES.includes(effects.blendMode as LayerBlendMode)
+      ? (effects.blendMode as LayerBlendMode)
+      : 'normal',
+    filters: {
+      brightness: Math.max(0, finiteNumber(filters.brightness, DEFAULT_LAYER_FILTERS.brightness)),
+      contrast: Math.max(0, finiteNumber(filters.contrast, DEFAULT_LAYER_FILTERS.contrast)),
+      saturation: Math.max(0, finiteNumber(filters.saturation, DEFAULT_LAYER_FILTERS.saturation)),
+      grayscale: Math.min(100, Math.max(0, finiteNumber(filters.grayscale, DEFAULT_LAYER_FILTERS.grayscale))),
+      blur: Math.max(0, finiteNumber(filters.blur, DEFAULT_LAYER_FILTERS.blur)),
+    },
+    shadow: isValidShadow(effects.shadow) ? effects.shadow : null,
+    border: isValidBorder(effects.border) ? effects.border : null,
+  };
+}
+
+function isValidShadow(shadow: unknown): shadow is LayerShadow {
+  return (
+    isRecord(shadow) &&
+    typeof shadow.color === 'string' &&
+    [shadow.blur, shadow.offsetX, shadow.offsetY].every(
+      (value) => typeof value === 'number' && Number.isFinite(value)
+    )
+  );
+}
+
+function isValidBorder(border: unknown): border is LayerBorder {
+  return (
+    isRecord(border) &&
+    typeof border.color === 'string' &&
+    typeof border.width === 'number' &&
+    Number.isFinite(border.width) &&
+    border.width >= 0
+  );
+}
+
+function repairCrop(crop: unknown): CropInsets {
+  const raw = isRecord(crop) ? crop : {};
+  return clampCrop({
+    top: finiteNumber(raw.top, 0),
+    right: finiteNumber(raw.right, 0),
+    bottom: finiteNumber(raw.bottom, 0),
+    left: finiteNumber(raw.left, 0),
+  });
+}
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function finiteNumber(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function positiveNumber(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+}
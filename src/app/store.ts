@@ -12,11 +12,51 @@ import type {
   CameraLayer,
   ScreenLayer,
   ImageLayer,
+  VideoLayer,
   TextLayer,
   ShapeLayer,
+  AnnotationLayer,
+  TimerLayer,
   GroupLayer,
+  SceneCollection,
+  SceneTransition,
+  ActiveSceneTransition,
+  OutputProfileId,
 } from '../types/scene';
-import { saveScene as persistScene } from './persistence';
+import {
+  saveScene as persistScene,
+  deleteScene as deletePersistedScene,
+  saveCollection as persistCollection,
+  loadCollections,
+  loadScene as loadPersistedScene,
+  loadSceneHistory,
+  saveSceneHistory,
+} from './persistence';
+import type { HistoryCoalesce, HistoryEntry, SceneHistory } from '../types/history';
+import { restartSceneClock } from '../renderer/animation';
+import { CURRENT_SCENE_SCHEMA_VERSION } from './sceneSchema';
+import { getOutputProfile, resizeSceneLayout } from './outputProfiles';
+import {
+  MAX_HISTORY_ENTRIES,
+  applyScenePatch,
+  describeLayerChange,
+  diffScenes,
+  pushHistoryEntry,
+} from './history';
+
+/**
+ * Transition used by newly created collections.
+ */
+export const DEFAULT_SCENE_TRANSITION: SceneTransition = {
+  kind: 'fade',
+  durationMs: 400,
+  direction: 'left',
+};
+
+/**
+ * Name given to automatically created collections.
+ */
+export const DEFAULT_COLLECTION_NAME = 'My Class';
 
 /**
  * Application state interface.
@@ -28,12 +68,24 @@ interface AppState {
   scenes: Record<string, Scene>;
   /** ID of the currently active scene */
   currentSceneId: string | null;
+  /** All loaded scene collections ("classes") by ID */
+  collections: Record<string, SceneCollection>;
+  /** ID of the collection shown in the scene switcher */
+  currentCollectionId: string | null;
+  /** Transition currently playing on the program output, if any */
+  sceneTransition: ActiveSceneTransition | null;
+  /** Studio mode: edit a Preview scene while Program stays live and untouched */
+  studioMode: boolean;
+  /** Scene ID currently on Program (studio mode only) */
+  programSceneId: string | null;
+  /** Frozen copy of the Program scene, refreshed on each Take (studio mode only) */
+  programScene: Scene | null;
   /** Array of selected layer IDs */
   selection: string[];
-  /** Undo stack for current scene */
-  history: Scene[];
-  /** Redo stack for current scene */
-  future: Scene[];
+  /** Undo stack for current scene, oldest first */
+  history: HistoryEntry[];
+  /** Redo stack for current scene, next redo first */
+  future: HistoryEntry[];
   /** Status of persistence pipeline */
   saveStatus: SaveStatus;
   /** Last persistence error, if any */
@@ -46,7 +98,25 @@ interface AppState {
 export interface UpdateLayerOptions {
   recordHistory?: boolean;
   persist?: boolean;
-  historySnapshot?: Scene | null;
+  /** Name shown in the history panel (derived from the changes by default) */
+  historyLabel?: string;
+  /**
+   * Consecutive updates with the same key merge into one undo step while
+   * they keep coming (see `continuousEdit`). Without a key every update is
+   * its own step.
+   */
+  coalesceKey?: string;
+  /** `coalesceKey` is unique to one pointer gesture: merge for as long as it lasts */
+  gesture?: boolean;
+}
+
+/**
+ * History options for controls that stream values while dragged or typed
+ * into (sliders, number fields, colour pickers, text boxes): a run of edits
+ * to `field` on one layer is one undo step.
+ */
+export function continuousEdit(layerId: string, field: string): UpdateLayerOptions {
+  return { coalesceKey: `edit:${layerId}:${field}` };
 }
 
 interface AppActions {
@@ -60,6 +130,12 @@ interface AppActions {
    */
   createScene: (name?: string, width?: number, height?: number) => void;
 
+  /**
+   * Append already-persisted scenes (e.g. from an imported bundle) to the
+   * current collection and open the first one.
+   */
+  addScenes: (scenes: Scene[]) => void;
+
   /**
    * Load a scene by ID.
    */
@@ -70,16 +146,92 @@ interface AppActions {
    */
   saveScene: () => Promise<void>;
 
+  /**
+   * Switch the program output to another scene, playing the current
+   * collection's transition. In studio mode this only changes the Preview.
+   */
+  switchScene: (sceneId: string) => void;
+
+  /**
+   * Enter or leave studio mode. Entering freezes the current scene as Program;
+   * leaving makes the Program scene the editable scene again.
+   */
+  setStudioMode: (enabled: boolean) => void;
+
+  /**
+   * Studio mode: send the Preview scene to Program (with the collection
+   * transition) and bring the previous Program scene into Preview.
+   */
+  takePreview: () => void;
+
+  /**
+   * Rename a scene.
+   */
+  renameScene: (sceneId: string, name: string) => void;
+
+  /**
+   * Delete a scene from the current collection. The last scene of a
+   * collection cannot be deleted.
+   */
+  deleteScene: (sceneId: string) => void;
+
+  /**
+   * Replace the loaded collection with one restored from persistence.
+   */
+  openCollection: (collection: SceneCollection, scenes: Scene[]) => void;
+
+  /**
+   * Load a persisted collection and its scenes, then open it.
+   */
+  loadCollection: (collectionId: string) => Promise<void>;
+
+  /**
+   * Create a new collection containing a single empty scene and open it.
+   */
+  createCollection: (name?: string) => void;
+
+  /**
+   * Rename the current collection.
+   */
+  renameCollection: (name: string) => void;
+
+  /**
+   * Update the transition used by the current collection's switcher.
+   */
+  setCollectionTransition: (transition: Partial<SceneTransition>) => void;
+
+  /**
+   * Switch the current collection's output profile, resizing its scenes and
+   * re-laying out their layers to the new canvas size.
+   */
+  setCollectionOutputProfile: (profileId: OutputProfileId) => void;
+
+  /**
+   * Clear the active transition once it has finished playing.
+   */
+  completeSceneTransition: () => void;
+
   /**
    * Add a layer to the current scene.
    */
   addLayer: (layer: Layer) => void;
 
+  /**
+   * Add several layers above the current ones as a single undo step,
+   * keeping their relative order.
+   */
+  addLayers: (layers: Layer[], historyLabel?: string) => void;
+
   /**
    * Remove a layer from the current scene.
    */
   removeLayer: (layerId: string) => void;
 
+  /**
+   * Remove several layers as a single undo step.
+   */
+  removeLayers: (layerIds: string[]) => void;
+
   /**
    * Update a layer with a partial update.
    */
@@ -103,6 +255,17 @@ interface AppActions {
   reorderLayers: (layerIds: string[]) => void;
   undo: () => void;
   redo: () => void;
+
+  /**
+   * Undo or redo until `position` history entries are applied (0 is the
+   * scene as first opened).
+   */
+  goToHistory: (position: number) => void;
+
+  /**
+   * Forget the current scene's undo and redo stacks.
+   */
+  clearHistory: () => void;
 }
 
 /**
@@ -139,10 +302,16 @@ function applyLayerUpdates(layer: Layer, updates: Partial<Layer>): Layer {
       return merged as CameraLayer;
     case 'image':
       return merged as ImageLayer;
+    case 'video':
+      return merged as VideoLayer;
     case 'text':
       return merged as TextLayer;
     case 'shape':
       return merged as ShapeLayer;
+    case 'annotation':
+      return merged as AnnotationLayer;
+    case 'timer':
+      return merged as TimerLayer;
     case 'group':
       return merged as GroupLayer;
     default: {
@@ -152,6 +321,12 @@ function applyLayerUpdates(layer: Layer, updates: Partial<Layer>): Layer {
   }
 }
 
+function nowMs(): number {
+  return typeof performance !== 'undefined' && typeof performance.now === 'function'
+    ? performance.now()
+    : Date.now();
+}
+
 function snapshotScene(scene: Scene | null): Scene | null {
   if (!scene) return null;
   if (typeof structuredClone === 'function') {
@@ -237,10 +412,157 @@ export const useAppStore = create<AppStore>((set, get) => {
     pendingSaveTimers.set(sceneId, timer);
   };
 
+  const queueCollectionPersist = (collection: SceneCollection) => {
+    persistCollection(collection).catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Store: Failed to persist collection', error);
+      set({ saveStatus: 'error', lastSaveError: message });
+    });
+  };
+
+  const HISTORY_SAVE_DEBOUNCE_MS = 1500;
+  const pendingHistoryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Stacks of scenes other than the current one, so switching back keeps them.
+  const historyCache = new Map<string, { history: HistoryEntry[]; future: HistoryEntry[] }>();
+  const historyLoads = new Set<string>();
+
+  const getHistoryStacks = (sceneId: string) => {
+    const state = get();
+    if (state.currentSceneId === sceneId) {
+      return { history: state.history, future: state.future };
+    }
+    return historyCache.get(sceneId) ?? null;
+  };
+
+  const queueHistoryPersist = (sceneId: string) => {
+    // A restore in progress persists the merged stacks once it lands.
+    if (historyLoads.has(sceneId)) return;
+    const existing = pendingHistoryTimers.get(sceneId);
+    if (existing) {
+      clearTimeout(existing);
+    }
+    const timer = setTimeout(() => {
+      pendingHistoryTimers.delete(sceneId);
+      const stacks = getHistoryStacks(sceneId);
+      if (!stacks) return;
+      saveSceneHistory({
+        sceneId,
+        undo: stacks.history,
+        redo: stacks.future,
+        schemaVersion: CURRENT_SCENE_SCHEMA_VERSION,
+        updatedAt: Date.now(),
+      }).catch((error) => {
+        console.error('Store: Failed to persist history', error);
+      });
+    }, HISTORY_SAVE_DEBOUNCE_MS);
+    pendingHistoryTimers.set(sceneId, timer);
+  };
+
+  const cancelPendingHistorySave = (sceneId: string) => {
+    const timer = pendingHistoryTimers.get(sceneId);
+    if (timer) {
+      clearTimeout(timer);
+      pendingHistoryTimers.delete(sceneId);
+    }
+  };
+
+  const restoreHistory = async (sceneId: string) => {
+    historyLoads.add(sceneId);
+    let stored: SceneHistory | null = null;
+    try {
+      stored = await loadSceneHistory(sceneId);
+    } catch (error) {
+      console.error('Store: Failed to load history', error);
+    } finally {
+      historyLoads.delete(sceneId);
+    }
+    const current = getHistoryStacks(sceneId) ?? { history: [], future: [] };
+    const edited = current.history.length > 0 || current.future.length > 0;
+    if (stored) {
+      // Edits made while loading sit on top of the restored entries.
+      const restored = {
+        history: [...stored.undo, ...current.history].slice(-MAX_HISTORY_ENTRIES),
+        future: edited ? current.future : stored.redo,
+      };
+      if (get().currentSceneId === sceneId) {
+        set(restored);
+      } else {
+        historyCache.set(sceneId, restored);
+      }
+    }
+    if (edited) queueHistoryPersist(sceneId);
+  };
+
+  /**
+   * Undo/redo stacks for the scene about to become current; the outgoing
+   * scene's stacks are kept for when it is opened again.
+   */
+  const enterSceneHistory = (sceneId: string | null, isNewScene = false) => {
+    const { currentSceneId, history, future } = get();
+    if (currentSceneId && currentSceneId !== sceneId) {
+      historyCache.set(currentSceneId, { history, future });
+    }
+    if (!sceneId) return { history: [], future: [] };
+    if (sceneId === currentSceneId) return { history, future };
+    const cached = historyCache.get(sceneId);
+    historyCache.delete(sceneId);
+    if (cached) return cached;
+    if (!isNewScene && !historyLoads.has(sceneId)) {
+      void restoreHistory(sceneId);
+    }
+    return { history: [], future: [] };
+  };
+
+  /**
+   * Replace the current scene with `after`, recording the change as a named
+   * undo step unless `history` is null.
+   */
+  const commitSceneEdit = (
+    before: Scene,
+    after: Scene,
+    history: { label: string; coalesce?: HistoryCoalesce } | null,
+    extra?: (state: AppStore) => Partial<AppState>
+  ) => {
+    const sceneId = get().currentSceneId;
+    if (!sceneId) return;
+    let recorded = false;
+    set((state) => {
+      const next: Partial<AppState> = {
+        scenes: { ...state.scenes, [sceneId]: after },
+        ...extra?.(state),
+      };
+      const patch = history ? diffScenes(before, after) : null;
+      if (history && patch) {
+        next.history = pushHistoryEntry(state.history, history.label, patch, history.coalesce);
+        next.future = [];
+        recorded = true;
+      }
+      return next;
+    });
+    if (recorded) queueHistoryPersist(sceneId);
+  };
+
+  const updateCurrentCollection = (
+    updater: (collection: SceneCollection) => SceneCollection
+  ) => {
+    const { collections, currentCollectionId } = get();
+    const collection = currentCollectionId ? collections[currentCollectionId] : null;
+    if (!collection) return;
+    const next = updater(collection);
+    set({ collections: { ...collections, [next.id]: next } });
+    queueCollectionPersist(next);
+  };
+
   return {
   // State
   scenes: {},
   currentSceneId: null,
+  collections: {},
+  currentCollectionId: null,
+  sceneTransition: null,
+  studioMode: false,
+  programSceneId: null,
+  programScene: null,
   selection: [],
   history: [],
   future: [],
@@ -253,30 +575,330 @@ export const useAppStore = create<AppStore>((set, get) => {
     return currentSceneId ? scenes[currentSceneId] || null : null;
   },
 
-  createScene: (name = 'Untitled Scene', width = 1920, height = 1080) => {
+  createScene: (name = 'Untitled Scene', width?: number, height?: number) => {
     const id = generateId();
+    const { collections, currentCollectionId } = get();
+    const existing = currentCollectionId ? collections[currentCollectionId] : null;
+    const profile = getOutputProfile(existing?.outputProfile);
     const scene: Scene = {
       id,
       name,
-      width,
-      height,
+      width: width ?? profile.width,
+      height: height ?? profile.height,
       layers: [],
     };
 
+    const collection: SceneCollection = existing
+      ? { ...existing, sceneIds: [...existing.sceneIds, id], activeSceneId: id }
+      : {
+          id: generateId(),
+          name: DEFAULT_COLLECTION_NAME,
+          sceneIds: [id],
+          activeSceneId: id,
+          transition: { ...DEFAULT_SCENE_TRANSITION },
+        };
+    const stacks = enterSceneHistory(id, true);
+
     set((state) => ({
       scenes: { ...state.scenes, [id]: scene },
       currentSceneId: id,
+      collections: { ...state.collections, [collection.id]: collection },
+      currentCollectionId: collection.id,
+      sceneTransition: null,
       selection: [],
-      history: [],
-      future: [],
+      ...stacks,
     }));
     queuePersist(scene);
+    queueCollectionPersist(collection);
+  },
+
+  addScenes: (imported: Scene[]) => {
+    const added = imported.filter((scene): scene is Scene & { id: string } => Boolean(scene.id));
+    if (added.length === 0) return;
+    const { collections, currentCollectionId } = get();
+    const existing = currentCollectionId ? collections[currentCollectionId] : null;
+    const firstId = added[0].id;
+    const addedIds = added.map((scene) => scene.id);
+    const collection: SceneCollection = existing
+      ? { ...existing, sceneIds: [...existing.sceneIds, ...addedIds], activeSceneId: firstId }
+      : {
+          id: generateId(),
+          name: DEFAULT_COLLECTION_NAME,
+          sceneIds: addedIds,
+          activeSceneId: firstId,
+          transition: { ...DEFAULT_SCENE_TRANSITION },
+        };
+    const stacks = enterSceneHistory(firstId, true);
+
+    set((state) => ({
+      scenes: {
+        ...state.scenes,
+        ...Object.fromEntries(added.map((scene) => [scene.id, scene])),
+      },
+      currentSceneId: firstId,
+      collections: { ...state.collections, [collection.id]: collection },
+      currentCollectionId: collection.id,
+      sceneTransition: null,
+      selection: [],
+      ...stacks,
+    }));
+    queueCollectionPersist(collection);
   },
 
   loadScene: (id: string) => {
     const { scenes } = get();
     if (scenes[id]) {
-      set({ currentSceneId: id, selection: [], history: [], future: [] });
+      set({ currentSceneId: id, selection: [], ...enterSceneHistory(id) });
+    }
+  },
+
+  switchScene: (sceneId: string) => {
+    const { scenes, currentSceneId, collections, currentCollectionId, studioMode } = get();
+    const target = scenes[sceneId];
+    if (!target || sceneId === currentSceneId) return;
+
+    if (studioMode) {
+      // Preview changes are never visible to students; no transition needed.
+      set({ currentSceneId: sceneId, selection: [], ...enterSceneHistory(sceneId) });
+      return;
+    }
+
+    const collection = currentCollectionId ? collections[currentCollectionId] : null;
+    const transition = collection?.transition ?? DEFAULT_SCENE_TRANSITION;
+    const outgoing = currentSceneId ? scenes[currentSceneId] ?? null : null;
+    const from = transition.kind !== 'cut' && transition.durationMs > 0
+      ? snapshotScene(outgoing)
+      : null;
+
+    set({
+      currentSceneId: sceneId,
+      sceneTransition: from ? { ...transition, from, startedAt: nowMs() } : null,
+      selection: [],
+      ...enterSceneHistory(sceneId),
+    });
+    // Keyframe animations play from the start each time a scene goes live.
+    restartSceneClock(sceneId);
+    if (collection) {
+      updateCurrentCollection((current) => ({ ...current, activeSceneId: sceneId }));
+    }
+  },
+
+  renameScene: (sceneId: string, name: string) => {
+    const scene = get().scenes[sceneId];
+    const trimmed = name.trim();
+    if (!scene || !trimmed || scene.name === trimmed) return;
+    const updatedScene: Scene = { ...scene, name: trimmed };
+    set((state) => ({ scenes: { ...state.scenes, [sceneId]: updatedScene } }));
+    queuePersist(updatedScene);
+  },
+
+  deleteScene: (sceneId: string) => {
+    const { scenes, currentSceneId, collections, currentCollectionId } = get();
+    const collection = currentCollectionId ? collections[currentCollectionId] : null;
+    if (!collection || !scenes[sceneId]) return;
+    const index = collection.sceneIds.indexOf(sceneId);
+    if (index === -1 || collection.sceneIds.length <= 1) return;
+
+    const sceneIds = collection.sceneIds.filter((id) => id !== sceneId);
+    const fallbackId = sceneIds[Math.min(index, sceneIds.length - 1)];
+    const nextCurrentId = currentSceneId === sceneId ? fallbackId : currentSceneId;
+    const remainingScenes = { ...scenes };
+    delete remainingScenes[sceneId];
+
+    cancelPendingSave(sceneId);
+    cancelPendingHistorySave(sceneId);
+    const stacks = currentSceneId === sceneId ? enterSceneHistory(nextCurrentId) : null;
+    historyCache.delete(sceneId);
+    set((state) => ({
+      scenes: remainingScenes,
+      currentSceneId: nextCurrentId,
+      // Program keeps showing its frozen copy; the next Take replaces it.
+      programSceneId: state.programSceneId === sceneId ? null : state.programSceneId,
+      ...(stacks ? { selection: [], ...stacks, sceneTransition: null } : {}),
+    }));
+    updateCurrentCollection((current) => ({
+      ...current,
+      sceneIds,
+      activeSceneId: nextCurrentId,
+    }));
+    deletePersistedScene(sceneId).catch((error) => {
+      console.error('Store: Failed to delete scene', error);
+    });
+  },
+
+  openCollection: (collection: SceneCollection, loadedScenes: Scene[]) => {
+    const sceneMap: Record<string, Scene> = {};
+    for (const scene of loadedScenes) {
+      if (scene.id) sceneMap[scene.id] = scene;
+    }
+    // Drop references to scenes that no longer exist in storage.
+    const sceneIds = collection.sceneIds.filter((id) => sceneMap[id]);
+    const activeSceneId =
+      collection.activeSceneId && sceneMap[collection.activeSceneId]
+        ? collection.activeSceneId
+        : sceneIds[0] ?? null;
+    const normalized: SceneCollection = { ...collection, sceneIds, activeSceneId };
+    const stacks = enterSceneHistory(activeSceneId);
+
+    set((state) => ({
+      scenes: sceneMap,
+      currentSceneId: activeSceneId,
+      collections: { ...state.collections, [normalized.id]: normalized },
+      currentCollectionId: normalized.id,
+      sceneTransition: null,
+      selection: [],
+      ...stacks,
+    }));
+
+    if (activeSceneId) {
+      // Re-saving bumps updatedAt so the most recently opened class restores next time.
+      queueCollectionPersist(normalized);
+    } else {
+      get().createScene();
+    }
+  },
+
+  loadCollection: async (collectionId: string) => {
+    const stored = (await loadCollections()).find((entry) => entry.id === collectionId)
+      ?? get().collections[collectionId];
+    if (!stored) return;
+    const loaded = await Promise.all(stored.sceneIds.map((id) => loadPersistedScene(id)));
+    get().openCollection(stored, loaded.filter((scene): scene is Scene => Boolean(scene)));
+  },
+
+  createCollection: (name = DEFAULT_COLLECTION_NAME) => {
+    set({
+      scenes: {},
+      currentSceneId: null,
+      currentCollectionId: null,
+      sceneTransition: null,
+    });
+    get().createScene('Scene 1');
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== DEFAULT_COLLECTION_NAME) {
+      get().renameCollection(trimmed);
+    }
+  },
+
+  renameCollection: (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    updateCurrentCollection((collection) => ({ ...collection, name: trimmed }));
+  },
+
+  setCollectionTransition: (transition: Partial<SceneTransition>) => {
+    updateCurrentCollection((collection) => ({
+      ...collection,
+      transition: { ...collection.transition, ...transition },
+    }));
+  },
+
+  setCollectionOutputProfile: (profileId: OutputProfileId) => {
+    const { collections, currentCollectionId, currentSceneId, scenes } = get();
+    const collection = currentCollectionId ? collections[currentCollectionId] : null;
+    if (!collection) return;
+    const { width, height } = getOutputProfile(profileId);
+
+    const resized: Record<string, Scene> = {};
+    for (const sceneId of collection.sceneIds) {
+      const scene = scenes[sceneId];
+      if (!scene) continue;
+      const next = resizeSceneLayout(scene, width, height);
+      if (next !== scene) resized[sceneId] = next;
+    }
+
+    // Steps recorded at the old size would undo into the wrong layout. The
+    // current scene can undo the resize itself; the others start afresh.
+    for (const sceneId of Object.keys(resized)) {
+      if (sceneId === currentSceneId) continue;
+      historyCache.set(sceneId, { history: [], future: [] });
+      queueHistoryPersist(sceneId);
+    }
+
+    const applyResize = (state: AppStore): Partial<AppState> => ({
+      scenes: { ...state.scenes, ...resized },
+      programScene: state.programScene ? resizeSceneLayout(state.programScene, width, height) : null,
+      // The outgoing snapshot still has the old size.
+      sceneTransition: null,
+    });
+    const current = currentSceneId ? scenes[currentSceneId] : undefined;
+    const currentResized = currentSceneId ? resized[currentSceneId] : undefined;
+    if (current && currentResized) {
+      commitSceneEdit(current, currentResized, { label: 'Change output size' }, applyResize);
+    } else {
+      set(applyResize);
+    }
+    Object.values(resized).forEach(queuePersist);
+    updateCurrentCollection((current) => ({ ...current, outputProfile: profileId }));
+  },
+
+  setStudioMode: (enabled: boolean) => {
+    const { studioMode, currentSceneId, programSceneId, scenes } = get();
+    if (enabled === studioMode) return;
+
+    if (enabled) {
+      set({
+        studioMode: true,
+        programSceneId: currentSceneId,
+        programScene: snapshotScene(currentSceneId ? scenes[currentSceneId] ?? null : null),
+        sceneTransition: null,
+      });
+      return;
+    }
+
+    const nextSceneId = programSceneId && scenes[programSceneId] ? programSceneId : currentSceneId;
+    set({
+      studioMode: false,
+      programSceneId: null,
+      programScene: null,
+      sceneTransition: null,
+      ...(nextSceneId !== currentSceneId
+        ? { currentSceneId: nextSceneId, selection: [], ...enterSceneHistory(nextSceneId) }
+        : {}),
+    });
+  },
+
+  takePreview: () => {
+    const {
+      studioMode,
+      scenes,
+      currentSceneId,
+      programSceneId,
+      programScene,
+      collections,
+      currentCollectionId,
+    } = get();
+    if (!studioMode || !currentSceneId) return;
+    const preview = scenes[currentSceneId];
+    if (!preview) return;
+
+    const collection = currentCollectionId ? collections[currentCollectionId] : null;
+    const transition = collection?.transition ?? DEFAULT_SCENE_TRANSITION;
+    const animate = transition.kind !== 'cut' && transition.durationMs > 0 && programScene;
+    const swapSceneId =
+      programSceneId && programSceneId !== currentSceneId && scenes[programSceneId]
+        ? programSceneId
+        : currentSceneId;
+
+    set({
+      programSceneId: currentSceneId,
+      programScene: snapshotScene(preview),
+      sceneTransition: animate
+        ? { ...transition, from: programScene, startedAt: nowMs() }
+        : null,
+      ...(swapSceneId !== currentSceneId
+        ? { currentSceneId: swapSceneId, selection: [], ...enterSceneHistory(swapSceneId) }
+        : {}),
+    });
+    restartSceneClock(currentSceneId);
+    if (collection) {
+      updateCurrentCollection((current) => ({ ...current, activeSceneId: currentSceneId }));
+    }
+  },
+
+  completeSceneTransition: () => {
+    if (get().sceneTransition) {
+      set({ sceneTransition: null });
     }
   },
 
@@ -303,47 +925,66 @@ export const useAppStore = create<AppStore>((set, get) => {
       ? Math.max(...scene.layers.map((l) => l.z))
       : 0;
     const nextLayer = withLayerZ(workingLayer, maxZ + 1);
-    const snapshot = snapshotScene(scene);
     const updatedScene: Scene = {
       ...scene,
       layers: [...scene.layers, nextLayer],
     };
 
-    set((state) => ({
-      scenes: { ...state.scenes, [state.currentSceneId!]: updatedScene },
-      history: snapshot ? [...state.history, snapshot] : state.history,
-      future: [],
-    }));
+    commitSceneEdit(scene, updatedScene, { label: `Add ${nextLayer.name || 'layer'}` });
+    queuePersist(updatedScene);
+  },
+
+  addLayers: (layers: Layer[], historyLabel?: string) => {
+    const { getCurrentScene } = get();
+    const scene = getCurrentScene();
+    if (!scene || layers.length === 0) return;
+
+    const maxZ = scene.layers.length > 0
+      ? Math.max(...scene.layers.map((l) => l.z))
+      : 0;
+    const nextLayers = layers.map((layer, index) => withLayerZ(ensureLayerId(layer), maxZ + 1 + index));
+    const updatedScene: Scene = {
+      ...scene,
+      layers: [...scene.layers, ...nextLayers],
+    };
+
+    const label = historyLabel
+      ?? (nextLayers.length === 1 ? `Add ${nextLayers[0].name || 'layer'}` : `Add ${nextLayers.length} layers`);
+    commitSceneEdit(scene, updatedScene, { label });
     queuePersist(updatedScene);
   },
 
   removeLayer: (layerId: string) => {
+    get().removeLayers([layerId]);
+  },
+
+  removeLayers: (layerIds: string[]) => {
     const { getCurrentScene } = get();
     const scene = getCurrentScene();
     if (!scene) return;
 
-    const snapshot = snapshotScene(scene);
+    const ids = new Set(layerIds);
+    const removed = scene.layers.filter((layer) => ids.has(layer.id));
+    if (removed.length === 0) return;
     const updatedScene: Scene = {
       ...scene,
-      layers: scene.layers.filter((layer) => layer.id !== layerId),
+      layers: scene.layers.filter((layer) => !ids.has(layer.id)),
     };
 
-    set((state) => ({
-      scenes: { ...state.scenes, [state.currentSceneId!]: updatedScene },
-      selection: state.selection.filter((id) => id !== layerId),
-      history: snapshot ? [...state.history, snapshot] : state.history,
-      future: [],
+    const label = removed.length === 1 ? `Delete ${removed[0].name || 'layer'}` : `Delete ${removed.length} layers`;
+    commitSceneEdit(scene, updatedScene, { label }, (state) => ({
+      selection: state.selection.filter((id) => !ids.has(id)),
     }));
     queuePersist(updatedScene);
   },
 
   updateLayer: (layerId: string, updates: Partial<Layer>, options: UpdateLayerOptions = {}) => {
-    const { recordHistory = true, persist = true, historySnapshot } = options;
+    const { recordHistory = true, persist = true, historyLabel, coalesceKey, gesture } = options;
     const { getCurrentScene } = get();
     const scene = getCurrentScene();
     if (!scene) return;
 
-    const snapshotEntry = historySnapshot ?? (recordHistory ? snapshotScene(scene) : null);
+    const target = scene.layers.find((layer) => layer.id === layerId);
     const updatedScene: Scene = {
       ...scene,
       layers: scene.layers.map((layer) =>
@@ -351,11 +992,16 @@ export const useAppStore = create<AppStore>((set, get) => {
       ),
     };
 
-    set((state) => ({
-      scenes: { ...state.scenes, [state.currentSceneId!]: updatedScene },
-      history: snapshotEntry ? [...state.history, snapshotEntry] : state.history,
-      future: snapshotEntry ? [] : state.future,
-    }));
+    commitSceneEdit(
+      scene,
+      updatedScene,
+      recordHistory
+        ? {
+            label: historyLabel ?? describeLayerChange(target ? [target] : [], updates),
+            coalesce: coalesceKey ? { key: coalesceKey, gesture } : undefined,
+          }
+        : null
+    );
     if (persist) {
       queuePersist(updatedScene);
     }
@@ -363,13 +1009,12 @@ export const useAppStore = create<AppStore>((set, get) => {
 
   updateLayers: (updates, options: UpdateLayerOptions = {}) => {
     if (updates.length === 0) return;
-    const { recordHistory = true, persist = true, historySnapshot } = options;
+    const { recordHistory = true, persist = true, historyLabel, coalesceKey, gesture } = options;
     const { getCurrentScene } = get();
     const scene = getCurrentScene();
     if (!scene) return;
 
     const updateMap = new Map(updates.map((entry) => [entry.id, entry.changes]));
-    const snapshotEntry = historySnapshot ?? (recordHistory ? snapshotScene(scene) : null);
 
     const updatedScene: Scene = {
       ...scene,
@@ -379,11 +1024,16 @@ export const useAppStore = create<AppStore>((set, get) => {
       }),
     };
 
-    set((state) => ({
-      scenes: { ...state.scenes, [state.currentSceneId!]: updatedScene },
-      history: snapshotEntry ? [...state.history, snapshotEntry] : state.history,
-      future: snapshotEntry ? [] : state.future,
-    }));
+    let history: { label: string; coalesce?: HistoryCoalesce } | null = null;
+    if (recordHistory) {
+      const allChanges: Partial<Layer> = Object.assign({}, ...updates.map((entry) => entry.changes));
+      const targets = scene.layers.filter((layer) => updateMap.has(layer.id));
+      history = {
+        label: historyLabel ?? describeLayerChange(targets, allChanges),
+        coalesce: coalesceKey ? { key: coalesceKey, gesture } : undefined,
+      };
+    }
+    commitSceneEdit(scene, updatedScene, history);
 
     if (persist) {
       queuePersist(updatedScene);
@@ -399,7 +1049,6 @@ export const useAppStore = create<AppStore>((set, get) => {
     const scene = getCurrentScene();
     if (!scene) return;
 
-    const snapshot = snapshotScene(scene);
     const layerMap = new Map(scene.layers.map((layer) => [layer.id, layer] as const));
     const seen = new Set<string>();
     const orderedIds: string[] = [];
@@ -432,44 +1081,57 @@ export const useAppStore = create<AppStore>((set, get) => {
       layers: reorderedLayers,
     };
 
-    set((state) => ({
-      scenes: { ...state.scenes, [state.currentSceneId!]: updatedScene },
-      history: snapshot ? [...state.history, snapshot] : state.history,
-      future: [],
-    }));
+    commitSceneEdit(scene, updatedScene, { label: 'Reorder layers' });
     queuePersist(updatedScene);
   },
 
   undo: () => {
-    const state = get();
-    const { history, currentSceneId } = state;
-    if (!currentSceneId || history.length === 0) return;
-    const scenes = state.scenes;
-    const current = scenes[currentSceneId];
-    const previous = history[history.length - 1];
-    if (!current || !previous) return;
-    set({
-      scenes: { ...scenes, [currentSceneId]: previous },
-      history: history.slice(0, -1),
-      future: [snapshotScene(current)!, ...state.future],
-    });
-    queuePersist(previous);
+    get().goToHistory(get().history.length - 1);
   },
 
   redo: () => {
-    const state = get();
-    const { future, currentSceneId } = state;
-    if (!currentSceneId || future.length === 0) return;
-    const scenes = state.scenes;
-    const current = scenes[currentSceneId];
-    const nextScene = future[0];
-    if (!current || !nextScene) return;
-    set({
-      scenes: { ...scenes, [currentSceneId]: nextScene },
-      history: [...state.history, snapshotScene(current)!],
-      future: future.slice(1),
-    });
+    get().goToHistory(get().history.length + 1);
+  },
+
+  goToHistory: (position: number) => {
+    const { history, future, currentSceneId, getCurrentScene } = get();
+    const scene = getCurrentScene();
+    if (!scene || !currentSceneId) return;
+    const target = Math.max(0, Math.min(position, history.length + future.length));
+    if (target === history.length) return;
+
+    let nextScene = scene;
+    let undoStack = history;
+    let redoStack = future;
+    while (undoStack.length > target) {
+      const entry = undoStack[undoStack.length - 1];
+      nextScene = applyScenePatch(nextScene, entry.patch, 'undo');
+      undoStack = undoStack.slice(0, -1);
+      redoStack = [entry, ...redoStack];
+    }
+    while (undoStack.length < target) {
+      const entry = redoStack[0];
+      nextScene = applyScenePatch(nextScene, entry.patch, 'redo');
+      undoStack = [...undoStack, entry];
+      redoStack = redoStack.slice(1);
+    }
+
+    const layerIds = new Set(nextScene.layers.map((layer) => layer.id));
+    set((state) => ({
+      scenes: { ...state.scenes, [currentSceneId]: nextScene },
+      history: undoStack,
+      future: redoStack,
+      selection: state.selection.filter((id) => layerIds.has(id)),
+    }));
     queuePersist(nextScene);
+    queueHistoryPersist(currentSceneId);
+  },
+
+  clearHistory: () => {
+    const { currentSceneId } = get();
+    if (!currentSceneId) return;
+    set({ history: [], future: [] });
+    queueHistoryPersist(currentSceneId);
   },
   };
 });
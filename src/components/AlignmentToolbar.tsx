@@ -0,0 +1,114 @@
+import type { CSSProperties } from 'react';
+import type { Layer } from '../types/scene';
+import { useAppStore } from '../app/store';
+import { requestCurrentStreamFrame } from '../utils/viewerStream';
+import {
+  getAlignUpdates,
+  getDistributeUpdates,
+  type AlignMode,
+  type DistributeAxis,
+  type LayerPositionUpdate,
+} from '../utils/layerAlignment';
+
+interface AlignmentToolbarProps {
+  layers: Layer[];
+}
+
+const ALIGN_BUTTONS: Array<{ mode: AlignMode; label: string; title: string }> = [
+  { mode: 'left', label: '⇤', title: 'Align left edges' },
+  { mode: 'center', label: '↔', title: 'Align horizontal centers' },
+  { mode: 'right', label: '⇥', title: 'Align right edges' },
+  { mode: 'top', label: '⤒', title: 'Align top edges' },
+  { mode: 'middle', label: '↕', title: 'Align vertical centers' },
+  { mode: 'bottom', label: '⤓', title: 'Align bottom edges' },
+];
+
+const DISTRIBUTE_BUTTONS: Array<{ axis: DistributeAxis; label: string; title: string }> = [
+  { axis: 'horizontal', label: 'Distribute H', title: 'Equal horizontal spacing' },
+  { axis: 'vertical', label: 'Distribute V', title: 'Equal vertical spacing' },
+];
+
+/**
+ * Align and distribute commands for a multi-layer selection.
+ */
+export function AlignmentToolbar({ layers }: AlignmentToolbarProps) {
+  const updateLayers = useAppStore((state) => state.updateLayers);
+  const scene = useAppStore((state) => state.getCurrentScene());
+  const movableCount = layers.filter((layer) => !layer.locked && layer.type !== 'group').length;
+
+  const apply = (updates: LayerPositionUpdate[]) => {
+    if (updates.length === 0) return;
+    updateLayers(updates);
+    requestCurrentStreamFrame();
+  };
+
+  if (!scene) return null;
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.row}>
+        {ALIGN_BUTTONS.map((button) => (
+          <button
+            key={button.mode}
+            type="button"
+            onClick={() => apply(getAlignUpdates(layers, scene, button.mode))}
+            disabled={movableCount === 0}
+            style={styles.iconButton}
+            title={button.title}
+            aria-label={button.title}
+          >
+            {button.label}
+          </button>
+        ))}
+      </div>
+      <div style={styles.row}>
+        {DISTRIBUTE_BUTTONS.map((button) => (
+          <button
+            key={button.axis}
+            type="button"
+            onClick={() => apply(getDistributeUpdates(layers, scene, button.axis))}
+            disabled={movableCount < 3}
+            style={{ ...styles.button, opacity: movableCount < 3 ? 0.5 : 1 }}
+            title={button.title}
+          >
+            {button.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    padding: '10px 14px',
+    borderBottom: '1px solid rgba(255, 255, 255, 0.06)',
+  },
+  row: {
+    display: 'flex',
+    gap: '6px',
+  },
+  iconButton: {
+    flex: 1,
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.18)',
+    background: 'rgba(255, 255, 255, 0.08)',
+    color: '#f5f5f5',
+    fontSize: '14px',
+    padding: '4px 0',
+    cursor: 'pointer',
+  },
+  button: {
+    flex: 1,
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.18)',
+    background: 'rgba(255, 255, 255, 0.08)',
+    color: '#f5f5f5',
+    fontSize: '12px',
+    padding: '4px 8px',
+    cursor: 'pointer',
+  },
+};
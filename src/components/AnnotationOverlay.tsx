@@ -0,0 +1,182 @@
+import { useCallback, useRef, type PointerEvent as ReactPointerEvent } from 'react';
+import type { CanvasLayout } from './PresenterCanvas';
+import type { AnnotationLayer, AnnotationStroke, Scene } from '../types/scene';
+import { useAppStore } from '../app/store';
+import { findAnnotationTarget, useAnnotationStore } from '../stores/annotationStore';
+import { createAnnotationLayer } from '../layers/factory';
+import { createId } from '../utils/id';
+import { requestCurrentStreamFrame } from '../utils/viewerStream';
+import { viewToScene } from '../renderer/viewport';
+
+interface AnnotationOverlayProps {
+  layout: CanvasLayout;
+  scene: Scene;
+  /** Whether the canvas under the overlay shows the program zoom */
+  viewportApplied: boolean;
+}
+
+interface StrokeState {
+  pointerId: number;
+  layerId: string;
+  stroke: AnnotationStroke;
+  /** Strokes on the layer before this one started */
+  baseStrokes: AnnotationStroke[];
+  /** Coalesces the stroke's live updates into one undo step */
+  historyKey: string;
+}
+
+/** Highlighter and eraser widths relative to the chosen pen width */
+const TOOL_WIDTH_FACTOR = { pen: 1, highlighter: 3, eraser: 4 } as const;
+
+/** Skip points closer than this (screen pixels) to the previous one */
+const MIN_POINT_DISTANCE_PX = 1.5;
+
+function strokeHistoryOptions(state: StrokeState, persist: boolean) {
+  return {
+    persist,
+    historyLabel: state.stroke.tool === 'eraser' ? 'Erase ink' : 'Draw ink',
+    coalesceKey: state.historyKey,
+    gesture: true,
+  };
+}
+
+/**
+ * Convert a scene point into the layer's local (centered, unscaled) space.
+ */
+function sceneToLayerLocal(layer: AnnotationLayer, x: number, y: number): { x: number; y: number } {
+  const { pos, scale, rot } = layer.transform;
+  const angle = (-rot * Math.PI) / 180;
+  const dx = x - pos.x;
+  const dy = y - pos.y;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: (dx * cos - dy * sin) / (scale.x || 1),
+    y: (dx * sin + dy * cos) / (scale.y || 1),
+  };
+}
+
+/**
+ * Pointer capture surface for draw mode. Strokes update the layer live (so
+ * viewers see ink as it is drawn) and commit one undo entry on release.
+ */
+export function AnnotationOverlay({ layout, scene, viewportApplied }: AnnotationOverlayProps) {
+  const updateLayer = useAppStore((state) => state.updateLayer);
+  const strokeRef = useRef<StrokeState | null>(null);
+
+  const resolveTarget = useCallback((): AnnotationLayer | null => {
+    const store = useAppStore.getState();
+    const existing = findAnnotationTarget(scene, store.selection);
+    if (existing) return existing;
+    // First stroke in a scene without ink: add a scene-sized layer on top.
+    const layerId = createId('layer');
+    store.addLayer(createAnnotationLayer(layerId, scene.width, scene.height));
+    const created = store.getCurrentScene()?.layers.find((entry) => entry.id === layerId);
+    return created?.type === 'annotation' ? created : null;
+  }, [scene]);
+
+  const toLocal = useCallback(
+    (layer: AnnotationLayer, clientX: number, clientY: number) => {
+      const viewX = (clientX - layout.x) / layout.scaleX;
+      const viewY = (clientY - layout.y) / layout.scaleY;
+      const point = viewportApplied ? viewToScene(scene, viewX, viewY) : { x: viewX, y: viewY };
+      return sceneToLayerLocal(layer, point.x, point.y);
+    },
+    [layout, scene, viewportApplied]
+  );
+
+  const handlePointerDown = useCallback(
+    (event: ReactPointerEvent<HTMLDivElement>) => {
+      if (event.button !== 0 || strokeRef.current) return;
+      event.preventDefault();
+      const layer = resolveTarget();
+      if (!layer) return;
+
+      const { tool, color, width } = useAnnotationStore.getState();
+      const point = toLocal(layer, event.clientX, event.clientY);
+      const stroke: AnnotationStroke = {
+        id: createId('stroke'),
+        tool,
+        color,
+        width: width * TOOL_WIDTH_FACTOR[tool],
+        points: [point.x, point.y],
+      };
+      const state: StrokeState = {
+        pointerId: event.pointerId,
+        layerId: layer.id,
+        stroke,
+        baseStrokes: layer.strokes,
+        historyKey: stroke.id,
+      };
+      strokeRef.current = state;
+      event.currentTarget.setPointerCapture(event.pointerId);
+      updateLayer(layer.id, { strokes: [...layer.strokes, stroke] }, strokeHistoryOptions(state, false));
+      requestCurrentStreamFrame();
+    },
+    [resolveTarget, toLocal, updateLayer]
+  );
+
+  const handlePointerMove = useCallback(
+    (event: ReactPointerEvent<HTMLDivElement>) => {
+      const state = strokeRef.current;
+      if (!state || state.pointerId !== event.pointerId) return;
+      const layer = useAppStore.getState().getCurrentScene()?.layers.find((entry) => entry.id === state.layerId);
+      if (layer?.type !== 'annotation') return;
+
+      const point = toLocal(layer, event.clientX, event.clientY);
+      const { points } = state.stroke;
+      const minDistance = MIN_POINT_DISTANCE_PX / layout.scaleX;
+      const lastX = points[points.length - 2];
+      const lastY = points[points.length - 1];
+      if (Math.hypot(point.x - lastX, point.y - lastY) < minDistance) return;
+
+      // A new stroke object each move lets the renderer keep earlier strokes cached.
+      state.stroke = { ...state.stroke, points: [...points, point.x, point.y] };
+      updateLayer(
+        layer.id,
+        { strokes: [...state.baseStrokes, state.stroke] },
+        strokeHistoryOptions(state, false)
+      );
+      requestCurrentStreamFrame();
+    },
+    [layout.scaleX, toLocal, updateLayer]
+  );
+
+  const finishStroke = useCallback(
+    (event: ReactPointerEvent<HTMLDivElement>) => {
+      const state = strokeRef.current;
+      if (!state || state.pointerId !== event.pointerId) return;
+      strokeRef.current = null;
+      if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+        event.currentTarget.releasePointerCapture(event.pointerId);
+      }
+      updateLayer(
+        state.layerId,
+        { strokes: [...state.baseStrokes, state.stroke] },
+        strokeHistoryOptions(state, true)
+      );
+      requestCurrentStreamFrame();
+    },
+    [updateLayer]
+  );
+
+  return (
+    <div
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={finishStroke}
+      onPointerCancel={finishStroke}
+      style={{
+        position: 'fixed',
+        left: layout.x,
+        top: layout.y,
+        width: layout.width,
+        height: layout.height,
+        pointerEvents: 'auto',
+        cursor: 'crosshair',
+        touchAction: 'none',
+        zIndex: 13,
+      }}
+    />
+  );
+}
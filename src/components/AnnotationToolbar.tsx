@@ -0,0 +1,203 @@
+import { useState, type CSSProperties } from 'react';
+import type { CanvasLayout } from './PresenterCanvas';
+import type { AnnotationTool, Scene } from '../types/scene';
+import { useAppStore } from '../app/store';
+import {
+  ANNOTATION_COLORS,
+  MAX_ANNOTATION_WIDTH,
+  MIN_ANNOTATION_WIDTH,
+  findAnnotationTarget,
+  useAnnotationStore,
+} from '../stores/annotationStore';
+import { drawScene } from '../renderer/canvasRenderer';
+import { requestCurrentStreamFrame } from '../utils/viewerStream';
+import { downloadBlob } from '../utils/download';
+
+interface AnnotationToolbarProps {
+  layout: CanvasLayout;
+  scene: Scene;
+}
+
+const TOOLS: { id: AnnotationTool; label: string }[] = [
+  { id: 'pen', label: 'Pen' },
+  { id: 'highlighter', label: 'Highlighter' },
+  { id: 'eraser', label: 'Eraser' },
+];
+
+/**
+ * Draw mode toolbar: tool, color and width pickers plus undo, clear and
+ * save-frame actions. Shown above the canvas while draw mode is active.
+ */
+export function AnnotationToolbar({ layout, scene }: AnnotationToolbarProps) {
+  const { tool, color, width, setTool, setColor, setWidth, setActive } = useAnnotationStore();
+  const selection = useAppStore((state) => state.selection);
+  const updateLayer = useAppStore((state) => state.updateLayer);
+  const undo = useAppStore((state) => state.undo);
+  const canUndo = useAppStore((state) => state.history.length > 0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const target = findAnnotationTarget(scene, selection);
+  const hasInk = !!target && target.strokes.length > 0;
+
+  const clearAll = () => {
+    if (!target || !hasInk) return;
+    updateLayer(target.id, { strokes: [] });
+    requestCurrentStreamFrame();
+  };
+
+  const saveFrame = async () => {
+    setIsSaving(true);
+    try {
+      await downloadSceneFrame(scene);
+    } catch (error) {
+      console.error('AnnotationToolbar: failed to save frame', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        ...styles.container,
+        left: layout.x + layout.width / 2,
+        top: layout.y + 12,
+      }}
+    >
+      {TOOLS.map((entry) => (
+        <button
+          key={entry.id}
+          type="button"
+          onClick={() => setTool(entry.id)}
+          style={{ ...styles.button, ...(tool === entry.id ? styles.buttonActive : null) }}
+          aria-pressed={tool === entry.id}
+        >
+          {entry.label}
+        </button>
+      ))}
+      <span style={styles.divider} />
+      {ANNOTATION_COLORS.map((swatch) => (
+        <button
+          key={swatch}
+          type="button"
+          onClick={() => setColor(swatch)}
+          style={{
+            ...styles.swatch,
+            background: swatch,
+            ...(color === swatch ? styles.swatchActive : null),
+          }}
+          aria-label={`Ink color ${swatch}`}
+          aria-pressed={color === swatch}
+        />
+      ))}
+      <input
+        type="color"
+        value={color}
+        onChange={(event) => setColor(event.target.value)}
+        style={styles.colorInput}
+        aria-label="Custom ink color"
+      />
+      <input
+        type="range"
+        min={MIN_ANNOTATION_WIDTH}
+        max={MAX_ANNOTATION_WIDTH}
+        step={1}
+        value={width}
+        onChange={(event) => setWidth(Number(event.target.value))}
+        style={styles.slider}
+        aria-label="Stroke width"
+        title={`${width}px`}
+      />
+      <span style={styles.divider} />
+      <button type="button" onClick={undo} disabled={!canUndo} style={styles.button}>
+        Undo
+      </button>
+      <button type="button" onClick={clearAll} disabled={!hasInk} style={styles.button}>
+        Clear all
+      </button>
+      <button type="button" onClick={() => void saveFrame()} disabled={isSaving} style={styles.button}>
+        {isSaving ? 'Saving…' : 'Save frame'}
+      </button>
+      <button type="button" onClick={() => setActive(false)} style={{ ...styles.button, ...styles.buttonActive }}>
+        Done
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Render the scene (ink included) at full resolution and download it as PNG.
+ */
+async function downloadSceneFrame(scene: Scene): Promise<void> {
+  const canvas = document.createElement('canvas');
+  canvas.width = scene.width;
+  canvas.height = scene.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  drawScene(scene, ctx);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Failed to encode frame');
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  downloadBlob(blob, `annotated-${stamp}.png`);
+}
+
+const styles: Record<string, CSSProperties> = {
+  container: {
+    position: 'fixed',
+    transform: 'translateX(-50%)',
+    zIndex: 14,
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '6px 10px',
+    borderRadius: '10px',
+    background: 'rgba(18, 18, 18, 0.92)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    boxShadow: '0 8px 24px rgba(0, 0, 0, 0.45)',
+    fontSize: '12px',
+    color: '#f5f5f5',
+  },
+  button: {
+    background: 'rgba(255, 255, 255, 0.08)',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    borderRadius: '6px',
+    color: '#f5f5f5',
+    fontSize: '12px',
+    padding: '5px 10px',
+    cursor: 'pointer',
+  },
+  buttonActive: {
+    background: 'rgba(0, 166, 255, 0.25)',
+    borderColor: 'rgba(0, 166, 255, 0.8)',
+  },
+  divider: {
+    width: '1px',
+    height: '20px',
+    background: 'rgba(255, 255, 255, 0.15)',
+  },
+  swatch: {
+    width: '18px',
+    height: '18px',
+    borderRadius: '50%',
+    border: '2px solid rgba(255, 255, 255, 0.25)',
+    padding: 0,
+    cursor: 'pointer',
+  },
+  swatchActive: {
+    borderColor: '#ffffff',
+    boxShadow: '0 0 0 2px rgba(0, 166, 255, 0.8)',
+  },
+  colorInput: {
+    width: '24px',
+    height: '22px',
+    padding: 0,
+    border: 'none',
+    background: 'transparent',
+    cursor: 'pointer',
+  },
+  slider: {
+    width: '80px',
+  },
+};
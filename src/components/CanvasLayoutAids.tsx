@@ -0,0 +1,445 @@
+import { useRef, useState, type CSSProperties, type PointerEvent as ReactPointerEvent, type ReactElement } from 'react';
+import type { CanvasLayout } from './PresenterCanvas';
+import type { Scene } from '../types/scene';
+import { GRID_SIZES, SAFE_AREAS, useLayoutAidsStore, type RulerGuide } from '../stores/layoutAidsStore';
+
+interface CanvasLayoutAidsProps {
+  layout: CanvasLayout;
+  scene: Scene;
+}
+
+type GuideOrientation = RulerGuide['orientation'];
+
+interface GuideDrag {
+  id: string;
+  pointerId: number;
+  orientation: GuideOrientation;
+}
+
+/** Ruler thickness in screen pixels */
+const RULER_SIZE = 20;
+/** Labelled ruler intervals in scene pixels; the finest one that fits is used */
+const RULER_STEPS = [10, 20, 50, 100, 200, 500, 1000, 2000];
+const MIN_LABEL_SPACING_PX = 56;
+const MIN_TICK_SPACING_PX = 5;
+/** Below this on-screen spacing the grid would be a solid wash */
+const MIN_GRID_SPACING_PX = 4;
+/** Width of the grab strip around a guide, in screen pixels */
+const GUIDE_HIT_PX = 7;
+
+function pickRulerStep(scale: number): number {
+  return RULER_STEPS.find((step) => step * scale >= MIN_LABEL_SPACING_PX) ?? RULER_STEPS[RULER_STEPS.length - 1];
+}
+
+interface RulerProps {
+  orientation: 'horizontal' | 'vertical';
+  /** Scene length along the ruler */
+  sceneLength: number;
+  scale: number;
+}
+
+/**
+ * Tick marks and labels in scene pixels. Horizontal rulers run along the top
+ * edge, vertical ones along the left.
+ */
+function RulerTicks({ orientation, sceneLength, scale }: RulerProps) {
+  const step = pickRulerStep(scale);
+  const minor = step / 5;
+  const showMinor = minor * scale >= MIN_TICK_SPACING_PX;
+  const horizontal = orientation === 'horizontal';
+  const length = sceneLength * scale;
+  const ticks: ReactElement[] = [];
+  for (let index = 0; index * minor <= sceneLength; index += 1) {
+    const value = index * minor;
+    const major = index % 5 === 0;
+    if (!major && !showMinor) continue;
+    const at = Math.round(value * scale) + 0.5;
+    const size = major ? RULER_SIZE * 0.6 : RULER_SIZE * 0.25;
+    ticks.push(
+      horizontal ? (
+        <line key={value} x1={at} x2={at} y1={RULER_SIZE - size} y2={RULER_SIZE} />
+      ) : (
+        <line key={value} y1={at} y2={at} x1={RULER_SIZE - size} x2={RULER_SIZE} />
+      )
+    );
+    if (major) {
+      ticks.push(
+        horizontal ? (
+          <text key={`label-${value}`} x={at + 3} y={9} style={styles.rulerLabel}>
+            {value}
+          </text>
+        ) : (
+          <text key={`label-${value}`} x={9} y={at + 3} transform={`rotate(-90 9 ${at + 3})`} style={styles.rulerLabel}>
+            {value}
+          </text>
+        )
+      );
+    }
+  }
+  return (
+    <svg width={horizontal ? length : RULER_SIZE} height={horizontal ? RULER_SIZE : length} style={styles.rulerSvg}>
+      <g stroke="rgba(255, 255, 255, 0.45)" strokeWidth={1}>
+        {ticks}
+      </g>
+    </svg>
+  );
+}
+
+/**
+ * Editor-only layout aids over the presenter canvas: a grid, pixel rulers
+ * with guides dragged out of them, and title/action safe-area markers. Drags
+ * snap to the guides and, when enabled, the grid. Nothing here is part of the
+ * scene, so the program output never shows it.
+ */
+export function CanvasLayoutAids({ layout, scene }: CanvasLayoutAidsProps) {
+  const {
+    gridVisible,
+    gridSize,
+    snapToGrid,
+    rulersVisible,
+    safeAreasVisible,
+    guides,
+    toggleGrid,
+    setGridSize,
+    toggleSnapToGrid,
+    toggleRulers,
+    toggleSafeAreas,
+    addGuide,
+    moveGuide,
+    removeGuide,
+    clearGuides,
+  } = useLayoutAidsStore();
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const dragRef = useRef<GuideDrag | null>(null);
+
+  const toScene = (event: ReactPointerEvent, orientation: GuideOrientation) =>
+    orientation === 'vertical'
+      ? (event.clientX - layout.x) / layout.scaleX
+      : (event.clientY - layout.y) / layout.scaleY;
+
+  const beginGuideDrag = (event: ReactPointerEvent<HTMLElement>, id: string, orientation: GuideOrientation) => {
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { id, pointerId: event.pointerId, orientation };
+    setDraggingId(id);
+  };
+
+  // The top ruler makes horizontal guides, the left one vertical guides.
+  const handleRulerPointerDown = (event: ReactPointerEvent<HTMLElement>, orientation: GuideOrientation) => {
+    if (event.button !== 0) return;
+    const id = addGuide(orientation, Math.round(toScene(event, orientation)));
+    beginGuideDrag(event, id, orientation);
+  };
+
+  const handleGuidePointerMove = (event: ReactPointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    moveGuide(drag.id, Math.round(toScene(event, drag.orientation)));
+    event.preventDefault();
+  };
+
+  const endGuideDrag = (event: ReactPointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    const position = toScene(event, drag.orientation);
+    const length = drag.orientation === 'vertical' ? scene.width : scene.height;
+    // Dropping a guide back on the ruler, or anywhere off the canvas, removes it.
+    if (event.type === 'pointercancel' || position < 0 || position > length) {
+      removeGuide(drag.id);
+    }
+    dragRef.current = null;
+    setDraggingId(null);
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+  };
+
+  const dragHandlers = {
+    onPointerMove: handleGuidePointerMove,
+    onPointerUp: endGuideDrag,
+    onPointerCancel: endGuideDrag,
+  };
+
+  const gridStepX = gridSize * layout.scaleX;
+  const gridStepY = gridSize * layout.scaleY;
+  const grid =
+    gridVisible && gridStepX >= MIN_GRID_SPACING_PX && gridStepY >= MIN_GRID_SPACING_PX ? (
+      <div
+        style={{
+          ...styles.grid,
+          left: layout.x,
+          top: layout.y,
+          width: layout.width,
+          height: layout.height,
+          backgroundSize: `${gridStepX}px ${gridStepY}px`,
+        }}
+      />
+    ) : null;
+
+  const safeAreas = safeAreasVisible
+    ? SAFE_AREAS.map((area) => {
+        const insetX = scene.width * area.inset * layout.scaleX;
+        const insetY = scene.height * area.inset * layout.scaleY;
+        return (
+          <div
+            key={area.id}
+            style={{
+              ...styles.safeArea,
+              ...(area.id === 'title' ? styles.titleSafe : null),
+              left: layout.x + insetX,
+              top: layout.y + insetY,
+              width: Math.max(0, layout.width - insetX * 2),
+              height: Math.max(0, layout.height - insetY * 2),
+            }}
+          >
+            <span style={styles.safeAreaLabel}>{area.label}</span>
+          </div>
+        );
+      })
+    : null;
+
+  // Rulers sit just outside the canvas, or on its edge when there is no room.
+  const rulerTop = Math.max(0, layout.y - RULER_SIZE);
+  const rulerLeft = Math.max(0, layout.x - RULER_SIZE);
+
+  const guideVisuals = rulersVisible
+    ? guides.map((guide) => {
+        const vertical = guide.orientation === 'vertical';
+        const offset = vertical ? layout.x + guide.position * layout.scaleX : layout.y + guide.position * layout.scaleY;
+        return (
+          <div
+            key={guide.id}
+            onPointerDown={(event) => {
+              if (event.button === 0) beginGuideDrag(event, guide.id, guide.orientation);
+            }}
+            onDoubleClick={() => removeGuide(guide.id)}
+            {...dragHandlers}
+            style={{
+              ...styles.guideHit,
+              ...(vertical
+                ? { left: offset - GUIDE_HIT_PX / 2, top: layout.y, width: GUIDE_HIT_PX, height: layout.height, cursor: 'ew-resize' }
+                : { left: layout.x, top: offset - GUIDE_HIT_PX / 2, width: layout.width, height: GUIDE_HIT_PX, cursor: 'ns-resize' }),
+            }}
+            title="Drag to move, drag onto the ruler or double-click to remove"
+          >
+            <div style={vertical ? styles.guideLineVertical : styles.guideLineHorizontal} />
+            {draggingId === guide.id && (
+              <span style={{ ...styles.guideLabel, ...(vertical ? { left: GUIDE_HIT_PX + 2, top: 4 } : { left: 4, top: GUIDE_HIT_PX + 2 }) }}>
+                {guide.position}
+              </span>
+            )}
+          </div>
+        );
+      })
+    : null;
+
+  const rulers = rulersVisible ? (
+    <>
+      <div
+        onPointerDown={(event) => handleRulerPointerDown(event, 'horizontal')}
+        {...dragHandlers}
+        style={{ ...styles.ruler, left: layout.x, top: rulerTop, width: layout.width, height: RULER_SIZE, cursor: 'ns-resize' }}
+        title="Drag down to add a horizontal guide"
+      >
+        <RulerTicks orientation="horizontal" sceneLength={scene.width} scale={layout.scaleX} />
+      </div>
+      <div
+        onPointerDown={(event) => handleRulerPointerDown(event, 'vertical')}
+        {...dragHandlers}
+        style={{ ...styles.ruler, left: rulerLeft, top: layout.y, width: RULER_SIZE, height: layout.height, cursor: 'ew-resize' }}
+        title="Drag right to add a vertical guide"
+      >
+        <RulerTicks orientation="vertical" sceneLength={scene.height} scale={layout.scaleY} />
+      </div>
+    </>
+  ) : null;
+
+  return (
+    <>
+      {grid}
+      {safeAreas}
+      {guideVisuals}
+      {rulers}
+      <button
+        type="button"
+        onClick={() => setMenuOpen((open) => !open)}
+        style={{ ...styles.cornerButton, left: rulerLeft, top: rulerTop, ...(menuOpen ? styles.cornerButtonActive : null) }}
+        aria-haspopup="menu"
+        aria-expanded={menuOpen}
+        title="Grid, rulers and safe areas"
+      >
+        #
+      </button>
+      {menuOpen && (
+        <div style={{ ...styles.menu, left: rulerLeft, top: rulerTop + RULER_SIZE + 4 }} role="menu">
+          <label style={styles.menuRow}>
+            <input type="checkbox" checked={gridVisible} onChange={toggleGrid} />
+            Grid (G)
+          </label>
+          <label style={{ ...styles.menuRow, ...styles.menuIndent }}>
+            <select
+              value={gridSize}
+              onChange={(event) => setGridSize(Number(event.target.value))}
+              style={styles.select}
+              aria-label="Grid size"
+            >
+              {GRID_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {size} px
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={{ ...styles.menuRow, ...styles.menuIndent, opacity: gridVisible ? 1 : 0.5 }}>
+            <input type="checkbox" checked={snapToGrid} disabled={!gridVisible} onChange={toggleSnapToGrid} />
+            Snap to grid
+          </label>
+          <label style={styles.menuRow}>
+            <input type="checkbox" checked={rulersVisible} onChange={toggleRulers} />
+            Rulers and guides (R)
+          </label>
+          <label style={styles.menuRow}>
+            <input type="checkbox" checked={safeAreasVisible} onChange={toggleSafeAreas} />
+            Safe areas
+          </label>
+          <button type="button" onClick={clearGuides} disabled={guides.length === 0} style={styles.menuButton}>
+            Clear guides{guides.length > 0 ? ` (${guides.length})` : ''}
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
+
+const styles: Record<string, CSSProperties> = {
+  grid: {
+    position: 'fixed',
+    backgroundImage:
+      'linear-gradient(to right, rgba(255, 255, 255, 0.14) 1px, transparent 1px), linear-gradient(to bottom, rgba(255, 255, 255, 0.14) 1px, transparent 1px)',
+    pointerEvents: 'none',
+    zIndex: 10,
+  },
+  safeArea: {
+    position: 'fixed',
+    border: '1px dashed rgba(250, 204, 21, 0.85)',
+    pointerEvents: 'none',
+    zIndex: 10,
+  },
+  titleSafe: {
+    borderColor: 'rgba(251, 146, 60, 0.85)',
+  },
+  safeAreaLabel: {
+    position: 'absolute',
+    left: '4px',
+    top: '2px',
+    fontSize: '10px',
+    color: 'rgba(255, 255, 255, 0.75)',
+    textShadow: '0 1px 2px rgba(0, 0, 0, 0.8)',
+  },
+  ruler: {
+    position: 'fixed',
+    overflow: 'hidden',
+    background: 'rgba(24, 24, 24, 0.92)',
+    borderBottom: '1px solid rgba(255, 255, 255, 0.12)',
+    touchAction: 'none',
+    zIndex: 15,
+  },
+  rulerSvg: {
+    display: 'block',
+  },
+  rulerLabel: {
+    fill: 'rgba(255, 255, 255, 0.6)',
+    stroke: 'none',
+    fontSize: '9px',
+    fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace',
+  },
+  guideHit: {
+    position: 'fixed',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    touchAction: 'none',
+    zIndex: 15,
+  },
+  guideLineVertical: {
+    width: 0,
+    height: '100%',
+    borderLeft: '1px solid rgba(34, 211, 238, 0.9)',
+  },
+  guideLineHorizontal: {
+    width: '100%',
+    height: 0,
+    borderTop: '1px solid rgba(34, 211, 238, 0.9)',
+  },
+  guideLabel: {
+    position: 'absolute',
+    padding: '1px 4px',
+    borderRadius: '3px',
+    background: 'rgba(34, 211, 238, 0.9)',
+    color: '#0a0a0a',
+    fontSize: '10px',
+    fontVariantNumeric: 'tabular-nums',
+    pointerEvents: 'none',
+    whiteSpace: 'nowrap',
+  },
+  cornerButton: {
+    position: 'fixed',
+    width: `${RULER_SIZE}px`,
+    height: `${RULER_SIZE}px`,
+    padding: 0,
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    background: 'rgba(24, 24, 24, 0.92)',
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: '11px',
+    lineHeight: 1,
+    cursor: 'pointer',
+    zIndex: 15,
+  },
+  cornerButtonActive: {
+    background: 'rgba(0, 166, 255, 0.25)',
+    borderColor: 'rgba(0, 166, 255, 0.8)',
+    color: '#f5f5f5',
+  },
+  menu: {
+    position: 'fixed',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    padding: '8px 10px',
+    borderRadius: '8px',
+    background: 'rgba(18, 18, 18, 0.95)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    boxShadow: '0 8px 24px rgba(0, 0, 0, 0.45)',
+    color: '#f5f5f5',
+    fontSize: '12px',
+    zIndex: 18,
+  },
+  menuRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    whiteSpace: 'nowrap',
+  },
+  menuIndent: {
+    paddingLeft: '20px',
+  },
+  select: {
+    background: 'rgba(255, 255, 255, 0.08)',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    borderRadius: '4px',
+    color: '#f5f5f5',
+    fontSize: '12px',
+    padding: '2px 4px',
+  },
+  menuButton: {
+    background: 'rgba(255, 255, 255, 0.08)',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    borderRadius: '6px',
+    color: '#f5f5f5',
+    fontSize: '12px',
+    padding: '4px 8px',
+    cursor: 'pointer',
+  },
+};
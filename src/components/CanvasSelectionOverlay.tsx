@@ -2,8 +2,25 @@ import { useCallback, useMemo, useRef, useState, type PointerEvent as ReactPoint
 import type { CanvasLayout } from './PresenterCanvas';
 import type { Layer, Scene } from '../types/scene';
 import { useAppStore } from '../app/store';
-import { getLayerBoundingSize } from '../utils/layerGeometry';
+import { getLayerBoundingSize, toLayerLocalPoint } from '../utils/layerGeometry';
+import { hitTestShape } from '../utils/shapeGeometry';
 import { requestCurrentStreamFrame } from '../utils/viewerStream';
+import { createId } from '../utils/id';
+import {
+  collectSnapTargets,
+  getLayerSnapBounds,
+  snapMove,
+  translateBounds,
+  unionBounds,
+  SNAP_THRESHOLD_PX,
+  type SnapBounds,
+  type SnapLines,
+} from '../utils/snapping';
+import { useSnapGuideStore } from '../stores/snapGuideStore';
+import { getLayoutSnapLines } from '../stores/layoutAidsStore';
+import { CanvasLayoutAids } from './CanvasLayoutAids';
+import { applyTransformEdit, evaluateLayer } from '../renderer/animation';
+import { useSceneTime } from '../hooks/useSceneTime';
 
 interface CanvasSelectionOverlayProps {
   layout: CanvasLayout | null;
@@ -27,7 +44,16 @@ interface MarqueeRect extends Bounds {}
 
 type InteractionState =
   | { type: 'idle' }
-  | { type: 'layer-down'; pointerId: number; origin: ScenePoint; latest: ScenePoint; targets: MoveTarget[]; historySnapshot?: Scene | null; historyApplied: boolean }
+  | {
+      type: 'layer-down';
+      pointerId: number;
+      origin: ScenePoint;
+      latest: ScenePoint;
+      targets: MoveTarget[];
+      snap: MoveSnapContext;
+      sceneTime: number;
+      historyKey: string;
+    }
   | { type: 'layer-click'; pointerId: number }
   | {
       type: 'marquee';
@@ -42,6 +68,16 @@ interface MoveTarget {
   start: ScenePoint;
 }
 
+interface MoveSnapContext {
+  /** Union of the targets' bounds at pointerdown */
+  startBounds: SnapBounds;
+  sceneSize: { width: number; height: number };
+  targets: SnapBounds[];
+  /** Ruler guides and grid, fixed for the drag */
+  lines: SnapLines;
+  threshold: number;
+}
+
 interface MoveSelectionState {
   type: 'move-selection';
   pointerId: number;
@@ -49,8 +85,11 @@ interface MoveSelectionState {
   latest: ScenePoint;
   moved: boolean;
   targets: MoveTarget[];
-  historySnapshot?: Scene | null;
-  historyApplied: boolean;
+  snap: MoveSnapContext;
+  /** Scene time the drag keys positions at, for keyframed layers */
+  sceneTime: number;
+  /** Coalesces the whole drag into one undo step */
+  historyKey: string;
 }
 
 type OverlayInteractionState = InteractionState | MoveSelectionState;
@@ -58,11 +97,6 @@ type OverlayInteractionState = InteractionState | MoveSelectionState;
 const IDLE_STATE: OverlayInteractionState = { type: 'idle' };
 const DRAG_THRESHOLD_PX = 6;
 
-const cloneSceneForHistory = (source: Scene | null): Scene | null => {
-  if (!source) return null;
-  return JSON.parse(JSON.stringify(source)) as Scene;
-};
-
 function computeBounds(layer: Layer, scene: Scene): Bounds {
   const size = getLayerBoundingSize(layer, scene);
   const halfWidth = size.width / 2;
@@ -86,6 +120,23 @@ function pointInBounds(point: ScenePoint, bounds: Bounds): boolean {
   );
 }
 
+/** Extra reach, in screen pixels, for clicking thin lines and outlines */
+const SHAPE_HIT_TOLERANCE_PX = 6;
+
+/**
+ * Whether a scene point hits a layer. Shapes test their actual geometry
+ * (rotation included); other layers use their box.
+ */
+function hitTestLayer(layer: Layer, scene: Scene, point: ScenePoint, screenScale: number): boolean {
+  if (layer.type === 'shape') {
+    const { scale } = layer.transform;
+    const localScale = Math.min(Math.abs(scale.x), Math.abs(scale.y)) || 1;
+    const tolerance = SHAPE_HIT_TOLERANCE_PX / (screenScale * localScale);
+    return hitTestShape(layer, toLayerLocalPoint(layer, point), tolerance);
+  }
+  return pointInBounds(point, computeBounds(layer, scene));
+}
+
 function rectIntersects(layerBounds: Bounds, marquee: Bounds): boolean {
   return !(
     marquee.maxX < layerBounds.minX ||
@@ -98,7 +149,9 @@ function rectIntersects(layerBounds: Bounds, marquee: Bounds): boolean {
 export function CanvasSelectionOverlay({ layout, scene, skipLayerIds }: CanvasSelectionOverlayProps) {
   const setSelection = useAppStore((state) => state.setSelection);
   const selection = useAppStore((state) => state.selection);
-  const updateLayer = useAppStore((state) => state.updateLayer);
+  const updateLayers = useAppStore((state) => state.updateLayers);
+  const snapGuides = useSnapGuideStore((state) => state.guides);
+  const sceneTime = useSceneTime(scene);
   const selectionRef = useRef(selection);
   selectionRef.current = selection;
 
@@ -106,12 +159,17 @@ export function CanvasSelectionOverlay({ layout, scene, skipLayerIds }: CanvasSe
 
   type LayerIndexEntry = { layer: Layer; index: number };
 
+  // Layers as drawn right now, so boxes and hit tests follow keyframes.
+  const shownLayers = useMemo(
+    () => (scene ? scene.layers.map((layer) => evaluateLayer(layer, sceneTime)) : []),
+    [scene, sceneTime]
+  );
+
   const selectableLayers = useMemo<LayerIndexEntry[]>(() => {
-    if (!scene) return [];
-    return scene.layers
+    return shownLayers
       .map((layer, index) => ({ layer, index }))
       .filter(({ layer }) => layer.visible && !skipIds.has(layer.id));
-  }, [scene, skipIds]);
+  }, [shownLayers, skipIds]);
 
   const layersSortedByZ = useMemo(() => {
     if (!scene) return [] as Layer[];
@@ -130,12 +188,11 @@ export function CanvasSelectionOverlay({ layout, scene, skipLayerIds }: CanvasSe
   const interactionRef = useRef<OverlayInteractionState>(IDLE_STATE);
 
   const selectedLayers = useMemo(() => {
-    if (!scene) return [] as Layer[];
-    const layerMap = new Map(scene.layers.map((layer) => [layer.id, layer]));
+    const layerMap = new Map(shownLayers.map((layer) => [layer.id, layer]));
     return selection
       .map((id) => layerMap.get(id))
       .filter((layer): layer is Layer => !!layer && !skipIds.has(layer.id));
-  }, [scene, selection, skipIds]);
+  }, [shownLayers, selection, skipIds]);
 
   const pointerToScene = useCallback(
     (clientX: number, clientY: number): ScenePoint | null => {
@@ -153,15 +210,15 @@ export function CanvasSelectionOverlay({ layout, scene, skipLayerIds }: CanvasSe
   const pickLayerAtPoint = useCallback(
     (point: ScenePoint): Layer | null => {
       if (!scene) return null;
+      const screenScale = layout?.scaleX || 1;
       for (const layer of layersSortedByZ) {
-        const bounds = computeBounds(layer, scene);
-        if (pointInBounds(point, bounds)) {
+        if (hitTestLayer(layer, scene, point, screenScale)) {
           return layer;
         }
       }
       return null;
     },
-    [layersSortedByZ, scene]
+    [layersSortedByZ, layout, scene]
   );
 
   const normalizeRect = useCallback((a: ScenePoint, b: ScenePoint): Bounds => {
@@ -222,23 +279,31 @@ export function CanvasSelectionOverlay({ layout, scene, skipLayerIds }: CanvasSe
         }
 
         // Prepare potential move targets, but DO NOT move yet (wait for threshold).
-        const targetLayers = nextSelection
-          .map((id) => scene.layers.find((layer) => layer.id === id) ?? null)
-          .filter((layer): layer is Layer => !!layer && !layer.locked && layer.visible && !skipIds.has(layer.id))
-          .map((layer) => ({
-            id: layer.id,
-            start: { x: layer.transform.pos.x, y: layer.transform.pos.y },
-          }));
-
-        if (targetLayers.length > 0) {
+        const movableLayers = nextSelection
+          .map((id) => shownLayers.find((layer) => layer.id === id) ?? null)
+          .filter((layer): layer is Layer => !!layer && !layer.locked && layer.visible && !skipIds.has(layer.id));
+        const targetLayers = movableLayers.map((layer) => ({
+          id: layer.id,
+          start: { x: layer.transform.pos.x, y: layer.transform.pos.y },
+        }));
+        const startBounds = unionBounds(movableLayers.map((layer) => getLayerSnapBounds(layer, scene)));
+
+        if (targetLayers.length > 0 && startBounds) {
           interactionRef.current = {
             type: 'layer-down',
             pointerId: event.pointerId,
             origin: pointerScene,
             latest: pointerScene,
             targets: targetLayers,
-            historySnapshot: cloneSceneForHistory(useAppStore.getState().getCurrentScene()),
-            historyApplied: false,
+            snap: {
+              startBounds,
+              sceneSize: { width: scene.width, height: scene.height },
+              targets: collectSnapTargets(scene, targetLayers.map((target) => target.id)),
+              lines: getLayoutSnapLines(),
+              threshold: SNAP_THRESHOLD_PX / layout.scaleX,
+            },
+            sceneTime,
+            historyKey: createId('drag'),
           };
           setMarqueeRect(null);
         } else {
@@ -262,7 +327,7 @@ export function CanvasSelectionOverlay({ layout, scene, skipLayerIds }: CanvasSe
 
       event.preventDefault();
     },
-    [layout, pickLayerAtPoint, pointerToScene, scene, setSelection, skipIds]
+    [layout, pickLayerAtPoint, pointerToScene, scene, sceneTime, setSelection, shownLayers, skipIds]
   );
 
   const handlePointerMove = useCallback(
@@ -286,8 +351,9 @@ export function CanvasSelectionOverlay({ layout, scene, skipLayerIds }: CanvasSe
             latest: pointerScene,
             moved: false,
             targets: state.targets,
-            historySnapshot: state.historySnapshot,
-            historyApplied: state.historyApplied,
+            snap: state.snap,
+            sceneTime: state.sceneTime,
+            historyKey: state.historyKey,
           };
           event.preventDefault();
           return;
@@ -299,42 +365,43 @@ export function CanvasSelectionOverlay({ layout, scene, skipLayerIds }: CanvasSe
         const pointerScene = pointerToScene(event.clientX, event.clientY);
         if (!pointerScene) return;
 
-        const deltaX = pointerScene.x - state.origin.x;
-        const deltaY = pointerScene.y - state.origin.y;
+        let deltaX = pointerScene.x - state.origin.x;
+        let deltaY = pointerScene.y - state.origin.y;
         state.latest = pointerScene;
 
+        // Hold Ctrl/Cmd to move freely.
+        if (event.ctrlKey || event.metaKey) {
+          useSnapGuideStore.getState().clearGuides();
+        } else {
+          const { startBounds, sceneSize, targets, lines, threshold } = state.snap;
+          const result = snapMove(translateBounds(startBounds, deltaX, deltaY), targets, sceneSize, threshold, lines);
+          deltaX += result.dx;
+          deltaY += result.dy;
+          useSnapGuideStore.getState().setGuides(result.guides);
+        }
+
         const appState = useAppStore.getState();
         const currentSceneState = appState.getCurrentScene();
         if (!currentSceneState) return;
 
-        const historyOptions = () => {
-          if (!state.historyApplied) {
-            state.historyApplied = true;
-            if (state.historySnapshot) {
-              return { recordHistory: false, persist: false, historySnapshot: state.historySnapshot };
-            }
-          }
-          return { recordHistory: false, persist: false } as const;
-        };
-
+        const updates: Array<{ id: string; changes: Partial<Layer> }> = [];
         for (const target of state.targets) {
           const layer = currentSceneState.layers.find((item) => item.id === target.id);
           if (!layer) continue;
 
-          updateLayer(
-            target.id,
-            {
-              transform: {
-                ...layer.transform,
-                pos: {
-                  x: target.start.x + deltaX,
-                  y: target.start.y + deltaY,
-                },
-              },
-            },
-            historyOptions()
-          );
+          const shown = evaluateLayer(layer, state.sceneTime).transform;
+          const pos = { x: target.start.x + deltaX, y: target.start.y + deltaY };
+          updates.push({
+            id: target.id,
+            changes: { transform: applyTransformEdit(layer.transform, { ...shown, pos }, state.sceneTime) },
+          });
         }
+        updateLayers(updates, {
+          persist: false,
+          historyLabel: updates.length === 1 ? 'Move layer' : `Move ${updates.length} layers`,
+          coalesceKey: state.historyKey,
+          gesture: true,
+        });
 
         state.moved = true;
         requestCurrentStreamFrame();
@@ -354,7 +421,7 @@ export function CanvasSelectionOverlay({ layout, scene, skipLayerIds }: CanvasSe
       setMarqueeRect(normalizeRect(state.origin, pointerScene));
       event.preventDefault();
     },
-    [normalizeRect, pointerToScene, updateLayer]
+    [normalizeRect, pointerToScene, updateLayers]
   );
 
   const finishMarquee = useCallback(() => {
@@ -405,18 +472,11 @@ export function CanvasSelectionOverlay({ layout, scene, skipLayerIds }: CanvasSe
         return;
       }
 
-      // If we were dragging, push ONE history snapshot now (no-op update with snapshot)
+      // The drag was recorded as one undo step while moving; save it now.
       if (state.type === 'move-selection') {
+        useSnapGuideStore.getState().clearGuides();
         if (state.moved) {
-          const store = useAppStore.getState();
-          const sceneNow = store.getCurrentScene();
-          if (sceneNow && store.selection.length > 0) {
-            store.updateLayer(
-              store.selection[0],
-              {},
-              { recordHistory: true, persist: false }
-            );
-          }
+          void useAppStore.getState().saveScene();
         }
         interactionRef.current = IDLE_STATE;
         setMarqueeRect(null);
@@ -437,6 +497,7 @@ export function CanvasSelectionOverlay({ layout, scene, skipLayerIds }: CanvasSe
   const handlePointerCancel = useCallback((event: ReactPointerEvent<HTMLDivElement>) => {
     const state = interactionRef.current;
     if ("pointerId" in state && state.pointerId === event.pointerId) {
+      useSnapGuideStore.getState().clearGuides();
       interactionRef.current = IDLE_STATE;
       setMarqueeRect(null);
     }
@@ -498,6 +559,32 @@ export function CanvasSelectionOverlay({ layout, scene, skipLayerIds }: CanvasSe
     );
   })();
 
+  // Guides come from whichever control is dragging: this overlay or the transform controls.
+  const guideVisuals = snapGuides.map((guide, index) => {
+    const isVertical = guide.orientation === 'vertical';
+    const along = isVertical
+      ? { left: layout.x + guide.position * layout.scaleX, top: layout.y + guide.start * layout.scaleY }
+      : { left: layout.x + guide.start * layout.scaleX, top: layout.y + guide.position * layout.scaleY };
+    const length = (guide.end - guide.start) * (isVertical ? layout.scaleY : layout.scaleX);
+    const line = guide.kind === 'align' ? '1px solid rgba(255, 61, 166, 0.95)' : '1px dashed rgba(255, 61, 166, 0.95)';
+    return (
+      <div
+        key={`guide-${index}`}
+        style={{
+          position: 'fixed',
+          left: along.left,
+          top: along.top,
+          width: isVertical ? 0 : Math.max(0, length),
+          height: isVertical ? Math.max(0, length) : 0,
+          borderLeft: isVertical ? line : undefined,
+          borderTop: isVertical ? undefined : line,
+          pointerEvents: 'none',
+          zIndex: 17,
+        }}
+      />
+    );
+  });
+
   return (
     <>
       <div
@@ -515,7 +602,9 @@ export function CanvasSelectionOverlay({ layout, scene, skipLayerIds }: CanvasSe
           zIndex: 10,
         }}
       />
+      <CanvasLayoutAids layout={layout} scene={scene} />
       {marqueeVisual}
       {selectionOutlines}
+      {guideVisuals}
     </>
   );}
\ No newline at end of file
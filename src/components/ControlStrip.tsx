@@ -1,3 +1,5 @@
+import type { RecordingSnapshot } from '../media/recorder';
+
 interface ControlStripProps {
   visible: boolean;
   onTogglePresentation: () => void;
@@ -6,6 +8,23 @@ interface ControlStripProps {
   confidenceActive: boolean;
   onOpenViewer: () => void;
   viewerOpen: boolean;
+  recording: RecordingSnapshot;
+  onToggleRecording: () => void;
+  onToggleRecordingPause: () => void;
+  onToggleMixer: () => void;
+  mixerOpen: boolean;
+  onToggleHistory: () => void;
+  historyOpen: boolean;
+  onToggleDraw: () => void;
+  drawActive: boolean;
+  onTogglePointer: () => void;
+  pointerActive: boolean;
+  onToggleZoom: () => void;
+  zoomActive: boolean;
+  /** Shown while the program is zoomed in */
+  onResetZoom?: () => void;
+  onToggleSpotlight: () => void;
+  spotlightActive: boolean;
 }
 
 export function ControlStrip({
@@ -16,7 +35,25 @@ export function ControlStrip({
   confidenceActive,
   onOpenViewer,
   viewerOpen,
+  recording,
+  onToggleRecording,
+  onToggleRecordingPause,
+  onToggleMixer,
+  mixerOpen,
+  onToggleHistory,
+  historyOpen,
+  onToggleDraw,
+  drawActive,
+  onTogglePointer,
+  pointerActive,
+  onToggleZoom,
+  zoomActive,
+  onResetZoom,
+  onToggleSpotlight,
+  spotlightActive,
 }: ControlStripProps) {
+  const isRecordingActive = recording.status === 'recording' || recording.status === 'paused';
+  const isFinalizing = recording.status === 'finalizing';
   const opacity = visible ? 1 : 0;
   const pointerEvents = visible ? 'auto' : 'none';
 
@@ -38,6 +75,11 @@ export function ControlStrip({
     borderColor: 'rgba(0, 166, 255, 0.8)',
   };
 
+  const recordingButtonStyle: React.CSSProperties = {
+    background: 'rgba(225, 29, 72, 0.3)',
+    borderColor: 'rgba(225, 29, 72, 0.9)',
+  };
+
   return (
     <div
       style={{
@@ -88,7 +130,131 @@ export function ControlStrip({
       >
         {viewerOpen ? 'Viewer Open' : 'Open Viewer'}
       </button>
+      <button
+        type="button"
+        onClick={onToggleMixer}
+        style={{
+          ...buttonStyle,
+          ...(mixerOpen ? activeButtonStyle : null),
+        }}
+      >
+        Mixer
+      </button>
+      <button
+        type="button"
+        onClick={onToggleHistory}
+        style={{
+          ...buttonStyle,
+          ...(historyOpen ? activeButtonStyle : null),
+        }}
+        title="Undo history (H)"
+      >
+        History
+      </button>
+      <button
+        type="button"
+        onClick={onToggleDraw}
+        style={{
+          ...buttonStyle,
+          ...(drawActive ? activeButtonStyle : null),
+        }}
+        title="Draw on the canvas (D)"
+      >
+        Draw
+      </button>
+      <button
+        type="button"
+        onClick={onTogglePointer}
+        style={{
+          ...buttonStyle,
+          ...(pointerActive ? activeButtonStyle : null),
+        }}
+        title="Laser pointer and click ripples (X)"
+      >
+        Pointer
+      </button>
+      <button
+        type="button"
+        onClick={onToggleZoom}
+        style={{
+          ...buttonStyle,
+          ...(zoomActive ? activeButtonStyle : null),
+        }}
+        title="Zoom to region: drag on the canvas, click to zoom out (Z)"
+      >
+        Zoom
+      </button>
+      {onResetZoom && (
+        <button
+          type="button"
+          onClick={onResetZoom}
+          style={buttonStyle}
+          title="Zoom the program back out (0)"
+        >
+          Reset zoom
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={onToggleSpotlight}
+        style={{
+          ...buttonStyle,
+          ...(spotlightActive ? activeButtonStyle : null),
+        }}
+        title="Spotlight the cursor; scroll to resize (S)"
+      >
+        Spotlight
+      </button>
+      <button
+        type="button"
+        onClick={onToggleRecording}
+        disabled={isFinalizing}
+        style={{
+          ...buttonStyle,
+          ...(isRecordingActive ? recordingButtonStyle : null),
+          opacity: isFinalizing ? 0.5 : 1,
+        }}
+        title={isRecordingActive ? 'Stop and download recording' : 'Record program output'}
+      >
+        {isFinalizing ? 'Saving…' : isRecordingActive ? '■ Stop' : '● Record'}
+      </button>
+      {isRecordingActive && (
+        <>
+          <button
+            type="button"
+            onClick={onToggleRecordingPause}
+            style={{
+              ...buttonStyle,
+              ...(recording.status === 'paused' ? activeButtonStyle : null),
+            }}
+          >
+            {recording.status === 'paused' ? 'Resume' : 'Pause'}
+          </button>
+          <span
+            style={{
+              alignSelf: 'center',
+              minWidth: '56px',
+              color: recording.status === 'paused' ? 'rgba(255, 255, 255, 0.55)' : '#fda4af',
+              fontSize: '13px',
+              fontVariantNumeric: 'tabular-nums',
+            }}
+            aria-label="Recording time"
+          >
+            {formatElapsed(recording.elapsedMs)}
+          </span>
+        </>
+      )}
 
     </div>
   );
 }
+
+function formatElapsed(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = (total % 60).toString().padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
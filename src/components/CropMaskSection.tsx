@@ -0,0 +1,182 @@
+import type { CSSProperties } from 'react';
+import type { CameraLayer, LayerMaskShape, ScreenLayer } from '../types/scene';
+import { continuousEdit, useAppStore, type UpdateLayerOptions } from '../app/store';
+import { requestCurrentStreamFrame } from '../utils/viewerStream';
+import { getLayerFrameSize } from '../utils/layerGeometry';
+import { getVisibleFrame, isCropped, setCropEdge, type CropEdge } from '../utils/layerCrop';
+
+interface CropMaskSectionProps {
+  layer: ScreenLayer | CameraLayer;
+}
+
+const MASK_OPTIONS: Array<{ value: LayerMaskShape; label: string }> = [
+  { value: 'none', label: 'None' },
+  { value: 'rounded-rect', label: 'Rounded rectangle' },
+  { value: 'circle', label: 'Circle' },
+];
+
+const CROP_EDGES: Array<{ key: CropEdge; label: string }> = [
+  { key: 'top', label: 'Top' },
+  { key: 'right', label: 'Right' },
+  { key: 'bottom', label: 'Bottom' },
+  { key: 'left', label: 'Left' },
+];
+
+const MAX_MASK_RADIUS = 400;
+
+/**
+ * Crop insets and mask shape for screen and camera layers. Crop edges can
+ * also be dragged on the canvas.
+ */
+export function CropMaskSection({ layer }: CropMaskSectionProps) {
+  const updateLayer = useAppStore((state) => state.updateLayer);
+  const scene = useAppStore((state) => state.getCurrentScene());
+
+  const update = (updates: Partial<ScreenLayer | CameraLayer>, options?: UpdateLayerOptions) => {
+    updateLayer(layer.id, updates, options);
+    requestCurrentStreamFrame();
+  };
+
+  // Keep the visible region centered where it is while the crop changes.
+  const applyFraming = (
+    updates: Pick<ScreenLayer, 'crop'> | Pick<ScreenLayer, 'mask'>,
+    options?: UpdateLayerOptions
+  ) => {
+    if (!scene) return;
+    const frame = getLayerFrameSize(layer, scene);
+    const before = getVisibleFrame(layer, frame.width, frame.height);
+    const after = getVisibleFrame({ ...layer, ...updates }, frame.width, frame.height);
+    const { pos, scale } = layer.transform;
+    update({
+      ...updates,
+      transform: {
+        ...layer.transform,
+        pos: {
+          x: pos.x + (after.x + after.width / 2 - (before.x + before.width / 2)) * scale.x,
+          y: pos.y + (after.y + after.height / 2 - (before.y + before.height / 2)) * scale.y,
+        },
+      },
+    }, options);
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.cropGrid}>
+        {CROP_EDGES.map((edge) => (
+          <label key={edge.key} style={styles.row}>
+            <span>{edge.label}</span>
+            <span style={styles.percentInput}>
+              <input
+                type="number"
+                min={0}
+                max={95}
+                value={Math.round(layer.crop[edge.key] * 100)}
+                onChange={(event) =>
+                  applyFraming(
+                    { crop: setCropEdge(layer.crop, edge.key, (Number(event.target.value) || 0) / 100) },
+                    continuousEdit(layer.id, 'crop')
+                  )
+                }
+                style={styles.numberInput}
+              />
+              %
+            </span>
+          </label>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => applyFraming({ crop: { top: 0, right: 0, bottom: 0, left: 0 } })}
+        disabled={!isCropped(layer.crop)}
+        style={{ ...styles.button, opacity: isCropped(layer.crop) ? 1 : 0.5 }}
+      >
+        Reset crop
+      </button>
+
+      <label style={styles.row}>
+        <span>Mask</span>
+        <select
+          value={layer.mask}
+          onChange={(event) => applyFraming({ mask: event.target.value as LayerMaskShape })}
+          style={styles.select}
+        >
+          {MASK_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {layer.mask === 'rounded-rect' && (
+        <label style={styles.row}>
+          <span>Corner radius</span>
+          <input
+            type="range"
+            min={0}
+            max={MAX_MASK_RADIUS}
+            value={Math.min(layer.maskRadius, MAX_MASK_RADIUS)}
+            onChange={(event) =>
+              update({ maskRadius: Number(event.target.value) }, continuousEdit(layer.id, 'maskRadius'))
+            }
+            style={styles.range}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    fontSize: '12px',
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  cropGrid: {
+    display: 'grid',
+    gridTemplateColumns: '1fr 1fr',
+    gap: '6px 12px',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '8px',
+  },
+  percentInput: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+  },
+  numberInput: {
+    width: '48px',
+    background: 'rgba(0, 0, 0, 0.3)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    color: '#f5f5f5',
+    borderRadius: '4px',
+    padding: '4px',
+  },
+  button: {
+    alignSelf: 'flex-start',
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.18)',
+    background: 'rgba(255, 255, 255, 0.08)',
+    color: '#f5f5f5',
+    fontSize: '12px',
+    padding: '4px 12px',
+    cursor: 'pointer',
+  },
+  select: {
+    background: 'rgba(0, 0, 0, 0.3)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    color: '#f5f5f5',
+    borderRadius: '4px',
+    padding: '4px',
+    fontSize: '12px',
+  },
+  range: {
+    flex: 1,
+  },
+};
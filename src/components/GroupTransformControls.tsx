@@ -10,6 +10,21 @@ import type { Layer, Scene } from '../types/scene';
 import { useAppStore } from '../app/store';
 import { getLayerBoundingSize } from '../utils/layerGeometry';
 import { requestCurrentStreamFrame } from '../utils/viewerStream';
+import {
+  collectSnapTargets,
+  getLayerSnapBounds,
+  snapMove,
+  translateBounds,
+  unionBounds,
+  SNAP_THRESHOLD_PX,
+  type SnapBounds,
+  type SnapLines,
+} from '../utils/snapping';
+import { useSnapGuideStore } from '../stores/snapGuideStore';
+import { getLayoutSnapLines } from '../stores/layoutAidsStore';
+import { createId } from '../utils/id';
+import { applyTransformEdit, evaluateLayer, evaluateTransform } from '../renderer/animation';
+import { useSceneTime } from '../hooks/useSceneTime';
 
 const MIN_SIZE = 40;
 
@@ -41,7 +56,16 @@ type GroupDragState =
       origin: { x: number; y: number };
       latest: { x: number; y: number };
       layers: LayerTransformSnapshot[];
-      historySnapshot?: Scene | null;
+      /** Union of the moving layers' bounds at pointerdown */
+      startBounds: SnapBounds;
+      sceneSize: { width: number; height: number };
+      snapTargets: SnapBounds[];
+      snapLines: SnapLines;
+      snapThreshold: number;
+      /** Scene time keyframed tracks are keyed at */
+      sceneTime: number;
+      /** Coalesces the whole drag into one undo step */
+      historyKey: string;
       historyApplied: boolean;
     }
   | {
@@ -51,7 +75,9 @@ type GroupDragState =
       opposite: { x: number; y: number };
       startBounds: Bounds;
       layers: LayerTransformSnapshot[];
-      historySnapshot?: Scene | null;
+      sceneTime: number;
+      /** Coalesces the whole drag into one undo step */
+      historyKey: string;
       historyApplied: boolean;
     };
 
@@ -126,9 +152,9 @@ function computeCenterFromHandle(
   }
 }
 
-const cloneSceneForHistory = (source: Scene | null): Scene | null => {
-  if (!source) return null;
-  return JSON.parse(JSON.stringify(source)) as Scene;
+const HISTORY_VERBS: Record<GroupDragState['type'], string> = {
+  move: 'Move',
+  resize: 'Resize',
 };
 
 export function GroupTransformControls({ layout, scene, layerIds }: GroupTransformControlsProps) {
@@ -138,11 +164,15 @@ export function GroupTransformControls({ layout, scene, layerIds }: GroupTransfo
   const pointerUpRef = useRef<((event: PointerEvent) => void) | null>(null);
   const pointerCancelRef = useRef<((event: PointerEvent) => void) | null>(null);
 
+  const sceneTime = useSceneTime(scene);
+
+  // Layers as drawn right now, so the box follows keyframes.
   const layers = useMemo(() => {
     return layerIds
       .map((id) => scene.layers.find((layer) => layer.id === id) ?? null)
-      .filter((layer): layer is Layer => !!layer && !layer.locked && layer.visible);
-  }, [layerIds, scene.layers]);
+      .filter((layer): layer is Layer => !!layer && !layer.locked && layer.visible)
+      .map((layer) => evaluateLayer(layer, sceneTime));
+  }, [layerIds, scene.layers, sceneTime]);
 
   const bounds = useMemo(() => computeSelectionBounds(layers, scene), [layers, scene]);
 
@@ -160,45 +190,54 @@ export function GroupTransformControls({ layout, scene, layerIds }: GroupTransfo
       startPos: { ...layer.transform.pos },
       startScale: { ...layer.transform.scale },
       scaleLocked:
-        layer.type === 'image' || layer.type === 'shape'
+        layer.type === 'image' || layer.type === 'video' || layer.type === 'shape'
           ? layer.scaleLocked ?? true
           : undefined,
     }));
   }, [layers]);
 
   const applyMove = useCallback(
-    (state: Extract<GroupDragState, { type: 'move' }>, pointerScene: { x: number; y: number }) => {
-      const deltaX = pointerScene.x - state.origin.x;
-      const deltaY = pointerScene.y - state.origin.y;
+    (state: Extract<GroupDragState, { type: 'move' }>, pointerScene: { x: number; y: number }, snap: boolean) => {
+      let deltaX = pointerScene.x - state.origin.x;
+      let deltaY = pointerScene.y - state.origin.y;
+
+      if (snap) {
+        const result = snapMove(
+          translateBounds(state.startBounds, deltaX, deltaY),
+          state.snapTargets,
+          state.sceneSize,
+          state.snapThreshold,
+          state.snapLines
+        );
+        deltaX += result.dx;
+        deltaY += result.dy;
+        useSnapGuideStore.getState().setGuides(result.guides);
+      } else {
+        useSnapGuideStore.getState().clearGuides();
+      }
 
       const currentScene = useAppStore.getState().getCurrentScene();
       if (!currentScene) return;
 
       const historyOptions = () => {
-        if (!state.historyApplied) {
-          state.historyApplied = true;
-          if (state.historySnapshot) {
-            return { recordHistory: false, persist: false, historySnapshot: state.historySnapshot };
-          }
-        }
-        return { recordHistory: false, persist: false } as const;
+        state.historyApplied = true;
+        return {
+          persist: false,
+          historyLabel: `${HISTORY_VERBS[state.type]} ${state.layers.length} layers`,
+          coalesceKey: state.historyKey,
+          gesture: true,
+        };
       };
 
       for (const target of state.layers) {
         const layer = currentScene.layers.find((item) => item.id === target.id);
         if (!layer) continue;
 
+        const shown = evaluateTransform(layer.transform, state.sceneTime);
+        const pos = { x: target.startPos.x + deltaX, y: target.startPos.y + deltaY };
         updateLayer(
           target.id,
-          {
-            transform: {
-              ...layer.transform,
-              pos: {
-                x: target.startPos.x + deltaX,
-                y: target.startPos.y + deltaY,
-              },
-            },
-          },
+          { transform: applyTransformEdit(layer.transform, { ...shown, pos }, state.sceneTime) },
           historyOptions()
         );
       }
@@ -237,13 +276,13 @@ export function GroupTransformControls({ layout, scene, layerIds }: GroupTransfo
       if (!currentScene) return;
 
       const historyOptions = () => {
-        if (!state.historyApplied) {
-          state.historyApplied = true;
-          if (state.historySnapshot) {
-            return { recordHistory: false, persist: false, historySnapshot: state.historySnapshot };
-          }
-        }
-        return { recordHistory: false, persist: false } as const;
+        state.historyApplied = true;
+        return {
+          persist: false,
+          historyLabel: `${HISTORY_VERBS[state.type]} ${state.layers.length} layers`,
+          coalesceKey: state.historyKey,
+          gesture: true,
+        };
       };
 
       for (const target of state.layers) {
@@ -265,14 +304,15 @@ export function GroupTransformControls({ layout, scene, layerIds }: GroupTransfo
           y: target.startScale.y * baseScaleY,
         };
 
+        const shown = evaluateTransform(layer.transform, state.sceneTime);
         updateLayer(
           target.id,
           {
-            transform: {
-              ...layer.transform,
-              pos: nextPos,
-              scale: nextScale,
-            },
+            transform: applyTransformEdit(
+              layer.transform,
+              { ...shown, pos: nextPos, scale: nextScale },
+              state.sceneTime
+            ),
           },
           historyOptions()
         );
@@ -285,6 +325,7 @@ export function GroupTransformControls({ layout, scene, layerIds }: GroupTransfo
 
   const finishTransform = useCallback((state: GroupDragState | null, cancelled = false) => {
     if (!state) return;
+    useSnapGuideStore.getState().clearGuides();
     if (state.historyApplied && !cancelled) {
       void useAppStore.getState().saveScene();
     }
@@ -312,7 +353,8 @@ export function GroupTransformControls({ layout, scene, layerIds }: GroupTransfo
       event.preventDefault();
 
       if (state.type === 'move') {
-        applyMove(state, pointerScene);
+        // Hold Ctrl/Cmd to move freely.
+        applyMove(state, pointerScene, !(event.ctrlKey || event.metaKey));
       } else {
         applyResize(state, pointerScene);
       }
@@ -338,6 +380,9 @@ export function GroupTransformControls({ layout, scene, layerIds }: GroupTransfo
       event.stopPropagation();
       if (!bounds) return;
 
+      const startBounds = unionBounds(layers.map((layer) => getLayerSnapBounds(layer, scene)));
+      if (!startBounds) return;
+
       const pointerScene = pointerToScene(event.clientX, event.clientY);
       dragStateRef.current = {
         type: 'move',
@@ -345,7 +390,13 @@ export function GroupTransformControls({ layout, scene, layerIds }: GroupTransfo
         origin: pointerScene,
         latest: pointerScene,
         layers: buildLayerSnapshots(),
-        historySnapshot: cloneSceneForHistory(useAppStore.getState().getCurrentScene()),
+        startBounds,
+        sceneSize: { width: scene.width, height: scene.height },
+        snapTargets: collectSnapTargets(scene, layers.map((layer) => layer.id)),
+        snapLines: getLayoutSnapLines(),
+        snapThreshold: SNAP_THRESHOLD_PX / layout.scaleX,
+        sceneTime,
+        historyKey: createId('drag'),
         historyApplied: false,
       };
       cleanupPointerListeners();
@@ -359,7 +410,7 @@ export function GroupTransformControls({ layout, scene, layerIds }: GroupTransfo
         window.addEventListener('pointercancel', pointerCancelRef.current);
       }
     },
-    [bounds, pointerToScene, buildLayerSnapshots]
+    [bounds, layers, layout.scaleX, pointerToScene, buildLayerSnapshots, scene, sceneTime]
   );
 
   const startResize = useCallback(
@@ -399,7 +450,8 @@ export function GroupTransformControls({ layout, scene, layerIds }: GroupTransfo
         opposite: opposite[handle],
         startBounds: bounds,
         layers: snapshots,
-        historySnapshot: cloneSceneForHistory(useAppStore.getState().getCurrentScene()),
+        sceneTime,
+        historyKey: createId('drag'),
         historyApplied: false,
       };
 
@@ -414,7 +466,7 @@ export function GroupTransformControls({ layout, scene, layerIds }: GroupTransfo
         window.addEventListener('pointercancel', pointerCancelRef.current);
       }
     },
-    [bounds, buildLayerSnapshots]
+    [bounds, buildLayerSnapshots, sceneTime]
   );
 
   const handlePointerCancel = useCallback(
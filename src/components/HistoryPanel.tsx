@@ -0,0 +1,139 @@
+import { useEffect, useRef, type CSSProperties } from 'react';
+import type { HistoryEntry } from '../types/history';
+import { useAppStore } from '../app/store';
+import { requestCurrentStreamFrame } from '../utils/viewerStream';
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Named undo steps for the current scene. Clicking a step undoes or redoes
+ * everything after or up to it; steps past the current one stay available
+ * until the next edit.
+ */
+export function HistoryPanel() {
+  const history = useAppStore((state) => state.history);
+  const future = useAppStore((state) => state.future);
+  const goToHistory = useAppStore((state) => state.goToHistory);
+  const clearHistory = useAppStore((state) => state.clearHistory);
+  const currentRowRef = useRef<HTMLButtonElement | null>(null);
+
+  useEffect(() => {
+    currentRowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [history.length]);
+
+  const jumpTo = (position: number) => {
+    goToHistory(position);
+    requestCurrentStreamFrame();
+  };
+
+  const renderRow = (entry: HistoryEntry | null, position: number) => {
+    const isCurrent = position === history.length;
+    const isUndone = position > history.length;
+    return (
+      <button
+        key={entry?.id ?? 'origin'}
+        ref={isCurrent ? currentRowRef : undefined}
+        type="button"
+        onClick={() => jumpTo(position)}
+        style={{
+          ...styles.row,
+          ...(isCurrent ? styles.currentRow : null),
+          opacity: isUndone ? 0.45 : 1,
+        }}
+        aria-current={isCurrent ? 'step' : undefined}
+      >
+        <span style={styles.label}>{entry ? entry.label : 'Scene opened'}</span>
+        {entry && <span style={styles.time}>{formatTime(entry.timestamp)}</span>}
+      </button>
+    );
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.list} className="invisible-scrollbar">
+        {renderRow(null, 0)}
+        {history.map((entry, index) => renderRow(entry, index + 1))}
+        {future.map((entry, index) => renderRow(entry, history.length + index + 1))}
+      </div>
+      <div style={styles.footer}>
+        <span>
+          {history.length} step{history.length === 1 ? '' : 's'}
+          {future.length > 0 ? ` · ${future.length} undone` : ''}
+        </span>
+        <button
+          type="button"
+          onClick={() => {
+            if (window.confirm('Clear the undo history for this scene?')) clearHistory();
+          }}
+          disabled={history.length === 0 && future.length === 0}
+          style={styles.clearButton}
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    height: '100%',
+    color: '#f5f5f5',
+    fontSize: '12px',
+  },
+  list: {
+    flex: '1 1 auto',
+    minHeight: 0,
+    overflowY: 'auto',
+    padding: '6px',
+  },
+  row: {
+    width: '100%',
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '8px',
+    padding: '6px 8px',
+    borderRadius: '6px',
+    border: '1px solid transparent',
+    background: 'transparent',
+    color: '#f5f5f5',
+    textAlign: 'left',
+    fontSize: '12px',
+    cursor: 'pointer',
+  },
+  currentRow: {
+    background: 'rgba(0, 166, 255, 0.18)',
+    borderColor: 'rgba(0, 166, 255, 0.45)',
+  },
+  label: {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  time: {
+    flexShrink: 0,
+    color: 'rgba(255, 255, 255, 0.45)',
+    fontSize: '11px',
+  },
+  footer: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '8px 12px',
+    borderTop: '1px solid rgba(255, 255, 255, 0.08)',
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  clearButton: {
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.18)',
+    background: 'rgba(255, 255, 255, 0.08)',
+    color: '#f5f5f5',
+    fontSize: '12px',
+    padding: '4px 10px',
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,393 @@
+import { useEffect, useState, type CSSProperties, type MouseEvent as ReactMouseEvent } from 'react';
+import type { KeyframeEasing, KeyframeTrackName, Layer, TransformKeyframes } from '../types/scene';
+import { continuousEdit, useAppStore, type UpdateLayerOptions } from '../app/store';
+import { requestCurrentStreamFrame } from '../utils/viewerStream';
+import {
+  KEYFRAME_TRACKS,
+  getKeyframesDuration,
+  getSceneTime,
+  isSceneClockPaused,
+  restartSceneClock,
+  seekSceneClock,
+  setKeyframeFromTransform,
+  setSceneClockPaused,
+  updateKeyframe,
+} from '../renderer/animation';
+
+interface KeyframeTimelineSectionProps {
+  layer: Layer;
+}
+
+const TRACK_LABELS: Record<KeyframeTrackName, string> = {
+  position: 'Position',
+  scale: 'Scale',
+  rotation: 'Rotation',
+  opacity: 'Opacity',
+};
+
+const EASING_OPTIONS: Array<{ value: KeyframeEasing; label: string }> = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'ease-in', label: 'Ease in' },
+  { value: 'ease-out', label: 'Ease out' },
+  { value: 'ease-in-out', label: 'Ease in-out' },
+  { value: 'hold', label: 'Hold' },
+];
+
+const MIN_VISIBLE_MS = 5000;
+const PLAYHEAD_REFRESH_MS = 66;
+
+/**
+ * Compact keyframe timeline for a layer's transform.
+ *
+ * Keys capture the layer's current position/scale/rotation/opacity at the
+ * cursor time. Clicking a track moves the cursor and seeks the scene clock.
+ */
+export function KeyframeTimelineSection({ layer }: KeyframeTimelineSectionProps) {
+  const updateLayer = useAppStore((state) => state.updateLayer);
+  const sceneId = useAppStore((state) => state.currentSceneId ?? undefined);
+
+  const [cursorMs, setCursorMs] = useState(0);
+  const [selectedKey, setSelectedKey] = useState<{ track: KeyframeTrackName; index: number } | null>(null);
+  const [playheadMs, setPlayheadMs] = useState(() => getSceneTime(sceneId));
+  const [paused, setPaused] = useState(() => isSceneClockPaused(sceneId));
+
+  const keyframes = layer.transform.keyframes;
+  const duration = getKeyframesDuration(keyframes);
+  const visibleMs = Math.max(MIN_VISIBLE_MS, Math.ceil((duration + 1000) / 1000) * 1000);
+  const loopedPlayhead = keyframes?.loop && duration > 0 ? playheadMs % duration : playheadMs;
+
+  useEffect(() => {
+    setSelectedKey(null);
+  }, [layer.id]);
+
+  useEffect(() => {
+    let rafId: number | null = null;
+    let last = 0;
+    const tick = (timestamp: number) => {
+      rafId = requestAnimationFrame(tick);
+      if (timestamp - last < PLAYHEAD_REFRESH_MS) return;
+      last = timestamp;
+      setPlayheadMs(getSceneTime(sceneId));
+      setPaused(isSceneClockPaused(sceneId));
+    };
+    rafId = requestAnimationFrame(tick);
+    return () => {
+      if (rafId !== null) {
+        cancelAnimationFrame(rafId);
+      }
+    };
+  }, [sceneId]);
+
+  const commit = (next: TransformKeyframes | undefined, options?: UpdateLayerOptions) => {
+    const hasTracks = next && KEYFRAME_TRACKS.some((track) => (next[track]?.length ?? 0) > 0);
+    updateLayer(
+      layer.id,
+      { transform: { ...layer.transform, keyframes: hasTracks ? next : undefined } },
+      options
+    );
+    requestCurrentStreamFrame();
+  };
+
+  const addKey = (track: KeyframeTrackName) => {
+    const next = setKeyframeFromTransform(layer.transform, track, cursorMs);
+    commit(next);
+    const index = (next[track] ?? []).findIndex((key) => key.time === Math.round(cursorMs));
+    setSelectedKey(index >= 0 ? { track, index } : null);
+  };
+
+  const handleTrackClick = (event: ReactMouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = rect.width > 0 ? (event.clientX - rect.left) / rect.width : 0;
+    const time = Math.round(Math.max(0, Math.min(1, ratio)) * visibleMs);
+    setCursorMs(time);
+    seekSceneClock(sceneId, time);
+    requestCurrentStreamFrame();
+  };
+
+  const selected = selectedKey && keyframes ? keyframes[selectedKey.track]?.[selectedKey.index] : undefined;
+
+  const togglePlayback = () => {
+    setSceneClockPaused(sceneId, !paused);
+    setPaused(!paused);
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.toolbar}>
+        <button type="button" onClick={togglePlayback} style={styles.iconButton} title={paused ? 'Play' : 'Pause'}>
+          {paused ? '▶' : '⏸'}
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            restartSceneClock(sceneId);
+            requestCurrentStreamFrame();
+          }}
+          style={styles.iconButton}
+          title="Restart scene clock"
+        >
+          ⟲
+        </button>
+        <span style={styles.timeText}>{formatSeconds(playheadMs)}</span>
+        <div style={{ flex: 1 }} />
+        <label style={styles.checkboxRow}>
+          <input
+            type="checkbox"
+            checked={keyframes?.loop ?? false}
+            disabled={!keyframes}
+            onChange={(event) => commit({ ...keyframes, loop: event.target.checked })}
+          />
+          <span>Loop</span>
+        </label>
+      </div>
+
+      {KEYFRAME_TRACKS.map((track) => {
+        const keys = keyframes?.[track] ?? [];
+        return (
+          <div key={track} style={styles.trackRow}>
+            <span style={styles.trackLabel}>{TRACK_LABELS[track]}</span>
+            <div style={styles.trackBar} onClick={handleTrackClick}>
+              <div style={{ ...styles.cursorLine, left: `${(cursorMs / visibleMs) * 100}%` }} />
+              <div style={{ ...styles.playheadLine, left: `${(Math.min(loopedPlayhead, visibleMs) / visibleMs) * 100}%` }} />
+              {keys.map((key, index) => {
+                const isSelected = selectedKey?.track === track && selectedKey.index === index;
+                return (
+                  <button
+                    key={`${key.time}-${index}`}
+                    type="button"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      setSelectedKey({ track, index });
+                      setCursorMs(key.time);
+                      seekSceneClock(sceneId, key.time);
+                      requestCurrentStreamFrame();
+                    }}
+                    style={{
+                      ...styles.keyDiamond,
+                      left: `${(key.time / visibleMs) * 100}%`,
+                      ...(isSelected ? styles.keyDiamondSelected : null),
+                    }}
+                    title={`${TRACK_LABELS[track]} @ ${formatSeconds(key.time)}`}
+                  />
+                );
+              })}
+            </div>
+            <button
+              type="button"
+              onClick={() => addKey(track)}
+              style={styles.iconButton}
+              title={`Key ${TRACK_LABELS[track].toLowerCase()} at ${formatSeconds(cursorMs)}`}
+            >
+              ◆
+            </button>
+          </div>
+        );
+      })}
+
+      <div style={styles.hint}>
+        Cursor {formatSeconds(cursorMs)} · ◆ keys the layer&apos;s current value
+      </div>
+
+      {selectedKey && selected && keyframes && (
+        <div style={styles.keyEditor}>
+          <label style={styles.row}>
+            <span>Time (s)</span>
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={(selected.time / 1000).toFixed(2)}
+              onChange={(event) => {
+                const seconds = Number(event.target.value);
+                if (Number.isNaN(seconds)) return;
+                const time = Math.max(0, Math.round(seconds * 1000));
+                const next = updateKeyframe(keyframes, selectedKey.track, selectedKey.index, () => ({ time }));
+                const index = (next[selectedKey.track] ?? []).findIndex((key) => key.time === time);
+                commit(next, continuousEdit(layer.id, 'keyframes.time'));
+                setSelectedKey(index >= 0 ? { track: selectedKey.track, index } : null);
+              }}
+              style={styles.numberInput}
+            />
+          </label>
+          <label style={styles.row}>
+            <span>Easing</span>
+            <select
+              value={selected.easing ?? 'linear'}
+              onChange={(event) =>
+                commit(
+                  updateKeyframe(keyframes, selectedKey.track, selectedKey.index, () => ({
+                    easing: event.target.value as KeyframeEasing,
+                  }))
+                )
+              }
+              style={styles.select}
+            >
+              {EASING_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={() => {
+              commit(updateKeyframe(keyframes, selectedKey.track, selectedKey.index, () => null));
+              setSelectedKey(null);
+            }}
+            style={styles.textButton}
+          >
+            Delete key
+          </button>
+        </div>
+      )}
+
+      {keyframes && (
+        <button
+          type="button"
+          onClick={() => {
+            commit(undefined);
+            setSelectedKey(null);
+          }}
+          style={styles.textButton}
+        >
+          Clear animation
+        </button>
+      )}
+    </div>
+  );
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+const styles: Record<string, CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    fontSize: '12px',
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  toolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+  },
+  iconButton: {
+    width: '24px',
+    height: '22px',
+    borderRadius: '4px',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    background: 'rgba(0, 0, 0, 0.25)',
+    color: '#f5f5f5',
+    fontSize: '11px',
+    cursor: 'pointer',
+    padding: 0,
+  },
+  timeText: {
+    fontVariantNumeric: 'tabular-nums',
+    color: 'rgba(255, 255, 255, 0.75)',
+  },
+  checkboxRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+  },
+  trackRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+  },
+  trackLabel: {
+    width: '56px',
+    fontSize: '11px',
+    color: 'rgba(255, 255, 255, 0.65)',
+  },
+  trackBar: {
+    position: 'relative',
+    flex: 1,
+    height: '18px',
+    borderRadius: '4px',
+    background: 'rgba(0, 0, 0, 0.3)',
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+    cursor: 'crosshair',
+  },
+  cursorLine: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: '1px',
+    background: 'rgba(0, 166, 255, 0.9)',
+    pointerEvents: 'none',
+  },
+  playheadLine: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: '1px',
+    background: 'rgba(225, 29, 72, 0.9)',
+    pointerEvents: 'none',
+  },
+  keyDiamond: {
+    position: 'absolute',
+    top: '50%',
+    width: '9px',
+    height: '9px',
+    marginLeft: '-4.5px',
+    marginTop: '-4.5px',
+    transform: 'rotate(45deg)',
+    background: '#f5f5f5',
+    border: '1px solid rgba(0, 0, 0, 0.6)',
+    padding: 0,
+    cursor: 'pointer',
+  },
+  keyDiamondSelected: {
+    background: 'rgba(0, 166, 255, 1)',
+  },
+  hint: {
+    fontSize: '11px',
+    color: 'rgba(255, 255, 255, 0.45)',
+  },
+  keyEditor: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    padding: '8px',
+    borderRadius: '6px',
+    background: 'rgba(0, 0, 0, 0.2)',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '8px',
+  },
+  numberInput: {
+    width: '70px',
+    background: 'rgba(0, 0, 0, 0.3)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    color: '#f5f5f5',
+    borderRadius: '4px',
+    padding: '4px',
+  },
+  select: {
+    background: 'rgba(0, 0, 0, 0.3)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    color: '#f5f5f5',
+    borderRadius: '4px',
+    padding: '4px',
+    fontSize: '12px',
+  },
+  textButton: {
+    alignSelf: 'flex-start',
+    border: '1px solid rgba(255, 255, 255, 0.18)',
+    borderRadius: '6px',
+    background: 'rgba(255, 255, 255, 0.08)',
+    color: '#f5f5f5',
+    fontSize: '11px',
+    padding: '4px 10px',
+    cursor: 'pointer',
+  },
+};
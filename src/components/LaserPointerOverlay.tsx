@@ -0,0 +1,67 @@
+import { useCallback, useEffect, type PointerEvent as ReactPointerEvent } from 'react';
+import type { CanvasLayout } from './PresenterCanvas';
+import type { Scene } from '../types/scene';
+import { clickPointer, hidePointer, movePointer } from '../renderer/pointerOverlay';
+import { viewToScene } from '../renderer/viewport';
+
+interface LaserPointerOverlayProps {
+  layout: CanvasLayout;
+  scene: Scene;
+  /** Whether the canvas under the overlay shows the program zoom */
+  viewportApplied: boolean;
+}
+
+/**
+ * Pointer capture surface for laser pointer mode. Movement drives the laser
+ * dot and clicks start ripples; nothing is written to the scene.
+ */
+export function LaserPointerOverlay({ layout, scene, viewportApplied }: LaserPointerOverlayProps) {
+  useEffect(() => () => hidePointer(), []);
+
+  const toScene = useCallback(
+    (event: ReactPointerEvent<HTMLDivElement>) => {
+      const x = (event.clientX - layout.x) / layout.scaleX;
+      const y = (event.clientY - layout.y) / layout.scaleY;
+      return viewportApplied ? viewToScene(scene, x, y) : { x, y };
+    },
+    [layout, scene, viewportApplied]
+  );
+
+  const handlePointerMove = useCallback(
+    (event: ReactPointerEvent<HTMLDivElement>) => {
+      const point = toScene(event);
+      movePointer(scene, point.x, point.y);
+    },
+    [scene, toScene]
+  );
+
+  const handlePointerDown = useCallback(
+    (event: ReactPointerEvent<HTMLDivElement>) => {
+      if (event.button !== 0) return;
+      event.preventDefault();
+      const point = toScene(event);
+      movePointer(scene, point.x, point.y);
+      clickPointer(scene, point.x, point.y);
+    },
+    [scene, toScene]
+  );
+
+  return (
+    <div
+      onPointerMove={handlePointerMove}
+      onPointerDown={handlePointerDown}
+      onPointerLeave={hidePointer}
+      style={{
+        position: 'fixed',
+        left: layout.x,
+        top: layout.y,
+        width: layout.width,
+        height: layout.height,
+        pointerEvents: 'auto',
+        cursor: 'none',
+        touchAction: 'none',
+        zIndex: 13,
+      }}
+    />
+  );
+}
@@ -0,0 +1,292 @@
+import type { CSSProperties } from 'react';
+import type { Layer, LayerBlendMode, LayerEffects, LayerFilters } from '../types/scene';
+import { continuousEdit, useAppStore, type UpdateLayerOptions } from '../app/store';
+import { requestCurrentStreamFrame } from '../utils/viewerStream';
+import { extractAlpha, normalizeColor, toRgba } from '../utils/color';
+import {
+  createDefaultEffects,
+  DEFAULT_LAYER_BORDER,
+  DEFAULT_LAYER_FILTERS,
+  DEFAULT_LAYER_SHADOW,
+  LAYER_BLEND_MODES,
+} from '../renderer/layerEffects';
+
+interface LayerEffectsSectionProps {
+  layer: Layer;
+}
+
+const FILTER_SLIDERS: Array<{ key: keyof LayerFilters; label: string; max: number; unit: string }> = [
+  { key: 'brightness', label: 'Brightness', max: 200, unit: '%' },
+  { key: 'contrast', label: 'Contrast', max: 200, unit: '%' },
+  { key: 'saturation', label: 'Saturation', max: 200, unit: '%' },
+  { key: 'grayscale', label: 'Grayscale', max: 100, unit: '%' },
+  { key: 'blur', label: 'Blur', max: 40, unit: 'px' },
+];
+
+const MAX_SHADOW_BLUR = 120;
+const MAX_SHADOW_OFFSET = 200;
+const MAX_BORDER_WIDTH = 60;
+
+function formatBlendMode(mode: LayerBlendMode): string {
+  return mode
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Blend mode, filters, drop shadow and border for any drawable layer.
+ */
+export function LayerEffectsSection({ layer }: LayerEffectsSectionProps) {
+  const updateLayer = useAppStore((state) => state.updateLayer);
+  const effects = layer.effects ?? createDefaultEffects();
+
+  const update = (updates: Partial<LayerEffects>, options?: UpdateLayerOptions) => {
+    updateLayer(layer.id, { effects: { ...effects, ...updates } }, options);
+    requestCurrentStreamFrame();
+  };
+  // Sliders and pickers: one undo step per run of changes to a control.
+  const scrub = (control: string) => continuousEdit(layer.id, `effects.${control}`);
+
+  const { shadow, border } = effects;
+  const filtersChanged = FILTER_SLIDERS.some(({ key }) => effects.filters[key] !== DEFAULT_LAYER_FILTERS[key]);
+
+  return (
+    <div style={styles.container}>
+      <label style={styles.row}>
+        <span>Blend</span>
+        <select
+          value={effects.blendMode}
+          onChange={(event) => update({ blendMode: event.target.value as LayerBlendMode })}
+          style={styles.select}
+        >
+          {LAYER_BLEND_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {formatBlendMode(mode)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {FILTER_SLIDERS.map((filter) => (
+        <label key={filter.key} style={styles.row}>
+          <span style={styles.label}>{filter.label}</span>
+          <input
+            type="range"
+            min={0}
+            max={filter.max}
+            value={effects.filters[filter.key]}
+            onChange={(event) =>
+              update(
+                { filters: { ...effects.filters, [filter.key]: Number(event.target.value) } },
+                scrub(`filters.${filter.key}`)
+              )
+            }
+            style={styles.range}
+          />
+          <span style={styles.value}>
+            {effects.filters[filter.key]}
+            {filter.unit}
+          </span>
+        </label>
+      ))}
+      <button
+        type="button"
+        onClick={() => update({ filters: { ...DEFAULT_LAYER_FILTERS } })}
+        disabled={!filtersChanged}
+        style={{ ...styles.button, opacity: filtersChanged ? 1 : 0.5 }}
+      >
+        Reset filters
+      </button>
+
+      <label style={styles.checkboxRow}>
+        <input
+          type="checkbox"
+          checked={effects.shadow !== null}
+          onChange={(event) => update({ shadow: event.target.checked ? { ...DEFAULT_LAYER_SHADOW } : null })}
+        />
+        <span>Drop shadow</span>
+      </label>
+      {shadow && (
+        <>
+          <label style={styles.row}>
+            <span style={styles.label}>Color</span>
+            <input
+              type="color"
+              value={normalizeColor(shadow.color)}
+              onChange={(event) =>
+                update(
+                  { shadow: { ...shadow, color: toRgba(event.target.value, extractAlpha(shadow.color)) } },
+                  scrub('shadow.color')
+                )
+              }
+              style={styles.colorInput}
+            />
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={extractAlpha(shadow.color)}
+              onChange={(event) =>
+                update(
+                  {
+                    shadow: {
+                      ...shadow,
+                      color: toRgba(normalizeColor(shadow.color), Number(event.target.value)),
+                    },
+                  },
+                  scrub('shadow.opacity')
+                )
+              }
+              style={styles.range}
+              aria-label="Shadow opacity"
+            />
+          </label>
+          <label style={styles.row}>
+            <span style={styles.label}>Softness</span>
+            <input
+              type="range"
+              min={0}
+              max={MAX_SHADOW_BLUR}
+              value={shadow.blur}
+              onChange={(event) =>
+                update({ shadow: { ...shadow, blur: Number(event.target.value) } }, scrub('shadow.blur'))
+              }
+              style={styles.range}
+            />
+          </label>
+          <div style={styles.row}>
+            <span style={styles.label}>Offset</span>
+            <span style={styles.inputs}>
+              <input
+                type="number"
+                min={-MAX_SHADOW_OFFSET}
+                max={MAX_SHADOW_OFFSET}
+                value={shadow.offsetX}
+                onChange={(event) =>
+                  update({ shadow: { ...shadow, offsetX: Number(event.target.value) || 0 } }, scrub('shadow.offsetX'))
+                }
+                style={styles.numberInput}
+                aria-label="Shadow offset X"
+              />
+              <input
+                type="number"
+                min={-MAX_SHADOW_OFFSET}
+                max={MAX_SHADOW_OFFSET}
+                value={shadow.offsetY}
+                onChange={(event) =>
+                  update({ shadow: { ...shadow, offsetY: Number(event.target.value) || 0 } }, scrub('shadow.offsetY'))
+                }
+                style={styles.numberInput}
+                aria-label="Shadow offset Y"
+              />
+            </span>
+          </div>
+        </>
+      )}
+
+      <label style={styles.checkboxRow}>
+        <input
+          type="checkbox"
+          checked={effects.border !== null}
+          onChange={(event) => update({ border: event.target.checked ? { ...DEFAULT_LAYER_BORDER } : null })}
+        />
+        <span>Border</span>
+      </label>
+      {border && (
+        <label style={styles.row}>
+          <input
+            type="color"
+            value={normalizeColor(border.color)}
+            onChange={(event) => update({ border: { ...border, color: event.target.value } }, scrub('border.color'))}
+            style={styles.colorInput}
+          />
+          <input
+            type="range"
+            min={1}
+            max={MAX_BORDER_WIDTH}
+            value={border.width}
+            onChange={(event) =>
+              update({ border: { ...border, width: Number(event.target.value) } }, scrub('border.width'))
+            }
+            style={styles.range}
+            aria-label="Border width"
+          />
+          <span style={styles.value}>{border.width}px</span>
+        </label>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    fontSize: '12px',
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '8px',
+  },
+  checkboxRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+  },
+  label: {
+    minWidth: '64px',
+  },
+  value: {
+    minWidth: '40px',
+    textAlign: 'right',
+    fontVariantNumeric: 'tabular-nums',
+    color: 'rgba(255, 255, 255, 0.75)',
+  },
+  range: {
+    flex: 1,
+  },
+  inputs: {
+    display: 'flex',
+    gap: '6px',
+  },
+  numberInput: {
+    width: '56px',
+    background: 'rgba(0, 0, 0, 0.3)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    color: '#f5f5f5',
+    borderRadius: '4px',
+    padding: '4px',
+  },
+  colorInput: {
+    width: '40px',
+    height: '24px',
+    borderRadius: '4px',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    background: 'transparent',
+    padding: 0,
+  },
+  button: {
+    alignSelf: 'flex-start',
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.18)',
+    background: 'rgba(255, 255, 255, 0.08)',
+    color: '#f5f5f5',
+    fontSize: '12px',
+    padding: '4px 12px',
+    cursor: 'pointer',
+  },
+  select: {
+    background: 'rgba(0, 0, 0, 0.3)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    color: '#f5f5f5',
+    borderRadius: '4px',
+    padding: '4px',
+    fontSize: '12px',
+  },
+};
@@ -1,8 +1,17 @@
 import { useEffect, useMemo, useState, type CSSProperties } from 'react';
 import type { Layer } from '../types/scene';
-import { useAppStore } from '../app/store';
+import { continuousEdit, useAppStore } from '../app/store';
 import { requestCurrentStreamFrame } from '../utils/viewerStream';
 import { CameraEffectsSection } from './CameraEffectsSection';
+import { KeyframeTimelineSection } from './KeyframeTimelineSection';
+import { VideoPlaybackSection } from './VideoPlaybackSection';
+import { TimerControlsSection } from './TimerControlsSection';
+import { CropMaskSection } from './CropMaskSection';
+import { LayerEffectsSection } from './LayerEffectsSection';
+import { TextFormattingSection } from './TextFormattingSection';
+import { ShapeStyleSection } from './ShapeStyleSection';
+import { extractAlpha, hexToRgb, normalizeColor } from '../utils/color';
+import { applyContentEdit, getTextLines, hasRichFormatting } from '../utils/richText';
 
 interface LayerPropertiesPanelProps {
   layer: Layer | null;
@@ -51,12 +60,12 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
   const updateLayer = useAppStore((state) => state.updateLayer);
 
   const supportsFill = layer?.type === 'shape';
-  const supportsText = layer?.type === 'text';
+  const supportsText = layer?.type === 'text' || layer?.type === 'timer';
   const supportsImage = layer?.type === 'image';
   const supportsCamera = layer?.type === 'camera';
 
   const textValues = useMemo(() => {
-    if (layer?.type !== 'text') return null;
+    if (layer?.type !== 'text' && layer?.type !== 'timer') return null;
     return layer;
   }, [layer]);
 
@@ -100,6 +109,33 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
         </>
       )}
 
+      {(layer.type === 'screen' || layer.type === 'camera') && (
+        <>
+          <div style={panelStyle.sectionTitle}>Crop &amp; Mask</div>
+          <div style={panelStyle.section}>
+            <CropMaskSection layer={layer} />
+          </div>
+        </>
+      )}
+
+      {layer.type === 'video' && (
+        <>
+          <div style={panelStyle.sectionTitle}>Playback</div>
+          <div style={panelStyle.section}>
+            <VideoPlaybackSection layer={layer} />
+          </div>
+        </>
+      )}
+
+      {layer.type === 'timer' && (
+        <>
+          <div style={panelStyle.sectionTitle}>Timer</div>
+          <div style={panelStyle.section}>
+            <TimerControlsSection layer={layer} />
+          </div>
+        </>
+      )}
+
       {supportsImage && imageValues && (
         <div style={panelStyle.section}>
           <div style={panelStyle.labelRow}>
@@ -156,7 +192,7 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
                       y: locked ? scaleValue : imageValues.transform.scale.y,
                     },
                   },
-                });
+                }, continuousEdit(imageValues.id, 'transform'));
                 setImageWidthInput(percent.toString());
                 if (locked) {
                   setImageHeightInput(percent.toString());
@@ -188,7 +224,7 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
                       y: locked ? scaleValue : imageValues.transform.scale.y,
                     },
                   },
-                });
+                }, continuousEdit(imageValues.id, 'transform'));
                 if (locked) {
                   setImageHeightInput(clamped.toString());
                 }
@@ -227,7 +263,7 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
                       y: scaleValue,
                     },
                   },
-                });
+                }, continuousEdit(imageValues.id, 'transform'));
                 setImageHeightInput(percent.toString());
                 if (locked) {
                   setImageWidthInput(percent.toString());
@@ -259,7 +295,7 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
                       y: scaleValue,
                     },
                   },
-                });
+                }, continuousEdit(imageValues.id, 'transform'));
                 if (locked) {
                   setImageWidthInput(clamped.toString());
                 }
@@ -271,17 +307,28 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
       )}
       {supportsText && textValues && (
         <div style={panelStyle.section}>
-          <label style={panelStyle.label}>
-            Text
-            <textarea
-              value={textValues.content}
-              onChange={(event) => {
-                updateLayer(textValues.id, { content: event.target.value });
-                requestCurrentStreamFrame();
-              }}
-              style={panelStyle.textarea}
-            />
-          </label>
+          {textValues.type === 'text' && (
+            <label style={panelStyle.label}>
+              Text
+              <textarea
+                value={textValues.content}
+                onChange={(event) => {
+                  // Keep inline formatting on the text that did not change.
+                  const lines = applyContentEdit(getTextLines(textValues), event.target.value);
+                  updateLayer(
+                    textValues.id,
+                    {
+                      content: event.target.value,
+                      lines: hasRichFormatting(lines) ? lines : undefined,
+                    },
+                    continuousEdit(textValues.id, 'content')
+                  );
+                  requestCurrentStreamFrame();
+                }}
+                style={panelStyle.textarea}
+              />
+            </label>
+          )}
           <label style={panelStyle.labelRow}>
             <span>Font Size</span>
             <input
@@ -291,7 +338,7 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
               value={textValues.fontSize}
               onChange={(event) => {
                 const next = Number(event.target.value || textValues.fontSize);
-                updateLayer(textValues.id, { fontSize: next });
+                updateLayer(textValues.id, { fontSize: next }, continuousEdit(textValues.id, 'fontSize'));
                 requestCurrentStreamFrame();
               }}
               style={panelStyle.numberInput}
@@ -336,7 +383,11 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
               type="color"
               value={normalizeColor(textValues.textColor)}
               onChange={(event) => {
-                updateLayer(textValues.id, { textColor: event.target.value });
+                updateLayer(
+                  textValues.id,
+                  { textColor: event.target.value },
+                  continuousEdit(textValues.id, 'textColor')
+                );
                 requestCurrentStreamFrame();
               }}
               style={panelStyle.colorInput}
@@ -351,7 +402,7 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
                 const next = event.target.value;
                 const { r, g, b } = hexToRgb(next);
                 const rgba = `rgba(${r}, ${g}, ${b}, ${backgroundAlpha.toFixed(2)})`;
-                updateLayer(textValues.id, { backgroundColor: rgba });
+                updateLayer(textValues.id, { backgroundColor: rgba }, continuousEdit(textValues.id, 'backgroundColor'));
                 requestCurrentStreamFrame();
               }}
               style={panelStyle.colorInput}
@@ -369,12 +420,13 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
                 const alpha = Number(event.target.value);
                 const { r, g, b } = hexToRgb(normalizeColor(textValues.backgroundColor));
                 const rgba = `rgba(${r}, ${g}, ${b}, ${alpha.toFixed(2)})`;
-                updateLayer(textValues.id, { backgroundColor: rgba });
+                updateLayer(textValues.id, { backgroundColor: rgba }, continuousEdit(textValues.id, 'backgroundColor'));
                 requestCurrentStreamFrame();
               }}
               style={panelStyle.rangeInput}
             />
           </label>
+          {textValues.type === 'text' && <TextFormattingSection layer={textValues} />}
         </div>
       )}
 
@@ -397,6 +449,7 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
               {(shapeValues.scaleLocked ?? true) ? '🔒 linked' : '🔓 free'}
             </button>
           </div>
+          <ShapeStyleSection layer={shapeValues} />
           <label style={panelStyle.labelRow}>
             <span>Fill</span>
             <input
@@ -406,7 +459,7 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
                 const next = event.target.value;
                 const { r, g, b } = hexToRgb(next);
                 const rgba = `rgba(${r}, ${g}, ${b}, ${shapeFillAlpha.toFixed(2)})`;
-                updateLayer(shapeValues.id, { fillColor: rgba });
+                updateLayer(shapeValues.id, { fillColor: rgba }, continuousEdit(shapeValues.id, 'fillColor'));
                 requestCurrentStreamFrame();
               }}
               style={panelStyle.colorInput}
@@ -424,7 +477,7 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
                 const alpha = Number(event.target.value);
                 const { r, g, b } = hexToRgb(normalizeColor(shapeValues.fillColor));
                 const rgba = `rgba(${r}, ${g}, ${b}, ${alpha.toFixed(2)})`;
-                updateLayer(shapeValues.id, { fillColor: rgba });
+                updateLayer(shapeValues.id, { fillColor: rgba }, continuousEdit(shapeValues.id, 'fillColor'));
                 requestCurrentStreamFrame();
               }}
               style={panelStyle.rangeInput}
@@ -436,7 +489,11 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
               type="color"
               value={normalizeColor(shapeValues.strokeColor ?? '#ffffff')}
               onChange={(event) => {
-                updateLayer(shapeValues.id, { strokeColor: event.target.value });
+                updateLayer(
+                  shapeValues.id,
+                  { strokeColor: event.target.value },
+                  continuousEdit(shapeValues.id, 'strokeColor')
+                );
                 requestCurrentStreamFrame();
               }}
               style={panelStyle.colorInput}
@@ -451,7 +508,7 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
               value={shapeValues.strokeWidth ?? 0}
               onChange={(event) => {
                 const next = Number(event.target.value || 0);
-                updateLayer(shapeValues.id, { strokeWidth: next });
+                updateLayer(shapeValues.id, { strokeWidth: next }, continuousEdit(shapeValues.id, 'strokeWidth'));
                 requestCurrentStreamFrame();
               }}
               style={panelStyle.numberInput}
@@ -468,7 +525,7 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
                 const raw = Number(event.target.value);
                 if (Number.isNaN(raw)) return;
                 const width = Math.max(1, Math.min(raw, 8000));
-                updateLayer(shapeValues.id, { width });
+                updateLayer(shapeValues.id, { width }, continuousEdit(shapeValues.id, 'width'));
                 requestCurrentStreamFrame();
               }}
               style={panelStyle.numberInput}
@@ -485,7 +542,7 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
                 const raw = Number(event.target.value);
                 if (Number.isNaN(raw)) return;
                 const height = Math.max(1, Math.min(raw, 8000));
-                updateLayer(shapeValues.id, { height });
+                updateLayer(shapeValues.id, { height }, continuousEdit(shapeValues.id, 'height'));
                 requestCurrentStreamFrame();
               }}
               style={panelStyle.numberInput}
@@ -494,61 +551,23 @@ export function LayerPropertiesPanel({ layer }: LayerPropertiesPanelProps) {
         </div>
       )}
 
-      {!supportsText && !supportsFill && !supportsImage && !supportsCamera && (
-        <div style={panelStyle.emptySecondary}>No editable properties for this layer yet.</div>
+      {layer.type !== 'group' && (
+        <>
+          <div style={panelStyle.sectionTitle}>Effects</div>
+          <div style={panelStyle.section}>
+            <LayerEffectsSection layer={layer} />
+          </div>
+        </>
       )}
+
+      <div style={panelStyle.sectionTitle}>Animation</div>
+      <div style={panelStyle.section}>
+        <KeyframeTimelineSection layer={layer} />
+      </div>
     </div>
   );
 }
 
-function normalizeColor(color: string | undefined): string {
-  if (!color) return '#ffffff';
-  if (color.startsWith('#') && (color.length === 7 || color.length === 4)) return color;
-  // Fallback: create temporary element to compute hex
-  if (typeof document !== 'undefined') {
-    const element = document.createElement('div');
-    element.style.color = color;
-    document.body.appendChild(element);
-    const computed = getComputedStyle(element).color;
-    document.body.removeChild(element);
-    const match = /rgba?\((\d+),\s*(\d+),\s*(\d+)/.exec(computed);
-    if (match) {
-      const [r, g, b] = match.slice(1).map((value) => Number(value));
-      return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
-    }
-  }
-  return '#ffffff';
-}
-
-function extractAlpha(color: string | undefined): number {
-  if (!color) return 1;
-  if (color.startsWith('#')) return 1;
-  const match = /rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*(\d*\.?\d+))?\)/.exec(color);
-  if (match) {
-    return match[4] !== undefined ? Number(match[4]) : 1;
-  }
-  return 1;
-}
-
-function hexToRgb(hex: string): { r: number; g: number; b: number } {
-  let normalized = hex.replace('#', '');
-  if (normalized.length === 3) {
-    normalized = normalized
-      .split('')
-      .map((char) => char + char)
-      .join('');
-  }
-  const bigint = parseInt(normalized, 16);
-  const r = (bigint >> 16) & 255;
-  const g = (bigint >> 8) & 255;
-  const b = bigint & 255;
-  return { r, g, b };
-}
-
-function toHex(value: number): string {
-  return value.toString(16).padStart(2, '0');
-}
-
 function clampPercent(value: number): number {
   if (Number.isNaN(value)) return IMAGE_SCALE_MIN_PERCENT;
   return Math.min(IMAGE_SCALE_MAX_PERCENT, Math.max(IMAGE_SCALE_MIN_PERCENT, value));
@@ -658,10 +677,4 @@ const panelStyle: Record<string, CSSProperties> = {
     padding: '20px 0',
     textAlign: 'center',
   },
-  emptySecondary: {
-    fontSize: '12px',
-    color: 'rgba(255,255,255,0.45)',
-    padding: '12px 0',
-    textAlign: 'center',
-  },
 };
@@ -1,9 +1,11 @@
 import { useMemo, useState, type CSSProperties, type DragEvent, type MouseEvent as ReactMouseEvent } from 'react';
-import type { Layer } from '../types/scene';
+import type { Layer, ShapeType } from '../types/scene';
 import { useAppStore } from '../app/store';
 import { stopSource } from '../media/sourceManager';
 import { requestCurrentStreamFrame } from '../utils/viewerStream';
 import { LayerPropertiesPanel } from './LayerPropertiesPanel';
+import { AlignmentToolbar } from './AlignmentToolbar';
+import { TemplateLibrary } from './TemplateLibrary';
 
 interface LayersPanelProps {
   layers: Layer[];
@@ -11,16 +13,29 @@ interface LayersPanelProps {
   onAddCamera: () => Promise<void> | void;
   onAddText: () => Promise<void> | void;
   onAddImage: () => Promise<void> | void;
-  onAddShape: () => Promise<void> | void;
+  onAddVideo: () => Promise<void> | void;
+  onAddShape: (shapeType?: ShapeType) => Promise<void> | void;
+  onAddTimer: () => Promise<void> | void;
 }
 
 /**
- * Layer list with quick visibility toggles and add-source menu.
+ * Layer list with quick visibility toggles, add-source menu and template
+ * library.
  */
-export function LayersPanel({ layers, onAddScreen, onAddCamera, onAddText, onAddImage, onAddShape }: LayersPanelProps) {
+export function LayersPanel({
+  layers,
+  onAddScreen,
+  onAddCamera,
+  onAddText,
+  onAddImage,
+  onAddVideo,
+  onAddShape,
+  onAddTimer,
+}: LayersPanelProps) {
   const [menuOpen, setMenuOpen] = useState(false);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
   const updateLayer = useAppStore((state) => state.updateLayer);
-  const removeLayer = useAppStore((state) => state.removeLayer);
+  const removeLayers = useAppStore((state) => state.removeLayers);
   const reorderLayers = useAppStore((state) => state.reorderLayers);
   const setSelection = useAppStore((state) => state.setSelection);
   const selection = useAppStore((state) => state.selection);
@@ -32,6 +47,14 @@ export function LayersPanel({ layers, onAddScreen, onAddCamera, onAddText, onAdd
     return layers.find((layer) => layer.id === selection[0]) ?? null;
   }, [layers, selection]);
 
+  const selectedLayers = useMemo(
+    () =>
+      selection
+        .map((id) => layers.find((layer) => layer.id === id))
+        .filter((layer): layer is Layer => !!layer),
+    [layers, selection]
+  );
+
   const orderedLayers = useMemo(() => {
     // Highest z first for UI readability (top-most layer at top)
     return [...layers].sort((a, b) => b.z - a.z);
@@ -135,10 +158,8 @@ export function LayersPanel({ layers, onAddScreen, onAddCamera, onAddText, onAdd
 
   const handleDeleteSelection = () => {
     if (selection.length === 0) return;
-    selection.forEach((id) => {
-      stopSource(id);
-      removeLayer(id);
-    });
+    selection.forEach((id) => stopSource(id));
+    removeLayers(selection);
     setSelection([]);
     requestCurrentStreamFrame();
   };
@@ -153,7 +174,10 @@ export function LayersPanel({ layers, onAddScreen, onAddCamera, onAddText, onAdd
             <div style={menuTriggerWrapperStyle}>
               <button
                 type="button"
-                onClick={() => setMenuOpen((open) => !open)}
+                onClick={() => {
+                  setTemplatesOpen(false);
+                  setMenuOpen((open) => !open);
+                }}
                 style={iconButtonStyle}
                 aria-haspopup="menu"
                 aria-expanded={menuOpen}
@@ -217,6 +241,16 @@ export function LayersPanel({ layers, onAddScreen, onAddCamera, onAddText, onAdd
                 >
                   Image Overlay…
                 </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    closeMenu();
+                    void onAddVideo();
+                  }}
+                  style={menuItemStyle}
+                >
+                  Video File…
+                </button>
                 <button
                   type="button"
                   onClick={() => {
@@ -227,8 +261,50 @@ export function LayersPanel({ layers, onAddScreen, onAddCamera, onAddText, onAdd
                 >
                   Shape Overlay
                 </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    closeMenu();
+                    void onAddShape('arrow');
+                  }}
+                  style={menuItemStyle}
+                >
+                  Arrow
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    closeMenu();
+                    void onAddShape('ellipse');
+                  }}
+                  style={menuItemStyle}
+                >
+                  Circle
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    closeMenu();
+                    void onAddTimer();
+                  }}
+                  style={menuItemStyle}
+                >
+                  Timer
+                </button>
+                <div style={{ borderTop: '1px solid rgba(255, 255, 255, 0.06)' }} />
+                <button
+                  type="button"
+                  onClick={() => {
+                    closeMenu();
+                    setTemplatesOpen(true);
+                  }}
+                  style={menuItemStyle}
+                >
+                  From Template…
+                </button>
               </div>
             )}
+            {templatesOpen && <TemplateLibrary onClose={() => setTemplatesOpen(false)} />}
           </div>
           <div style={layersScrollStyle} className="invisible-scrollbar">
           {orderedLayers.length === 0 ? (
@@ -428,6 +504,7 @@ export function LayersPanel({ layers, onAddScreen, onAddCamera, onAddText, onAdd
         </section>
         <section style={propertiesSectionOuterStyle}>
           <div style={propertiesHeaderStyle}>Properties</div>
+          {selectedLayers.length > 1 && <AlignmentToolbar layers={selectedLayers} />}
           <div style={propertiesContentStyle} className="invisible-scrollbar">
             <LayerPropertiesPanel layer={selectedLayer ?? null} />
           </div>
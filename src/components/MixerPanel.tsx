@@ -0,0 +1,372 @@
+import { useEffect, useRef, useState, type CSSProperties } from 'react';
+import {
+  MAX_CHANNEL_GAIN,
+  addSoundEffect,
+  getChannelLevel,
+  getMixerChannels,
+  getSoundEffects,
+  isMicrophoneActive,
+  playChime,
+  playSoundEffect,
+  removeSoundEffect,
+  setChannelGain,
+  setChannelMuted,
+  setChannelSolo,
+  startMicrophone,
+  stopMicrophone,
+  subscribeMixer,
+  type MixerChannel,
+  type MixerChannelKind,
+  type SoundEffect,
+} from '../media/programAudio';
+
+const KIND_LABELS: Record<MixerChannelKind, string> = {
+  mic: 'MIC',
+  screen: 'SCR',
+  video: 'VID',
+  sfx: 'SFX',
+};
+
+interface MixerSnapshot {
+  channels: MixerChannel[];
+  soundEffects: SoundEffect[];
+  micActive: boolean;
+}
+
+function readMixer(): MixerSnapshot {
+  return {
+    channels: getMixerChannels(),
+    soundEffects: getSoundEffects(),
+    micActive: isMicrophoneActive(),
+  };
+}
+
+/**
+ * Program audio mixer: per-source gain, mute, solo and live level meters,
+ * plus microphone capture and sound effect pads.
+ */
+export function MixerPanel() {
+  const [mixer, setMixer] = useState<MixerSnapshot>(readMixer);
+  const [micError, setMicError] = useState<string | null>(null);
+  const meterRefs = useRef(new Map<string, HTMLDivElement>());
+  const sfxInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => subscribeMixer(() => setMixer(readMixer())), []);
+
+  // Meters bypass React state and write straight to the DOM each frame.
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      meterRefs.current.forEach((element, key) => {
+        const level = getChannelLevel(key);
+        element.style.width = `${Math.round(level * 100)}%`;
+        element.style.background = level > 0.9 ? '#ef4444' : level > 0.6 ? '#facc15' : '#22c55e';
+      });
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  const toggleMicrophone = async () => {
+    setMicError(null);
+    if (mixer.micActive) {
+      stopMicrophone();
+      return;
+    }
+    try {
+      await startMicrophone();
+    } catch (error) {
+      console.error('MixerPanel: microphone unavailable', error);
+      setMicError('Microphone unavailable or blocked');
+    }
+  };
+
+  const handleSoundFile = async (file: File) => {
+    try {
+      await addSoundEffect(file.name.replace(/\.[^.]+$/, ''), file);
+    } catch (error) {
+      console.error('MixerPanel: failed to decode sound', error);
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.toolbar}>
+        <button
+          type="button"
+          onClick={() => void toggleMicrophone()}
+          style={{ ...styles.button, ...(mixer.micActive ? styles.buttonActive : null) }}
+        >
+          {mixer.micActive ? 'Mic on' : 'Enable mic'}
+        </button>
+        {micError && <span style={styles.error}>{micError}</span>}
+      </div>
+
+      {mixer.channels.length === 0 ? (
+        <div style={styles.empty}>
+          No audio sources yet. Enable the mic, share a screen with audio, or add a video.
+        </div>
+      ) : (
+        <div style={styles.channelList}>
+          {mixer.channels.map((channel) => (
+            <div key={channel.key} style={styles.channel}>
+              <div style={styles.channelHeader}>
+                <span style={styles.kindBadge}>{KIND_LABELS[channel.kind]}</span>
+                <span style={styles.channelLabel} title={channel.label}>
+                  {channel.label}
+                </span>
+                {!channel.sendToStream && (
+                  <span style={styles.localOnly} title="Not sent to the stream">
+                    local
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setChannelMuted(channel.key, !channel.muted)}
+                  style={{ ...styles.toggle, ...(channel.muted ? styles.muteActive : null) }}
+                  aria-pressed={channel.muted}
+                  title="Mute"
+                >
+                  M
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setChannelSolo(channel.key, !channel.solo)}
+                  style={{ ...styles.toggle, ...(channel.solo ? styles.soloActive : null) }}
+                  aria-pressed={channel.solo}
+                  title="Solo"
+                >
+                  S
+                </button>
+              </div>
+              <div style={styles.meterTrack}>
+                <div
+                  ref={(element) => {
+                    if (element) meterRefs.current.set(channel.key, element);
+                    else meterRefs.current.delete(channel.key);
+                  }}
+                  style={styles.meterFill}
+                />
+              </div>
+              <div style={styles.faderRow}>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_CHANNEL_GAIN}
+                  step={0.01}
+                  value={channel.gain}
+                  onChange={(event) => setChannelGain(channel.key, Number(event.target.value))}
+                  onDoubleClick={() => setChannelGain(channel.key, 1)}
+                  style={styles.fader}
+                  aria-label={`${channel.label} gain`}
+                  title="Double-click to reset"
+                />
+                <span style={styles.gainText}>{formatDecibels(channel.gain)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={styles.sectionTitle}>Sound effects</div>
+      <div style={styles.pads}>
+        <button type="button" onClick={playChime} style={styles.pad}>
+          Chime
+        </button>
+        {mixer.soundEffects.map((effect) => (
+          <span key={effect.id} style={styles.padGroup}>
+            <button type="button" onClick={() => playSoundEffect(effect.id)} style={styles.pad}>
+              {effect.name}
+            </button>
+            <button
+              type="button"
+              onClick={() => removeSoundEffect(effect.id)}
+              style={styles.padRemove}
+              aria-label={`Remove ${effect.name}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <button type="button" onClick={() => sfxInputRef.current?.click()} style={styles.pad}>
+          + Sound…
+        </button>
+        <input
+          ref={sfxInputRef}
+          type="file"
+          accept="audio/*"
+          style={{ display: 'none' }}
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = '';
+            if (file) void handleSoundFile(file);
+          }}
+        />
+      </div>
+    </div>
+  );
+}
+
+function formatDecibels(gain: number): string {
+  if (gain <= 0.001) return '-∞ dB';
+  const db = 20 * Math.log10(gain);
+  return `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`;
+}
+
+const styles: Record<string, CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px',
+    padding: '12px',
+    fontSize: '12px',
+    color: 'rgba(255, 255, 255, 0.85)',
+    overflowY: 'auto',
+    height: '100%',
+    boxSizing: 'border-box',
+  },
+  toolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  button: {
+    background: 'rgba(255, 255, 255, 0.08)',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    borderRadius: '6px',
+    color: '#f5f5f5',
+    fontSize: '12px',
+    padding: '5px 10px',
+    cursor: 'pointer',
+  },
+  buttonActive: {
+    background: 'rgba(34, 197, 94, 0.25)',
+    borderColor: 'rgba(34, 197, 94, 0.9)',
+  },
+  error: {
+    color: '#fca5a5',
+    fontSize: '11px',
+  },
+  empty: {
+    fontSize: '11px',
+    color: 'rgba(255, 255, 255, 0.45)',
+  },
+  channelList: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px',
+  },
+  channel: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    padding: '8px',
+    borderRadius: '8px',
+    background: 'rgba(255, 255, 255, 0.04)',
+    border: '1px solid rgba(255, 255, 255, 0.06)',
+  },
+  channelHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+  },
+  kindBadge: {
+    fontSize: '9px',
+    fontWeight: 700,
+    letterSpacing: '0.06em',
+    padding: '1px 4px',
+    borderRadius: '4px',
+    background: 'rgba(255, 255, 255, 0.12)',
+  },
+  channelLabel: {
+    flex: 1,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  localOnly: {
+    fontSize: '10px',
+    color: 'rgba(255, 255, 255, 0.45)',
+  },
+  toggle: {
+    width: '22px',
+    height: '20px',
+    borderRadius: '4px',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    background: 'rgba(255, 255, 255, 0.06)',
+    color: '#f5f5f5',
+    fontSize: '10px',
+    fontWeight: 700,
+    cursor: 'pointer',
+    padding: 0,
+  },
+  muteActive: {
+    background: 'rgba(225, 29, 72, 0.6)',
+    borderColor: 'rgba(225, 29, 72, 1)',
+  },
+  soloActive: {
+    background: 'rgba(250, 204, 21, 0.6)',
+    borderColor: 'rgba(250, 204, 21, 1)',
+    color: '#111',
+  },
+  meterTrack: {
+    height: '6px',
+    borderRadius: '3px',
+    background: 'rgba(0, 0, 0, 0.4)',
+    overflow: 'hidden',
+  },
+  meterFill: {
+    height: '100%',
+    width: '0%',
+    background: '#22c55e',
+    transition: 'width 60ms linear',
+  },
+  faderRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  fader: {
+    flex: 1,
+  },
+  gainText: {
+    width: '52px',
+    textAlign: 'right',
+    fontVariantNumeric: 'tabular-nums',
+    fontSize: '11px',
+    color: 'rgba(255, 255, 255, 0.65)',
+  },
+  sectionTitle: {
+    fontSize: '11px',
+    fontWeight: 600,
+    letterSpacing: '0.04em',
+    textTransform: 'uppercase',
+    color: 'rgba(255, 255, 255, 0.55)',
+  },
+  pads: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '6px',
+  },
+  padGroup: {
+    display: 'inline-flex',
+  },
+  pad: {
+    background: 'rgba(255, 255, 255, 0.08)',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    borderRadius: '6px',
+    color: '#f5f5f5',
+    fontSize: '12px',
+    padding: '6px 10px',
+    cursor: 'pointer',
+  },
+  padRemove: {
+    background: 'transparent',
+    border: 'none',
+    color: 'rgba(255, 255, 255, 0.5)',
+    cursor: 'pointer',
+    fontSize: '12px',
+    padding: '0 4px',
+  },
+};
@@ -0,0 +1,253 @@
+/**
+ * PerfHud component - toggleable overlay with live render and stream
+ * numbers: program FPS and draw time, the costliest layers, dropped capture
+ * frames, background-effect latency and per-viewer encoder stats. A short
+ * trace can be recorded to JSON for bug reports.
+ */
+
+import { useEffect, useMemo, useSyncExternalStore, type CSSProperties } from 'react';
+import { useAppStore } from '../app/store';
+import {
+  downloadPerfTrace,
+  getPerfSnapshot,
+  isPerfTraceRecording,
+  recordPerfTrace,
+  startPerfMonitor,
+  subscribePerfMonitor,
+  type TimingSummary,
+} from '../media/perfMonitor';
+import type { Scene } from '../types/scene';
+
+const TRACE_DURATION_MS = 10000;
+
+interface PerfHudProps {
+  onClose: () => void;
+}
+
+function describeLayers(scenes: Record<string, Scene>): Record<string, { name: string; type: string }> {
+  const layers: Record<string, { name: string; type: string }> = {};
+  for (const scene of Object.values(scenes)) {
+    for (const layer of scene.layers) {
+      layers[layer.id] = { name: layer.name, type: layer.type };
+    }
+  }
+  return layers;
+}
+
+function formatMs(ms: number): string {
+  return `${ms.toFixed(ms < 10 ? 2 : 1)} ms`;
+}
+
+function formatTiming(timing: TimingSummary): string {
+  return `${formatMs(timing.avg)} avg · ${formatMs(timing.p95)} p95 · ${formatMs(timing.max)} max`;
+}
+
+export function PerfHud({ onClose }: PerfHudProps) {
+  useEffect(() => startPerfMonitor(), []);
+  const snapshot = useSyncExternalStore(subscribePerfMonitor, getPerfSnapshot);
+  const tracing = useSyncExternalStore(subscribePerfMonitor, isPerfTraceRecording);
+  const scenes = useAppStore((state) => state.scenes);
+  const layerInfo = useMemo(() => describeLayers(scenes), [scenes]);
+
+  const recordTrace = () => {
+    recordPerfTrace(TRACE_DURATION_MS)
+      .then((trace) => downloadPerfTrace({ ...trace, layers: describeLayers(useAppStore.getState().scenes) }))
+      .catch((error) => console.error('PerfHud: failed to record trace', error));
+  };
+
+  const renderFpsLow = !!snapshot && snapshot.renderFps < snapshot.targetFps * 0.9;
+
+  return (
+    <div style={styles.container} role="status" aria-label="Performance">
+      <div style={styles.header}>
+        <span style={styles.title}>Performance</span>
+        <button type="button" onClick={onClose} style={styles.closeButton} aria-label="Close performance overlay">
+          ×
+        </button>
+      </div>
+
+      {!snapshot ? (
+        <div style={styles.muted}>Collecting…</div>
+      ) : (
+        <>
+          <div style={styles.section}>
+            <div style={styles.sectionTitle}>Program render</div>
+            <div style={styles.row}>
+              <span>FPS</span>
+              <span style={renderFpsLow ? styles.warning : undefined}>
+                {snapshot.renderFps.toFixed(1)} / {snapshot.targetFps}
+              </span>
+            </div>
+            <div style={styles.row}>
+              <span>Repainted</span>
+              <span>
+                {snapshot.paintFps.toFixed(1)}/s · {Math.round(snapshot.dirtyRatio * 100)}% of frame
+              </span>
+            </div>
+            <div style={styles.row}>
+              <span>Late slots</span>
+              <span style={snapshot.lateFrames > 0 ? styles.warning : undefined}>{snapshot.lateFrames}</span>
+            </div>
+            <div style={styles.row}>
+              <span>drawScene</span>
+              <span>{formatTiming(snapshot.drawMs)}</span>
+            </div>
+          </div>
+
+          <div style={styles.section}>
+            <div style={styles.sectionTitle}>Layer cost</div>
+            {snapshot.layers.length === 0 ? (
+              <div style={styles.muted}>Nothing repainted</div>
+            ) : (
+              snapshot.layers.map((cost) => (
+                <div key={cost.layerId} style={styles.row}>
+                  <span style={styles.layerName}>{layerInfo[cost.layerId]?.name ?? cost.layerId}</span>
+                  <span>{formatMs(cost.avgMs)}</span>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div style={styles.section}>
+            <div style={styles.sectionTitle}>Capture stream</div>
+            {snapshot.capture ? (
+              <>
+                <div style={styles.row}>
+                  <span>Delivered</span>
+                  <span>{snapshot.capture.fps.toFixed(1)} fps</span>
+                </div>
+                <div style={styles.row}>
+                  <span>Dropped</span>
+                  <span style={snapshot.capture.dropped > 0 ? styles.warning : undefined}>
+                    {snapshot.capture.dropped} ({snapshot.capture.droppedTotal} total)
+                  </span>
+                </div>
+              </>
+            ) : (
+              <div style={styles.muted}>Not capturing, or not reported by this browser</div>
+            )}
+          </div>
+
+          <div style={styles.section}>
+            <div style={styles.sectionTitle}>Background effect</div>
+            {snapshot.effect ? (
+              <>
+                <div style={styles.row}>
+                  <span>Frames</span>
+                  <span>{snapshot.effect.fps.toFixed(1)} fps · {formatMs(snapshot.effect.frameMs.avg)}</span>
+                </div>
+                {snapshot.effect.segmentationMs && (
+                  <div style={styles.row}>
+                    <span>Segmentation</span>
+                    <span>{formatTiming(snapshot.effect.segmentationMs)}</span>
+                  </div>
+                )}
+              </>
+            ) : (
+              <div style={styles.muted}>Off</div>
+            )}
+          </div>
+
+          <div style={styles.section}>
+            <div style={styles.sectionTitle}>WebRTC encode</div>
+            {snapshot.viewers.length === 0 ? (
+              <div style={styles.muted}>No viewers connected</div>
+            ) : (
+              snapshot.viewers.map((viewer) => (
+                <div key={viewer.viewerId} style={styles.row}>
+                  <span style={styles.layerName}>{viewer.viewerId.slice(0, 8)}</span>
+                  <span style={viewer.qualityLimitation !== 'none' ? styles.warning : undefined}>
+                    {viewer.width}×{viewer.height} · {viewer.fps.toFixed(0)} fps · {formatMs(viewer.encodeMs)} ·{' '}
+                    {Math.round(viewer.bitrateKbps)} kbps
+                    {viewer.qualityLimitation !== 'none' ? ` · ${viewer.qualityLimitation}-limited` : ''}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
+
+      <button type="button" onClick={recordTrace} disabled={tracing} style={styles.traceButton}>
+        {tracing ? 'Recording trace…' : `Record ${TRACE_DURATION_MS / 1000} s trace`}
+      </button>
+    </div>
+  );
+}
+
+const styles: Record<string, CSSProperties> = {
+  container: {
+    position: 'fixed',
+    top: '16px',
+    right: '16px',
+    width: '340px',
+    maxHeight: 'calc(100vh - 32px)',
+    overflowY: 'auto',
+    padding: '10px 12px',
+    borderRadius: '10px',
+    background: 'rgba(12, 12, 12, 0.85)',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    boxShadow: '0 12px 32px rgba(0, 0, 0, 0.45)',
+    color: '#f5f5f5',
+    fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace',
+    fontSize: '11px',
+    fontVariantNumeric: 'tabular-nums',
+    zIndex: 60,
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: '6px',
+  },
+  title: {
+    fontSize: '11px',
+    letterSpacing: '0.08em',
+    textTransform: 'uppercase',
+    color: 'rgba(255, 255, 255, 0.65)',
+  },
+  closeButton: {
+    background: 'transparent',
+    border: 'none',
+    color: 'rgba(255, 255, 255, 0.65)',
+    fontSize: '16px',
+    lineHeight: 1,
+    cursor: 'pointer',
+  },
+  section: {
+    padding: '6px 0',
+    borderTop: '1px solid rgba(255, 255, 255, 0.08)',
+  },
+  sectionTitle: {
+    marginBottom: '4px',
+    color: 'rgba(0, 166, 255, 0.9)',
+  },
+  row: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '12px',
+    lineHeight: 1.6,
+  },
+  layerName: {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  muted: {
+    color: 'rgba(255, 255, 255, 0.45)',
+  },
+  warning: {
+    color: '#fbbf24',
+  },
+  traceButton: {
+    width: '100%',
+    marginTop: '8px',
+    padding: '6px 10px',
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    background: 'rgba(255, 255, 255, 0.08)',
+    color: '#f5f5f5',
+    fontSize: '11px',
+    cursor: 'pointer',
+  },
+};
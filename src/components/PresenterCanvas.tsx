@@ -6,11 +6,22 @@
 
 import { forwardRef, useCallback, useEffect, useRef, useImperativeHandle, useMemo } from 'react';
 import { useAppStore } from '../app/store';
-import { drawScene, getCanvasSize } from '../renderer/canvasRenderer';
+import { drawScene, getCanvasSize, type SceneTransitionFrame } from '../renderer/canvasRenderer';
 import { requestCurrentStreamFrame } from '../utils/viewerStream';
-import type { Layer, Scene } from '../types/scene';
-import { getLayerBaseSize } from '../utils/layerGeometry';
+import type { ActiveSceneTransition } from '../types/scene';
 import { hasActiveSource } from '../media/sourceManager';
+import { sceneHasAnimation } from '../renderer/animation';
+import { sceneHasLiveTimers } from '../renderer/timer';
+import { drawPointerOverlay, subscribePointerOverlay } from '../renderer/pointerOverlay';
+import {
+  applyViewportTransform,
+  getViewportFrame,
+  isViewportActive,
+  subscribeViewport,
+} from '../renderer/viewport';
+import { subscribeImageLoads } from '../renderer/imageCache';
+import { subscribeFontLoads } from '../renderer/fontCache';
+import { createDirtyRegionTracker } from '../renderer/dirtyRegions';
 
 interface PresenterCanvasProps {
   /** Whether to fit canvas to container */
@@ -42,15 +53,26 @@ export const PresenterCanvas = forwardRef<HTMLCanvasElement, PresenterCanvasProp
   const containerRef = useRef<HTMLDivElement>(null);
   const animationFrameRef = useRef<number | null>(null);
   const dirtyRef = useRef<boolean>(true);
-  const previousSceneRef = useRef<Scene | null>(null);
+  const dirtyRegions = useMemo(() => createDirtyRegionTracker(), []);
   const previousSkipKeyRef = useRef<string>('');
+  // Set when something outside the scene graph changed (e.g. an image decoded).
+  const forceFullRedrawRef = useRef<boolean>(false);
+  // Whether the last frame included laser pointer ink that must be erased.
+  const pointerDrawnRef = useRef<boolean>(false);
+  // Whether the last frame was zoomed or spotlit.
+  const viewportDrawnRef = useRef<boolean>(false);
 
   const scene = useAppStore((state) => state.getCurrentScene());
+  const sceneTransition = useAppStore((state) => state.sceneTransition);
   const sceneSize = useMemo(() => getCanvasSize(scene), [scene?.width, scene?.height]);
 
   const hasLiveVideoSources = useMemo(() => {
     if (!scene) return false;
     return scene.layers.some((layer) => {
+      if (layer.type === 'video') {
+        // Video files may start playing at any time from the properties panel.
+        return true;
+      }
       if (layer.type !== 'screen' && layer.type !== 'camera') {
         return false;
       }
@@ -58,6 +80,10 @@ export const PresenterCanvas = forwardRef<HTMLCanvasElement, PresenterCanvasProp
     });
   }, [scene]);
 
+  const hasAnimatedLayers = useMemo(() => sceneHasAnimation(scene), [scene]);
+  const hasLiveTimers = useMemo(() => sceneHasLiveTimers(scene), [scene]);
+  const needsContinuousRender = hasLiveVideoSources || hasAnimatedLayers || hasLiveTimers;
+
   const emitLayoutChange = (scaleX: number, scaleY: number) => {
     if (!onLayoutChange) return;
     const canvas = canvasRef.current;
@@ -99,31 +125,67 @@ export const PresenterCanvas = forwardRef<HTMLCanvasElement, PresenterCanvasProp
         return;
       }
 
-      const currentScene = useAppStore.getState().getCurrentScene();
-      const previousScene = previousSceneRef.current;
+      const appState = useAppStore.getState();
+      const currentScene = appState.getCurrentScene();
+      // In studio mode this canvas is the Preview; ProgramCanvas plays transitions.
+      const transitionFrame = appState.sceneTransition && !appState.studioMode
+        ? buildTransitionFrame(appState.sceneTransition)
+        : null;
+      // Outside studio mode this canvas mirrors the program, so it shows the viewport.
+      const viewport = appState.studioMode ? null : getViewportFrame(currentScene);
+      const viewportActive = !!viewport && isViewportActive(viewport);
       const skipKey = (skipLayerIds ?? []).join('|');
       const skipChanged = previousSkipKeyRef.current !== skipKey;
-      const dirtyRect = hasLiveVideoSources
-        ? fullCanvasRect(currentScene ?? previousScene)
-        : skipChanged
-          ? fullCanvasRect(currentScene ?? previousScene)
-          : computeDirtyRect(previousScene, currentScene);
+      // Dirty rects are in scene space, which no longer matches the canvas when zoomed.
+      const forceFull = forceFullRedrawRef.current || viewportActive || viewportDrawnRef.current;
+      forceFullRedrawRef.current = false;
+      if (transitionFrame || forceFull || skipChanged) {
+        dirtyRegions.invalidate();
+      }
+      // Only layers that changed, moved or showed a new video frame are repainted.
+      const dirtyRect = dirtyRegions.next(currentScene);
+      previousSkipKeyRef.current = skipKey;
 
       if (!dirtyRect) {
         dirtyRef.current = false;
-        previousSceneRef.current = currentScene ?? null;
-        previousSkipKeyRef.current = skipKey;
         return;
       }
 
-      drawScene(currentScene, ctx, { skipLayerIds, dirtyRect });
+      drawScene(currentScene, ctx, { skipLayerIds, dirtyRect, transition: transitionFrame, viewport });
+      ctx.save();
+      if (currentScene && viewport) {
+        applyViewportTransform(ctx, currentScene, viewport.zoom);
+      }
+      const pointerDrawn = drawPointerOverlay(ctx, currentScene);
+      ctx.restore();
       // NOTE: requestCurrentStreamFrame() removed - captureStream(fps) automatically
       // captures frames as the canvas is drawn. Calling requestFrame() on every render
       // was causing performance issues by forcing frame capture too frequently.
 
       dirtyRef.current = false;
-      previousSceneRef.current = currentScene ?? null;
-      previousSkipKeyRef.current = skipKey;
+
+      // Pointer ink sits outside the scene graph: redraw fully until it fades.
+      if (pointerDrawn || pointerDrawnRef.current) {
+        forceFullRedrawRef.current = true;
+        dirtyRef.current = true;
+      }
+      pointerDrawnRef.current = pointerDrawn;
+
+      // Keep drawing while zoom animates or the spotlight follows the cursor,
+      // and once more after it turns off to clear it.
+      if (viewportActive || viewportDrawnRef.current) {
+        dirtyRef.current = true;
+      }
+      viewportDrawnRef.current = viewportActive;
+
+      if (transitionFrame) {
+        if (transitionFrame.progress >= 1) {
+          appState.completeSceneTransition();
+        } else {
+          // Keep animating until the transition completes.
+          dirtyRef.current = true;
+        }
+      }
 
       if (dirtyRef.current) {
         requestRender();
@@ -131,7 +193,7 @@ export const PresenterCanvas = forwardRef<HTMLCanvasElement, PresenterCanvasProp
     };
 
     animationFrameRef.current = requestAnimationFrame(renderFrame);
-  }, [skipLayerIds, hasLiveVideoSources]);
+  }, [skipLayerIds, dirtyRegions]);
 
   const markDirty = useCallback(() => {
     dirtyRef.current = true;
@@ -225,6 +287,8 @@ export const PresenterCanvas = forwardRef<HTMLCanvasElement, PresenterCanvasProp
         emitLayoutChange(1, 1);
       }
 
+      // Resizing cleared the canvas.
+      forceFullRedrawRef.current = true;
       markDirty();
     };
 
@@ -258,7 +322,40 @@ export const PresenterCanvas = forwardRef<HTMLCanvasElement, PresenterCanvasProp
   }, [skipLayerIds, markDirty]);
 
   useEffect(() => {
-    if (!hasLiveVideoSources) {
+    markDirty();
+  }, [sceneTransition, markDirty]);
+
+  useEffect(() => {
+    return subscribePointerOverlay(() => {
+      forceFullRedrawRef.current = true;
+      markDirty();
+    });
+  }, [markDirty]);
+
+  useEffect(() => {
+    return subscribeViewport(() => {
+      forceFullRedrawRef.current = true;
+      markDirty();
+    });
+  }, [markDirty]);
+
+  useEffect(() => {
+    return subscribeImageLoads(() => {
+      forceFullRedrawRef.current = true;
+      markDirty();
+    });
+  }, [markDirty]);
+
+  useEffect(() => {
+    // Text re-measures once an uploaded font is ready.
+    return subscribeFontLoads(() => {
+      forceFullRedrawRef.current = true;
+      markDirty();
+    });
+  }, [markDirty]);
+
+  useEffect(() => {
+    if (!needsContinuousRender) {
       return;
     }
 
@@ -291,7 +388,7 @@ export const PresenterCanvas = forwardRef<HTMLCanvasElement, PresenterCanvasProp
         cancelAnimationFrame(rafId);
       }
     };
-  }, [hasLiveVideoSources, markDirty]);
+  }, [needsContinuousRender, markDirty]);
 
     // Expose canvas ref to parent
     useImperativeHandle(ref, () => canvasRef.current!, []);
@@ -321,135 +418,16 @@ export const PresenterCanvas = forwardRef<HTMLCanvasElement, PresenterCanvasProp
   }
 );
 
-type DirtyRect = { x: number; y: number; width: number; height: number };
-
-function fullCanvasRect(scene: Scene | null): DirtyRect {
-  const width = scene?.width ?? 1920;
-  const height = scene?.height ?? 1080;
-  return { x: 0, y: 0, width, height };
-}
-
-function computeDirtyRect(previous: Scene | null, next: Scene | null): DirtyRect | null {
-  if (!next) {
-    if (!previous) {
-      return null;
-    }
-    return fullCanvasRect(previous);
-  }
-
-  if (!previous) {
-    return fullCanvasRect(next);
-  }
-
-  if (previous.width !== next.width || previous.height !== next.height) {
-    return fullCanvasRect(next);
-  }
-
-  const prevOrder = previous.layers.map((layer) => layer.id).join('|');
-  const nextOrder = next.layers.map((layer) => layer.id).join('|');
-  if (prevOrder !== nextOrder) {
-    return {
-      x: 0,
-      y: 0,
-      width: next.width,
-      height: next.height,
-    };
-  }
-
-  let rect: DirtyRect | null = null;
-
-  const previousMap = new Map(previous.layers.map((layer) => [layer.id, layer]));
-
-  for (const layer of next.layers) {
-    const prevLayer = previousMap.get(layer.id);
-    if (!prevLayer) {
-      if (layer.visible) {
-        rect = unionRects(rect, inflateRect(getLayerBounds(layer, next), 4, next));
-      }
-      continue;
-    }
-
-    const layerChanged = prevLayer !== layer;
-    const visibilityChanged = prevLayer.visible !== layer.visible;
-
-    if (layerChanged || visibilityChanged) {
-      if (prevLayer.visible) {
-        rect = unionRects(rect, inflateRect(getLayerBounds(prevLayer, previous), 4, previous));
-      }
-      if (layer.visible) {
-        rect = unionRects(rect, inflateRect(getLayerBounds(layer, next), 4, next));
-      }
-    }
-
-    previousMap.delete(layer.id);
-  }
-
-  for (const remaining of previousMap.values()) {
-    if (remaining.visible) {
-      rect = unionRects(rect, inflateRect(getLayerBounds(remaining, previous), 4, previous));
-    }
-  }
-
-  if (!rect) {
-    return null;
-  }
-
-  rect.x = Math.max(0, rect.x);
-  rect.y = Math.max(0, rect.y);
-  rect.width = Math.min(next.width - rect.x, rect.width);
-  rect.height = Math.min(next.height - rect.y, rect.height);
-  return rect;
-}
-
-function unionRects(existing: DirtyRect | null, next: DirtyRect): DirtyRect {
-  if (!existing) return { ...next };
-  const minX = Math.min(existing.x, next.x);
-  const minY = Math.min(existing.y, next.y);
-  const maxX = Math.max(existing.x + existing.width, next.x + next.width);
-  const maxY = Math.max(existing.y + existing.height, next.y + next.height);
-  return {
-    x: minX,
-    y: minY,
-    width: maxX - minX,
-    height: maxY - minY,
-  };
-}
-
-function inflateRect(rect: DirtyRect, amount: number, scene: Scene): DirtyRect {
-  const inflated = {
-    x: rect.x - amount,
-    y: rect.y - amount,
-    width: rect.width + amount * 2,
-    height: rect.height + amount * 2,
-  };
-  inflated.x = Math.max(0, inflated.x);
-  inflated.y = Math.max(0, inflated.y);
-  inflated.width = Math.max(0, Math.min(scene.width - inflated.x, inflated.width));
-  inflated.height = Math.max(0, Math.min(scene.height - inflated.y, inflated.height));
-  return inflated;
-}
-
-function getLayerBounds(layer: Layer, scene: Scene): DirtyRect {
-  const size = getLayerBaseSize(layer, scene);
-  const scaleX = Math.abs(layer.transform.scale.x || 1);
-  const scaleY = Math.abs(layer.transform.scale.y || 1);
-  const width = size.width * scaleX;
-  const height = size.height * scaleY;
-  const angle = Math.abs(layer.transform.rot || 0);
-  let finalWidth = width;
-  let finalHeight = height;
-  if (angle % 360 !== 0) {
-    const rad = (angle * Math.PI) / 180;
-    const cos = Math.abs(Math.cos(rad));
-    const sin = Math.abs(Math.sin(rad));
-    finalWidth = width * cos + height * sin;
-    finalHeight = width * sin + height * cos;
-  }
-
+function buildTransitionFrame(transition: ActiveSceneTransition): SceneTransitionFrame {
+  const now =
+    typeof performance !== 'undefined' && typeof performance.now === 'function'
+      ? performance.now()
+      : Date.now();
+  const elapsed = now - transition.startedAt;
   return {
-    x: layer.transform.pos.x - finalWidth / 2,
-    y: layer.transform.pos.y - finalHeight / 2,
-    width: finalWidth,
-    height: finalHeight,
+    from: transition.from,
+    kind: transition.kind,
+    direction: transition.direction,
+    progress: transition.durationMs > 0 ? elapsed / transition.durationMs : 1,
   };
 }
@@ -0,0 +1,86 @@
+/**
+ * ProgramCanvas component - hidden render target for the Program output, the
+ * canvas the viewer stream is captured from.
+ *
+ * Shows the live scene (the frozen Program scene in studio mode, the edited
+ * scene otherwise) with transitions, zoom and the laser pointer at the
+ * scene's native resolution. Drawing happens in a worker where supported
+ * (see `renderer/programOutput.ts`), so editor re-renders cannot stall it.
+ */
+
+import { forwardRef, useEffect, useImperativeHandle, useLayoutEffect, useRef } from 'react';
+import { useAppStore } from '../app/store';
+import { addFrameSamples, isPerfMonitorRunning, setPerfTargetFps, subscribePerfMonitor } from '../media/perfMonitor';
+import { createProgramOutput, type ProgramOutput } from '../renderer/programOutput';
+import { DEFAULT_STREAM_FPS } from '../utils/viewerStream';
+
+interface ProgramCanvasProps {
+  /** Target frame rate for the program render loop */
+  fps?: number;
+}
+
+export const ProgramCanvas = forwardRef<HTMLCanvasElement, ProgramCanvasProps>(
+  ({ fps = DEFAULT_STREAM_FPS }, ref) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+    const outputRef = useRef<ProgramOutput | null>(null);
+    const fpsRef = useRef(fps);
+
+    // A canvas hands control to a worker only once, so every mount creates its own.
+    useLayoutEffect(() => {
+      const container = containerRef.current;
+      if (!container) return;
+      const canvas = document.createElement('canvas');
+      container.appendChild(canvas);
+      canvasRef.current = canvas;
+
+      const output = createProgramOutput(canvas, {
+        fps: fpsRef.current,
+        onTransitionComplete: (startedAt) => {
+          const state = useAppStore.getState();
+          if (state.sceneTransition?.startedAt === startedAt) {
+            state.completeSceneTransition();
+          }
+        },
+        onFrameSamples: addFrameSamples,
+      });
+      outputRef.current = output;
+
+      const sync = () => {
+        const state = useAppStore.getState();
+        output.update(state.studioMode ? state.programScene : state.getCurrentScene(), state.sceneTransition);
+      };
+      sync();
+      const unsubscribe = useAppStore.subscribe(sync);
+
+      // Frame times are only sampled while the perf HUD is watching.
+      let profiling = false;
+      const syncProfiling = () => {
+        if (profiling === isPerfMonitorRunning()) return;
+        profiling = !profiling;
+        output.setProfiling(profiling);
+      };
+      syncProfiling();
+      const unsubscribeProfiling = subscribePerfMonitor(syncProfiling);
+
+      return () => {
+        unsubscribe();
+        unsubscribeProfiling();
+        output.dispose();
+        outputRef.current = null;
+        canvas.remove();
+        canvasRef.current = null;
+      };
+    }, []);
+
+    useEffect(() => {
+      fpsRef.current = fps;
+      outputRef.current?.setFps(fps);
+      setPerfTargetFps(fps);
+    }, [fps]);
+
+    useImperativeHandle(ref, () => canvasRef.current!, []);
+
+    return <div ref={containerRef} style={{ display: 'none' }} aria-hidden="true" />;
+  }
+);
@@ -0,0 +1,538 @@
+import { useCallback, useEffect, useRef, useState, type CSSProperties, type KeyboardEvent as ReactKeyboardEvent } from 'react';
+import { useAppStore } from '../app/store';
+import { loadCollections } from '../app/persistence';
+import { OUTPUT_PROFILES, getOutputProfile } from '../app/outputProfiles';
+import {
+  BUNDLE_EXTENSION,
+  downloadBundle,
+  exportCollectionBundle,
+  exportSceneBundle,
+  importBundle,
+} from '../app/bundle';
+import { requestCurrentStreamFrame } from '../utils/viewerStream';
+import type { OutputProfileId, SceneCollection, SceneTransitionKind, SlideDirection } from '../types/scene';
+
+const TRANSITION_OPTIONS: Array<{ value: SceneTransitionKind; label: string }> = [
+  { value: 'cut', label: 'Cut' },
+  { value: 'fade', label: 'Fade' },
+  { value: 'slide', label: 'Slide' },
+];
+
+const DIRECTION_OPTIONS: Array<{ value: SlideDirection; label: string }> = [
+  { value: 'left', label: '←' },
+  { value: 'right', label: '→' },
+  { value: 'up', label: '↑' },
+  { value: 'down', label: '↓' },
+];
+
+const NEW_CLASS_VALUE = '__new__';
+
+/**
+ * Scene switcher strip for the current class (scene collection).
+ *
+ * Clicking a scene sends it to the program output using the class transition;
+ * double-clicking renames it. Number keys 1–9 trigger the same switch from
+ * PresenterPage. In studio mode a click only loads the scene into Preview and
+ * Take (T) sends it to Program. The ⇅ menu exports the current scene or the
+ * whole class as a `.classcast` bundle and imports bundles back. The output
+ * profile sets the size, frame rate and bitrate every scene in the class is
+ * produced at.
+ */
+export function SceneSwitcher() {
+  const collection = useAppStore((state) =>
+    state.currentCollectionId ? state.collections[state.currentCollectionId] ?? null : null
+  );
+  const scenes = useAppStore((state) => state.scenes);
+  const currentSceneId = useAppStore((state) => state.currentSceneId);
+  const switchScene = useAppStore((state) => state.switchScene);
+  const createScene = useAppStore((state) => state.createScene);
+  const renameScene = useAppStore((state) => state.renameScene);
+  const deleteScene = useAppStore((state) => state.deleteScene);
+  const setCollectionTransition = useAppStore((state) => state.setCollectionTransition);
+  const setCollectionOutputProfile = useAppStore((state) => state.setCollectionOutputProfile);
+  const createCollection = useAppStore((state) => state.createCollection);
+  const renameCollection = useAppStore((state) => state.renameCollection);
+  const loadCollection = useAppStore((state) => state.loadCollection);
+  const studioMode = useAppStore((state) => state.studioMode);
+  const programSceneId = useAppStore((state) => state.programSceneId);
+  const setStudioMode = useAppStore((state) => state.setStudioMode);
+  const takePreview = useAppStore((state) => state.takePreview);
+  const openCollection = useAppStore((state) => state.openCollection);
+  const addScenes = useAppStore((state) => state.addScenes);
+
+  const [editingSceneId, setEditingSceneId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [knownCollections, setKnownCollections] = useState<SceneCollection[]>([]);
+  const [bundleMenuOpen, setBundleMenuOpen] = useState(false);
+  const [bundleBusy, setBundleBusy] = useState(false);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  const refreshCollections = useCallback(() => {
+    loadCollections()
+      .then(setKnownCollections)
+      .catch((error) => console.warn('SceneSwitcher: failed to list classes', error));
+  }, []);
+
+  useEffect(() => {
+    refreshCollections();
+  }, [refreshCollections, collection?.id, collection?.name]);
+
+  if (!collection) {
+    return null;
+  }
+
+  const handleSwitch = (sceneId: string) => {
+    switchScene(sceneId);
+    requestCurrentStreamFrame();
+  };
+
+  const beginRename = (sceneId: string) => {
+    setEditingSceneId(sceneId);
+    setDraftName(scenes[sceneId]?.name ?? '');
+  };
+
+  const commitRename = () => {
+    if (editingSceneId) {
+      renameScene(editingSceneId, draftName);
+    }
+    setEditingSceneId(null);
+  };
+
+  const handleRenameKey = (event: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      commitRename();
+    } else if (event.key === 'Escape') {
+      setEditingSceneId(null);
+    }
+  };
+
+  const handleAddScene = () => {
+    // New scenes take the size of the class output profile.
+    createScene(`Scene ${collection.sceneIds.length + 1}`);
+    requestCurrentStreamFrame();
+  };
+
+  const handleDeleteScene = () => {
+    if (!currentSceneId || collection.sceneIds.length <= 1) return;
+    const name = scenes[currentSceneId]?.name ?? 'this scene';
+    if (!window.confirm(`Delete "${name}"? This cannot be undone.`)) return;
+    deleteScene(currentSceneId);
+    requestCurrentStreamFrame();
+  };
+
+  const handleCollectionChange = (value: string) => {
+    if (value === NEW_CLASS_VALUE) {
+      const name = window.prompt('Name for the new class', 'New Class');
+      if (name === null) return;
+      createCollection(name);
+      requestCurrentStreamFrame();
+      return;
+    }
+    if (value !== collection.id) {
+      void loadCollection(value).then(() => requestCurrentStreamFrame());
+    }
+  };
+
+  const handleRenameCollection = () => {
+    const name = window.prompt('Rename class', collection.name);
+    if (name !== null) {
+      renameCollection(name);
+    }
+  };
+
+  const handleOutputProfileChange = (profileId: OutputProfileId) => {
+    setCollectionOutputProfile(profileId);
+    requestCurrentStreamFrame();
+  };
+
+  const handleTake = () => {
+    takePreview();
+    requestCurrentStreamFrame();
+  };
+
+  const runBundleTask = async (task: () => Promise<void>, failureMessage: string) => {
+    setBundleMenuOpen(false);
+    setBundleBusy(true);
+    try {
+      await task();
+    } catch (error) {
+      console.error(`SceneSwitcher: ${failureMessage}`, error);
+      window.alert(`${failureMessage}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setBundleBusy(false);
+    }
+  };
+
+  const handleExportScene = () => {
+    const scene = currentSceneId ? scenes[currentSceneId] : null;
+    if (!scene) return;
+    void runBundleTask(async () => {
+      downloadBundle(await exportSceneBundle(scene), scene.name || 'Scene');
+    }, 'Scene export failed');
+  };
+
+  const handleExportCollection = () => {
+    void runBundleTask(async () => {
+      downloadBundle(await exportCollectionBundle(collection, scenes), collection.name);
+    }, 'Class export failed');
+  };
+
+  const handleImportFile = (file: File) => {
+    void runBundleTask(async () => {
+      const imported = await importBundle(file);
+      if (imported.collection) {
+        openCollection(imported.collection, imported.scenes);
+        refreshCollections();
+      } else {
+        addScenes(imported.scenes);
+      }
+      requestCurrentStreamFrame();
+    }, 'Import failed');
+  };
+
+  const collectionOptions = knownCollections.some((entry) => entry.id === collection.id)
+    ? knownCollections
+    : [collection, ...knownCollections];
+
+  return (
+    <div style={containerStyle}>
+      <div style={headerRowStyle}>
+        <select
+          value={collection.id}
+          onChange={(event) => handleCollectionChange(event.target.value)}
+          onFocus={refreshCollections}
+          style={selectStyle}
+          aria-label="Class"
+        >
+          {collectionOptions.map((entry) => (
+            <option key={entry.id} value={entry.id}>
+              {entry.name}
+            </option>
+          ))}
+          <option value={NEW_CLASS_VALUE}>+ New class…</option>
+        </select>
+        <button type="button" onClick={handleRenameCollection} style={smallButtonStyle} title="Rename class">
+          ✎
+        </button>
+        <div style={bundleMenuAnchorStyle}>
+          <button
+            type="button"
+            onClick={() => setBundleMenuOpen((open) => !open)}
+            disabled={bundleBusy}
+            style={{ ...smallButtonStyle, opacity: bundleBusy ? 0.5 : 1 }}
+            aria-haspopup="menu"
+            aria-expanded={bundleMenuOpen}
+            title="Import / export .classcast bundles"
+          >
+            {bundleBusy ? '…' : '⇅'}
+          </button>
+          {bundleMenuOpen && (
+            <div style={bundleMenuStyle} role="menu">
+              <button type="button" role="menuitem" onClick={handleExportScene} style={menuItemStyle}>
+                Export scene…
+              </button>
+              <button type="button" role="menuitem" onClick={handleExportCollection} style={menuItemStyle}>
+                Export class…
+              </button>
+              <button
+                type="button"
+                role="menuitem"
+                onClick={() => {
+                  setBundleMenuOpen(false);
+                  importInputRef.current?.click();
+                }}
+                style={menuItemStyle}
+              >
+                Import bundle…
+              </button>
+            </div>
+          )}
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={`${BUNDLE_EXTENSION},application/zip`}
+            style={{ display: 'none' }}
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = '';
+              if (file) handleImportFile(file);
+            }}
+          />
+        </div>
+        <select
+          value={getOutputProfile(collection.outputProfile).id}
+          onChange={(event) => handleOutputProfileChange(event.target.value as OutputProfileId)}
+          style={selectStyle}
+          aria-label="Output profile"
+          title="Output size, frame rate and bitrate for this class"
+        >
+          {OUTPUT_PROFILES.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.label}
+            </option>
+          ))}
+        </select>
+        <div style={{ flex: 1 }} />
+        <button
+          type="button"
+          onClick={() => setStudioMode(!studioMode)}
+          style={{ ...textButtonStyle, ...(studioMode ? studioButtonActiveStyle : null) }}
+          aria-pressed={studioMode}
+          title="Studio mode: edit Preview while Program stays live"
+        >
+          Studio
+        </button>
+        {studioMode && (
+          <button type="button" onClick={handleTake} style={takeButtonStyle} title="Send Preview to Program (T)">
+            Take
+          </button>
+        )}
+        <select
+          value={collection.transition.kind}
+          onChange={(event) =>
+            setCollectionTransition({ kind: event.target.value as SceneTransitionKind })
+          }
+          style={selectStyle}
+          aria-label="Transition"
+        >
+          {TRANSITION_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {collection.transition.kind === 'slide' && (
+          <select
+            value={collection.transition.direction ?? 'left'}
+            onChange={(event) =>
+              setCollectionTransition({ direction: event.target.value as SlideDirection })
+            }
+            style={selectStyle}
+            aria-label="Slide direction"
+          >
+            {DIRECTION_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        )}
+        {collection.transition.kind !== 'cut' && (
+          <input
+            type="number"
+            min={50}
+            max={5000}
+            step={50}
+            value={collection.transition.durationMs}
+            onChange={(event) => {
+              const raw = Number(event.target.value);
+              if (Number.isNaN(raw)) return;
+              setCollectionTransition({ durationMs: Math.max(0, Math.min(5000, raw)) });
+            }}
+            style={durationInputStyle}
+            aria-label="Transition duration (ms)"
+            title="Transition duration (ms)"
+          />
+        )}
+      </div>
+      <div style={sceneRowStyle}>
+        {collection.sceneIds.map((sceneId, index) => {
+          const scene = scenes[sceneId];
+          if (!scene) return null;
+          const isProgram = studioMode ? sceneId === programSceneId : sceneId === currentSceneId;
+          const isPreview = studioMode && sceneId === currentSceneId && !isProgram;
+          if (editingSceneId === sceneId) {
+            return (
+              <input
+                key={sceneId}
+                autoFocus
+                value={draftName}
+                onChange={(event) => setDraftName(event.target.value)}
+                onBlur={commitRename}
+                onKeyDown={handleRenameKey}
+                style={renameInputStyle}
+              />
+            );
+          }
+          return (
+            <button
+              key={sceneId}
+              type="button"
+              onClick={() => handleSwitch(sceneId)}
+              onDoubleClick={() => beginRename(sceneId)}
+              style={{
+                ...sceneButtonStyle,
+                ...(isProgram ? sceneButtonActiveStyle : null),
+                ...(isPreview ? sceneButtonPreviewStyle : null),
+              }}
+              title={index < 9 ? `Switch scene (${index + 1})` : 'Switch scene'}
+            >
+              {index < 9 && <span style={hotkeyBadgeStyle}>{index + 1}</span>}
+              {scene.name || 'Untitled Scene'}
+            </button>
+          );
+        })}
+        <button type="button" onClick={handleAddScene} style={smallButtonStyle} aria-label="Add scene">
+          +
+        </button>
+        <button
+          type="button"
+          onClick={handleDeleteScene}
+          disabled={collection.sceneIds.length <= 1}
+          style={{
+            ...smallButtonStyle,
+            opacity: collection.sceneIds.length <= 1 ? 0.35 : 1,
+            cursor: collection.sceneIds.length <= 1 ? 'not-allowed' : 'pointer',
+          }}
+          aria-label="Delete current scene"
+        >
+          −
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const containerStyle: CSSProperties = {
+  position: 'fixed',
+  top: '16px',
+  right: '16px',
+  maxWidth: '46vw',
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '8px',
+  padding: '10px 12px',
+  borderRadius: '12px',
+  background: 'rgba(20, 20, 20, 0.85)',
+  border: '1px solid rgba(255, 255, 255, 0.08)',
+  boxShadow: '0 6px 24px rgba(0, 0, 0, 0.35)',
+  color: '#f5f5f5',
+  fontSize: '12px',
+  zIndex: 60,
+};
+
+const headerRowStyle: CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+};
+
+const sceneRowStyle: CSSProperties = {
+  display: 'flex',
+  flexWrap: 'wrap',
+  alignItems: 'center',
+  gap: '6px',
+};
+
+const selectStyle: CSSProperties = {
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '1px solid rgba(255, 255, 255, 0.12)',
+  color: '#f5f5f5',
+  borderRadius: '6px',
+  padding: '4px 6px',
+  fontSize: '12px',
+};
+
+const durationInputStyle: CSSProperties = {
+  ...selectStyle,
+  width: '64px',
+};
+
+const sceneButtonStyle: CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: '6px',
+  background: 'rgba(255, 255, 255, 0.08)',
+  border: '1px solid rgba(255, 255, 255, 0.15)',
+  borderRadius: '8px',
+  color: '#fff',
+  fontSize: '12px',
+  padding: '6px 10px',
+  cursor: 'pointer',
+  transition: 'background 0.2s, border-color 0.2s',
+};
+
+const sceneButtonActiveStyle: CSSProperties = {
+  background: 'rgba(225, 29, 72, 0.3)',
+  borderColor: 'rgba(225, 29, 72, 0.9)',
+};
+
+const sceneButtonPreviewStyle: CSSProperties = {
+  background: 'rgba(34, 197, 94, 0.25)',
+  borderColor: 'rgba(34, 197, 94, 0.9)',
+};
+
+const hotkeyBadgeStyle: CSSProperties = {
+  fontSize: '10px',
+  fontWeight: 700,
+  opacity: 0.6,
+};
+
+const renameInputStyle: CSSProperties = {
+  ...selectStyle,
+  width: '120px',
+};
+
+const smallButtonStyle: CSSProperties = {
+  width: '26px',
+  height: '26px',
+  borderRadius: '6px',
+  background: 'rgba(255, 255, 255, 0.08)',
+  border: '1px solid rgba(255, 255, 255, 0.12)',
+  color: '#f5f5f5',
+  fontSize: '14px',
+  lineHeight: '1',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  cursor: 'pointer',
+  padding: 0,
+};
+
+const bundleMenuAnchorStyle: CSSProperties = {
+  position: 'relative',
+};
+
+const bundleMenuStyle: CSSProperties = {
+  position: 'absolute',
+  top: '30px',
+  left: 0,
+  display: 'flex',
+  flexDirection: 'column',
+  minWidth: '140px',
+  padding: '4px',
+  borderRadius: '8px',
+  background: 'rgba(20, 20, 20, 0.95)',
+  border: '1px solid rgba(255, 255, 255, 0.12)',
+  boxShadow: '0 6px 24px rgba(0, 0, 0, 0.35)',
+  zIndex: 1,
+};
+
+const menuItemStyle: CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: '#f5f5f5',
+  fontSize: '12px',
+  textAlign: 'left',
+  padding: '6px 8px',
+  borderRadius: '4px',
+  cursor: 'pointer',
+};
+
+const textButtonStyle: CSSProperties = {
+  ...selectStyle,
+  cursor: 'pointer',
+  fontWeight: 600,
+};
+
+const studioButtonActiveStyle: CSSProperties = {
+  background: 'rgba(34, 197, 94, 0.25)',
+  borderColor: 'rgba(34, 197, 94, 0.9)',
+};
+
+const takeButtonStyle: CSSProperties = {
+  ...textButtonStyle,
+  background: 'rgba(225, 29, 72, 0.85)',
+  borderColor: 'rgba(225, 29, 72, 1)',
+  color: '#fff',
+};
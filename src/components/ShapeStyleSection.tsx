@@ -0,0 +1,252 @@
+import type { CSSProperties } from 'react';
+import type { ArrowHeadStyle, ShapeLayer, ShapeStrokeDash, ShapeType } from '../types/scene';
+import { continuousEdit, useAppStore, type UpdateLayerOptions } from '../app/store';
+import { requestCurrentStreamFrame } from '../utils/viewerStream';
+import {
+  getArrowHeads,
+  getCornerRadius,
+  getShapeSides,
+  isLineShape,
+  LINE_SHAPE_HEIGHT,
+  MAX_SHAPE_SIDES,
+  MIN_SHAPE_SIDES,
+} from '../utils/shapeGeometry';
+
+interface ShapeStyleSectionProps {
+  layer: ShapeLayer;
+}
+
+const SHAPE_OPTIONS: Array<{ value: ShapeType; label: string }> = [
+  { value: 'rect', label: 'Rectangle' },
+  { value: 'rounded-rect', label: 'Rounded rectangle' },
+  { value: 'ellipse', label: 'Ellipse' },
+  { value: 'line', label: 'Line' },
+  { value: 'arrow', label: 'Arrow' },
+  { value: 'polygon', label: 'Polygon' },
+  { value: 'star', label: 'Star' },
+  { value: 'callout', label: 'Callout' },
+];
+
+const DASH_OPTIONS: Array<{ value: ShapeStrokeDash; label: string }> = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'dotted', label: 'Dotted' },
+];
+
+const HEAD_OPTIONS: Array<{ value: ArrowHeadStyle; label: string }> = [
+  { value: 'none', label: 'None' },
+  { value: 'triangle', label: 'Triangle' },
+  { value: 'open', label: 'Open' },
+  { value: 'circle', label: 'Dot' },
+  { value: 'bar', label: 'Bar' },
+];
+
+/** Height given to a line turned into a closed shape, relative to its width */
+const CLOSED_SHAPE_ASPECT = 9 / 16;
+
+/**
+ * Shape type plus the stroke dash and per-type options (arrow heads, corner
+ * radius, sides, callout tail).
+ */
+export function ShapeStyleSection({ layer }: ShapeStyleSectionProps) {
+  const updateLayer = useAppStore((state) => state.updateLayer);
+
+  const update = (updates: Partial<ShapeLayer>, options?: UpdateLayerOptions) => {
+    updateLayer(layer.id, updates, options);
+    requestCurrentStreamFrame();
+  };
+
+  // Lines keep a thin box; give closed shapes some height back.
+  const changeShapeType = (shapeType: ShapeType) => {
+    const wasLine = isLineShape(layer.shapeType);
+    const toLine = isLineShape(shapeType);
+    const updates: Partial<ShapeLayer> = { shapeType };
+    if (toLine && !wasLine) {
+      updates.height = LINE_SHAPE_HEIGHT;
+    } else if (wasLine && !toLine) {
+      updates.height = Math.round(layer.width * CLOSED_SHAPE_ASPECT);
+    }
+    if (shapeType === 'arrow' && layer.arrowEnd === undefined) {
+      updates.arrowEnd = 'triangle';
+    }
+    update(updates);
+  };
+
+  const heads = getArrowHeads(layer);
+  const lineShape = isLineShape(layer.shapeType);
+
+  return (
+    <div style={styles.container}>
+      <label style={styles.row}>
+        <span>Shape</span>
+        <select
+          value={layer.shapeType}
+          onChange={(event) => changeShapeType(event.target.value as ShapeType)}
+          style={styles.select}
+        >
+          {SHAPE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={styles.row}>
+        <span>Stroke style</span>
+        <select
+          value={layer.strokeDash ?? 'solid'}
+          onChange={(event) => update({ strokeDash: event.target.value as ShapeStrokeDash })}
+          style={styles.select}
+        >
+          {DASH_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {lineShape && (
+        <>
+          <label style={styles.row}>
+            <span>Start head</span>
+            <select
+              value={heads.start}
+              onChange={(event) => update({ arrowStart: event.target.value as ArrowHeadStyle })}
+              style={styles.select}
+            >
+              {HEAD_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={styles.row}>
+            <span>End head</span>
+            <select
+              value={heads.end}
+              onChange={(event) => update({ arrowEnd: event.target.value as ArrowHeadStyle })}
+              style={styles.select}
+            >
+              {HEAD_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </>
+      )}
+
+      {(layer.shapeType === 'rounded-rect' || layer.shapeType === 'callout') && (
+        <label style={styles.row}>
+          <span>Corner radius</span>
+          <input
+            type="number"
+            min={0}
+            max={500}
+            value={Math.round(getCornerRadius(layer))}
+            onChange={(event) =>
+              update(
+                { cornerRadius: Math.max(0, Number(event.target.value) || 0) },
+                continuousEdit(layer.id, 'cornerRadius')
+              )
+            }
+            style={styles.numberInput}
+          />
+        </label>
+      )}
+
+      {(layer.shapeType === 'polygon' || layer.shapeType === 'star') && (
+        <label style={styles.row}>
+          <span>{layer.shapeType === 'star' ? 'Points' : 'Sides'}</span>
+          <input
+            type="number"
+            min={MIN_SHAPE_SIDES}
+            max={MAX_SHAPE_SIDES}
+            value={getShapeSides(layer)}
+            onChange={(event) => {
+              const next = Math.round(Number(event.target.value));
+              if (!Number.isFinite(next)) return;
+              update(
+                { sides: Math.min(MAX_SHAPE_SIDES, Math.max(MIN_SHAPE_SIDES, next)) },
+                continuousEdit(layer.id, 'sides')
+              );
+            }}
+            style={styles.numberInput}
+          />
+        </label>
+      )}
+
+      {layer.shapeType === 'star' && (
+        <label style={styles.row}>
+          <span>Inner radius</span>
+          <input
+            type="range"
+            min={0.1}
+            max={0.95}
+            step={0.05}
+            value={layer.innerRadius ?? 0.45}
+            onChange={(event) =>
+              update({ innerRadius: Number(event.target.value) }, continuousEdit(layer.id, 'innerRadius'))
+            }
+            style={styles.rangeInput}
+          />
+        </label>
+      )}
+
+      {layer.shapeType === 'callout' && (
+        <label style={styles.row}>
+          <span>Tail position</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={layer.tailPosition ?? 0.25}
+            onChange={(event) =>
+              update({ tailPosition: Number(event.target.value) }, continuousEdit(layer.id, 'tailPosition'))
+            }
+            style={styles.rangeInput}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    fontSize: '12px',
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '8px',
+  },
+  select: {
+    background: 'rgba(0, 0, 0, 0.3)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    color: '#f5f5f5',
+    borderRadius: '4px',
+    padding: '4px',
+    fontSize: '12px',
+  },
+  numberInput: {
+    width: '64px',
+    background: 'rgba(0, 0, 0, 0.3)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    color: '#f5f5f5',
+    borderRadius: '4px',
+    padding: '4px',
+  },
+  rangeInput: {
+    width: '110px',
+  },
+};
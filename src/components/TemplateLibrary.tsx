@@ -0,0 +1,348 @@
+import { useEffect, useMemo, useRef, useState, type CSSProperties } from 'react';
+import type { LayerTemplate } from '../types/template';
+import { useAppStore } from '../app/store';
+import { useTemplateStore } from '../stores/templateStore';
+import { BUNDLE_EXTENSION, downloadBundle, exportTemplateBundle } from '../app/bundle';
+import {
+  BUILT_IN_TEMPLATES,
+  createTemplate,
+  getTemplatePlaceholders,
+  instantiateTemplate,
+} from '../layers/templates';
+import { requestCurrentStreamFrame } from '../utils/viewerStream';
+
+interface TemplateLibraryProps {
+  onClose: () => void;
+}
+
+/**
+ * Built-in and saved layer templates: insert one into the current scene
+ * (filling in its text placeholders), save the selection as a new template,
+ * and import/export the user's library as a `.classcast` bundle.
+ */
+export function TemplateLibrary({ onClose }: TemplateLibraryProps) {
+  const scene = useAppStore((state) => state.getCurrentScene());
+  const selection = useAppStore((state) => state.selection);
+  const addLayers = useAppStore((state) => state.addLayers);
+  const setSelection = useAppStore((state) => state.setSelection);
+  const userTemplates = useTemplateStore((state) => state.templates);
+  const loadTemplates = useTemplateStore((state) => state.load);
+  const saveTemplate = useTemplateStore((state) => state.save);
+  const removeTemplate = useTemplateStore((state) => state.remove);
+  const importTemplates = useTemplateStore((state) => state.importBundle);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [templateName, setTemplateName] = useState('');
+  const [textPlaceholders, setTextPlaceholders] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    loadTemplates().catch((error) => console.error('TemplateLibrary: failed to load templates', error));
+  }, [loadTemplates]);
+
+  const templates = useMemo(() => [...BUILT_IN_TEMPLATES, ...userTemplates], [userTemplates]);
+  const activeTemplate = templates.find((template) => template.id === activeId) ?? null;
+  const placeholders = useMemo(
+    () => (activeTemplate ? getTemplatePlaceholders(activeTemplate) : []),
+    [activeTemplate]
+  );
+
+  const runTask = async (task: () => Promise<void>, failureMessage: string) => {
+    setBusy(true);
+    try {
+      await task();
+    } catch (error) {
+      console.error(`TemplateLibrary: ${failureMessage}`, error);
+      window.alert(`${failureMessage}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const insertTemplate = (template: LayerTemplate, placeholderValues: Record<string, string>) => {
+    if (!scene) return;
+    const layers = instantiateTemplate(template, scene, placeholderValues);
+    addLayers(layers, `Insert ${template.name}`);
+    setSelection(layers.filter((layer) => !layer.parentId).map((layer) => layer.id));
+    requestCurrentStreamFrame();
+    onClose();
+  };
+
+  const handlePick = (template: LayerTemplate) => {
+    if (getTemplatePlaceholders(template).length === 0) {
+      insertTemplate(template, {});
+      return;
+    }
+    setActiveId(template.id === activeId ? null : template.id);
+    setValues({});
+  };
+
+  const handleSaveSelection = () => {
+    if (!scene) return;
+    const template = createTemplate(templateName, scene, selection, { textPlaceholders });
+    if (!template) return;
+    void runTask(async () => {
+      await saveTemplate(template);
+      setTemplateName('');
+    }, 'Saving template failed');
+  };
+
+  const handleDelete = (template: LayerTemplate) => {
+    if (!window.confirm(`Delete template "${template.name}"?`)) return;
+    if (activeId === template.id) setActiveId(null);
+    void runTask(() => removeTemplate(template.id), 'Deleting template failed');
+  };
+
+  const handleExport = () => {
+    void runTask(async () => {
+      downloadBundle(await exportTemplateBundle(userTemplates), 'Templates');
+    }, 'Template export failed');
+  };
+
+  const handleImport = (file: File) => {
+    void runTask(async () => {
+      await importTemplates(file);
+    }, 'Template import failed');
+  };
+
+  return (
+    <div style={styles.popover} role="dialog" aria-label="Layer templates">
+      <div style={styles.header}>
+        <span>Templates</span>
+        <div style={styles.headerActions}>
+          <button
+            type="button"
+            onClick={() => importInputRef.current?.click()}
+            disabled={busy}
+            style={styles.smallButton}
+            title="Import templates from a .classcast bundle"
+          >
+            Import…
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={busy || userTemplates.length === 0}
+            style={{ ...styles.smallButton, opacity: userTemplates.length === 0 ? 0.4 : 1 }}
+            title="Export your templates as a .classcast bundle"
+          >
+            Export…
+          </button>
+          <button type="button" onClick={onClose} style={styles.smallButton} aria-label="Close templates">
+            ×
+          </button>
+        </div>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept={`${BUNDLE_EXTENSION},application/zip`}
+          style={{ display: 'none' }}
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = '';
+            if (file) handleImport(file);
+          }}
+        />
+      </div>
+
+      <div style={styles.list} className="invisible-scrollbar">
+        {templates.map((template) => (
+          <div key={template.id}>
+            <div style={styles.templateRow}>
+              <button
+                type="button"
+                onClick={() => handlePick(template)}
+                disabled={!scene}
+                style={{
+                  ...styles.templateButton,
+                  background: template.id === activeId ? 'rgba(0, 166, 255, 0.18)' : 'transparent',
+                }}
+                title="Insert into the current scene"
+              >
+                <span>{template.name}</span>
+                <span style={styles.templateMeta}>
+                  {template.builtIn ? 'Built-in' : `${template.layers.length} layer${template.layers.length === 1 ? '' : 's'}`}
+                </span>
+              </button>
+              {!template.builtIn && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(template)}
+                  disabled={busy}
+                  style={styles.smallButton}
+                  aria-label={`Delete template ${template.name}`}
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+            {template.id === activeId && (
+              <div style={styles.placeholderForm}>
+                {placeholders.map((placeholder) => (
+                  <label key={placeholder.label} style={styles.field}>
+                    <span>{placeholder.label}</span>
+                    <input
+                      type="text"
+                      value={values[placeholder.label] ?? placeholder.defaultValue}
+                      onChange={(event) =>
+                        setValues((current) => ({ ...current, [placeholder.label]: event.target.value }))
+                      }
+                      style={styles.textInput}
+                    />
+                  </label>
+                ))}
+                <button type="button" onClick={() => insertTemplate(template, values)} style={styles.primaryButton}>
+                  Insert
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div style={styles.saveSection}>
+        <input
+          type="text"
+          value={templateName}
+          placeholder="Template name"
+          onChange={(event) => setTemplateName(event.target.value)}
+          style={styles.textInput}
+        />
+        <label style={styles.checkboxRow}>
+          <input
+            type="checkbox"
+            checked={textPlaceholders}
+            onChange={(event) => setTextPlaceholders(event.target.checked)}
+          />
+          <span>Make text editable on insert</span>
+        </label>
+        <button
+          type="button"
+          onClick={handleSaveSelection}
+          disabled={busy || selection.length === 0}
+          style={{ ...styles.primaryButton, opacity: selection.length === 0 ? 0.4 : 1 }}
+        >
+          Save selection as template
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, CSSProperties> = {
+  popover: {
+    position: 'absolute',
+    top: 'calc(100% + 8px)',
+    left: '14px',
+    right: '14px',
+    display: 'flex',
+    flexDirection: 'column',
+    maxHeight: '420px',
+    background: 'rgba(24, 24, 24, 0.97)',
+    borderRadius: '8px',
+    border: '1px solid rgba(255, 255, 255, 0.08)',
+    boxShadow: '0 10px 24px rgba(0, 0, 0, 0.35)',
+    minWidth: '220px',
+    overflow: 'hidden',
+    zIndex: 30,
+    fontSize: '12px',
+    fontWeight: 400,
+    letterSpacing: 'normal',
+    textTransform: 'none',
+    color: '#f5f5f5',
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '8px 10px',
+    fontWeight: 600,
+    borderBottom: '1px solid rgba(255, 255, 255, 0.06)',
+  },
+  headerActions: {
+    display: 'flex',
+    gap: '4px',
+  },
+  list: {
+    flex: '1 1 auto',
+    minHeight: 0,
+    overflowY: 'auto',
+  },
+  templateRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    paddingRight: '8px',
+  },
+  templateButton: {
+    flex: 1,
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '8px',
+    padding: '8px 10px',
+    border: 'none',
+    color: '#f5f5f5',
+    textAlign: 'left',
+    fontSize: '12px',
+    cursor: 'pointer',
+  },
+  templateMeta: {
+    color: 'rgba(255, 255, 255, 0.45)',
+    fontSize: '11px',
+  },
+  placeholderForm: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    padding: '6px 10px 10px',
+    background: 'rgba(255, 255, 255, 0.03)',
+  },
+  field: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  textInput: {
+    background: 'rgba(0, 0, 0, 0.3)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    color: '#f5f5f5',
+    borderRadius: '4px',
+    padding: '4px 6px',
+    fontSize: '12px',
+  },
+  saveSection: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    padding: '8px 10px',
+    borderTop: '1px solid rgba(255, 255, 255, 0.06)',
+  },
+  checkboxRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  smallButton: {
+    borderRadius: '4px',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    background: 'rgba(255, 255, 255, 0.06)',
+    color: '#f5f5f5',
+    fontSize: '11px',
+    padding: '2px 8px',
+    cursor: 'pointer',
+  },
+  primaryButton: {
+    alignSelf: 'flex-start',
+    borderRadius: '6px',
+    border: '1px solid rgba(0, 166, 255, 0.5)',
+    background: 'rgba(0, 166, 255, 0.2)',
+    color: '#f5f5f5',
+    fontSize: '12px',
+    padding: '4px 12px',
+    cursor: 'pointer',
+  },
+};
@@ -1,8 +1,17 @@
-import { useEffect, useMemo, useRef, useState, type ChangeEvent, type KeyboardEvent } from 'react';
-import { useAppStore } from '../app/store';
-import type { TextLayer } from '../types/scene';
+import {
+  useEffect,
+  useRef,
+  type CSSProperties,
+  type FocusEvent,
+  type KeyboardEvent,
+  type MouseEvent,
+} from 'react';
+import { continuousEdit, useAppStore } from '../app/store';
+import type { TextLayer, TextLine, TextRun, TextRunStyle, TextStyle } from '../types/scene';
 import type { CanvasLayout } from './PresenterCanvas';
-import { measureTextBlock } from '../utils/layerGeometry';
+import { measureRichText } from '../utils/layerGeometry';
+import { getTextLines, hasRichFormatting, linesToContent, normalizeRuns } from '../utils/richText';
+import { normalizeColor } from '../utils/color';
 import { requestCurrentStreamFrame } from '../utils/viewerStream';
 
 interface TextEditOverlayProps {
@@ -11,58 +20,212 @@ interface TextEditOverlayProps {
   onFinish: (cancelled: boolean) => void;
 }
 
+type InlineCommand = 'bold' | 'italic' | 'underline';
+
+const INLINE_COMMANDS: Array<{ command: InlineCommand; label: string; title: string; style: CSSProperties }> = [
+  { command: 'bold', label: 'B', title: 'Bold (Ctrl/Cmd+B)', style: { fontWeight: 700 } },
+  { command: 'italic', label: 'I', title: 'Italic (Ctrl/Cmd+I)', style: { fontStyle: 'italic' } },
+  { command: 'underline', label: 'U', title: 'Underline (Ctrl/Cmd+U)', style: { textDecoration: 'underline' } },
+];
+
+const LINE_ALIGNMENTS: Array<{ value: TextStyle['textAlign']; label: string }> = [
+  { value: 'left', label: '⇤' },
+  { value: 'center', label: '↔' },
+  { value: 'right', label: '⇥' },
+];
+
+const BLOCK_TAGS = new Set(['DIV', 'P', 'LI']);
+
+/**
+ * Apply a line's bullet and alignment to its editor block. Attributes are
+ * copied by the browser when Enter splits a line, so lists continue.
+ */
+function applyLineAttributes(block: HTMLElement, line: Pick<TextLine, 'align' | 'bullet'>, bulletIndentPx: number) {
+  if (line.align) {
+    block.dataset.align = line.align;
+  } else {
+    delete block.dataset.align;
+  }
+  if (line.bullet) {
+    block.dataset.bullet = 'true';
+  } else {
+    delete block.dataset.bullet;
+  }
+  block.style.textAlign = line.align ?? '';
+  block.style.display = line.bullet ? 'list-item' : '';
+  block.style.listStyleType = line.bullet ? 'disc' : '';
+  block.style.listStylePosition = line.bullet ? 'outside' : '';
+  block.style.marginLeft = line.bullet ? `${bulletIndentPx}px` : '';
+}
+
+function renderRun(run: TextRun): Node {
+  let node: Node = document.createTextNode(run.text);
+  const wrap = (tag: string) => {
+    const element = document.createElement(tag);
+    element.appendChild(node);
+    node = element;
+  };
+  if (run.underline) wrap('u');
+  if (run.italic) wrap('i');
+  if (run.bold) wrap('b');
+  if (run.color) {
+    const span = document.createElement('span');
+    span.style.color = run.color;
+    span.appendChild(node);
+    node = span;
+  }
+  return node;
+}
+
+function renderLines(root: HTMLElement, lines: TextLine[], bulletIndentPx: number): void {
+  root.replaceChildren(
+    ...lines.map((line) => {
+      const block = document.createElement('div');
+      applyLineAttributes(block, line, bulletIndentPx);
+      if (line.runs.length === 0) {
+        block.appendChild(document.createElement('br'));
+      } else {
+        line.runs.forEach((run) => block.appendChild(renderRun(run)));
+      }
+      return block;
+    })
+  );
+}
+
+function readElementStyle(element: HTMLElement, inherited: TextRunStyle): TextRunStyle {
+  const style = { ...inherited };
+  const tag = element.tagName;
+  const weight = element.style.fontWeight;
+  if (tag === 'B' || tag === 'STRONG' || weight === 'bold' || Number(weight) >= 600) style.bold = true;
+  if (weight === 'normal' || (Number(weight) > 0 && Number(weight) < 600)) style.bold = undefined;
+  if (tag === 'I' || tag === 'EM' || element.style.fontStyle === 'italic') style.italic = true;
+  if (tag === 'U' || element.style.textDecoration.includes('underline')) style.underline = true;
+  const color = element.getAttribute('color') || element.style.color;
+  if (color) style.color = color;
+  return style;
+}
+
+function readLineAttributes(block: HTMLElement | null): Pick<TextLine, 'align' | 'bullet'> {
+  const attributes: Pick<TextLine, 'align' | 'bullet'> = {};
+  const align = block?.dataset.align;
+  if (align === 'left' || align === 'center' || align === 'right') attributes.align = align;
+  if (block?.dataset.bullet === 'true') attributes.bullet = true;
+  return attributes;
+}
+
+/**
+ * Read the editor DOM back into formatted lines. Blocks and <br> end lines;
+ * inline elements and styles become run formatting.
+ */
+function parseLines(root: HTMLElement): TextLine[] {
+  const lines: TextLine[] = [];
+  let current: TextLine | null = null;
+
+  const startLine = (block: HTMLElement | null): TextLine => {
+    const line: TextLine = { runs: [], ...readLineAttributes(block) };
+    lines.push(line);
+    return line;
+  };
+
+  const walk = (node: Node, style: TextRunStyle, block: HTMLElement | null) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = (node.textContent ?? '').replace(/\u00a0/g, ' ');
+      if (!text) return;
+      current = current ?? startLine(block);
+      current.runs.push({ text, ...style });
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+    if (node.tagName === 'BR') {
+      // A <br> closes the current line, or stands for an empty one.
+      if (!current) startLine(block);
+      current = null;
+      return;
+    }
+    if (BLOCK_TAGS.has(node.tagName)) {
+      current = null;
+      const before = lines.length;
+      node.childNodes.forEach((child) => walk(child, style, node));
+      if (lines.length === before) startLine(node);
+      current = null;
+      return;
+    }
+    const nextStyle = readElementStyle(node, style);
+    node.childNodes.forEach((child) => walk(child, nextStyle, block));
+  };
+
+  root.childNodes.forEach((child) => walk(child, {}, null));
+  if (lines.length === 0) lines.push({ runs: [] });
+  return lines.map((line) => ({ ...line, runs: normalizeRuns(line.runs) }));
+}
+
 /**
- * Editable textarea overlay for in-place text editing.
+ * Editor blocks touched by the current selection.
+ */
+function getSelectedBlocks(root: HTMLElement): HTMLElement[] {
+  const selection = window.getSelection();
+  const blocks = Array.from(root.children).filter((child): child is HTMLElement => child instanceof HTMLElement);
+  if (!selection || selection.rangeCount === 0) return [];
+  const range = selection.getRangeAt(0);
+  return blocks.filter((block) => range.intersectsNode(block));
+}
+
+/**
+ * In-place rich text editor: inline bold/italic/underline/color runs, bullets
+ * and per-line alignment. Changes are written to the layer as you type.
  */
 export function TextEditOverlay({ layout, layer, onFinish }: TextEditOverlayProps) {
   const updateLayer = useAppStore((state) => state.updateLayer);
-  const [value, setValue] = useState(layer.content);
-  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
-  const originalContentRef = useRef(layer.content);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const editorRef = useRef<HTMLDivElement | null>(null);
+  const savedRangeRef = useRef<Range | null>(null);
+  const originalRef = useRef<Pick<TextLayer, 'content' | 'lines'>>({ content: layer.content, lines: layer.lines });
   const finishedRef = useRef(false);
 
+  const scaleX = Math.abs(layer.transform.scale.x);
+  const scaleY = Math.abs(layer.transform.scale.y);
+  const metrics = measureRichText(layer);
+  const bulletIndentPx = metrics.bulletIndent * scaleX * layout.scaleX;
+
+  // The editor is uncontrolled: render the layer's lines once per layer so
+  // typing does not reset the caret.
   useEffect(() => {
-    setValue(layer.content);
-    originalContentRef.current = layer.content;
+    const editor = editorRef.current;
+    if (!editor) return;
+    originalRef.current = { content: layer.content, lines: layer.lines };
     finishedRef.current = false;
+    renderLines(editor, getTextLines(layer), bulletIndentPx);
+    editor.focus();
+    const selection = window.getSelection();
+    if (selection) {
+      selection.selectAllChildren(editor);
+      selection.collapseToEnd();
+    }
   }, [layer.id]);
 
   useEffect(() => {
-    const textarea = textareaRef.current;
-    if (!textarea) return;
-    textarea.focus();
-    const end = textarea.value.length;
-    textarea.setSelectionRange(end, end);
+    const handleSelectionChange = () => {
+      const editor = editorRef.current;
+      const selection = window.getSelection();
+      if (!editor || !selection || selection.rangeCount === 0) return;
+      const range = selection.getRangeAt(0);
+      if (editor.contains(range.commonAncestorContainer)) {
+        savedRangeRef.current = range.cloneRange();
+      }
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
   }, []);
 
-  const metrics = useMemo(
-    () => measureTextBlock(value, layer.fontSize, layer.font, layer.padding),
-    [value, layer.fontSize, layer.font, layer.padding]
-  );
-
-  const scaleX = Math.abs(layer.transform.scale.x);
-  const scaleY = Math.abs(layer.transform.scale.y);
-
-  const widthScene = metrics.width * scaleX;
-  const heightScene = metrics.height * scaleY;
-
-  // Calculate center position in screen pixels
-  const centerPx = {
-    x: layout.x + layer.transform.pos.x * layout.scaleX,
-    y: layout.y + layer.transform.pos.y * layout.scaleY,
-  };
-
-  // Calculate dimensions in screen pixels
-  const widthPx = Math.max(widthScene * layout.scaleX, 48);
-  const heightPx = Math.max(heightScene * layout.scaleY, 32);
-
-  // Position textarea centered at the same point as canvas text
-  const leftPx = centerPx.x - widthPx / 2;
-  const topPx = centerPx.y - heightPx / 2;
+  const widthPx = Math.max(metrics.width * scaleX * layout.scaleX, 48);
+  const heightPx = Math.max(metrics.height * scaleY * layout.scaleY, 32);
+  const leftPx = layout.x + layer.transform.pos.x * layout.scaleX - widthPx / 2;
+  const topPx = layout.y + layer.transform.pos.y * layout.scaleY - heightPx / 2;
   const paddingX = layer.padding * scaleX * layout.scaleX;
   const paddingY = layer.padding * scaleY * layout.scaleY;
   const fontSizePx = layer.fontSize * scaleY * layout.scaleY;
   const lineHeightPx = metrics.lineHeight * scaleY * layout.scaleY;
+  const letterSpacingPx = (layer.letterSpacing ?? 0) * scaleX * layout.scaleX;
   const borderRadiusPx = layer.borderRadius * layout.scaleX;
 
   const finish = (cancelled: boolean) => {
@@ -71,26 +234,67 @@ export function TextEditOverlay({ layout, layer, onFinish }: TextEditOverlayProp
     onFinish(cancelled);
   };
 
-  const handleChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
-    const next = event.target.value;
-    setValue(next);
-    updateLayer(layer.id, { content: next });
+  const syncFromEditor = () => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const lines = parseLines(editor);
+    updateLayer(
+      layer.id,
+      { content: linesToContent(lines), lines: hasRichFormatting(lines) ? lines : undefined },
+      continuousEdit(layer.id, 'content')
+    );
     requestCurrentStreamFrame();
   };
 
-  const handleBlur = () => {
+  const restoreSelection = () => {
+    const editor = editorRef.current;
+    const range = savedRangeRef.current;
+    if (!editor) return;
+    editor.focus();
+    const selection = window.getSelection();
+    if (range && selection) {
+      selection.removeAllRanges();
+      selection.addRange(range);
+    }
+  };
+
+  // Inline commands go through the browser's editing commands, which fire
+  // an input event that syncs the layer.
+  const runInlineCommand = (command: InlineCommand | 'foreColor', value?: string) => {
+    restoreSelection();
+    document.execCommand(command, false, value);
+  };
+
+  const updateSelectedLines = (update: (attributes: Pick<TextLine, 'align' | 'bullet'>) => Pick<TextLine, 'align' | 'bullet'>) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    restoreSelection();
+    const blocks = getSelectedBlocks(editor);
+    if (blocks.length === 0) return;
+    blocks.forEach((block) => applyLineAttributes(block, update(readLineAttributes(block)), bulletIndentPx));
+    syncFromEditor();
+  };
+
+  const toggleBullets = () => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    restoreSelection();
+    const allBulleted = getSelectedBlocks(editor).every((block) => block.dataset.bullet === 'true');
+    updateSelectedLines((attributes) => ({ ...attributes, bullet: !allBulleted || undefined }));
+  };
+
+  const handleBlur = (event: FocusEvent<HTMLDivElement>) => {
+    // Focus moving to the toolbar (e.g. the color picker) keeps editing open.
+    if (event.relatedTarget instanceof Node && containerRef.current?.contains(event.relatedTarget)) return;
     finish(false);
   };
 
-  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
     if (event.key === 'Escape') {
       event.preventDefault();
-      const original = originalContentRef.current;
-      if (value !== original) {
-        setValue(original);
-        updateLayer(layer.id, { content: original });
-        requestCurrentStreamFrame();
-      }
+      const original = originalRef.current;
+      updateLayer(layer.id, { content: original.content, lines: original.lines });
+      requestCurrentStreamFrame();
       finish(true);
     } else if ((event.metaKey || event.ctrlKey) && event.key === 'Enter') {
       event.preventDefault();
@@ -98,40 +302,125 @@ export function TextEditOverlay({ layout, layer, onFinish }: TextEditOverlayProp
     }
   };
 
+  const keepEditorFocus = (event: MouseEvent<HTMLDivElement>) => event.preventDefault();
+
   return (
-    <textarea
-      ref={textareaRef}
-      value={value}
-      onChange={handleChange}
-      onBlur={handleBlur}
-      onKeyDown={handleKeyDown}
-      spellCheck={false}
-      style={{
-        position: 'fixed',
-        left: `${leftPx}px`,
-        top: `${topPx}px`,
-        width: `${widthPx}px`,
-        height: `${heightPx}px`,
-        padding: `${paddingY}px ${paddingX}px`,
-        fontSize: `${fontSizePx}px`,
-        lineHeight: `${lineHeightPx}px`,
-        fontFamily: layer.font,
-        color: layer.textColor,
-        caretColor: layer.textColor,
-        background: layer.backgroundColor,
-        border: '1px solid rgba(0, 166, 255, 0.9)',
-        borderRadius: `${borderRadiusPx}px`,
-        boxShadow: '0 0 0 1px rgba(0, 166, 255, 0.45)',
-        resize: 'none',
-        overflow: 'hidden',
-        whiteSpace: 'pre-wrap',
-        wordBreak: 'break-word',
-        boxSizing: 'border-box',
-        outline: 'none',
-        textAlign: layer.textAlign ?? 'center',
-        pointerEvents: 'auto',
-        zIndex: 32,
-      }}
-    />
+    <div ref={containerRef} onBlur={handleBlur}>
+      <div
+        style={{ ...styles.toolbar, left: `${leftPx}px`, top: `${Math.max(4, topPx - 40)}px` }}
+        onMouseDown={keepEditorFocus}
+      >
+        {INLINE_COMMANDS.map((entry) => (
+          <button
+            key={entry.command}
+            type="button"
+            onClick={() => runInlineCommand(entry.command)}
+            style={{ ...styles.button, ...entry.style }}
+            title={entry.title}
+            aria-label={entry.title}
+          >
+            {entry.label}
+          </button>
+        ))}
+        <input
+          type="color"
+          defaultValue={normalizeColor(layer.textColor)}
+          onMouseDown={(event) => event.stopPropagation()}
+          onChange={(event) => runInlineCommand('foreColor', event.target.value)}
+          style={styles.colorInput}
+          title="Text color"
+          aria-label="Text color"
+        />
+        <span style={styles.divider} />
+        <button type="button" onClick={toggleBullets} style={styles.button} title="Bulleted list" aria-label="Bulleted list">
+          •
+        </button>
+        {LINE_ALIGNMENTS.map((entry) => (
+          <button
+            key={entry.value}
+            type="button"
+            onClick={() => updateSelectedLines((attributes) => ({ ...attributes, align: entry.value }))}
+            style={styles.button}
+            title={`Align line ${entry.value}`}
+            aria-label={`Align line ${entry.value}`}
+          >
+            {entry.label}
+          </button>
+        ))}
+      </div>
+      <div
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        onInput={syncFromEditor}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+        style={{
+          position: 'fixed',
+          left: `${leftPx}px`,
+          top: `${topPx}px`,
+          minWidth: `${widthPx}px`,
+          minHeight: `${heightPx}px`,
+          padding: `${paddingY}px ${paddingX}px`,
+          fontSize: `${fontSizePx}px`,
+          lineHeight: `${lineHeightPx}px`,
+          letterSpacing: `${letterSpacingPx}px`,
+          fontFamily: layer.font,
+          color: layer.textColor,
+          caretColor: layer.textColor,
+          background: layer.backgroundColor,
+          border: '1px solid rgba(0, 166, 255, 0.9)',
+          borderRadius: `${borderRadiusPx}px`,
+          boxShadow: '0 0 0 1px rgba(0, 166, 255, 0.45)',
+          whiteSpace: 'pre',
+          boxSizing: 'border-box',
+          outline: 'none',
+          textAlign: layer.textAlign ?? 'center',
+          pointerEvents: 'auto',
+          zIndex: 32,
+        }}
+      />
+    </div>
   );
 }
+
+const styles: Record<string, CSSProperties> = {
+  toolbar: {
+    position: 'fixed',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '4px',
+    borderRadius: '8px',
+    background: 'rgba(18, 18, 18, 0.92)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    boxShadow: '0 6px 18px rgba(0, 0, 0, 0.35)',
+    pointerEvents: 'auto',
+    zIndex: 33,
+  },
+  button: {
+    minWidth: '28px',
+    height: '28px',
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    background: 'rgba(255, 255, 255, 0.08)',
+    color: '#f5f5f5',
+    fontSize: '13px',
+    cursor: 'pointer',
+    padding: '0 6px',
+  },
+  colorInput: {
+    width: '32px',
+    height: '28px',
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    background: 'transparent',
+    padding: 0,
+  },
+  divider: {
+    width: '1px',
+    height: '20px',
+    background: 'rgba(255, 255, 255, 0.15)',
+    margin: '0 2px',
+  },
+};
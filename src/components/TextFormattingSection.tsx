@@ -0,0 +1,203 @@
+import { useMemo, useState, type ChangeEvent, type CSSProperties } from 'react';
+import type { TextLayer } from '../types/scene';
+import { continuousEdit, useAppStore, type UpdateLayerOptions } from '../app/store';
+import { storeAsset } from '../app/persistence';
+import { requestCurrentStreamFrame } from '../utils/viewerStream';
+import { getPrimaryFontFamily } from '../utils/richText';
+
+interface TextFormattingSectionProps {
+  layer: TextLayer;
+}
+
+const BUILT_IN_FONTS: Array<{ label: string; font: string }> = [
+  { label: 'Inter', font: 'Inter, system-ui, sans-serif' },
+  { label: 'System', font: 'system-ui, sans-serif' },
+  { label: 'Serif', font: 'Georgia, "Times New Roman", serif' },
+  { label: 'Monospace', font: '"JetBrains Mono", Menlo, Consolas, monospace' },
+  { label: 'Handwriting', font: '"Comic Sans MS", "Comic Neue", cursive' },
+];
+
+const FONT_FILE_ACCEPT = '.ttf,.otf,.woff,.woff2,font/ttf,font/otf,font/woff,font/woff2';
+const ASSET_OPTION_PREFIX = 'asset:';
+
+function fontStackFor(family: string): string {
+  return `"${family.replace(/"/g, '')}", Inter, system-ui, sans-serif`;
+}
+
+/**
+ * Family name for an uploaded font file, from its file name.
+ */
+function familyFromFileName(name: string): string {
+  const base = name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim();
+  return base || 'Uploaded Font';
+}
+
+/**
+ * Font family, uploaded web fonts and letter/line spacing for a text layer.
+ */
+export function TextFormattingSection({ layer }: TextFormattingSectionProps) {
+  const updateLayer = useAppStore((state) => state.updateLayer);
+  const scene = useAppStore((state) => state.getCurrentScene());
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  // Fonts already uploaded for this scene, so they can be reused on other layers.
+  const uploadedFonts = useMemo(() => {
+    const fonts = new Map<string, { assetId: string; font: string; family: string }>();
+    scene?.layers.forEach((entry) => {
+      if (entry.type !== 'text' || !entry.fontAssetId || fonts.has(entry.fontAssetId)) return;
+      fonts.set(entry.fontAssetId, {
+        assetId: entry.fontAssetId,
+        font: entry.font,
+        family: getPrimaryFontFamily(entry.font),
+      });
+    });
+    return Array.from(fonts.values());
+  }, [scene?.layers]);
+
+  const update = (updates: Partial<TextLayer>, options?: UpdateLayerOptions) => {
+    updateLayer(layer.id, updates, options);
+    requestCurrentStreamFrame();
+  };
+
+  const selectedValue = layer.fontAssetId ? `${ASSET_OPTION_PREFIX}${layer.fontAssetId}` : layer.font;
+  const isCustomFont = !layer.fontAssetId && !BUILT_IN_FONTS.some((option) => option.font === layer.font);
+
+  const handleFontChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value;
+    if (value.startsWith(ASSET_OPTION_PREFIX)) {
+      const uploaded = uploadedFonts.find((entry) => `${ASSET_OPTION_PREFIX}${entry.assetId}` === value);
+      if (uploaded) update({ font: uploaded.font, fontAssetId: uploaded.assetId });
+      return;
+    }
+    update({ font: value, fontAssetId: null });
+  };
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setUploading(true);
+    setUploadError(null);
+    try {
+      const asset = await storeAsset(file);
+      update({ font: fontStackFor(familyFromFileName(file.name)), fontAssetId: asset.blobId });
+    } catch (error) {
+      console.error('TextFormattingSection: failed to store font', error);
+      setUploadError('Could not save the font file.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <label style={styles.row}>
+        <span>Font</span>
+        <select value={selectedValue} onChange={handleFontChange} style={styles.select}>
+          {BUILT_IN_FONTS.map((option) => (
+            <option key={option.font} value={option.font}>
+              {option.label}
+            </option>
+          ))}
+          {isCustomFont && <option value={layer.font}>{getPrimaryFontFamily(layer.font) || 'Custom'}</option>}
+          {uploadedFonts.map((entry) => (
+            <option key={entry.assetId} value={`${ASSET_OPTION_PREFIX}${entry.assetId}`}>
+              {entry.family} (uploaded)
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={styles.uploadButton}>
+        {uploading ? 'Uploading…' : 'Upload font…'}
+        <input
+          type="file"
+          accept={FONT_FILE_ACCEPT}
+          onChange={handleUpload}
+          disabled={uploading}
+          style={styles.hiddenInput}
+        />
+      </label>
+      {uploadError && <span style={styles.error}>{uploadError}</span>}
+      <label style={styles.row}>
+        <span>Letter spacing</span>
+        <input
+          type="number"
+          min={-10}
+          max={100}
+          step={0.5}
+          value={layer.letterSpacing}
+          onChange={(event) =>
+            update({ letterSpacing: Number(event.target.value) || 0 }, continuousEdit(layer.id, 'letterSpacing'))
+          }
+          style={styles.numberInput}
+        />
+      </label>
+      <label style={styles.row}>
+        <span>Line spacing</span>
+        <input
+          type="number"
+          min={0.5}
+          max={4}
+          step={0.1}
+          value={layer.lineSpacing}
+          onChange={(event) => {
+            const next = Number(event.target.value);
+            if (next > 0) update({ lineSpacing: next }, continuousEdit(layer.id, 'lineSpacing'));
+          }}
+          style={styles.numberInput}
+        />
+      </label>
+    </div>
+  );
+}
+
+const styles: Record<string, CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    fontSize: '12px',
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '8px',
+  },
+  select: {
+    maxWidth: '150px',
+    background: 'rgba(0, 0, 0, 0.3)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    color: '#f5f5f5',
+    borderRadius: '4px',
+    padding: '4px',
+    fontSize: '12px',
+  },
+  uploadButton: {
+    alignSelf: 'flex-start',
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.18)',
+    background: 'rgba(255, 255, 255, 0.08)',
+    color: '#f5f5f5',
+    fontSize: '12px',
+    padding: '4px 12px',
+    cursor: 'pointer',
+  },
+  hiddenInput: {
+    display: 'none',
+  },
+  error: {
+    color: '#ff8a8a',
+    fontSize: '11px',
+  },
+  numberInput: {
+    width: '64px',
+    background: 'rgba(0, 0, 0, 0.3)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    color: '#f5f5f5',
+    borderRadius: '4px',
+    padding: '4px',
+  },
+};
@@ -0,0 +1,243 @@
+import { useEffect, useState, type CSSProperties } from 'react';
+import type { TimerLayer, TimerMode, TimerZeroAction } from '../types/scene';
+import { continuousEdit, useAppStore, type UpdateLayerOptions } from '../app/store';
+import { requestCurrentStreamFrame } from '../utils/viewerStream';
+import {
+  formatTimerText,
+  isTimerRunning,
+  pauseTimer,
+  resetTimer,
+  startTimer,
+} from '../renderer/timer';
+
+interface TimerControlsSectionProps {
+  layer: TimerLayer;
+}
+
+const MODE_OPTIONS: Array<{ value: TimerMode; label: string }> = [
+  { value: 'countdown', label: 'Countdown' },
+  { value: 'countup', label: 'Stopwatch' },
+  { value: 'clock', label: 'Clock' },
+];
+
+const ZERO_ACTION_OPTIONS: Array<{ value: TimerZeroAction; label: string }> = [
+  { value: 'none', label: 'Nothing' },
+  { value: 'flash', label: 'Flash' },
+  { value: 'chime', label: 'Play chime' },
+  { value: 'switch-scene', label: 'Switch scene' },
+];
+
+const MAX_DURATION_MINUTES = 600;
+const NO_SCENES: string[] = [];
+
+/**
+ * Mode, duration, start/pause/reset and on-zero action for a timer layer.
+ */
+export function TimerControlsSection({ layer }: TimerControlsSectionProps) {
+  const updateLayer = useAppStore((state) => state.updateLayer);
+  const sceneOptions = useAppStore((state) => {
+    const collection = state.currentCollectionId ? state.collections[state.currentCollectionId] : null;
+    return collection?.sceneIds ?? NO_SCENES;
+  });
+  const scenes = useAppStore((state) => state.scenes);
+  const [, setTick] = useState(0);
+
+  const running = isTimerRunning(layer);
+
+  // Re-render the readout while the timer is counting.
+  useEffect(() => {
+    if (!running && layer.mode !== 'clock') return;
+    const timer = window.setInterval(() => setTick((tick) => tick + 1), 250);
+    return () => window.clearInterval(timer);
+  }, [running, layer.mode]);
+
+  // Run controls are not undoable: undo should not rewind the clock.
+  const applyRunState = (updates: Partial<TimerLayer>) => {
+    updateLayer(layer.id, updates, { recordHistory: false });
+    requestCurrentStreamFrame();
+  };
+
+  const update = (updates: Partial<TimerLayer>, options?: UpdateLayerOptions) => {
+    updateLayer(layer.id, updates, options);
+    requestCurrentStreamFrame();
+  };
+
+  const totalSeconds = Math.round(layer.durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  const setDuration = (nextMinutes: number, nextSeconds: number) => {
+    const clampedMinutes = Math.max(0, Math.min(MAX_DURATION_MINUTES, Math.floor(nextMinutes) || 0));
+    const clampedSeconds = Math.max(0, Math.min(59, Math.floor(nextSeconds) || 0));
+    update(
+      { durationMs: Math.max(1, clampedMinutes * 60 + clampedSeconds) * 1000 },
+      continuousEdit(layer.id, 'durationMs')
+    );
+  };
+
+  return (
+    <div style={styles.container}>
+      <label style={styles.row}>
+        <span>Mode</span>
+        <select
+          value={layer.mode}
+          onChange={(event) => update({ mode: event.target.value as TimerMode, ...resetTimer() })}
+          style={styles.select}
+        >
+          {MODE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {layer.mode === 'clock' ? (
+        <label style={styles.checkboxRow}>
+          <input
+            type="checkbox"
+            checked={layer.showSeconds}
+            onChange={(event) => update({ showSeconds: event.target.checked })}
+          />
+          <span>Show seconds</span>
+        </label>
+      ) : (
+        <>
+          <div style={styles.transportRow}>
+            <button
+              type="button"
+              onClick={() => applyRunState(running ? pauseTimer(layer) : startTimer(layer))}
+              style={styles.button}
+            >
+              {running ? 'Pause' : 'Start'}
+            </button>
+            <button type="button" onClick={() => applyRunState(resetTimer())} style={styles.button}>
+              Reset
+            </button>
+            <span style={styles.readout}>{formatTimerText(layer)}</span>
+          </div>
+          {layer.mode === 'countdown' && (
+            <>
+              <div style={styles.row}>
+                <span>Duration</span>
+                <span style={styles.durationInputs}>
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_DURATION_MINUTES}
+                    value={minutes}
+                    onChange={(event) => setDuration(Number(event.target.value), seconds)}
+                    style={styles.numberInput}
+                    aria-label="Minutes"
+                  />
+                  :
+                  <input
+                    type="number"
+                    min={0}
+                    max={59}
+                    value={seconds}
+                    onChange={(event) => setDuration(minutes, Number(event.target.value))}
+                    style={styles.numberInput}
+                    aria-label="Seconds"
+                  />
+                </span>
+              </div>
+              <label style={styles.row}>
+                <span>At zero</span>
+                <select
+                  value={layer.onZero}
+                  onChange={(event) => update({ onZero: event.target.value as TimerZeroAction })}
+                  style={styles.select}
+                >
+                  {ZERO_ACTION_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {layer.onZero === 'switch-scene' && (
+                <label style={styles.row}>
+                  <span>Go to</span>
+                  <select
+                    value={layer.targetSceneId ?? ''}
+                    onChange={(event) => update({ targetSceneId: event.target.value || null })}
+                    style={styles.select}
+                  >
+                    <option value="">Choose scene…</option>
+                    {sceneOptions.map((sceneId) => (
+                      <option key={sceneId} value={sceneId}>
+                        {scenes[sceneId]?.name ?? 'Untitled Scene'}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    fontSize: '12px',
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '8px',
+  },
+  checkboxRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+  },
+  transportRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  button: {
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.18)',
+    background: 'rgba(255, 255, 255, 0.08)',
+    color: '#f5f5f5',
+    fontSize: '12px',
+    padding: '4px 12px',
+    cursor: 'pointer',
+  },
+  readout: {
+    marginLeft: 'auto',
+    fontVariantNumeric: 'tabular-nums',
+    fontSize: '13px',
+    color: '#f5f5f5',
+  },
+  durationInputs: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+  },
+  numberInput: {
+    width: '52px',
+    background: 'rgba(0, 0, 0, 0.3)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    color: '#f5f5f5',
+    borderRadius: '4px',
+    padding: '4px',
+  },
+  select: {
+    background: 'rgba(0, 0, 0, 0.3)',
+    border: '1px solid rgba(255, 255, 255, 0.12)',
+    color: '#f5f5f5',
+    borderRadius: '4px',
+    padding: '4px',
+    fontSize: '12px',
+  },
+};
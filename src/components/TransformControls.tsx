@@ -1,9 +1,16 @@
 import { useCallback, useEffect, useMemo, useRef, type PointerEvent as ReactPointerEvent } from 'react';
 import type { Layer, Scene } from '../types/scene';
 import type { CanvasLayout } from './PresenterCanvas';
-import { getLayerBaseSize, getLayerBoundingSize, measureTextBlock } from '../utils/layerGeometry';
+import { getLayerBaseSize, getLayerBoundingSize, getLayerFrameSize, measureRichText } from '../utils/layerGeometry';
+import { getVisibleFrame, isFramedLayer, setCropEdge, type CropEdge } from '../utils/layerCrop';
 import { useAppStore } from '../app/store';
 import { requestCurrentStreamFrame } from '../utils/viewerStream';
+import { collectSnapTargets, snapMove, SNAP_THRESHOLD_PX, type SnapBounds, type SnapLines } from '../utils/snapping';
+import { useSnapGuideStore } from '../stores/snapGuideStore';
+import { getLayoutSnapLines } from '../stores/layoutAidsStore';
+import { createId } from '../utils/id';
+import { applyTransformEdit, evaluateLayer } from '../renderer/animation';
+import { useSceneTime } from '../hooks/useSceneTime';
 
 const MIN_SIZE = 40;
 const IMAGE_SCALE_MIN = 0.05;
@@ -17,7 +24,16 @@ type DragState =
       pointerId: number;
       offsetX: number;
       offsetY: number;
-      historySnapshot?: Scene | null;
+      /** Bounding size of the layer, fixed for the whole move */
+      size: { width: number; height: number };
+      sceneSize: { width: number; height: number };
+      snapTargets: SnapBounds[];
+      snapLines: SnapLines;
+      snapThreshold: number;
+      /** Scene time keyframed tracks are keyed at */
+      sceneTime: number;
+      /** Coalesces the whole drag into one undo step */
+      historyKey: string;
       historyApplied?: boolean;
     }
   | {
@@ -27,7 +43,21 @@ type DragState =
       opposite: { x: number; y: number };
       baseSize: { width: number; height: number };
       initialFontSize?: number;
-      historySnapshot?: Scene | null;
+      sceneTime: number;
+      /** Coalesces the whole drag into one undo step */
+      historyKey: string;
+      historyApplied?: boolean;
+    }
+  | {
+      type: 'crop';
+      pointerId: number;
+      edge: CropEdge;
+      /** Scene position of the uncropped frame's top-left corner */
+      frameOrigin: { x: number; y: number };
+      frameSize: { width: number; height: number };
+      sceneTime: number;
+      /** Coalesces the whole drag into one undo step */
+      historyKey: string;
       historyApplied?: boolean;
     };
 
@@ -38,27 +68,33 @@ interface TransformControlsProps {
   onRequestEdit?: () => void;
 }
 
-const cloneSceneForHistory = (source: Scene | null): Scene | null => {
-  if (!source) return null;
-  return JSON.parse(JSON.stringify(source)) as Scene;
+const HISTORY_VERBS: Record<DragState['type'], string> = {
+  move: 'Move',
+  resize: 'Resize',
+  crop: 'Crop',
 };
 
 export function TransformControls({ layout, layer, scene, onRequestEdit }: TransformControlsProps) {
   const updateLayer = useAppStore((state) => state.updateLayer);
   const dragStateRef = useRef<DragState | null>(null);
   const layerRef = useRef(layer);
+  const sceneTime = useSceneTime(scene);
+  // The box follows the layer as drawn, keyframes included.
+  const shownLayer = useMemo(() => evaluateLayer(layer, sceneTime), [layer, sceneTime]);
+  const sceneTimeRef = useRef(sceneTime);
 
   useEffect(() => {
     layerRef.current = layer;
-  }, [layer]);
+    sceneTimeRef.current = sceneTime;
+  }, [layer, sceneTime]);
 
   const baseSize = useMemo(() => getLayerBaseSize(layer, scene), [layer, scene]);
-  const boundingSize = useMemo(() => getLayerBoundingSize(layer, scene), [layer, scene]);
+  const boundingSize = useMemo(() => getLayerBoundingSize(shownLayer, scene), [shownLayer, scene]);
 
   const halfWidth = boundingSize.width / 2;
   const halfHeight = boundingSize.height / 2;
 
-  const centerScene = layer.transform.pos;
+  const centerScene = shownLayer.transform.pos;
   const centerPx = {
     x: layout.x + centerScene.x * layout.scaleX,
     y: layout.y + centerScene.y * layout.scaleY,
@@ -85,6 +121,17 @@ export function TransformControls({ layout, layer, scene, onRequestEdit }: Trans
     { key: 'bottom-left', left: '-8px', top: `calc(100% - 8px)` },
   ];
 
+  // Screen and camera layers get edge handles that crop instead of resize.
+  const cropHandles: Array<{ key: CropEdge; left: string; top: string; width: string; height: string; cursor: string }> =
+    isFramedLayer(layer)
+      ? [
+          { key: 'top', left: '50%', top: '0', width: '28px', height: '8px', cursor: 'ns-resize' },
+          { key: 'right', left: '100%', top: '50%', width: '8px', height: '28px', cursor: 'ew-resize' },
+          { key: 'bottom', left: '50%', top: '100%', width: '28px', height: '8px', cursor: 'ns-resize' },
+          { key: 'left', left: '0', top: '50%', width: '8px', height: '28px', cursor: 'ew-resize' },
+        ]
+      : [];
+
   const computeCenterFromHandle = useCallback(
     (handle: ResizeHandle, opposite: { x: number; y: number }, halfWidth: number, halfHeight: number) => {
       switch (handle) {
@@ -113,12 +160,19 @@ export function TransformControls({ layout, layer, scene, onRequestEdit }: Trans
   const startMove = (event: ReactPointerEvent<HTMLDivElement>) => {
     event.preventDefault();
     const pointerScene = pointerToScene(event.clientX, event.clientY);
+    const shown = evaluateLayer(layerRef.current, sceneTimeRef.current);
     dragStateRef.current = {
       type: 'move',
       pointerId: event.pointerId,
-      offsetX: pointerScene.x - layerRef.current.transform.pos.x,
-      offsetY: pointerScene.y - layerRef.current.transform.pos.y,
-      historySnapshot: cloneSceneForHistory(useAppStore.getState().getCurrentScene()),
+      offsetX: pointerScene.x - shown.transform.pos.x,
+      offsetY: pointerScene.y - shown.transform.pos.y,
+      size: getLayerBoundingSize(shown, scene),
+      sceneSize: { width: scene.width, height: scene.height },
+      snapTargets: collectSnapTargets(scene, [layerRef.current.id]),
+      snapLines: getLayoutSnapLines(),
+      snapThreshold: SNAP_THRESHOLD_PX / layout.scaleX,
+      sceneTime: sceneTimeRef.current,
+      historyKey: createId('drag'),
       historyApplied: false,
     };
     window.addEventListener('pointermove', handlePointerMove, { passive: false });
@@ -131,7 +185,7 @@ export function TransformControls({ layout, layer, scene, onRequestEdit }: Trans
     event.preventDefault();
     event.stopPropagation();
 
-    const currentLayer = layerRef.current;
+    const currentLayer = evaluateLayer(layerRef.current, sceneTimeRef.current);
     const currentCenter = currentLayer.transform.pos;
     const currentBounding = getLayerBoundingSize(currentLayer, scene);
     const halfW = currentBounding.width / 2;
@@ -151,7 +205,38 @@ export function TransformControls({ layout, layer, scene, onRequestEdit }: Trans
       opposite: opposite[handle],
       baseSize,
       initialFontSize: currentLayer.type === 'text' ? currentLayer.fontSize : undefined,
-      historySnapshot: cloneSceneForHistory(useAppStore.getState().getCurrentScene()),
+      sceneTime: sceneTimeRef.current,
+      historyKey: createId('drag'),
+      historyApplied: false,
+    };
+
+    window.addEventListener('pointermove', handlePointerMove, { passive: false });
+    window.addEventListener('pointerup', endDrag);
+    window.addEventListener('pointercancel', endDrag);
+    (event.target as HTMLElement).setPointerCapture(event.pointerId);
+  };
+
+  const startCrop = (event: ReactPointerEvent<HTMLButtonElement>, edge: CropEdge) => {
+    const currentLayer = evaluateLayer(layerRef.current, sceneTimeRef.current);
+    if (!isFramedLayer(currentLayer)) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Pin the uncropped frame in place so only the dragged edge moves.
+    const frameSize = getLayerFrameSize(currentLayer, scene);
+    const visible = getVisibleFrame(currentLayer, frameSize.width, frameSize.height);
+    const { pos, scale } = currentLayer.transform;
+    dragStateRef.current = {
+      type: 'crop',
+      pointerId: event.pointerId,
+      edge,
+      frameOrigin: {
+        x: pos.x - (visible.x + visible.width / 2) * scale.x,
+        y: pos.y - (visible.y + visible.height / 2) * scale.y,
+      },
+      frameSize,
+      sceneTime: sceneTimeRef.current,
+      historyKey: createId('drag'),
       historyApplied: false,
     };
 
@@ -170,21 +255,21 @@ export function TransformControls({ layout, layer, scene, onRequestEdit }: Trans
 
       event.preventDefault();
 
-      const currentLayer = layerRef.current;
+      // Edits start from the layer as drawn; keyed tracks get a key at the drag's scene time.
+      const currentLayer = evaluateLayer(layerRef.current, dragState.sceneTime);
+      const storedTransform = layerRef.current.transform;
+      const withTransform = (transform: Layer['transform']) =>
+        applyTransformEdit(storedTransform, transform, dragState.sceneTime);
       const pointerScene = pointerToScene(event.clientX, event.clientY);
-      const currentDrag = dragStateRef.current;
 
       const historyOptions = () => {
-        if (!currentDrag) return { recordHistory: false, persist: false };
-        if (!currentDrag.historyApplied && currentDrag.historySnapshot) {
-          currentDrag.historyApplied = true;
-          return {
-            recordHistory: false,
-            persist: false,
-            historySnapshot: currentDrag.historySnapshot,
-          } as const;
-        }
-        return { recordHistory: false, persist: false } as const;
+        dragState.historyApplied = true;
+        return {
+          persist: false,
+          historyLabel: `${HISTORY_VERBS[dragState.type]} ${currentLayer.name || 'layer'}`,
+          coalesceKey: dragState.historyKey,
+          gesture: true,
+        };
       };
 
       if (dragState.type === 'move') {
@@ -192,11 +277,57 @@ export function TransformControls({ layout, layer, scene, onRequestEdit }: Trans
           x: pointerScene.x - dragState.offsetX,
           y: pointerScene.y - dragState.offsetY,
         };
+        // Hold Ctrl/Cmd to move freely.
+        if (event.ctrlKey || event.metaKey) {
+          useSnapGuideStore.getState().clearGuides();
+        } else {
+          const { width, height } = dragState.size;
+          const snap = snapMove(
+            {
+              minX: newPos.x - width / 2,
+              maxX: newPos.x + width / 2,
+              minY: newPos.y - height / 2,
+              maxY: newPos.y + height / 2,
+            },
+            dragState.snapTargets,
+            dragState.sceneSize,
+            dragState.snapThreshold,
+            dragState.snapLines
+          );
+          newPos.x += snap.dx;
+          newPos.y += snap.dy;
+          useSnapGuideStore.getState().setGuides(snap.guides);
+        }
         updateLayer(currentLayer.id, {
-          transform: {
+          transform: withTransform({
             ...currentLayer.transform,
             pos: newPos,
-          },
+          }),
+        }, historyOptions());
+        requestCurrentStreamFrame();
+        return;
+      }
+
+      if (dragState.type === 'crop') {
+        if (!isFramedLayer(currentLayer)) return;
+        const { edge, frameOrigin, frameSize } = dragState;
+        const { scale } = currentLayer.transform;
+        // Pointer position as a fraction of the uncropped frame.
+        const frameX = (pointerScene.x - frameOrigin.x) / (frameSize.width * (scale.x || 1));
+        const frameY = (pointerScene.y - frameOrigin.y) / (frameSize.height * (scale.y || 1));
+        const edgeValue =
+          edge === 'left' ? frameX : edge === 'right' ? 1 - frameX : edge === 'top' ? frameY : 1 - frameY;
+        const crop = setCropEdge(currentLayer.crop, edge, edgeValue);
+        const visible = getVisibleFrame({ ...currentLayer, crop }, frameSize.width, frameSize.height);
+        updateLayer(currentLayer.id, {
+          crop,
+          transform: withTransform({
+            ...currentLayer.transform,
+            pos: {
+              x: frameOrigin.x + (visible.x + visible.width / 2) * scale.x,
+              y: frameOrigin.y + (visible.y + visible.height / 2) * scale.y,
+            },
+          }),
         }, historyOptions());
         requestCurrentStreamFrame();
         return;
@@ -222,12 +353,7 @@ export function TransformControls({ layout, layer, scene, onRequestEdit }: Trans
         const uniformScale = Math.max(0.1, Math.min(widthScale, heightScale));
         const initialFontSize = dragState.initialFontSize ?? currentLayer.fontSize;
         const nextFontSize = Math.max(10, Math.min(initialFontSize * uniformScale, 512));
-        const metrics = measureTextBlock(
-          currentLayer.content,
-          nextFontSize,
-          currentLayer.font,
-          currentLayer.padding
-        );
+        const metrics = measureRichText({ ...currentLayer, fontSize: nextFontSize });
         const measuredWidth = Math.max(MIN_SIZE, metrics.width);
         const measuredHeight = Math.max(MIN_SIZE, metrics.height);
 
@@ -263,17 +389,17 @@ export function TransformControls({ layout, layer, scene, onRequestEdit }: Trans
 
         updateLayer(currentLayer.id, {
           fontSize: nextFontSize,
-          transform: {
+          transform: withTransform({
             ...currentLayer.transform,
             pos: derivedCenter,
             scale: { x: 1, y: 1 },
-          },
+          }),
         }, historyOptions());
         requestCurrentStreamFrame();
         return;
       }
 
-      if (currentLayer.type === 'image') {
+      if (currentLayer.type === 'image' || currentLayer.type === 'video') {
         const locked = currentLayer.scaleLocked ?? true;
         const minScaleX = Math.max(MIN_SIZE / baseSize.width, IMAGE_SCALE_MIN);
         const minScaleY = Math.max(MIN_SIZE / baseSize.height, IMAGE_SCALE_MIN);
@@ -302,14 +428,14 @@ export function TransformControls({ layout, layer, scene, onRequestEdit }: Trans
       const newCenter = computeCenterFromHandle(dragState.handle, opposite, scaledHalfWidth, scaledHalfHeight);
 
       updateLayer(currentLayer.id, {
-        transform: {
+        transform: withTransform({
           ...currentLayer.transform,
           pos: newCenter,
           scale: {
             x: newScaleX,
             y: newScaleY,
           },
-        },
+        }),
       }, historyOptions());
       requestCurrentStreamFrame();
     },
@@ -323,6 +449,7 @@ export function TransformControls({ layout, layer, scene, onRequestEdit }: Trans
       window.removeEventListener('pointermove', handlePointerMove);
       window.removeEventListener('pointerup', endDrag);
       window.removeEventListener('pointercancel', endDrag);
+      useSnapGuideStore.getState().clearGuides();
       if (dragState.historyApplied) {
         void useAppStore.getState().saveScene();
       }
@@ -368,6 +495,28 @@ export function TransformControls({ layout, layer, scene, onRequestEdit }: Trans
           aria-label={`Resize ${handle.key}`}
         />
       ))}
+      {cropHandles.map((handle) => (
+        <button
+          key={handle.key}
+          onPointerDown={(event) => startCrop(event, handle.key)}
+          style={{
+            position: 'absolute',
+            left: handle.left,
+            top: handle.top,
+            width: handle.width,
+            height: handle.height,
+            borderRadius: '3px',
+            border: '1px solid rgba(255, 255, 255, 0.75)',
+            background: 'rgba(245, 158, 11, 0.95)',
+            cursor: handle.cursor,
+            pointerEvents: 'auto',
+            transform: 'translate(-50%, -50%)',
+            padding: 0,
+          }}
+          aria-label={`Crop ${handle.key}`}
+          title="Drag to crop"
+        />
+      ))}
     </div>
   );
 }
@@ -0,0 +1,181 @@
+import { useEffect, useState, type CSSProperties } from 'react';
+import type { VideoLayer } from '../types/scene';
+import { continuousEdit, useAppStore } from '../app/store';
+import { requestCurrentStreamFrame } from '../utils/viewerStream';
+import {
+  getVideoFileElement,
+  seekVideoFile,
+  subscribeVideoFiles,
+  toggleVideoFilePlayback,
+} from '../media/videoFiles';
+
+interface VideoPlaybackSectionProps {
+  layer: VideoLayer;
+}
+
+interface PlaybackSnapshot {
+  ready: boolean;
+  playing: boolean;
+  currentTime: number;
+  duration: number;
+}
+
+function readPlayback(layerId: string): PlaybackSnapshot {
+  const video = getVideoFileElement(layerId);
+  if (!video) {
+    return { ready: false, playing: false, currentTime: 0, duration: 0 };
+  }
+  return {
+    ready: video.readyState >= HTMLMediaElement.HAVE_METADATA,
+    playing: !video.paused && !video.ended,
+    currentTime: video.currentTime,
+    duration: Number.isFinite(video.duration) ? video.duration : 0,
+  };
+}
+
+/**
+ * Play/pause, seek, loop, mute and stream-audio controls for a video layer.
+ */
+export function VideoPlaybackSection({ layer }: VideoPlaybackSectionProps) {
+  const updateLayer = useAppStore((state) => state.updateLayer);
+  const [playback, setPlayback] = useState<PlaybackSnapshot>(() => readPlayback(layer.id));
+
+  useEffect(() => {
+    setPlayback(readPlayback(layer.id));
+    return subscribeVideoFiles(() => setPlayback(readPlayback(layer.id)));
+  }, [layer.id]);
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.transportRow}>
+        <button
+          type="button"
+          disabled={!playback.ready}
+          onClick={() => {
+            toggleVideoFilePlayback(layer.id);
+            requestCurrentStreamFrame();
+          }}
+          style={{ ...styles.playButton, opacity: playback.ready ? 1 : 0.4 }}
+          title="Play / pause (K)"
+        >
+          {playback.playing ? '⏸' : '▶'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(playback.duration, 0.01)}
+          step={0.1}
+          value={Math.min(playback.currentTime, playback.duration)}
+          disabled={!playback.ready}
+          onChange={(event) => {
+            seekVideoFile(layer.id, Number(event.target.value));
+            requestCurrentStreamFrame();
+          }}
+          style={styles.seek}
+          aria-label="Seek"
+        />
+        <span style={styles.timeText}>
+          {formatClock(playback.currentTime)} / {formatClock(playback.duration)}
+        </span>
+      </div>
+      <label style={styles.checkboxRow}>
+        <input
+          type="checkbox"
+          checked={layer.loop}
+          onChange={(event) => updateLayer(layer.id, { loop: event.target.checked })}
+        />
+        <span>Loop</span>
+      </label>
+      <label style={styles.checkboxRow}>
+        <input
+          type="checkbox"
+          checked={layer.muted}
+          onChange={(event) => updateLayer(layer.id, { muted: event.target.checked })}
+        />
+        <span>Mute (M)</span>
+      </label>
+      <label style={styles.checkboxRow}>
+        <input
+          type="checkbox"
+          checked={layer.sendAudio ?? true}
+          onChange={(event) => updateLayer(layer.id, { sendAudio: event.target.checked })}
+        />
+        <span>Send audio to stream</span>
+      </label>
+      <label style={styles.row}>
+        <span>Volume</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={layer.volume ?? 1}
+          disabled={layer.muted}
+          onChange={(event) =>
+            updateLayer(layer.id, { volume: Number(event.target.value) }, continuousEdit(layer.id, 'volume'))
+          }
+          style={styles.volume}
+        />
+      </label>
+      {!playback.ready && <div style={styles.hint}>Loading video…</div>}
+    </div>
+  );
+}
+
+function formatClock(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${(total % 60).toString().padStart(2, '0')}`;
+}
+
+const styles: Record<string, CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    fontSize: '12px',
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  transportRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  playButton: {
+    width: '30px',
+    height: '26px',
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.18)',
+    background: 'rgba(255, 255, 255, 0.08)',
+    color: '#f5f5f5',
+    fontSize: '12px',
+    cursor: 'pointer',
+    padding: 0,
+  },
+  seek: {
+    flex: 1,
+  },
+  timeText: {
+    fontVariantNumeric: 'tabular-nums',
+    fontSize: '11px',
+    color: 'rgba(255, 255, 255, 0.65)',
+  },
+  checkboxRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '8px',
+  },
+  volume: {
+    flex: 1,
+  },
+  hint: {
+    fontSize: '11px',
+    color: 'rgba(255, 255, 255, 0.45)',
+  },
+};
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useRef, useState, type PointerEvent as ReactPointerEvent, type WheelEvent as ReactWheelEvent } from 'react';
+import type { CanvasLayout } from './PresenterCanvas';
+import type { Scene } from '../types/scene';
+import { adjustSpotlightRadius, setSpotlight, setZoomRegion, viewToScene } from '../renderer/viewport';
+
+export type ViewportTool = 'zoom' | 'spotlight';
+
+interface ViewportToolOverlayProps {
+  layout: CanvasLayout;
+  scene: Scene;
+  tool: ViewportTool;
+  /** Whether the canvas under the overlay shows the program zoom */
+  viewportApplied: boolean;
+}
+
+interface DragState {
+  pointerId: number;
+  startClientX: number;
+  startClientY: number;
+}
+
+interface DragRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** Drags shorter than this (screen px) count as a click, which zooms out */
+const CLICK_THRESHOLD_PX = 6;
+const SPOTLIGHT_WHEEL_FACTOR = 0.5;
+
+/**
+ * Pointer capture surface for the zoom and spotlight tools. Zoom: drag a
+ * rectangle to zoom the program to it, click to zoom back out. Spotlight: the
+ * lit circle follows the cursor and the wheel resizes it.
+ */
+export function ViewportToolOverlay({ layout, scene, tool, viewportApplied }: ViewportToolOverlayProps) {
+  const dragRef = useRef<DragState | null>(null);
+  const [dragRect, setDragRect] = useState<DragRect | null>(null);
+
+  // The spotlight only shows while its tool is on.
+  useEffect(() => {
+    if (tool !== 'spotlight') return;
+    return () => setSpotlight(null);
+  }, [tool]);
+
+  const toScene = useCallback(
+    (clientX: number, clientY: number) => {
+      const x = (clientX - layout.x) / layout.scaleX;
+      const y = (clientY - layout.y) / layout.scaleY;
+      return viewportApplied ? viewToScene(scene, x, y) : { x, y };
+    },
+    [layout, scene, viewportApplied]
+  );
+
+  const handlePointerDown = useCallback(
+    (event: ReactPointerEvent<HTMLDivElement>) => {
+      if (event.button !== 0) return;
+      event.preventDefault();
+      if (tool === 'spotlight') {
+        setSpotlight(toScene(event.clientX, event.clientY));
+        return;
+      }
+      event.currentTarget.setPointerCapture(event.pointerId);
+      dragRef.current = {
+        pointerId: event.pointerId,
+        startClientX: event.clientX,
+        startClientY: event.clientY,
+      };
+      setDragRect({ left: event.clientX, top: event.clientY, width: 0, height: 0 });
+    },
+    [tool, toScene]
+  );
+
+  const handlePointerMove = useCallback(
+    (event: ReactPointerEvent<HTMLDivElement>) => {
+      if (tool === 'spotlight') {
+        setSpotlight(toScene(event.clientX, event.clientY));
+        return;
+      }
+      const drag = dragRef.current;
+      if (!drag || drag.pointerId !== event.pointerId) return;
+      setDragRect({
+        left: Math.min(drag.startClientX, event.clientX),
+        top: Math.min(drag.startClientY, event.clientY),
+        width: Math.abs(event.clientX - drag.startClientX),
+        height: Math.abs(event.clientY - drag.startClientY),
+      });
+    },
+    [tool, toScene]
+  );
+
+  const finishDrag = useCallback(
+    (event: ReactPointerEvent<HTMLDivElement>) => {
+      const drag = dragRef.current;
+      if (!drag || drag.pointerId !== event.pointerId) return;
+      dragRef.current = null;
+      setDragRect(null);
+      if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+        event.currentTarget.releasePointerCapture(event.pointerId);
+      }
+      if (event.type === 'pointercancel') return;
+
+      const isClick =
+        Math.abs(event.clientX - drag.startClientX) < CLICK_THRESHOLD_PX &&
+        Math.abs(event.clientY - drag.startClientY) < CLICK_THRESHOLD_PX;
+      if (isClick) {
+        setZoomRegion(scene, null);
+        return;
+      }
+      const start = toScene(drag.startClientX, drag.startClientY);
+      const end = toScene(event.clientX, event.clientY);
+      setZoomRegion(scene, {
+        x: Math.min(start.x, end.x),
+        y: Math.min(start.y, end.y),
+        width: Math.abs(end.x - start.x),
+        height: Math.abs(end.y - start.y),
+      });
+    },
+    [scene, toScene]
+  );
+
+  const handleWheel = useCallback(
+    (event: ReactWheelEvent<HTMLDivElement>) => {
+      if (tool !== 'spotlight') return;
+      adjustSpotlightRadius(-event.deltaY * SPOTLIGHT_WHEEL_FACTOR);
+    },
+    [tool]
+  );
+
+  return (
+    <>
+      <div
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={finishDrag}
+        onPointerCancel={finishDrag}
+        onWheel={handleWheel}
+        style={{
+          position: 'fixed',
+          left: layout.x,
+          top: layout.y,
+          width: layout.width,
+          height: layout.height,
+          pointerEvents: 'auto',
+          cursor: tool === 'zoom' ? 'zoom-in' : 'crosshair',
+          touchAction: 'none',
+          zIndex: 13,
+        }}
+      />
+      {dragRect && (
+        <div
+          style={{
+            position: 'fixed',
+            left: dragRect.left,
+            top: dragRect.top,
+            width: dragRect.width,
+            height: dragRect.height,
+            border: '1px dashed rgba(56, 189, 248, 0.9)',
+            background: 'rgba(56, 189, 248, 0.12)',
+            pointerEvents: 'none',
+            zIndex: 13,
+          }}
+        />
+      )}
+    </>
+  );
+}
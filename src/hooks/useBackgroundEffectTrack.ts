@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState } from "react";
 import { useVideoEffectsStore } from "../stores/videoEffects";
 import { MediaPipeSegmenter } from "../adapters/mediapipe";
+import { recordEffectFrame } from "../media/perfMonitor";
 
 function log(...args: any[]) {
   console.log("%c[Effects]", "color:#0ff", ...args);
@@ -223,6 +224,8 @@ export function useBackgroundEffectTrack(rawTrack: MediaStreamTrack | null) {
         return;
       }
 
+      const frameStartedAt = performance.now();
+
       // Resize canvases as needed
       if (oc.width !== vw || oc.height !== vh) { oc.width = vw; oc.height = vh; }
       if (bc && (bc.width !== vw || bc.height !== vh)) { bc.width = vw; bc.height = vh; }
@@ -447,6 +450,7 @@ export function useBackgroundEffectTrack(rawTrack: MediaStreamTrack | null) {
       octx.strokeRect(0, 0, oc.width, oc.height);
       octx.restore();
 
+      recordEffectFrame(performance.now() - frameStartedAt);
       loopRef.current = requestAnimationFrame(draw);
     };
 
@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+import { getRecordingSnapshot, subscribeRecording, type RecordingSnapshot } from "../media/recorder";
+
+const TICK_MS = 250;
+
+/**
+ * Recording status plus an elapsed time that ticks while recording.
+ */
+export function useRecording(): RecordingSnapshot {
+  const [snapshot, setSnapshot] = useState<RecordingSnapshot>(getRecordingSnapshot);
+
+  useEffect(() => subscribeRecording(() => setSnapshot(getRecordingSnapshot())), []);
+
+  useEffect(() => {
+    if (snapshot.status !== "recording") return;
+    const timer = window.setInterval(() => setSnapshot(getRecordingSnapshot()), TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [snapshot.status]);
+
+  return snapshot;
+}
@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react";
+import { getSceneTime, sceneHasAnimation, subscribeSceneClocks } from "../renderer/animation";
+import type { Scene } from "../types/scene";
+
+/**
+ * The scene's animation clock, for editor overlays that sit on keyframed
+ * layers. Refreshes every frame while the scene has keys; without keys the
+ * time never affects a layer, so it is left alone.
+ */
+export function useSceneTime(scene: Scene | null | undefined): number {
+  const sceneId = scene?.id;
+  const animated = sceneHasAnimation(scene ?? null);
+  const [time, setTime] = useState(() => getSceneTime(sceneId));
+
+  useEffect(() => {
+    if (!animated) return;
+    let rafId = 0;
+    const tick = () => {
+      setTime(getSceneTime(sceneId));
+      rafId = requestAnimationFrame(tick);
+    };
+    rafId = requestAnimationFrame(tick);
+    const unsubscribe = subscribeSceneClocks(() => setTime(getSceneTime(sceneId)));
+    return () => {
+      cancelAnimationFrame(rafId);
+      unsubscribe();
+    };
+  }, [animated, sceneId]);
+
+  return time;
+}
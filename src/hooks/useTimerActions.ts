@@ -0,0 +1,73 @@
+import { useEffect } from "react";
+import { useAppStore } from "../app/store";
+import { playChime } from "../media/programAudio";
+import { getTimerElapsedMs, isTimerExpired } from "../renderer/timer";
+import type { TimerLayer } from "../types/scene";
+import { requestCurrentStreamFrame } from "../utils/viewerStream";
+
+const POLL_MS = 250;
+/** Countdowns that ran out longer ago than this (e.g. while the tab was closed) do not fire */
+const ACTION_GRACE_MS = 5000;
+
+/**
+ * Fire countdown on-zero actions (chime, scene switch) for every loaded scene,
+ * so timers keep working while their scene is off screen. Flashing is
+ * handled by the renderer.
+ */
+export function useTimerActions(): void {
+  useEffect(() => {
+    // One entry per run: a timer is re-armed when it is reset or restarted.
+    const fired = new Set<string>();
+
+    const check = () => {
+      const state = useAppStore.getState();
+      const now = Date.now();
+      const timers = new Map<string, TimerLayer>();
+      for (const scene of Object.values(state.scenes)) {
+        for (const layer of scene.layers) {
+          if (layer.type === "timer") timers.set(layer.id, layer);
+        }
+      }
+
+      for (const layer of timers.values()) {
+        if (!isTimerExpired(layer, now)) continue;
+        const runKey = `${layer.id}:${layer.startedAt}:${layer.durationMs}`;
+        if (fired.has(runKey)) continue;
+        fired.add(runKey);
+        if (getTimerElapsedMs(layer, now) - layer.durationMs > ACTION_GRACE_MS) continue;
+        runZeroAction(layer);
+      }
+    };
+
+    const timer = window.setInterval(check, POLL_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+}
+
+function runZeroAction(layer: TimerLayer): void {
+  switch (layer.onZero) {
+    case "chime":
+      playChime();
+      break;
+    case "switch-scene": {
+      const state = useAppStore.getState();
+      const targetId = layer.targetSceneId;
+      if (!targetId || !state.scenes[targetId]) {
+        console.warn("Timer: switch target scene not found", targetId);
+        return;
+      }
+      if (state.studioMode) {
+        // Students watch Program: stage the target and take it live.
+        if (state.programSceneId === targetId) return;
+        state.switchScene(targetId);
+        state.takePreview();
+      } else {
+        state.switchScene(targetId);
+      }
+      requestCurrentStreamFrame();
+      break;
+    }
+    default:
+      break;
+  }
+}
@@ -3,9 +3,15 @@ import type {
   ScreenLayer,
   TextLayer,
   ImageLayer,
+  VideoLayer,
   ShapeLayer,
+  ShapeType,
+  AnnotationLayer,
+  TimerLayer,
   Transform,
 } from '../types/scene';
+import { createDefaultFraming } from '../utils/layerCrop';
+import { LINE_SHAPE_HEIGHT } from '../utils/shapeGeometry';
 
 function createBaseTransform(
   x: number,
@@ -33,6 +39,7 @@ export function createScreenLayer(
     z: 0,
     transform: createBaseTransform(sceneWidth / 2, sceneHeight / 2),
     streamId: id,
+    ...createDefaultFraming(),
   };
 }
 
@@ -50,6 +57,7 @@ export function createCameraLayer(
     z: 0,
     transform: createBaseTransform(sceneWidth / 2, sceneHeight / 2),
     streamId: id,
+    ...createDefaultFraming(),
   };
 }
 
@@ -75,6 +83,9 @@ export function createTextLayer(
     borderRadius: 16,
     padding: 24,
     shadow: '0px 8px 24px rgba(0, 0, 0, 0.45)',
+    letterSpacing: 0,
+    lineSpacing: 1,
+    fontAssetId: null,
     autoSize: true,
   };
 }
@@ -82,6 +93,7 @@ export function createTextLayer(
 interface ImageLayerOptions {
   width: number;
   height: number;
+  assetId?: string;
   dataUri?: string;
 }
 
@@ -91,7 +103,7 @@ export function createImageLayer(
   sceneHeight: number,
   options: ImageLayerOptions
 ): ImageLayer {
-  const { width, height, dataUri } = options;
+  const { width, height, assetId, dataUri } = options;
   return {
     id,
     type: 'image',
@@ -100,7 +112,7 @@ export function createImageLayer(
     locked: false,
     z: 0,
     transform: createBaseTransform(sceneWidth / 2, sceneHeight / 2),
-    assetId: dataUri ? 'embedded' : 'placeholder',
+    assetId: assetId ?? (dataUri ? 'embedded' : 'placeholder'),
     width,
     height,
     dataUri,
@@ -108,25 +120,157 @@ export function createImageLayer(
   };
 }
 
+interface VideoLayerOptions {
+  assetId: string;
+  width: number;
+  height: number;
+  fileName?: string;
+}
+
+export function createVideoLayer(
+  id: string,
+  sceneWidth: number,
+  sceneHeight: number,
+  options: VideoLayerOptions
+): VideoLayer {
+  const { assetId, width, height, fileName } = options;
+  return {
+    id,
+    type: 'video',
+    name: 'Video',
+    visible: true,
+    locked: false,
+    z: 0,
+    transform: createBaseTransform(sceneWidth / 2, sceneHeight / 2),
+    assetId,
+    fileName,
+    width,
+    height,
+    loop: false,
+    muted: false,
+    volume: 1,
+    sendAudio: true,
+    scaleLocked: true,
+  };
+}
+
+const SHAPE_NAMES: Record<ShapeType, string> = {
+  rect: 'Rectangle',
+  'rounded-rect': 'Rounded Rectangle',
+  ellipse: 'Ellipse',
+  line: 'Line',
+  arrow: 'Arrow',
+  polygon: 'Polygon',
+  star: 'Star',
+  callout: 'Callout',
+};
+
 export function createShapeLayer(
   id: string,
   sceneWidth: number,
-  sceneHeight: number
+  sceneHeight: number,
+  shapeType: ShapeType = 'rect'
 ): ShapeLayer {
-  return {
+  const base: ShapeLayer = {
     id,
     type: 'shape',
-    name: 'Rectangle',
+    name: SHAPE_NAMES[shapeType],
     visible: true,
     locked: false,
     z: 0,
     transform: createBaseTransform(sceneWidth / 2, sceneHeight / 2),
-    shapeType: 'rect',
+    shapeType,
     width: 640,
     height: 360,
     fillColor: 'rgba(0, 0, 0, 0.4)',
     strokeColor: 'rgba(255, 255, 255, 0.45)',
     strokeWidth: 4,
+    strokeDash: 'solid',
     scaleLocked: true,
   };
+
+  switch (shapeType) {
+    case 'line':
+    case 'arrow':
+      return {
+        ...base,
+        width: 480,
+        height: LINE_SHAPE_HEIGHT,
+        fillColor: 'rgba(0, 0, 0, 0)',
+        strokeColor: '#ff3b30',
+        strokeWidth: 8,
+        arrowStart: 'none',
+        arrowEnd: shapeType === 'arrow' ? 'triangle' : 'none',
+      };
+    case 'ellipse':
+      // Outline only, for circling things on a shared screen.
+      return { ...base, width: 480, height: 320, fillColor: 'rgba(0, 0, 0, 0)', strokeColor: '#ff3b30', strokeWidth: 6 };
+    case 'polygon':
+    case 'star':
+      return { ...base, width: 360, height: 360, sides: shapeType === 'star' ? 5 : 6, innerRadius: 0.45 };
+    case 'rounded-rect':
+      return { ...base, cornerRadius: 32 };
+    case 'callout':
+      return {
+        ...base,
+        width: 560,
+        height: 300,
+        fillColor: 'rgba(255, 255, 255, 0.92)',
+        strokeColor: 'rgba(0, 0, 0, 0.6)',
+        cornerRadius: 32,
+        tailPosition: 0.25,
+      };
+    default:
+      return base;
+  }
+}
+
+export function createAnnotationLayer(
+  id: string,
+  sceneWidth: number,
+  sceneHeight: number
+): AnnotationLayer {
+  return {
+    id,
+    type: 'annotation',
+    name: 'Annotations',
+    visible: true,
+    locked: false,
+    z: 0,
+    transform: createBaseTransform(sceneWidth / 2, sceneHeight / 2),
+    width: sceneWidth,
+    height: sceneHeight,
+    strokes: [],
+  };
+}
+
+export function createTimerLayer(
+  id: string,
+  sceneWidth: number,
+  sceneHeight: number
+): TimerLayer {
+  return {
+    id,
+    type: 'timer',
+    name: 'Timer',
+    visible: true,
+    locked: false,
+    z: 0,
+    transform: createBaseTransform(sceneWidth - 200, sceneHeight / 8),
+    font: 'Inter, system-ui, sans-serif',
+    fontSize: 72,
+    textAlign: 'center',
+    textColor: '#ffffff',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 16,
+    padding: 24,
+    shadow: '0px 8px 24px rgba(0, 0, 0, 0.45)',
+    mode: 'countdown',
+    durationMs: 5 * 60 * 1000,
+    elapsedMs: 0,
+    startedAt: null,
+    showSeconds: false,
+    onZero: 'chime',
+    targetSceneId: null,
+  };
 }
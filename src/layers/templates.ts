@@ -0,0 +1,243 @@
+import type { GroupLayer, Layer, Scene, TextLayer } from '../types/scene';
+import type { LayerTemplate, TemplatePlaceholder } from '../types/template';
+import { rescaleTransform } from '../app/outputProfiles';
+import { CURRENT_SCENE_SCHEMA_VERSION } from '../app/sceneSchema';
+import { createId } from '../utils/id';
+import { applyContentEdit, getTextLines, hasRichFormatting } from '../utils/richText';
+import { createShapeLayer, createTextLayer } from './factory';
+
+/**
+ * `{{Label}}` or `{{Label|default value}}` inside text content.
+ */
+const PLACEHOLDER_PATTERN = /\{\{([^{}|]+)(?:\|([^{}]*))?\}\}/g;
+
+const TEMPLATE_SCENE_WIDTH = 1920;
+const TEMPLATE_SCENE_HEIGHT = 1080;
+
+export function getTemplatePlaceholders(template: Pick<LayerTemplate, 'layers'>): TemplatePlaceholder[] {
+  const placeholders = new Map<string, TemplatePlaceholder>();
+  for (const layer of template.layers) {
+    if (layer.type !== 'text') continue;
+    for (const match of layer.content.matchAll(PLACEHOLDER_PATTERN)) {
+      const label = match[1].trim();
+      if (!label || placeholders.has(label)) continue;
+      placeholders.set(label, { label, defaultValue: match[2] ?? '' });
+    }
+  }
+  return Array.from(placeholders.values());
+}
+
+/**
+ * Replace placeholders with the given values; missing values use the
+ * placeholder's default.
+ */
+export function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_match, label: string, fallback: string | undefined) => {
+    return values[label.trim()] ?? fallback ?? '';
+  });
+}
+
+/**
+ * Set a text layer's content, keeping inline formatting on the text that did
+ * not change.
+ */
+function withContent(layer: TextLayer, content: string): TextLayer {
+  if (content === layer.content) return layer;
+  const lines = applyContentEdit(getTextLines(layer), content);
+  const next: TextLayer = { ...layer, content };
+  if (hasRichFormatting(lines)) {
+    next.lines = lines;
+  } else {
+    delete next.lines;
+  }
+  return next;
+}
+
+/**
+ * The selected layers plus every descendant of selected groups, in scene
+ * order.
+ */
+export function collectTemplateLayers(scene: Scene, layerIds: string[]): Layer[] {
+  const byId = new Map(scene.layers.map((layer) => [layer.id, layer]));
+  const included = new Set<string>();
+  const visit = (id: string) => {
+    const layer = byId.get(id);
+    if (!layer || included.has(id)) return;
+    included.add(id);
+    if (layer.type === 'group') layer.children.forEach(visit);
+  };
+  layerIds.forEach(visit);
+  return scene.layers.filter((layer) => included.has(layer.id));
+}
+
+export interface CreateTemplateOptions {
+  /** Turn each text layer's content into a placeholder named after the layer */
+  textPlaceholders?: boolean;
+}
+
+/**
+ * Save layers (and the children of any groups among them) as a template.
+ * Returns null when nothing is selected.
+ */
+export function createTemplate(
+  name: string,
+  scene: Scene,
+  layerIds: string[],
+  options: CreateTemplateOptions = {}
+): LayerTemplate | null {
+  const layers = collectTemplateLayers(scene, layerIds);
+  if (layers.length === 0) return null;
+  const includedIds = new Set(layers.map((layer) => layer.id));
+
+  const copies = layers.map((source) => {
+    let layer: Layer = JSON.parse(JSON.stringify(source));
+    if (layer.parentId && !includedIds.has(layer.parentId)) layer.parentId = null;
+    // Text that already uses braces cannot be wrapped without confusing the parser.
+    if (options.textPlaceholders && layer.type === 'text' && layer.content && !/[{}|]/.test(layer.content)) {
+      const label = (layer.name || 'Text').replace(/[{}|]/g, '').trim() || 'Text';
+      layer = withContent(layer, `{{${label}|${layer.content}}}`);
+    }
+    return layer;
+  });
+
+  return {
+    id: createId('template'),
+    name: name.trim() || 'Untitled Template',
+    width: scene.width,
+    height: scene.height,
+    layers: copies,
+    schemaVersion: CURRENT_SCENE_SCHEMA_VERSION,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Copies of a template's layers for `scene`: fresh IDs, placeholders filled
+ * in, and transforms (keyframes included) rescaled when the scene size
+ * differs from the template's. Layers come back in draw order, ready for
+ * `addLayers`.
+ */
+export function instantiateTemplate(
+  template: LayerTemplate,
+  scene: Pick<Scene, 'width' | 'height'>,
+  values: Record<string, string> = {}
+): Layer[] {
+  const layerIds = new Map<string, string>();
+  template.layers.forEach((layer) => layerIds.set(layer.id, createId('layer')));
+  const mapId = (id: string) => layerIds.get(id) ?? id;
+
+  return template.layers.map((source) => {
+    let layer: Layer = JSON.parse(JSON.stringify(source));
+    layer.id = mapId(source.id);
+    layer.parentId = source.parentId ? mapId(source.parentId) : null;
+    if (layer.type === 'group') {
+      const group: GroupLayer = layer;
+      group.children = group.children.map(mapId);
+      if (group.childVisibility) {
+        group.childVisibility = Object.fromEntries(
+          Object.entries(group.childVisibility).map(([id, visible]) => [mapId(id), visible])
+        );
+      }
+    }
+    if (layer.type === 'text') {
+      layer = withContent(layer, fillPlaceholders(layer.content, values));
+    }
+    layer.transform = rescaleTransform(layer.transform, template, scene);
+    return layer;
+  });
+}
+
+function builtInTemplate(id: string, name: string, layers: Layer[]): LayerTemplate {
+  return {
+    id,
+    name,
+    width: TEMPLATE_SCENE_WIDTH,
+    height: TEMPLATE_SCENE_HEIGHT,
+    layers,
+    schemaVersion: CURRENT_SCENE_SCHEMA_VERSION,
+    builtIn: true,
+    updatedAt: 0,
+  };
+}
+
+function createBuiltInTemplates(): LayerTemplate[] {
+  const width = TEMPLATE_SCENE_WIDTH;
+  const height = TEMPLATE_SCENE_HEIGHT;
+
+  const pill: TextLayer = {
+    ...createTextLayer('pill-text', width, height),
+    name: 'Text Pill',
+    content: '{{Text|Today: Loops}}',
+    fontSize: 44,
+    padding: 24,
+    borderRadius: 999,
+    transform: { pos: { x: width / 2, y: 120 }, scale: { x: 1, y: 1 }, rot: 0, opacity: 1 },
+  };
+
+  const lowerThirdBar = {
+    ...createShapeLayer('lower-third-bar', width, height, 'rounded-rect'),
+    name: 'Lower Third Bar',
+    width: 760,
+    height: 150,
+    cornerRadius: 20,
+    fillColor: 'rgba(15, 23, 42, 0.85)',
+    strokeColor: 'rgba(56, 189, 248, 0.9)',
+    strokeWidth: 4,
+    transform: { pos: { x: 480, y: 930 }, scale: { x: 1, y: 1 }, rot: 0, opacity: 1 },
+  };
+  const lowerThirdName: TextLayer = {
+    ...createTextLayer('lower-third-name', width, height),
+    name: 'Name',
+    content: '{{Name|Ms. Rivera}}',
+    fontSize: 48,
+    backgroundColor: 'rgba(0, 0, 0, 0)',
+    transform: { pos: { x: 480, y: 900 }, scale: { x: 1, y: 1 }, rot: 0, opacity: 1 },
+  };
+  const lowerThirdTitle: TextLayer = {
+    ...createTextLayer('lower-third-title', width, height),
+    name: 'Title',
+    content: '{{Title|Computer Science · Room 204}}',
+    fontSize: 30,
+    textColor: 'rgba(186, 230, 253, 1)',
+    backgroundColor: 'rgba(0, 0, 0, 0)',
+    transform: { pos: { x: 480, y: 962 }, scale: { x: 1, y: 1 }, rot: 0, opacity: 1 },
+  };
+  const breakCard = {
+    ...createShapeLayer('break-card', width, height, 'rounded-rect'),
+    name: 'Break Card',
+    width: 1100,
+    height: 420,
+    cornerRadius: 36,
+    fillColor: 'rgba(17, 24, 39, 0.92)',
+    strokeColor: 'rgba(255, 255, 255, 0.25)',
+    strokeWidth: 4,
+  };
+  const breakText: TextLayer = {
+    ...createTextLayer('break-text', width, height),
+    name: 'Break Message',
+    content: 'Back in {{Minutes|5}} minutes',
+    fontSize: 84,
+    backgroundColor: 'rgba(0, 0, 0, 0)',
+    transform: { pos: { x: width / 2, y: height / 2 - 40 }, scale: { x: 1, y: 1 }, rot: 0, opacity: 1 },
+  };
+  const breakSubtitle: TextLayer = {
+    ...createTextLayer('break-subtitle', width, height),
+    name: 'Break Note',
+    content: '{{Note|Stretch, grab some water, and check the board}}',
+    fontSize: 36,
+    textColor: 'rgba(255, 255, 255, 0.75)',
+    backgroundColor: 'rgba(0, 0, 0, 0)',
+    transform: { pos: { x: width / 2, y: height / 2 + 70 }, scale: { x: 1, y: 1 }, rot: 0, opacity: 1 },
+  };
+
+  return [
+    builtInTemplate('builtin-text-pill', 'Text pill', [pill]),
+    builtInTemplate('builtin-lower-third', 'Lower third', [lowerThirdBar, lowerThirdName, lowerThirdTitle]),
+    builtInTemplate('builtin-break-card', 'Back in 5 minutes', [breakCard, breakText, breakSubtitle]),
+  ];
+}
+
+/**
+ * Templates shipped with the app, listed before the user's own.
+ */
+export const BUILT_IN_TEMPLATES: readonly LayerTemplate[] = createBuiltInTemplates();
@@ -11,6 +11,11 @@ import JoinPage from "./pages/JoinPage";
 import ViewerPage from "./pages/ViewerPage";
 import { ViewerHostPage } from "./pages/ViewerHostPage";
 import { ErrorBoundary } from "./components/ErrorBoundary";
+import { setRenderResources } from "./renderer/renderResources";
+import { domRenderResources } from "./renderer/domResources";
+
+// Main-thread canvases draw straight from <video> and <img> elements.
+setRenderResources(domRenderResources);
 
 function RouteError() {
   return (
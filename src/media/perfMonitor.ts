@@ -0,0 +1,412 @@
+/**
+ * Performance monitor behind the perf HUD.
+ *
+ * While the HUD is open (or a trace is recording) it gathers:
+ * - program frame samples from the render loop (`renderer/frameProfiler.ts`),
+ *   relayed by the program output;
+ * - background-effect compositing and segmentation times;
+ * - delivered and discarded frames of the program capture track;
+ * - outbound video stats of every viewer connection.
+ *
+ * Once a second these are folded into a `PerfSnapshot`. A trace keeps the raw
+ * samples and snapshots for a few seconds and is downloaded as JSON, so a
+ * choppy lesson can be attached to a bug report instead of guessed at.
+ */
+
+import type { FrameSample } from '../renderer/frameProfiler';
+import { DEFAULT_STREAM_FPS, getCurrentStream } from '../utils/viewerStream';
+import { downloadBlob } from '../utils/download';
+import { getViewerVideoStats, type ViewerVideoStats } from '../utils/webrtc';
+
+export interface TimingSummary {
+  avg: number;
+  p95: number;
+  max: number;
+}
+
+export interface LayerCost {
+  layerId: string;
+  /** Mean draw time over the frames that drew the layer */
+  avgMs: number;
+  /** Frames that drew the layer */
+  frames: number;
+}
+
+export interface CaptureStats {
+  /** Frames delivered to the stream's consumers per second */
+  fps: number;
+  /** Frames discarded since the last snapshot */
+  dropped: number;
+  /** Frames discarded since the capture started */
+  droppedTotal: number;
+}
+
+export interface EffectStats {
+  /** Camera frames processed per second */
+  fps: number;
+  /** Compositing time per processed frame */
+  frameMs: TimingSummary;
+  /** Time for the segmentation model to return a mask */
+  segmentationMs: TimingSummary | null;
+}
+
+export interface ViewerEncodeStats {
+  viewerId: string;
+  fps: number;
+  /** Encode time per frame */
+  encodeMs: number;
+  bitrateKbps: number;
+  width: number;
+  height: number;
+  /** Why the encoder lowered quality ('none', 'cpu', 'bandwidth', 'other') */
+  qualityLimitation: string;
+}
+
+export interface PerfSnapshot {
+  /** `performance.now()` when the snapshot was taken */
+  at: number;
+  /** Frame rate the program is meant to run at */
+  targetFps: number;
+  /** Program render-loop ticks per second */
+  renderFps: number;
+  /** Ticks that repainted something, per second */
+  paintFps: number;
+  /** Render slots missed because the loop ran late */
+  lateFrames: number;
+  /** Draw time of the frames that repainted */
+  drawMs: TimingSummary;
+  /** Mean share of the scene repainted per painted frame */
+  dirtyRatio: number;
+  /** Costliest layers, most expensive first */
+  layers: LayerCost[];
+  /** Null where the browser does not report capture track stats */
+  capture: CaptureStats | null;
+  /** Null while no background effect is running */
+  effect: EffectStats | null;
+  viewers: ViewerEncodeStats[];
+}
+
+export interface TimedSample {
+  /** `performance.now()` timestamp */
+  at: number;
+  ms: number;
+}
+
+export interface PerfTrace {
+  version: 1;
+  startedAt: string;
+  durationMs: number;
+  targetFps: number;
+  userAgent: string;
+  hardwareConcurrency: number;
+  frames: FrameSample[];
+  effectFrames: TimedSample[];
+  segmentations: TimedSample[];
+  snapshots: PerfSnapshot[];
+  /** Names of the layers in the samples, filled in by the caller */
+  layers?: Record<string, { name: string; type: string }>;
+}
+
+/**
+ * Chrome's per-track frame counters (`MediaStreamTrack.stats`), not yet in
+ * the DOM typings.
+ */
+interface TrackFrameStats {
+  deliveredFrames: number;
+  discardedFrames: number;
+  totalFrames: number;
+}
+
+interface ActiveTrace {
+  startedAt: number;
+  frames: FrameSample[];
+  effectFrames: TimedSample[];
+  segmentations: TimedSample[];
+  snapshots: PerfSnapshot[];
+}
+
+const SNAPSHOT_INTERVAL_MS = 1000;
+const MAX_LAYER_COSTS = 8;
+
+let users = 0;
+let timer: ReturnType<typeof setInterval> | null = null;
+let collecting = false;
+let windowStartedAt = 0;
+let frames: FrameSample[] = [];
+let effectFrames: TimedSample[] = [];
+let segmentations: TimedSample[] = [];
+/** Start of the last frame seen, to spot late ticks across snapshots */
+let lastFrameAt: number | null = null;
+let targetFps = DEFAULT_STREAM_FPS;
+let previousCapture: TrackFrameStats | null = null;
+let previousViewers = new Map<string, ViewerVideoStats>();
+let snapshot: PerfSnapshot | null = null;
+let trace: ActiveTrace | null = null;
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function now(): number {
+  return performance.now();
+}
+
+function resetWindow(): void {
+  windowStartedAt = now();
+  frames = [];
+  effectFrames = [];
+  segmentations = [];
+  lastFrameAt = null;
+  previousCapture = null;
+  previousViewers = new Map();
+}
+
+/**
+ * Start collecting. Returns a function that stops it again; the monitor runs
+ * while anyone still holds it.
+ */
+export function startPerfMonitor(): () => void {
+  users += 1;
+  if (users === 1) {
+    resetWindow();
+    timer = setInterval(() => void collect(), SNAPSHOT_INTERVAL_MS);
+    notify();
+  }
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    users -= 1;
+    if (users > 0) return;
+    if (timer !== null) clearInterval(timer);
+    timer = null;
+    snapshot = null;
+    resetWindow();
+    notify();
+  };
+}
+
+/**
+ * Frame rate the program renders at, from the output profile. Late frames
+ * are counted against it.
+ */
+export function setPerfTargetFps(fps: number): void {
+  targetFps = fps;
+}
+
+export function isPerfMonitorRunning(): boolean {
+  return users > 0;
+}
+
+export function subscribePerfMonitor(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Latest snapshot; null until the first second of data is in.
+ */
+export function getPerfSnapshot(): PerfSnapshot | null {
+  return snapshot;
+}
+
+export function addFrameSamples(samples: FrameSample[]): void {
+  if (users === 0) return;
+  frames.push(...samples);
+  trace?.frames.push(...samples);
+}
+
+/**
+ * Time spent compositing one background-effect frame.
+ */
+export function recordEffectFrame(ms: number): void {
+  if (users === 0) return;
+  const sample = { at: now(), ms };
+  effectFrames.push(sample);
+  trace?.effectFrames.push(sample);
+}
+
+/**
+ * Time the segmentation model took to return one mask.
+ */
+export function recordSegmentation(ms: number): void {
+  if (users === 0) return;
+  const sample = { at: now(), ms };
+  segmentations.push(sample);
+  trace?.segmentations.push(sample);
+}
+
+export function isPerfTraceRecording(): boolean {
+  return trace !== null;
+}
+
+/**
+ * Record everything the monitor sees for `durationMs`, then resolve with the
+ * trace.
+ */
+export function recordPerfTrace(durationMs: number): Promise<PerfTrace> {
+  if (trace) {
+    return Promise.reject(new Error('A performance trace is already recording'));
+  }
+  const release = startPerfMonitor();
+  const active: ActiveTrace = { startedAt: Date.now(), frames: [], effectFrames: [], segmentations: [], snapshots: [] };
+  trace = active;
+  notify();
+
+  return new Promise((resolve) => {
+    setTimeout(() => {
+      trace = null;
+      release();
+      notify();
+      resolve({
+        version: 1,
+        startedAt: new Date(active.startedAt).toISOString(),
+        durationMs,
+        targetFps,
+        userAgent: navigator.userAgent,
+        hardwareConcurrency: navigator.hardwareConcurrency ?? 0,
+        frames: active.frames,
+        effectFrames: active.effectFrames,
+        segmentations: active.segmentations,
+        snapshots: active.snapshots,
+      });
+    }, durationMs);
+  });
+}
+
+export function downloadPerfTrace(recorded: PerfTrace): void {
+  const stamp = recorded.startedAt.replace(/[:.]/g, '-').slice(0, 19);
+  const blob = new Blob([JSON.stringify(recorded, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `perf-trace-${stamp}.json`);
+}
+
+function summarize(values: number[]): TimingSummary {
+  if (values.length === 0) return { avg: 0, p95: 0, max: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  return {
+    avg: total / sorted.length,
+    p95: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+function summarizeFrames(samples: FrameSample[], seconds: number) {
+  const interval = 1000 / targetFps;
+  let lateFrames = 0;
+  for (const sample of samples) {
+    if (lastFrameAt !== null) {
+      lateFrames += Math.max(0, Math.round((sample.at - lastFrameAt) / interval) - 1);
+    }
+    lastFrameAt = sample.at;
+  }
+
+  const painted = samples.filter((sample) => sample.drawMs > 0);
+  const layerTotals = new Map<string, { ms: number; frames: number }>();
+  for (const sample of painted) {
+    for (const [layerId, ms] of Object.entries(sample.layers)) {
+      const total = layerTotals.get(layerId) ?? { ms: 0, frames: 0 };
+      total.ms += ms;
+      total.frames += 1;
+      layerTotals.set(layerId, total);
+    }
+  }
+  const layers = [...layerTotals.entries()]
+    .map(([layerId, total]) => ({ layerId, avgMs: total.ms / total.frames, frames: total.frames }))
+    .sort((a, b) => b.avgMs - a.avgMs)
+    .slice(0, MAX_LAYER_COSTS);
+
+  return {
+    renderFps: samples.length / seconds,
+    paintFps: painted.length / seconds,
+    lateFrames,
+    drawMs: summarize(painted.map((sample) => sample.drawMs)),
+    dirtyRatio: painted.length > 0 ? painted.reduce((sum, sample) => sum + sample.dirtyRatio, 0) / painted.length : 0,
+    layers,
+  };
+}
+
+function readTrackFrameStats(): TrackFrameStats | null {
+  const track = getCurrentStream()?.getVideoTracks()[0] as (MediaStreamTrack & { stats?: TrackFrameStats }) | undefined;
+  const stats = track?.stats;
+  if (!stats || typeof stats.discardedFrames !== 'number') return null;
+  // The browser may hand out a live object; keep a copy to diff against.
+  return {
+    deliveredFrames: stats.deliveredFrames,
+    discardedFrames: stats.discardedFrames,
+    totalFrames: stats.totalFrames,
+  };
+}
+
+function summarizeCapture(seconds: number): CaptureStats | null {
+  const stats = readTrackFrameStats();
+  // Counters restart with a new capture stream.
+  const previous = previousCapture && stats && stats.totalFrames >= previousCapture.totalFrames ? previousCapture : null;
+  previousCapture = stats;
+  if (!stats) return null;
+  return {
+    fps: previous ? (stats.deliveredFrames - previous.deliveredFrames) / seconds : 0,
+    dropped: previous ? stats.discardedFrames - previous.discardedFrames : 0,
+    droppedTotal: stats.discardedFrames,
+  };
+}
+
+function summarizeEffects(frameTimes: TimedSample[], maskTimes: TimedSample[], seconds: number): EffectStats | null {
+  if (frameTimes.length === 0 && maskTimes.length === 0) return null;
+  return {
+    fps: frameTimes.length / seconds,
+    frameMs: summarize(frameTimes.map((sample) => sample.ms)),
+    segmentationMs: maskTimes.length > 0 ? summarize(maskTimes.map((sample) => sample.ms)) : null,
+  };
+}
+
+function summarizeViewers(stats: ViewerVideoStats[]): ViewerEncodeStats[] {
+  const next = new Map(stats.map((entry) => [entry.viewerId, entry]));
+  const summaries = stats.map((current) => {
+    const previous = previousViewers.get(current.viewerId);
+    const seconds = previous ? (current.timestamp - previous.timestamp) / 1000 : 0;
+    const encoded = previous ? current.framesEncoded - previous.framesEncoded : 0;
+    return {
+      viewerId: current.viewerId,
+      fps: seconds > 0 ? encoded / seconds : 0,
+      encodeMs: previous && encoded > 0 ? ((current.totalEncodeTime - previous.totalEncodeTime) * 1000) / encoded : 0,
+      bitrateKbps: previous && seconds > 0 ? ((current.bytesSent - previous.bytesSent) * 8) / 1000 / seconds : 0,
+      width: current.frameWidth,
+      height: current.frameHeight,
+      qualityLimitation: current.qualityLimitationReason,
+    };
+  });
+  previousViewers = next;
+  return summaries;
+}
+
+async function collect(): Promise<void> {
+  if (collecting) return;
+  collecting = true;
+  const at = now();
+  const seconds = Math.max(0.001, (at - windowStartedAt) / 1000);
+  windowStartedAt = at;
+  const windowFrames = frames;
+  const windowEffects = effectFrames;
+  const windowSegmentations = segmentations;
+  frames = [];
+  effectFrames = [];
+  segmentations = [];
+
+  try {
+    const frameStats = summarizeFrames(windowFrames, seconds);
+    const capture = summarizeCapture(seconds);
+    const effect = summarizeEffects(windowEffects, windowSegmentations, seconds);
+    const viewers = summarizeViewers(await getViewerVideoStats());
+    // Stopped while the stats were read.
+    if (users === 0) return;
+    snapshot = { at, targetFps, ...frameStats, capture, effect, viewers };
+    trace?.snapshots.push(snapshot);
+    notify();
+  } finally {
+    collecting = false;
+  }
+}
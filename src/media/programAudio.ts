@@ -0,0 +1,401 @@
+/**
+ * Program audio mixer: a shared Web Audio graph whose output is sent to
+ * viewers (and recordings) alongside the composed canvas.
+ *
+ * Every source is a channel:
+ *
+ *   input → fader (gain · mute · solo) → meter ─┬→ send → program stream
+ *                                               └→ speakers (media elements only)
+ *
+ * Media elements (video layers, sound effects) are monitored locally; live
+ * captures (microphone, screen-share audio) are not, to avoid feedback.
+ * Channel settings survive reconnects (e.g. a re-shared screen) for the
+ * session.
+ */
+
+import { createId } from '../utils/id';
+
+export type MixerChannelKind = 'mic' | 'screen' | 'video' | 'sfx';
+
+export interface MixerChannelOptions {
+  kind: MixerChannelKind;
+  label: string;
+  /** Route the channel into the outgoing stream (default true) */
+  sendToStream?: boolean;
+}
+
+/**
+ * Serializable view of a mixer channel for UI.
+ */
+export interface MixerChannel {
+  key: string;
+  kind: MixerChannelKind;
+  label: string;
+  /** Fader level, 0.0 to 2.0 (1.0 = unity) */
+  gain: number;
+  muted: boolean;
+  solo: boolean;
+  sendToStream: boolean;
+}
+
+/**
+ * A sound effect pad (decoded audio kept in memory for the session).
+ */
+export interface SoundEffect {
+  id: string;
+  name: string;
+  durationSec: number;
+}
+
+interface ChannelSettings {
+  gain: number;
+  muted: boolean;
+  solo: boolean;
+}
+
+interface ProgramAudioSource {
+  kind: MixerChannelKind;
+  label: string;
+  node: AudioNode;
+  fader: GainNode;
+  meter: AnalyserNode;
+  send: GainNode;
+  sendToStream: boolean;
+  meterBuffer: Float32Array<ArrayBuffer>;
+}
+
+/** Fader ceiling (+6 dB) */
+export const MAX_CHANNEL_GAIN = 2;
+
+const MIC_KEY = 'mic';
+const SFX_KEY = 'sfx';
+const KIND_ORDER: MixerChannelKind[] = ['mic', 'screen', 'video', 'sfx'];
+const DEFAULT_SETTINGS: ChannelSettings = { gain: 1, muted: false, solo: false };
+
+let context: AudioContext | null = null;
+let destination: MediaStreamAudioDestinationNode | null = null;
+const sources = new Map<string, ProgramAudioSource>();
+const settings = new Map<string, ChannelSettings>();
+const listeners = new Set<() => void>();
+const streamListeners = new Set<(stream: MediaStream) => void>();
+// createMediaElementSource can only be called once per element.
+const elementNodes = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+let micStream: MediaStream | null = null;
+const soundEffects = new Map<string, { effect: SoundEffect; buffer: AudioBuffer }>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function ensureGraph(): { context: AudioContext; destination: MediaStreamAudioDestinationNode } {
+  if (!context || !destination) {
+    context = new AudioContext();
+    destination = context.createMediaStreamDestination();
+    const { stream } = destination;
+    streamListeners.forEach((listener) => listener(stream));
+  }
+  return { context, destination };
+}
+
+function getSettings(key: string): ChannelSettings {
+  return settings.get(key) ?? DEFAULT_SETTINGS;
+}
+
+/**
+ * Recompute every fader: solo on any channel silences the non-soloed ones.
+ */
+function applyFaders(): void {
+  const anySolo = [...sources.keys()].some((key) => getSettings(key).solo);
+  for (const [key, source] of sources) {
+    const { gain, muted, solo } = getSettings(key);
+    const audible = !muted && (!anySolo || solo);
+    source.fader.gain.value = audible ? gain : 0;
+  }
+}
+
+function updateSettings(key: string, update: Partial<ChannelSettings>): void {
+  settings.set(key, { ...getSettings(key), ...update });
+  applyFaders();
+  notify();
+}
+
+function addChannel(key: string, node: AudioNode, options: MixerChannelOptions, monitor: boolean): void {
+  const { context: ctx, destination: dest } = ensureGraph();
+  const fader = ctx.createGain();
+  const meter = ctx.createAnalyser();
+  meter.fftSize = 512;
+  const send = ctx.createGain();
+  const sendToStream = options.sendToStream ?? true;
+  send.gain.value = sendToStream ? 1 : 0;
+
+  node.connect(fader);
+  fader.connect(meter);
+  meter.connect(send);
+  send.connect(dest);
+  if (monitor) {
+    meter.connect(ctx.destination);
+  }
+
+  sources.set(key, {
+    kind: options.kind,
+    label: options.label,
+    node,
+    fader,
+    meter,
+    send,
+    sendToStream,
+    meterBuffer: new Float32Array(meter.fftSize),
+  });
+  applyFaders();
+  notify();
+}
+
+/**
+ * Stream carrying the mixed program audio (silent until something is routed).
+ */
+export function getProgramAudioStream(): MediaStream {
+  return ensureGraph().destination.stream;
+}
+
+/**
+ * Subscribe to the program audio stream being (re)created, so consumers that
+ * hold its track (live viewers) can swap to the new one.
+ */
+export function subscribeProgramAudioStream(listener: (stream: MediaStream) => void): () => void {
+  streamListeners.add(listener);
+  return () => {
+    streamListeners.delete(listener);
+  };
+}
+
+/**
+ * Resume the audio context; browsers keep it suspended until a user gesture.
+ */
+export async function resumeProgramAudio(): Promise<void> {
+  const { context: ctx } = ensureGraph();
+  if (ctx.state === 'suspended') {
+    try {
+      await ctx.resume();
+    } catch (error) {
+      console.warn('ProgramAudio: resume blocked, awaiting user gesture', error);
+    }
+  }
+}
+
+/**
+ * Route a media element into the mixer under `key`. The element keeps playing
+ * through the local speakers via the channel fader.
+ */
+export function connectMediaElement(key: string, element: HTMLMediaElement, options: MixerChannelOptions): void {
+  const { context: ctx } = ensureGraph();
+  disconnectProgramSource(key);
+
+  let node = elementNodes.get(element);
+  if (!node) {
+    node = ctx.createMediaElementSource(element);
+    elementNodes.set(element, node);
+  }
+  addChannel(key, node, options, true);
+}
+
+/**
+ * Route the audio tracks of a live capture into the mixer under `key`.
+ * Returns false when the stream carries no audio.
+ */
+export function connectMediaStream(key: string, stream: MediaStream, options: MixerChannelOptions): boolean {
+  if (stream.getAudioTracks().length === 0) return false;
+  const { context: ctx } = ensureGraph();
+  disconnectProgramSource(key);
+  addChannel(key, ctx.createMediaStreamSource(stream), options, false);
+  return true;
+}
+
+/**
+ * Include or exclude a routed source from the outgoing stream.
+ */
+export function setProgramSourceSend(key: string, sendToStream: boolean): void {
+  const source = sources.get(key);
+  if (!source || source.sendToStream === sendToStream) return;
+  source.send.gain.value = sendToStream ? 1 : 0;
+  source.sendToStream = sendToStream;
+  notify();
+}
+
+/**
+ * Update a channel's display label.
+ */
+export function setProgramSourceLabel(key: string, label: string): void {
+  const source = sources.get(key);
+  if (!source || source.label === label) return;
+  source.label = label;
+  notify();
+}
+
+/**
+ * Remove a routed source from the mixer.
+ */
+export function disconnectProgramSource(key: string): void {
+  const source = sources.get(key);
+  if (!source) return;
+  try {
+    source.node.disconnect();
+    source.fader.disconnect();
+    source.meter.disconnect();
+    source.send.disconnect();
+  } catch { /* ignore */ }
+  sources.delete(key);
+  applyFaders();
+  notify();
+}
+
+/**
+ * Set a channel's fader level (0 to MAX_CHANNEL_GAIN).
+ */
+export function setChannelGain(key: string, gain: number): void {
+  updateSettings(key, { gain: Math.min(MAX_CHANNEL_GAIN, Math.max(0, gain)) });
+}
+
+export function setChannelMuted(key: string, muted: boolean): void {
+  updateSettings(key, { muted });
+}
+
+export function setChannelSolo(key: string, solo: boolean): void {
+  updateSettings(key, { solo });
+}
+
+/**
+ * Connected channels, grouped by kind (mic, screen, video, sfx).
+ */
+export function getMixerChannels(): MixerChannel[] {
+  return [...sources.entries()]
+    .map(([key, source]) => ({
+      key,
+      kind: source.kind,
+      label: source.label,
+      sendToStream: source.sendToStream,
+      ...getSettings(key),
+    }))
+    .sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+}
+
+/**
+ * Post-fader peak level of a channel, 0.0 to 1.0. Poll from an animation frame.
+ */
+export function getChannelLevel(key: string): number {
+  const source = sources.get(key);
+  if (!source) return 0;
+  source.meter.getFloatTimeDomainData(source.meterBuffer);
+  let peak = 0;
+  for (let i = 0; i < source.meterBuffer.length; i += 1) {
+    const sample = Math.abs(source.meterBuffer[i]);
+    if (sample > peak) peak = sample;
+  }
+  return Math.min(1, peak);
+}
+
+/**
+ * Subscribe to channel registration and settings changes.
+ */
+export function subscribeMixer(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Capture the microphone into the mixer.
+ */
+export async function startMicrophone(): Promise<void> {
+  if (micStream) return;
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+    video: false,
+  });
+  micStream = stream;
+  await resumeProgramAudio();
+  connectMediaStream(MIC_KEY, stream, { kind: 'mic', label: 'Microphone' });
+}
+
+/**
+ * Stop the microphone capture and remove its channel.
+ */
+export function stopMicrophone(): void {
+  disconnectProgramSource(MIC_KEY);
+  micStream?.getTracks().forEach((track) => track.stop());
+  micStream = null;
+}
+
+export function isMicrophoneActive(): boolean {
+  return micStream !== null;
+}
+
+function ensureSfxChannel(): GainNode {
+  const existing = sources.get(SFX_KEY);
+  if (existing) return existing.node as GainNode;
+  const { context: ctx } = ensureGraph();
+  const input = ctx.createGain();
+  addChannel(SFX_KEY, input, { kind: 'sfx', label: 'Sound effects' }, true);
+  return input;
+}
+
+/**
+ * Decode an audio file and add it to the session's sound effect pads.
+ */
+export async function addSoundEffect(name: string, blob: Blob): Promise<SoundEffect> {
+  const { context: ctx } = ensureGraph();
+  const buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+  const effect: SoundEffect = { id: createId('sfx'), name, durationSec: buffer.duration };
+  soundEffects.set(effect.id, { effect, buffer });
+  notify();
+  return effect;
+}
+
+export function removeSoundEffect(id: string): void {
+  if (soundEffects.delete(id)) notify();
+}
+
+/**
+ * Sound effect pads loaded this session, in insertion order.
+ */
+export function getSoundEffects(): SoundEffect[] {
+  return [...soundEffects.values()].map((entry) => entry.effect);
+}
+
+/**
+ * Play a loaded sound effect through the SFX channel.
+ */
+export function playSoundEffect(id: string): void {
+  const entry = soundEffects.get(id);
+  if (!entry) return;
+  const { context: ctx } = ensureGraph();
+  void resumeProgramAudio();
+  const player = ctx.createBufferSource();
+  player.buffer = entry.buffer;
+  player.connect(ensureSfxChannel());
+  player.start();
+}
+
+/**
+ * Play a short synthesized two-note chime through the SFX channel.
+ */
+export function playChime(): void {
+  const { context: ctx } = ensureGraph();
+  void resumeProgramAudio();
+  const input = ensureSfxChannel();
+  const start = ctx.currentTime;
+  [880, 1318.5].forEach((frequency, index) => {
+    const at = start + index * 0.18;
+    const oscillator = ctx.createOscillator();
+    const envelope = ctx.createGain();
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+    envelope.gain.setValueAtTime(0.0001, at);
+    envelope.gain.exponentialRampToValueAtTime(0.4, at + 0.02);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, at + 0.9);
+    oscillator.connect(envelope);
+    envelope.connect(input);
+    oscillator.start(at);
+    oscillator.stop(at + 0.95);
+  });
+}
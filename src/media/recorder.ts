@@ -0,0 +1,266 @@
+/**
+ * Local recording of the program output.
+ *
+ * The canvas stream and the program audio bus are recorded with MediaRecorder.
+ * Each timeslice chunk is written to IndexedDB as it arrives, so a crashed or
+ * closed tab leaves a recoverable recording behind (see
+ * `listRecoverableRecordings`). Stopping assembles the chunks into a single
+ * file and downloads it.
+ *
+ * Callers keep the recorded stream alive until the recording stops (stopping
+ * a track does not fire `ended`). If the browser ends the track itself, the
+ * recording is finalized automatically.
+ */
+
+import {
+  deleteRecording,
+  listRecordings,
+  loadRecordingChunks,
+  saveRecordingChunk,
+  type RecordingMetadata,
+} from '../app/persistence';
+import { createId } from '../utils/id';
+import { downloadBlob } from '../utils/download';
+
+export type RecordingStatus = 'idle' | 'recording' | 'paused' | 'finalizing';
+
+export interface RecordingSnapshot {
+  status: RecordingStatus;
+  /** Recorded time so far, excluding pauses */
+  elapsedMs: number;
+}
+
+/** How often MediaRecorder hands over a chunk */
+const CHUNK_INTERVAL_MS = 2000;
+
+const MIME_CANDIDATES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4',
+];
+
+interface ActiveRecording {
+  recorder: MediaRecorder;
+  metadata: RecordingMetadata;
+  nextIndex: number;
+  /** Chunks that could not be persisted (no IndexedDB, quota errors) */
+  memoryChunks: Map<number, Blob>;
+  /** Pending chunk writes, awaited before finalizing */
+  writes: Promise<void>;
+  /** Accumulated time from previous recording spans */
+  accumulatedMs: number;
+  /** performance.now() when the current span started; null while paused */
+  spanStartedAt: number | null;
+  stopped: Promise<void>;
+  onTrackEnded: () => void;
+  videoTrack: MediaStreamTrack | null;
+}
+
+let active: ActiveRecording | null = null;
+let status: RecordingStatus = 'idle';
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function setStatus(next: RecordingStatus): void {
+  status = next;
+  notify();
+}
+
+function pickMimeType(): string {
+  if (typeof MediaRecorder === 'undefined') return '';
+  return MIME_CANDIDATES.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+function elapsedOf(recording: ActiveRecording): number {
+  const span = recording.spanStartedAt !== null ? performance.now() - recording.spanStartedAt : 0;
+  return recording.accumulatedMs + span;
+}
+
+/**
+ * Current recording state.
+ */
+export function getRecordingSnapshot(): RecordingSnapshot {
+  return { status, elapsedMs: active ? elapsedOf(active) : 0 };
+}
+
+/**
+ * Subscribe to status changes (not to elapsed-time ticks).
+ */
+export function subscribeRecording(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Start recording the program video plus mixed audio. `videoBitsPerSecond`
+ * caps the encoder, otherwise the browser picks a rate.
+ */
+export function startRecording(
+  videoStream: MediaStream,
+  audioStream: MediaStream | null,
+  videoBitsPerSecond?: number
+): void {
+  if (active) return;
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error('Recording is not supported in this browser');
+  }
+
+  const videoTrack = videoStream.getVideoTracks()[0] ?? null;
+  if (!videoTrack || videoTrack.readyState !== 'live') {
+    throw new Error('No live program output to record');
+  }
+  const tracks = [videoTrack, ...(audioStream?.getAudioTracks() ?? [])];
+  const mimeType = pickMimeType();
+  const recorder = new MediaRecorder(new MediaStream(tracks), {
+    ...(mimeType ? { mimeType } : {}),
+    ...(videoBitsPerSecond ? { videoBitsPerSecond } : {}),
+  });
+  const now = Date.now();
+
+  let resolveStopped: () => void = () => {};
+  const stopped = new Promise<void>((resolve) => {
+    resolveStopped = resolve;
+  });
+
+  const recording: ActiveRecording = {
+    recorder,
+    metadata: {
+      id: createId('recording'),
+      mimeType: recorder.mimeType || mimeType || 'video/webm',
+      startedAt: now,
+      updatedAt: now,
+      durationMs: 0,
+      chunkCount: 0,
+    },
+    nextIndex: 0,
+    memoryChunks: new Map(),
+    writes: Promise.resolve(),
+    accumulatedMs: 0,
+    spanStartedAt: performance.now(),
+    stopped,
+    onTrackEnded: () => {
+      console.warn('Recorder: program track ended, finalizing recording');
+      void stopRecording();
+    },
+    videoTrack,
+  };
+
+  recorder.addEventListener('dataavailable', (event) => {
+    if (!event.data || event.data.size === 0) return;
+    const index = recording.nextIndex;
+    recording.nextIndex += 1;
+    recording.metadata = {
+      ...recording.metadata,
+      updatedAt: Date.now(),
+      durationMs: elapsedOf(recording),
+      chunkCount: recording.nextIndex,
+    };
+    const metadata = recording.metadata;
+    recording.writes = recording.writes.then(() =>
+      saveRecordingChunk(metadata, index, event.data).catch((error) => {
+        console.warn('Recorder: keeping chunk in memory', error);
+        recording.memoryChunks.set(index, event.data);
+      })
+    );
+  });
+  recorder.addEventListener('stop', () => resolveStopped());
+  recorder.addEventListener('error', (event) => {
+    console.error('Recorder: MediaRecorder error', event);
+    void stopRecording();
+  });
+  videoTrack.addEventListener('ended', recording.onTrackEnded);
+
+  recorder.start(CHUNK_INTERVAL_MS);
+  active = recording;
+  setStatus('recording');
+}
+
+/**
+ * Pause or resume the active recording.
+ */
+export function toggleRecordingPause(): void {
+  if (!active || status === 'finalizing') return;
+  if (active.recorder.state === 'recording') {
+    active.recorder.pause();
+    active.accumulatedMs = elapsedOf(active);
+    active.spanStartedAt = null;
+    setStatus('paused');
+  } else if (active.recorder.state === 'paused') {
+    active.recorder.resume();
+    active.spanStartedAt = performance.now();
+    setStatus('recording');
+  }
+}
+
+/**
+ * Stop recording, assemble the file and download it.
+ */
+export async function stopRecording(): Promise<void> {
+  const recording = active;
+  if (!recording || status === 'finalizing') return;
+  setStatus('finalizing');
+  recording.videoTrack?.removeEventListener('ended', recording.onTrackEnded);
+  recording.accumulatedMs = elapsedOf(recording);
+  recording.spanStartedAt = null;
+
+  try {
+    if (recording.recorder.state !== 'inactive') {
+      recording.recorder.stop();
+      await recording.stopped;
+    }
+    await recording.writes;
+
+    const stored = await loadRecordingChunks(recording.metadata.id);
+    const chunks: Blob[] = [];
+    let storedIndex = 0;
+    for (let index = 0; index < recording.nextIndex; index += 1) {
+      const chunk = recording.memoryChunks.get(index) ?? stored[storedIndex++];
+      if (chunk) chunks.push(chunk);
+    }
+    downloadRecording(new Blob(chunks, { type: recording.metadata.mimeType }), recording.metadata);
+    await deleteRecording(recording.metadata.id);
+  } catch (error) {
+    console.error('Recorder: failed to finalize recording', error);
+  } finally {
+    active = null;
+    setStatus('idle');
+  }
+}
+
+/**
+ * Recordings left in IndexedDB by a previous session that never finalized.
+ */
+export async function listRecoverableRecordings(): Promise<RecordingMetadata[]> {
+  const recordings = await listRecordings();
+  return recordings.filter((recording) => recording.id !== active?.metadata.id);
+}
+
+/**
+ * Download a recovered recording and remove it from storage.
+ */
+export async function recoverRecording(recording: RecordingMetadata): Promise<void> {
+  const chunks = await loadRecordingChunks(recording.id);
+  if (chunks.length > 0) {
+    downloadRecording(new Blob(chunks, { type: recording.mimeType }), recording);
+  }
+  await deleteRecording(recording.id);
+}
+
+/**
+ * Discard a recovered recording.
+ */
+export async function discardRecording(recording: RecordingMetadata): Promise<void> {
+  await deleteRecording(recording.id);
+}
+
+function downloadRecording(blob: Blob, recording: RecordingMetadata): void {
+  const extension = recording.mimeType.includes('mp4') ? 'mp4' : 'webm';
+  const stamp = new Date(recording.startedAt).toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  downloadBlob(blob, `lesson-${stamp}.${extension}`);
+}
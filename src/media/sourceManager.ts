@@ -5,6 +5,8 @@
  * state remains serializable while draw routines can fetch the latest frame.
  */
 
+import { connectMediaStream, disconnectProgramSource } from './programAudio';
+
 type SourceType = 'screen' | 'camera';
 
 interface ActiveSource {
@@ -61,10 +63,13 @@ export async function startScreenCapture(layerId: string): Promise<ActiveSource
   try {
     const stream = await navigator.mediaDevices.getDisplayMedia({
       video: { frameRate: 30 },
-      audio: false,
+      // Tab/system audio is offered by the browser picker; it feeds the mixer.
+      audio: true,
     });
 
-    return registerSource(layerId, stream, 'screen');
+    const active = await registerSource(layerId, stream, 'screen');
+    connectMediaStream(layerId, stream, { kind: 'screen', label: 'Screen audio' });
+    return active;
   } catch (error) {
     console.error('Failed to start screen capture:', error);
     return null;
@@ -136,6 +141,7 @@ export function stopSource(layerId: string): void {
   const existing = sources.get(layerId);
   if (!existing) return;
 
+  disconnectProgramSource(layerId);
   existing.stream.getTracks().forEach((track) => {
     try { track.stop(); } catch { /* ignore */ }
   });
@@ -171,3 +177,28 @@ export function getActiveVideoTrack(layerId: string): MediaStreamTrack | null {
   if (!active) return null;
   return active.rawTrack ?? active.stream.getVideoTracks?.()[0] ?? null;
 }
+
+/**
+ * The video track a layer currently shows (the processed track once a
+ * background effect replaces the raw one).
+ */
+export function getDisplayedVideoTrack(layerId: string): MediaStreamTrack | null {
+  return sources.get(layerId)?.stream.getVideoTracks()[0] ?? null;
+}
+
+/**
+ * Stream the frames of a layer's displayed track as VideoFrames, so they can
+ * be transferred to a worker and read off the main thread. Null where
+ * `MediaStreamTrackProcessor` is unsupported.
+ */
+export function openSourceFrames(layerId: string): ReadableStream<VideoFrame> | null {
+  const track = getDisplayedVideoTrack(layerId);
+  if (!track || typeof MediaStreamTrackProcessor === 'undefined') return null;
+  try {
+    return new MediaStreamTrackProcessor({ track }).readable;
+  } catch (error) {
+    console.warn('SourceManager: failed to open frame stream', error);
+    return null;
+  }
+}
+
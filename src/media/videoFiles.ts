@@ -0,0 +1,154 @@
+/**
+ * Manages <video> elements for video file layers.
+ *
+ * Like sourceManager, elements and object URLs live outside the Zustand
+ * store; layers only persist the asset ID and playback preferences.
+ */
+
+import type { VideoLayer } from '../types/scene';
+import { loadAsset } from '../app/persistence';
+import {
+  connectMediaElement,
+  disconnectProgramSource,
+  resumeProgramAudio,
+  setProgramSourceLabel,
+  setProgramSourceSend,
+} from './programAudio';
+
+interface VideoFileSource {
+  assetId: string;
+  video: HTMLVideoElement;
+  objectUrl: string;
+}
+
+const sources = new Map<string, VideoFileSource>();
+const pending = new Map<string, Promise<HTMLVideoElement | null>>();
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+const MEDIA_EVENTS = ['play', 'pause', 'ended', 'seeked', 'timeupdate', 'volumechange', 'loadedmetadata'];
+
+/**
+ * Create (or reuse) the video element for a layer and apply its settings.
+ */
+export async function ensureVideoFileSource(layer: VideoLayer): Promise<HTMLVideoElement | null> {
+  const existing = sources.get(layer.id);
+  if (existing && existing.assetId === layer.assetId) {
+    applyVideoLayerSettings(layer);
+    return existing.video;
+  }
+  const inFlight = pending.get(layer.id);
+  if (inFlight) return inFlight;
+
+  const load = (async () => {
+    try {
+      const file = await loadAsset(layer.assetId);
+      if (!file) {
+        console.warn('VideoFiles: asset missing for layer', layer.id);
+        return null;
+      }
+      releaseVideoFileSource(layer.id);
+
+      const video = document.createElement('video');
+      const objectUrl = URL.createObjectURL(file.blob);
+      video.playsInline = true;
+      video.preload = 'auto';
+      video.src = objectUrl;
+      MEDIA_EVENTS.forEach((type) => video.addEventListener(type, notify));
+
+      sources.set(layer.id, { assetId: layer.assetId, video, objectUrl });
+      connectMediaElement(layer.id, video, {
+        kind: 'video',
+        label: layer.name,
+        sendToStream: layer.sendAudio ?? true,
+      });
+      applyVideoLayerSettings(layer);
+      notify();
+      return video;
+    } catch (error) {
+      console.error('VideoFiles: failed to load video for layer', layer.id, error);
+      return null;
+    } finally {
+      pending.delete(layer.id);
+    }
+  })();
+  pending.set(layer.id, load);
+  return load;
+}
+
+/**
+ * Push persisted layer preferences (loop, mute, volume, routing) to the element.
+ */
+export function applyVideoLayerSettings(layer: VideoLayer): void {
+  const source = sources.get(layer.id);
+  if (!source) return;
+  source.video.loop = layer.loop;
+  source.video.muted = layer.muted;
+  source.video.volume = Math.min(1, Math.max(0, layer.volume ?? 1));
+  setProgramSourceSend(layer.id, layer.sendAudio ?? true);
+  setProgramSourceLabel(layer.id, layer.name);
+}
+
+/**
+ * Stop playback and free the element for a layer.
+ */
+export function releaseVideoFileSource(layerId: string): void {
+  const source = sources.get(layerId);
+  if (!source) return;
+  disconnectProgramSource(layerId);
+  MEDIA_EVENTS.forEach((type) => source.video.removeEventListener(type, notify));
+  try {
+    source.video.pause();
+    source.video.removeAttribute('src');
+    source.video.load();
+  } catch { /* ignore */ }
+  URL.revokeObjectURL(source.objectUrl);
+  sources.delete(layerId);
+  notify();
+}
+
+/**
+ * Get the <video> element for a video file layer.
+ */
+export function getVideoFileElement(layerId: string): HTMLVideoElement | null {
+  return sources.get(layerId)?.video ?? null;
+}
+
+/**
+ * Play or pause a video file layer. Returns the new playing state.
+ */
+export function toggleVideoFilePlayback(layerId: string): boolean {
+  const video = getVideoFileElement(layerId);
+  if (!video) return false;
+  if (video.paused || video.ended) {
+    void resumeProgramAudio();
+    void video.play().catch((error) => console.warn('VideoFiles: play blocked', error));
+    return true;
+  }
+  video.pause();
+  return false;
+}
+
+/**
+ * Seek a video file layer to an absolute time in seconds.
+ */
+export function seekVideoFile(layerId: string, seconds: number): void {
+  const video = getVideoFileElement(layerId);
+  if (!video) return;
+  const duration = Number.isFinite(video.duration) ? video.duration : seconds;
+  video.currentTime = Math.min(Math.max(0, seconds), duration);
+  notify();
+}
+
+/**
+ * Subscribe to element registration and playback changes.
+ */
+export function subscribeVideoFiles(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -4,7 +4,7 @@
  * visibility toggles and layer controls.
  */
 
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useRef, useState, useCallback, useSyncExternalStore } from "react";
 import { useSessionStore } from "../stores/sessionStore";
 import { activateJoinCode } from "../utils/joinCodes";
 import { startHost, type HostHandle } from "../utils/webrtc";
@@ -16,19 +16,21 @@ import {
   sendStreamToViewer,
   notifyStreamEnded,
   setCurrentStream,
-  DEFAULT_STREAM_FPS,
   requestCurrentStreamFrame,
   type ViewerMessage,
 } from "../utils/viewerStream";
-import { useAppStore } from "../app/store";
-import { loadMostRecentScene } from "../app/persistence";
+import { useAppStore, DEFAULT_COLLECTION_NAME, DEFAULT_SCENE_TRANSITION } from "../app/store";
+import { getOutputProfile } from "../app/outputProfiles";
+import { loadCollections, loadMostRecentScene, loadScene, storeAsset } from "../app/persistence";
 import { createId } from "../utils/id";
 import {
   createScreenLayer,
   createCameraLayer,
   createTextLayer,
   createImageLayer,
+  createVideoLayer,
   createShapeLayer,
+  createTimerLayer,
 } from "../layers/factory";
 import {
   startScreenCapture,
@@ -37,23 +39,59 @@ import {
   replaceVideoTrack,
   getActiveVideoTrack,
 } from "../media/sourceManager";
+import {
+  ensureVideoFileSource,
+  getVideoFileElement,
+  releaseVideoFileSource,
+  seekVideoFile,
+  toggleVideoFilePlayback,
+} from "../media/videoFiles";
+import { getProgramAudioStream, resumeProgramAudio, subscribeProgramAudioStream } from "../media/programAudio";
+import {
+  discardRecording,
+  getRecordingSnapshot,
+  listRecoverableRecordings,
+  recoverRecording,
+  startRecording,
+  stopRecording,
+  toggleRecordingPause,
+} from "../media/recorder";
 import { FloatingPanel } from "../components/FloatingPanel";
 import { LayersPanel } from "../components/LayersPanel";
 import { TransformControls } from "../components/TransformControls";
-import type { Layer, CameraLayer, TextLayer, Scene } from "../types/scene";
+import type { Layer, CameraLayer, TextLayer, Scene, ShapeType } from "../types/scene";
 import { TextEditOverlay } from "../components/TextEditOverlay";
 import { ControlStrip } from "../components/ControlStrip";
 import { ConfidencePreview } from "../components/ConfidencePreview";
 import { PresentationOverlay } from "../components/PresentationOverlay";
 import { CanvasSelectionOverlay } from "../components/CanvasSelectionOverlay";
 import { GroupTransformControls } from "../components/GroupTransformControls";
+import { SceneSwitcher } from "../components/SceneSwitcher";
+import { ProgramCanvas } from "../components/ProgramCanvas";
+import { MixerPanel } from "../components/MixerPanel";
+import { HistoryPanel } from "../components/HistoryPanel";
+import { PerfHud } from "../components/PerfHud";
+import { AnnotationOverlay } from "../components/AnnotationOverlay";
+import { AnnotationToolbar } from "../components/AnnotationToolbar";
+import { useAnnotationStore } from "../stores/annotationStore";
+import { useLaserPointerStore } from "../stores/laserPointerStore";
+import { useViewportToolStore } from "../stores/viewportToolStore";
+import { useLayoutAidsStore } from "../stores/layoutAidsStore";
+import { ViewportToolOverlay } from "../components/ViewportToolOverlay";
+import { isViewportZoomed, setZoomRegion, subscribeViewport } from "../renderer/viewport";
+import { applyTransformEdit, evaluateTransform, getSceneTime } from "../renderer/animation";
+import { LaserPointerOverlay } from "../components/LaserPointerOverlay";
 import { tinykeys } from "tinykeys";
 import type { KeyBindingMap } from "tinykeys";
 import { useBackgroundEffectTrack } from "../hooks/useBackgroundEffectTrack";
-import { replaceHostVideoTrack } from "../utils/webrtc";
+import { useRecording } from "../hooks/useRecording";
+import { useTimerActions } from "../hooks/useTimerActions";
+import { replaceHostAudioTrack, replaceHostVideoTrack, setHostVideoMaxBitrate } from "../utils/webrtc";
 
 const EMPTY_LAYERS: Layer[] = [];
 const LAYERS_PANEL_WIDTH = 280;
+const MIXER_PANEL_SIZE = { width: 300, height: 420 };
+const HISTORY_PANEL_SIZE = { width: 260, height: 380 };
 const LAYERS_PANEL_EXPANDED_HEIGHT = 760;
 const LAYERS_PANEL_COLLAPSED_HEIGHT = 64;
 
@@ -66,6 +104,16 @@ function readFileAsDataURL(file: File): Promise<string> {
   });
 }
 
+function loadVideoMetadata(src: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+    video.preload = "metadata";
+    video.onloadedmetadata = () => resolve({ width: video.videoWidth, height: video.videoHeight });
+    video.onerror = () => reject(video.error ?? new Error("Unable to read video metadata"));
+    video.src = src;
+  });
+}
+
 function loadImage(src: string): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
     const image = new Image();
@@ -75,11 +123,33 @@ function loadImage(src: string): Promise<HTMLImageElement> {
   });
 }
 
+type CanvasTool = "draw" | "pointer" | "zoom" | "spotlight";
+
+function getCanvasTool(): CanvasTool | null {
+  if (useAnnotationStore.getState().active) return "draw";
+  if (useLaserPointerStore.getState().active) return "pointer";
+  const viewportTools = useViewportToolStore.getState();
+  if (viewportTools.zoomActive) return "zoom";
+  if (viewportTools.spotlightActive) return "spotlight";
+  return null;
+}
+
+/**
+ * Turn on one canvas tool (or none) and every other tool off.
+ */
+function setCanvasTool(tool: CanvasTool | null): void {
+  useAnnotationStore.getState().setActive(tool === "draw");
+  useLaserPointerStore.getState().setActive(tool === "pointer");
+  useViewportToolStore.getState().setZoomActive(tool === "zoom");
+  useViewportToolStore.getState().setSpotlightActive(tool === "spotlight");
+}
+
 /**
  * Main presenter page component.
  */
 function PresenterPage() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const programCanvasRef = useRef<HTMLCanvasElement>(null);
   const viewerWindowRef = useRef<Window | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const hostRef = useRef<{ stop: () => void } | null>(null);
@@ -91,6 +161,17 @@ function PresenterPage() {
   const [isAddingCamera, setIsAddingCamera] = useState(false);
   const layerIdsRef = useRef<string[]>([]);
   const [panelPosition, setPanelPosition] = useState({ x: 24, y: 24 });
+  const [isMixerOpen, setIsMixerOpen] = useState(false);
+  const [mixerPosition, setMixerPosition] = useState(() => ({
+    x: Math.max(24, window.innerWidth - MIXER_PANEL_SIZE.width - 24),
+    y: 140,
+  }));
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyPosition, setHistoryPosition] = useState(() => ({
+    x: Math.max(24, window.innerWidth - MIXER_PANEL_SIZE.width - HISTORY_PANEL_SIZE.width - 48),
+    y: 140,
+  }));
+  const [isPerfHudOpen, setIsPerfHudOpen] = useState(false);
   const [isLayersPanelCollapsed, setLayersPanelCollapsed] = useState(false);
   const [canvasLayout, setCanvasLayout] = useState<CanvasLayout | null>(null);
   const [editingTextId, setEditingTextId] = useState<string | null>(null);
@@ -98,7 +179,27 @@ function PresenterPage() {
   const [isConfidencePreviewVisible, setIsConfidencePreviewVisible] = useState(false);
   const [controlStripVisible, setControlStripVisible] = useState(true);
   const [isSceneLoading, setIsSceneLoading] = useState(true);
+  const studioMode = useAppStore((state) => state.studioMode);
+  const outputProfile = useAppStore((state) => {
+    const collection = state.currentCollectionId ? state.collections[state.currentCollectionId] : null;
+    return getOutputProfile(collection?.outputProfile);
+  });
+  // Frame rate the live capture stream was created at.
+  const streamFpsRef = useRef(outputProfile.fps);
+  const outputProfileRef = useRef(outputProfile);
+  const isDrawing = useAnnotationStore((state) => state.active);
+  const isPointing = useLaserPointerStore((state) => state.active);
+  const isZooming = useViewportToolStore((state) => state.zoomActive);
+  const isSpotlighting = useViewportToolStore((state) => state.spotlightActive);
+  // Draw, pointer, zoom and spotlight modes take over canvas input from selection.
+  const isCanvasToolActive = isDrawing || isPointing || isZooming || isSpotlighting;
+  const isProgramZoomed = useSyncExternalStore(subscribeViewport, isViewportZoomed);
+  // Outside studio mode the editor canvas mirrors the program and shows the
+  // zoom, so scene-space editing handles would be misplaced while zoomed.
+  const isViewportOnCanvas = !studioMode;
+  const hideEditingOverlays = isCanvasToolActive || (isProgramZoomed && isViewportOnCanvas);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const videoInputRef = useRef<HTMLInputElement | null>(null);
   const controlStripTimerRef = useRef<number | null>(null);
   const clipboardRef = useRef<Layer[] | null>(null);
 
@@ -111,6 +212,13 @@ function PresenterPage() {
     const scene = state.scenes[state.currentSceneId];
     return scene ? scene.layers : EMPTY_LAYERS;
   });
+  // Sources stay alive while any loaded scene still references their layer,
+  // so switching scenes does not end a screen share or camera.
+  const loadedLayerIdsKey = useAppStore((state) =>
+    [...Object.values(state.scenes), ...(state.programScene ? [state.programScene] : [])]
+      .flatMap((scene) => scene.layers.map((layer) => layer.id))
+      .join("|")
+  );
   const currentScene = useAppStore((state) => {
     if (!state.currentSceneId) return null;
     return state.scenes[state.currentSceneId] ?? null;
@@ -334,11 +442,21 @@ function PresenterPage() {
     requestCurrentStreamFrame();
   }, [addLayer, getCurrentScene]);
 
-  const addShapeLayer = useCallback(() => {
+  const addShapeLayer = useCallback((shapeType?: ShapeType) => {
+    const scene = getCurrentScene();
+    if (!scene) return;
+    const layerId = createId("layer");
+    const layer = createShapeLayer(layerId, scene.width, scene.height, shapeType);
+    addLayer(layer);
+    useAppStore.getState().setSelection([layerId]);
+    requestCurrentStreamFrame();
+  }, [addLayer, getCurrentScene]);
+
+  const addTimerLayer = useCallback(() => {
     const scene = getCurrentScene();
     if (!scene) return;
     const layerId = createId("layer");
-    const layer = createShapeLayer(layerId, scene.width, scene.height);
+    const layer = createTimerLayer(layerId, scene.width, scene.height);
     addLayer(layer);
     useAppStore.getState().setSelection([layerId]);
     requestCurrentStreamFrame();
@@ -356,16 +474,25 @@ function PresenterPage() {
       target.value = "";
       if (!file) return;
 
+      const probeUrl = URL.createObjectURL(file);
       try {
-        const dataUri = await readFileAsDataURL(file);
-        const image = await loadImage(dataUri);
+        const image = await loadImage(probeUrl);
+        // Prefer the asset store; inline the image only when it is unavailable.
+        let source: { assetId: string } | { dataUri: string };
+        try {
+          const asset = await storeAsset(file);
+          source = { assetId: asset.blobId };
+        } catch (error) {
+          console.warn("Presenter: Asset store unavailable, embedding image inline", error);
+          source = { dataUri: await readFileAsDataURL(file) };
+        }
         const layerId = createId("layer");
         const naturalWidth = image.naturalWidth || 640;
         const naturalHeight = image.naturalHeight || 360;
         const layer = createImageLayer(layerId, scene.width, scene.height, {
           width: naturalWidth,
           height: naturalHeight,
-          dataUri,
+          ...source,
         });
         layer.name = file.name ? file.name.replace(/\.[^/.]+$/, "") || "Image" : "Image";
 
@@ -383,6 +510,8 @@ function PresenterPage() {
         requestCurrentStreamFrame();
       } catch (error) {
         console.error("Presenter: Failed to load image layer", error);
+      } finally {
+        URL.revokeObjectURL(probeUrl);
       }
     };
 
@@ -390,19 +519,92 @@ function PresenterPage() {
     input.click();
   }, [addLayer, getCurrentScene]);
 
-  useEffect(() => {
-    if (sceneLayers === EMPTY_LAYERS) {
-      if (layerIdsRef.current.length > 0) {
-        layerIdsRef.current.forEach((id) => stopSource(id));
-        layerIdsRef.current = [];
+  const addVideoLayer = useCallback(() => {
+    const scene = getCurrentScene();
+    if (!scene) return;
+    const input = videoInputRef.current;
+    if (!input) return;
+
+    const handleChange = async (event: Event) => {
+      const target = event.target as HTMLInputElement;
+      const file = target.files?.[0] ?? null;
+      target.value = "";
+      if (!file) return;
+
+      const probeUrl = URL.createObjectURL(file);
+      try {
+        const { width, height } = await loadVideoMetadata(probeUrl);
+        const { blobId: assetId } = await storeAsset(file);
+
+        const layerId = createId("layer");
+        const naturalWidth = width || 1280;
+        const naturalHeight = height || 720;
+        const layer = createVideoLayer(layerId, scene.width, scene.height, {
+          assetId,
+          width: naturalWidth,
+          height: naturalHeight,
+          fileName: file.name,
+        });
+        layer.name = file.name ? file.name.replace(/\.[^/.]+$/, "") || "Video" : "Video";
+
+        const maxWidth = scene.width * 0.6;
+        const maxHeight = scene.height * 0.6;
+        const scaleFactor = Math.min(1, maxWidth / naturalWidth, maxHeight / naturalHeight);
+        if (scaleFactor < 1) {
+          layer.transform = {
+            ...layer.transform,
+            scale: { x: scaleFactor, y: scaleFactor },
+          };
+        }
+        addLayer(layer);
+        useAppStore.getState().setSelection([layerId]);
+        requestCurrentStreamFrame();
+      } catch (error) {
+        console.error("Presenter: Failed to load video layer", error);
+      } finally {
+        URL.revokeObjectURL(probeUrl);
       }
-      return;
-    }
-    const currentIds = sceneLayers.map((layer) => layer.id);
+    };
+
+    input.addEventListener("change", handleChange, { once: true });
+    input.click();
+  }, [addLayer, getCurrentScene]);
+
+  // Keep a <video> element (and its playback settings) for every loaded video layer.
+  const videoLayersKey = useAppStore((state) =>
+    Object.values(state.scenes)
+      .flatMap((scene) => scene.layers)
+      .map((layer) =>
+        layer.type === "video"
+          ? `${layer.id}:${layer.assetId}:${layer.loop}:${layer.muted}:${layer.volume}:${layer.sendAudio}:${layer.name}`
+          : ""
+      )
+      .filter(Boolean)
+      .join("|")
+  );
+
+  useEffect(() => {
+    if (!videoLayersKey) return;
+    const state = useAppStore.getState();
+    Object.values(state.scenes).forEach((scene) => {
+      scene.layers.forEach((layer) => {
+        if (layer.type !== "video") return;
+        void ensureVideoFileSource(layer).then((video) => {
+          if (video) requestCurrentStreamFrame();
+        });
+      });
+    });
+  }, [videoLayersKey]);
+
+  useEffect(() => {
+    const currentIds = loadedLayerIdsKey ? loadedLayerIdsKey.split("|") : [];
     const removed = layerIdsRef.current.filter((id) => !currentIds.includes(id));
-    removed.forEach((id) => stopSource(id));
+    removed.forEach((id) => {
+      stopSource(id);
+      releaseVideoFileSource(id);
+    });
     layerIdsRef.current = currentIds;
-  }, [sceneLayers]);
+  }, [loadedLayerIdsKey]);
 
   /**
    * Ensures a canvas stream exists, creating one if needed or reusing existing live stream.
@@ -423,14 +625,15 @@ function PresenterPage() {
       setCurrentStream(null);
     }
 
-    // Need to create new stream
-    const canvas = canvasRef.current;
+    // The program canvas renders off the main thread, in and out of studio mode.
+    const canvas = programCanvasRef.current;
     if (!canvas) {
       console.warn("❌ [ensureStream] Cannot create stream without canvas");
       return null;
     }
 
-    const stream = captureCanvasStream(canvas, { fps: DEFAULT_STREAM_FPS });
+    const { fps } = outputProfileRef.current;
+    const stream = captureCanvasStream(canvas, { fps });
     if (!stream) {
       console.error("❌ [ensureStream] Failed to capture canvas stream");
       return null;
@@ -438,6 +641,7 @@ function PresenterPage() {
 
     console.log("🎬 [ensureStream] Created NEW canvas stream with", stream.getVideoTracks().length, "tracks");
     streamRef.current = stream;
+    streamFpsRef.current = fps;
     setCurrentStream(stream);
 
     // Set up ended handler ONCE when stream is created
@@ -484,6 +688,73 @@ function PresenterPage() {
     }
   }, [ensureCanvasStreamExists]);
 
+  const recording = useRecording();
+  useTimerActions();
+
+  useEffect(() => {
+    outputProfileRef.current = outputProfile;
+    void setHostVideoMaxBitrate(outputProfile.videoBitrate);
+  }, [outputProfile]);
+
+  // A capture stream's frame rate is fixed, so a profile with a different rate
+  // swaps in a new stream. A recording keeps its stream until it stops.
+  const isRecordingActive = recording.status !== "idle";
+  useEffect(() => {
+    const current = streamRef.current;
+    if (!current || isRecordingActive || streamFpsRef.current === outputProfile.fps) return;
+    console.log("🔁 [outputProfile] Recreating canvas stream at", outputProfile.fps, "fps");
+    streamRef.current = null;
+    setCurrentStream(null);
+    current.getTracks().forEach((track) => track.stop());
+    if (canvasRef.current) startStreaming(canvasRef.current);
+  }, [outputProfile.fps, isRecordingActive, startStreaming]);
+
+  const toggleRecording = useCallback(() => {
+    const { status } = getRecordingSnapshot();
+    if (status === "recording" || status === "paused") {
+      void stopRecording();
+      return;
+    }
+    if (status !== "idle") return;
+    const stream = ensureCanvasStreamExists();
+    if (!stream) return;
+    void resumeProgramAudio();
+    try {
+      startRecording(stream, getProgramAudioStream(), outputProfileRef.current.videoBitrate);
+      requestCurrentStreamFrame();
+    } catch (error) {
+      console.error("❌ [recording] Failed to start", error);
+      window.alert(error instanceof Error ? error.message : "Recording failed to start");
+    }
+  }, [ensureCanvasStreamExists]);
+
+  // Offer recordings left behind by a crashed or closed tab.
+  useEffect(() => {
+    let cancelled = false;
+    void listRecoverableRecordings().then(async (recordings) => {
+      for (const entry of recordings) {
+        if (cancelled) return;
+        const when = new Date(entry.startedAt).toLocaleString();
+        const minutes = Math.max(1, Math.round(entry.durationMs / 60000));
+        if (window.confirm(`An unfinished recording from ${when} (~${minutes} min) was found. Download it now?`)) {
+          await recoverRecording(entry);
+        } else if (window.confirm("Discard that recording? Cancel keeps it for next time.")) {
+          await discardRecording(entry);
+        }
+      }
+    }).catch((error) => console.warn("⚠️ [recording] Failed to check for unfinished recordings", error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const takePreview = useCallback(() => {
+    const state = useAppStore.getState();
+    if (!state.studioMode) return;
+    state.takePreview();
+    requestCurrentStreamFrame();
+  }, []);
+
   const openViewer = () => {
     if (viewerWindowRef.current && !viewerWindowRef.current.closed) {
       viewerWindowRef.current.focus();
@@ -508,15 +779,15 @@ function PresenterPage() {
         clearInterval(checkClosed);
         setIsViewerOpen(false);
         viewerWindowRef.current = null;
-        // DON'T stop the stream if we're still live streaming to remote viewers!
-        // Only stop if we're not hosting
-        if (streamRef.current && !hostRef.current) {
+        // DON'T stop the stream if we're still live streaming to remote viewers
+        // or recording it. Only stop if nothing else consumes it.
+        if (streamRef.current && !hostRef.current && getRecordingSnapshot().status === "idle") {
           console.log("🛑 [openViewer] Stopping stream (not live)");
           streamRef.current.getTracks().forEach((track) => track.stop());
           streamRef.current = null;
           setCurrentStream(null);
-        } else if (streamRef.current && hostRef.current) {
-          console.log("✅ [openViewer] Keeping stream alive (still live to remote viewers)");
+        } else if (streamRef.current) {
+          console.log("✅ [openViewer] Keeping stream alive (live or recording)");
         }
       }
     }, 500);
@@ -575,16 +846,16 @@ function PresenterPage() {
     if (!scene) return;
     const selection = state.selection;
     if (selection.length === 0) return;
-    selection.forEach((id) => {
+    const time = getSceneTime(scene.id);
+    const updates = selection.flatMap((id) => {
       const layer = scene.layers.find((entry) => entry.id === id);
-      if (!layer || layer.locked) return;
-      state.updateLayer(id, {
-        transform: {
-          ...layer.transform,
-          pos: { x: layer.transform.pos.x + dx, y: layer.transform.pos.y + dy },
-        },
-      });
+      if (!layer || layer.locked) return [];
+      const shown = evaluateTransform(layer.transform, time);
+      const pos = { x: shown.pos.x + dx, y: shown.pos.y + dy };
+      return [{ id, changes: { transform: applyTransformEdit(layer.transform, { ...shown, pos }, time) } }];
     });
+    // A run of arrow-key presses is one undo step.
+    state.updateLayers(updates, { historyLabel: "Nudge", coalesceKey: `nudge:${selection.join(",")}` });
     requestCurrentStreamFrame();
   }, []);
 
@@ -592,8 +863,7 @@ function PresenterPage() {
     const layers = getSelectedLayers();
     if (layers.length === 0) return;
     const state = useAppStore.getState();
-    const newIds: string[] = [];
-    layers.forEach((layer, index) => {
+    const clones = layers.map((layer, index) => {
       const clone: Layer = JSON.parse(JSON.stringify(layer));
       clone.id = createId("layer");
       clone.name = `${layer.name || "Layer"} Copy`;
@@ -601,10 +871,10 @@ function PresenterPage() {
         ...layer.transform,
         pos: { x: layer.transform.pos.x + 24 + index * 12, y: layer.transform.pos.y + 24 + index * 12 },
       };
-      newIds.push(clone.id);
-      state.addLayer(clone);
+      return clone;
     });
-    state.setSelection(newIds);
+    state.addLayers(clones, "Duplicate");
+    state.setSelection(clones.map((clone) => clone.id));
     requestCurrentStreamFrame();
   }, [getSelectedLayers]);
 
@@ -618,8 +888,7 @@ function PresenterPage() {
     const clipboard = clipboardRef.current;
     if (!clipboard || clipboard.length === 0) return;
     const state = useAppStore.getState();
-    const newIds: string[] = [];
-    clipboard.forEach((layer, index) => {
+    const clones = clipboard.map((layer, index) => {
       const clone: Layer = JSON.parse(JSON.stringify(layer));
       clone.id = createId("layer");
       clone.name = `${layer.name || "Layer"} Paste`;
@@ -627,18 +896,46 @@ function PresenterPage() {
         ...layer.transform,
         pos: { x: layer.transform.pos.x + 32 + index * 12, y: layer.transform.pos.y + 32 + index * 12 },
       };
-      newIds.push(clone.id);
-      state.addLayer(clone);
+      return clone;
     });
-    state.setSelection(newIds);
+    state.addLayers(clones, "Paste");
+    state.setSelection(clones.map((clone) => clone.id));
+    requestCurrentStreamFrame();
+  }, []);
+
+  const getSelectedVideoLayerId = (): string | null => {
+    const state = useAppStore.getState();
+    if (state.selection.length !== 1) return null;
+    const layer = state.getCurrentScene()?.layers.find((entry) => entry.id === state.selection[0]);
+    return layer?.type === "video" ? layer.id : null;
+  };
+
+  const toggleSelectedVideoPlayback = useCallback(() => {
+    const layerId = getSelectedVideoLayerId();
+    if (layerId) toggleVideoFilePlayback(layerId);
+  }, []);
+
+  const seekSelectedVideo = useCallback((deltaSeconds: number) => {
+    const layerId = getSelectedVideoLayerId();
+    const video = layerId ? getVideoFileElement(layerId) : null;
+    if (!layerId || !video) return;
+    seekVideoFile(layerId, video.currentTime + deltaSeconds);
     requestCurrentStreamFrame();
   }, []);
 
+  const toggleSelectedVideoMute = useCallback(() => {
+    const state = useAppStore.getState();
+    const layerId = getSelectedVideoLayerId();
+    const layer = layerId ? state.getCurrentScene()?.layers.find((entry) => entry.id === layerId) : null;
+    if (!layer || layer.type !== "video") return;
+    state.updateLayer(layer.id, { muted: !layer.muted });
+  }, []);
+
   const toggleVisibilityForSelection = useCallback(() => {
     const layers = getSelectedLayers();
     if (layers.length === 0) return;
     const state = useAppStore.getState();
-    layers.forEach((layer) => state.updateLayer(layer.id, { visible: !layer.visible }));
+    state.updateLayers(layers.map((layer) => ({ id: layer.id, changes: { visible: !layer.visible } })));
     requestCurrentStreamFrame();
   }, [getSelectedLayers]);
 
@@ -646,7 +943,7 @@ function PresenterPage() {
     const layers = getSelectedLayers();
     if (layers.length === 0) return;
     const state = useAppStore.getState();
-    layers.forEach((layer) => state.updateLayer(layer.id, { locked: !layer.locked }));
+    state.updateLayers(layers.map((layer) => ({ id: layer.id, changes: { locked: !layer.locked } })));
     requestCurrentStreamFrame();
   }, [getSelectedLayers]);
 
@@ -654,10 +951,8 @@ function PresenterPage() {
     const state = useAppStore.getState();
     const ids = state.selection;
     if (ids.length === 0) return;
-    ids.forEach((id) => {
-      stopSource(id);
-      state.removeLayer(id);
-    });
+    ids.forEach((id) => stopSource(id));
+    state.removeLayers(ids);
     state.setSelection([]);
     requestCurrentStreamFrame();
   }, []);
@@ -681,6 +976,15 @@ function PresenterPage() {
     }
   }, [isPresentationMode, showControlStrip]);
 
+  const switchToSceneAt = useCallback((index: number) => {
+    const state = useAppStore.getState();
+    const collection = state.currentCollectionId ? state.collections[state.currentCollectionId] : null;
+    const sceneId = collection?.sceneIds[index];
+    if (!sceneId) return;
+    state.switchScene(sceneId);
+    requestCurrentStreamFrame();
+  }, []);
+
   const toggleConfidencePreview = useCallback(() => {
     if (!isConfidencePreviewVisible) {
       const stream = ensureCanvasStream();
@@ -693,11 +997,57 @@ function PresenterPage() {
     showControlStrip();
   }, [ensureCanvasStream, isConfidencePreviewVisible, showControlStrip]);
 
+  // Canvas tools are mutually exclusive.
+  const toggleDrawMode = useCallback(() => {
+    setCanvasTool(useAnnotationStore.getState().active ? null : "draw");
+  }, []);
+
+  const toggleLaserPointer = useCallback(() => {
+    setCanvasTool(useLaserPointerStore.getState().active ? null : "pointer");
+  }, []);
+
+  const toggleZoomTool = useCallback(() => {
+    setCanvasTool(useViewportToolStore.getState().zoomActive ? null : "zoom");
+  }, []);
+
+  const toggleSpotlight = useCallback(() => {
+    setCanvasTool(useViewportToolStore.getState().spotlightActive ? null : "spotlight");
+  }, []);
+
+  const resetProgramZoom = useCallback(() => {
+    const state = useAppStore.getState();
+    const programScene = state.studioMode ? state.programScene : state.getCurrentScene();
+    if (programScene) setZoomRegion(programScene, null);
+  }, []);
+
   useEffect(() => {
     const hotkeys: KeyBindingMap = {
       f: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); togglePresentationMode(); },
-      Escape: (e: KeyboardEvent) => { if (!isPresentationMode) return; e.preventDefault(); exitPresentationMode(); },
+      Escape: (e: KeyboardEvent) => {
+        if (getCanvasTool() !== null && !isTextInputTarget(e)) {
+          e.preventDefault();
+          setCanvasTool(null);
+          return;
+        }
+        if (isViewportZoomed() && !isTextInputTarget(e)) {
+          e.preventDefault();
+          resetProgramZoom();
+          return;
+        }
+        if (!isPresentationMode) return;
+        e.preventDefault();
+        exitPresentationMode();
+      },
+      d: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); toggleDrawMode(); },
+      x: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); toggleLaserPointer(); },
+      z: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); toggleZoomTool(); },
+      s: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); toggleSpotlight(); },
+      "0": (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); resetProgramZoom(); },
       p: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); toggleConfidencePreview(); },
+      h: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); setIsHistoryOpen((open) => !open); },
+      g: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); useLayoutAidsStore.getState().toggleGrid(); },
+      r: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); useLayoutAidsStore.getState().toggleRulers(); },
+      "`": (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); setIsPerfHudOpen((open) => !open); },
       ArrowLeft: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); nudgeSelection(-1, 0); },
       ArrowRight: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); nudgeSelection(1, 0); },
       ArrowUp: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); nudgeSelection(0, -1); },
@@ -712,11 +1062,19 @@ function PresenterPage() {
       "$mod+z": (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); undo(); },
       "$mod+Shift+z": (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); redo(); },
       "$mod+y": (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); redo(); },
+      t: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); takePreview(); },
       v: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); toggleVisibilityForSelection(); },
       l: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); toggleLockForSelection(); },
+      k: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); toggleSelectedVideoPlayback(); },
+      m: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); toggleSelectedVideoMute(); },
+      ",": (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); seekSelectedVideo(-5); },
+      ".": (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); seekSelectedVideo(5); },
       Delete: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); deleteSelection(); },
       Backspace: (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); deleteSelection(); },
     };
+    for (let index = 0; index < 9; index += 1) {
+      hotkeys[String(index + 1)] = (e: KeyboardEvent) => { if (isTextInputTarget(e)) return; e.preventDefault(); switchToSceneAt(index); };
+    }
     const unsubscribe = tinykeys(window, hotkeys);
     return () => unsubscribe();
   }, [
@@ -726,10 +1084,20 @@ function PresenterPage() {
     isPresentationMode,
     nudgeSelection,
     pasteClipboardLayers,
+    seekSelectedVideo,
+    switchToSceneAt,
+    takePreview,
     toggleConfidencePreview,
     toggleLockForSelection,
     togglePresentationMode,
+    toggleSelectedVideoMute,
+    toggleSelectedVideoPlayback,
     toggleVisibilityForSelection,
+    toggleDrawMode,
+    toggleLaserPointer,
+    toggleZoomTool,
+    toggleSpotlight,
+    resetProgramZoom,
     undo,
     redo,
   ]);
@@ -746,12 +1114,26 @@ function PresenterPage() {
         return;
       }
       try {
+        const { openCollection } = useAppStore.getState();
+        const [latestCollection] = await loadCollections();
+        if (latestCollection) {
+          const loaded = await Promise.all(latestCollection.sceneIds.map((id) => loadScene(id)));
+          openCollection(latestCollection, loaded.filter((scene): scene is Scene => Boolean(scene)));
+          return;
+        }
         const mostRecent = await loadMostRecentScene();
         if (mostRecent && mostRecent.id) {
-          useAppStore.setState((state) => ({
-            scenes: { ...state.scenes, [mostRecent.id!]: mostRecent },
-            currentSceneId: mostRecent.id,
-          }));
+          // Scenes saved before classes existed are wrapped in a default class.
+          openCollection(
+            {
+              id: createId("class"),
+              name: DEFAULT_COLLECTION_NAME,
+              sceneIds: [mostRecent.id],
+              activeSceneId: mostRecent.id,
+              transition: { ...DEFAULT_SCENE_TRANSITION },
+            },
+            [mostRecent]
+          );
         } else {
           createScene();
         }
@@ -785,6 +1167,18 @@ function PresenterPage() {
     };
   }, []);
 
+  // Viewers get the mixer bus at host start; a rebuilt bus is swapped in.
+  useEffect(
+    () =>
+      subscribeProgramAudioStream((stream) => {
+        if (!hostRef.current) return;
+        replaceHostAudioTrack(stream.getAudioTracks()[0] ?? null).catch((err) =>
+          console.warn("[programAudio] Failed to send the new bus to viewers", err)
+        );
+      }),
+    []
+  );
+
   // === Go Live ===
   const HOST_ID = "host-123";
 
@@ -797,6 +1191,8 @@ function PresenterPage() {
   const handleGoLive = useCallback(async () => {
     if (hostingRef.current) return; // de-dupe rapid clicks
     setLiveError(null);
+    // Unlock the program audio bus while we still hold the click gesture.
+    void resumeProgramAudio();
 
     try {
       // 1) Ensure a session exists in Firestore
@@ -842,7 +1238,7 @@ function PresenterPage() {
       hostRef.current = await startHost(s.id, {
         displayStream,
         requireDisplay: false,   // do NOT prompt; we'll capture only from the ScreenShare control
-        sendAudio: false,        // optional: change to true if you want mic on at Go Live
+        micStream: getProgramAudioStream(), // mixer output (mic, screen audio, video clips, SFX)
         loadingText: "Waiting for presenter…",
       });
       console.log("✅ [handleGoLive] WebRTC host started");
@@ -1019,18 +1415,59 @@ function PresenterPage() {
           onLayoutChange={handleCanvasLayoutChange}
           skipLayerIds={editingTextId ? [editingTextId] : undefined}
         />
-        {canvasLayout && (
+        <ProgramCanvas ref={programCanvasRef} fps={outputProfile.fps} />
+        {studioMode && canvasLayout && (
+          <div
+            style={{
+              position: "fixed",
+              left: canvasLayout.x + 12,
+              top: canvasLayout.y + 12,
+              zIndex: 9,
+              padding: "4px 10px",
+              borderRadius: 6,
+              background: "rgba(34,197,94,0.85)",
+              color: "#0a0a0a",
+              fontSize: 11,
+              fontWeight: 700,
+              letterSpacing: "0.08em",
+              textTransform: "uppercase",
+              pointerEvents: "none",
+            }}
+          >
+            Preview
+          </div>
+        )}
+        {canvasLayout && !(isProgramZoomed && isViewportOnCanvas) && (
           <CanvasSelectionOverlay
             layout={canvasLayout}
             scene={currentScene}
             skipLayerIds={editingTextId ? [editingTextId] : undefined}
           />
         )}
-        {canvasLayout && currentScene && groupTransformIds.length > 0 && (
+        {canvasLayout && currentScene && isDrawing && (
+          <>
+            <AnnotationOverlay layout={canvasLayout} scene={currentScene} viewportApplied={isViewportOnCanvas} />
+            <AnnotationToolbar layout={canvasLayout} scene={currentScene} />
+          </>
+        )}
+        {canvasLayout && currentScene && isPointing && (
+          <LaserPointerOverlay layout={canvasLayout} scene={currentScene} viewportApplied={isViewportOnCanvas} />
+        )}
+        {canvasLayout && currentScene && (isZooming || isSpotlighting) && (
+          <ViewportToolOverlay
+            layout={canvasLayout}
+            scene={currentScene}
+            tool={isZooming ? "zoom" : "spotlight"}
+            viewportApplied={isViewportOnCanvas}
+          />
+        )}
+        {canvasLayout && currentScene && !hideEditingOverlays && groupTransformIds.length > 0 && (
           <GroupTransformControls layout={canvasLayout} scene={currentScene} layerIds={groupTransformIds} />
         )}
       </div>
 
+      {!isPresentationMode && <SceneSwitcher />}
+
       {isSceneLoading && (
         <div
           style={{
@@ -1067,7 +1504,9 @@ function PresenterPage() {
           onAddCamera={addCameraLayer}
           onAddText={addTextLayer}
           onAddImage={addImageLayer}
+          onAddVideo={addVideoLayer}
           onAddShape={addShapeLayer}
+          onAddTimer={addTimerLayer}
         />
       </FloatingPanel>
 
@@ -1075,9 +1514,9 @@ function PresenterPage() {
         currentScene &&
         selectedLayer &&
         selectionLength === 1 &&
+        !hideEditingOverlays &&
         selectedLayer.type !== "group" &&
         !selectedLayer.locked &&
-        selectedLayer.type !== "screen" &&
         !isEditingSelectedText && (
           <TransformControls
             layout={canvasLayout}
@@ -1103,7 +1542,32 @@ function PresenterPage() {
           />
         )}
 
+      {isMixerOpen && (
+        <FloatingPanel
+          title="Audio Mixer"
+          position={mixerPosition}
+          size={MIXER_PANEL_SIZE}
+          onPositionChange={setMixerPosition}
+        >
+          <MixerPanel />
+        </FloatingPanel>
+      )}
+
+      {isHistoryOpen && (
+        <FloatingPanel
+          title="History"
+          position={historyPosition}
+          size={HISTORY_PANEL_SIZE}
+          onPositionChange={setHistoryPosition}
+        >
+          <HistoryPanel />
+        </FloatingPanel>
+      )}
+
+      {isPerfHudOpen && <PerfHud onClose={() => setIsPerfHudOpen(false)} />}
+
       <input ref={fileInputRef} type="file" accept="image/*" style={{ display: "none" }} />
+      <input ref={videoInputRef} type="file" accept="video/*" style={{ display: "none" }} />
 
       <ControlStrip
         visible={controlStripShouldBeVisible}
@@ -1113,6 +1577,25 @@ function PresenterPage() {
         confidenceActive={isConfidencePreviewVisible}
         onOpenViewer={openViewer}
         viewerOpen={isViewerOpen}
+        recording={recording}
+        onToggleRecording={toggleRecording}
+        onToggleRecordingPause={toggleRecordingPause}
+        onToggleMixer={() => {
+          void resumeProgramAudio();
+          setIsMixerOpen((open) => !open);
+        }}
+        mixerOpen={isMixerOpen}
+        onToggleHistory={() => setIsHistoryOpen((open) => !open)}
+        historyOpen={isHistoryOpen}
+        onToggleDraw={toggleDrawMode}
+        drawActive={isDrawing}
+        onTogglePointer={toggleLaserPointer}
+        pointerActive={isPointing}
+        onToggleZoom={toggleZoomTool}
+        zoomActive={isZooming}
+        onResetZoom={isProgramZoomed ? resetProgramZoom : undefined}
+        onToggleSpotlight={toggleSpotlight}
+        spotlightActive={isSpotlighting}
       />
 
       <ConfidencePreview
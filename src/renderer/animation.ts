@@ -0,0 +1,316 @@
+/**
+ * Keyframe evaluation and per-scene animation clocks.
+ */
+
+import type {
+  Keyframe,
+  KeyframeEasing,
+  KeyframeTrackName,
+  Layer,
+  Scene,
+  Transform,
+  TransformKeyframes,
+} from '../types/scene';
+
+export const KEYFRAME_TRACKS: KeyframeTrackName[] = ['position', 'scale', 'rotation', 'opacity'];
+
+export interface SceneClock {
+  /** `performance.now()` timestamp of scene time zero */
+  startedAt: number;
+  /** Scene time the clock is frozen at, if paused */
+  pausedAt: number | null;
+}
+
+const clocks = new Map<string, SceneClock>();
+const clockListeners = new Set<() => void>();
+
+function notifyClocks(): void {
+  clockListeners.forEach((listener) => listener());
+}
+
+function now(): number {
+  return typeof performance !== 'undefined' && typeof performance.now === 'function'
+    ? performance.now()
+    : Date.now();
+}
+
+function getClock(sceneId: string): SceneClock {
+  let clock = clocks.get(sceneId);
+  if (!clock) {
+    clock = { startedAt: now(), pausedAt: null };
+    clocks.set(sceneId, clock);
+    notifyClocks();
+  }
+  return clock;
+}
+
+/**
+ * Milliseconds elapsed on a scene's clock. Clocks start the first time they
+ * are read and restart whenever the scene goes live.
+ */
+export function getSceneTime(sceneId: string | undefined): number {
+  if (!sceneId) return 0;
+  const clock = getClock(sceneId);
+  return clock.pausedAt ?? now() - clock.startedAt;
+}
+
+/**
+ * Restart a scene's clock from zero, keeping its paused state.
+ */
+export function restartSceneClock(sceneId: string | undefined): void {
+  seekSceneClock(sceneId, 0);
+}
+
+/**
+ * Move a scene's clock to a specific time.
+ */
+export function seekSceneClock(sceneId: string | undefined, timeMs: number): void {
+  if (!sceneId) return;
+  const clock = getClock(sceneId);
+  const time = Math.max(0, timeMs);
+  if (clock.pausedAt !== null) {
+    clock.pausedAt = time;
+  } else {
+    clock.startedAt = now() - time;
+  }
+  notifyClocks();
+}
+
+/**
+ * Pause or resume a scene's clock.
+ */
+export function setSceneClockPaused(sceneId: string | undefined, paused: boolean): void {
+  if (!sceneId) return;
+  const clock = getClock(sceneId);
+  if (paused && clock.pausedAt === null) {
+    clock.pausedAt = now() - clock.startedAt;
+  } else if (!paused && clock.pausedAt !== null) {
+    clock.startedAt = now() - clock.pausedAt;
+    clock.pausedAt = null;
+  }
+  notifyClocks();
+}
+
+/**
+ * Subscribe to clocks starting, seeking, pausing or resuming.
+ */
+export function subscribeSceneClocks(listener: () => void): () => void {
+  clockListeners.add(listener);
+  return () => {
+    clockListeners.delete(listener);
+  };
+}
+
+/**
+ * Copy of every scene clock, keyed by scene ID.
+ */
+export function getSceneClocks(): Record<string, SceneClock> {
+  return Object.fromEntries(Array.from(clocks, ([sceneId, clock]) => [sceneId, { ...clock }]));
+}
+
+/**
+ * Replace every scene clock (the program worker mirrors the main thread's).
+ */
+export function setSceneClocks(next: Record<string, SceneClock>): void {
+  clocks.clear();
+  Object.entries(next).forEach(([sceneId, clock]) => clocks.set(sceneId, { ...clock }));
+}
+
+export function isSceneClockPaused(sceneId: string | undefined): boolean {
+  return sceneId ? clocks.get(sceneId)?.pausedAt != null : false;
+}
+
+/**
+ * Whether a transform has at least one non-empty keyframe track.
+ */
+export function hasKeyframes(transform: Transform): boolean {
+  const keyframes = transform.keyframes;
+  if (!keyframes) return false;
+  return KEYFRAME_TRACKS.some((track) => (keyframes[track]?.length ?? 0) > 0);
+}
+
+export function sceneHasAnimation(scene: Scene | null): boolean {
+  return !!scene && scene.layers.some((layer) => layer.visible && hasKeyframes(layer.transform));
+}
+
+/**
+ * Time of the last key across all tracks.
+ */
+export function getKeyframesDuration(keyframes: TransformKeyframes | undefined): number {
+  if (!keyframes) return 0;
+  let duration = 0;
+  for (const track of KEYFRAME_TRACKS) {
+    for (const key of keyframes[track] ?? []) {
+      duration = Math.max(duration, key.time);
+    }
+  }
+  return duration;
+}
+
+function ease(easing: KeyframeEasing | undefined, t: number): number {
+  switch (easing) {
+    case 'ease-in':
+      return t * t;
+    case 'ease-out':
+      return 1 - (1 - t) * (1 - t);
+    case 'ease-in-out':
+      return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+    case 'hold':
+      return 0;
+    case 'linear':
+    default:
+      return t;
+  }
+}
+
+/**
+ * Interpolate a track at `time`. Keys are expected sorted by time.
+ */
+function sampleTrack<T>(
+  keys: Keyframe<T>[],
+  time: number,
+  lerp: (a: T, b: T, t: number) => T
+): T {
+  if (time <= keys[0].time) return keys[0].value;
+  const last = keys[keys.length - 1];
+  if (time >= last.time) return last.value;
+
+  for (let i = 0; i < keys.length - 1; i += 1) {
+    const from = keys[i];
+    const to = keys[i + 1];
+    if (time < to.time) {
+      const span = to.time - from.time;
+      const t = span > 0 ? (time - from.time) / span : 1;
+      return lerp(from.value, to.value, ease(from.easing, t));
+    }
+  }
+  return last.value;
+}
+
+const lerpNumber = (a: number, b: number, t: number) => a + (b - a) * t;
+const lerpPoint = (a: { x: number; y: number }, b: { x: number; y: number }, t: number) => ({
+  x: lerpNumber(a.x, b.x, t),
+  y: lerpNumber(a.y, b.y, t),
+});
+
+/**
+ * Resolve a transform's keyframe tracks at a scene time. Returns the input
+ * unchanged when it has no keys.
+ */
+export function evaluateTransform(transform: Transform, timeMs: number): Transform {
+  const keyframes = transform.keyframes;
+  if (!keyframes || !hasKeyframes(transform)) return transform;
+
+  const duration = getKeyframesDuration(keyframes);
+  const time = keyframes.loop && duration > 0 ? timeMs % duration : timeMs;
+
+  const { position, scale, rotation, opacity } = keyframes;
+  return {
+    ...transform,
+    pos: position?.length ? sampleTrack(position, time, lerpPoint) : transform.pos,
+    scale: scale?.length ? sampleTrack(scale, time, lerpPoint) : transform.scale,
+    rot: rotation?.length ? sampleTrack(rotation, time, lerpNumber) : transform.rot,
+    opacity: opacity?.length
+      ? Math.min(1, Math.max(0, sampleTrack(opacity, time, lerpNumber)))
+      : transform.opacity,
+  };
+}
+
+/**
+ * Layer with its transform resolved at a scene time.
+ */
+export function evaluateLayer<T extends Layer>(layer: T, timeMs: number): T {
+  const transform = evaluateTransform(layer.transform, timeMs);
+  return transform === layer.transform ? layer : { ...layer, transform };
+}
+
+function upsert<T>(keys: Keyframe<T>[] | undefined, key: Keyframe<T>): Keyframe<T>[] {
+  const existing = (keys ?? []).find((entry) => entry.time === key.time);
+  const next = (keys ?? []).filter((entry) => entry.time !== key.time);
+  next.push({ ...key, easing: key.easing ?? existing?.easing });
+  return next.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Add (or replace) a key on `track` at `timeMs`, capturing the transform's
+ * current static value for that track.
+ */
+export function setKeyframeFromTransform(
+  transform: Transform,
+  track: KeyframeTrackName,
+  timeMs: number
+): TransformKeyframes {
+  const keyframes = transform.keyframes ?? {};
+  const time = Math.max(0, Math.round(timeMs));
+  switch (track) {
+    case 'position':
+      return { ...keyframes, position: upsert(keyframes.position, { time, value: { ...transform.pos } }) };
+    case 'scale':
+      return { ...keyframes, scale: upsert(keyframes.scale, { time, value: { ...transform.scale } }) };
+    case 'rotation':
+      return { ...keyframes, rotation: upsert(keyframes.rotation, { time, value: transform.rot }) };
+    case 'opacity':
+    default:
+      return { ...keyframes, opacity: upsert(keyframes.opacity, { time, value: transform.opacity }) };
+  }
+}
+
+/**
+ * Apply `update` to the key at `index` on `track`; returning null removes it.
+ */
+export function updateKeyframe(
+  keyframes: TransformKeyframes,
+  track: KeyframeTrackName,
+  index: number,
+  update: (key: Keyframe<unknown>) => { time?: number; easing?: KeyframeEasing } | null
+): TransformKeyframes {
+  const keys = (keyframes[track] ?? []) as Keyframe<unknown>[];
+  const next: Keyframe<unknown>[] = [];
+  keys.forEach((key, keyIndex) => {
+    if (keyIndex !== index) {
+      next.push(key);
+      return;
+    }
+    const patch = update(key);
+    if (patch) {
+      next.push({ ...key, ...patch });
+    }
+  });
+  next.sort((a, b) => a.time - b.time);
+  // Each track only differs in its value type, which `update` never touches.
+  return { ...keyframes, [track]: next.length > 0 ? next : undefined } as TransformKeyframes;
+}
+
+const samePoint = (a: { x: number; y: number }, b: { x: number; y: number }) => a.x === b.x && a.y === b.y;
+
+/**
+ * Write an edit made to the transform as evaluated at `timeMs` back onto
+ * `transform`. Keyed tracks whose value changed get a key at that time (their
+ * static value would be ignored); unkeyed fields are written directly.
+ */
+export function applyTransformEdit(transform: Transform, edited: Transform, timeMs: number): Transform {
+  const source = transform.keyframes;
+  if (!source || !hasKeyframes(transform)) return edited;
+
+  const current = evaluateTransform(transform, timeMs);
+  const duration = getKeyframesDuration(source);
+  const time = source.loop && duration > 0 ? timeMs % duration : timeMs;
+  let keyframes = source;
+  const resolve = <K extends 'pos' | 'scale' | 'rot' | 'opacity'>(
+    track: KeyframeTrackName,
+    field: K,
+    changed: boolean
+  ): Transform[K] => {
+    if (!source[track]?.length) return edited[field];
+    if (changed) {
+      keyframes = setKeyframeFromTransform({ ...edited, keyframes }, track, time);
+    }
+    return transform[field];
+  };
+
+  const pos = resolve('position', 'pos', !samePoint(edited.pos, current.pos));
+  const scale = resolve('scale', 'scale', !samePoint(edited.scale, current.scale));
+  const rot = resolve('rotation', 'rot', edited.rot !== current.rot);
+  const opacity = resolve('opacity', 'opacity', edited.opacity !== current.opacity);
+  return { ...edited, pos, scale, rot, opacity, keyframes };
+}
@@ -2,30 +2,62 @@
  * Canvas renderer for drawing scenes and layers.
  */
 
-import type { Scene } from '../types/scene';
+import type { Scene, SceneTransitionKind, SlideDirection } from '../types/scene';
 import {
   drawScreenLayer,
   drawCameraLayer,
+  drawVideoLayer,
   drawImageLayer,
   drawTextLayer,
   drawShapeLayer,
+  drawAnnotationLayer,
+  drawTimerLayer,
   drawGroupLayer,
+  releaseIdleAnnotationSurfaces,
 } from './drawLayer';
+import { evaluateLayer, getSceneTime } from './animation';
+import { getLayerPaintRect, rectsIntersect, type DirtyRect } from './dirtyRegions';
+import { isSamplingFrame, recordLayerTime } from './frameProfiler';
+import { applyViewportTransform, drawSpotlight, type ViewportFrame } from './viewport';
+import type { RenderContext } from './renderResources';
 
 /**
- * Draw a complete scene to a canvas context.
- * 
- * @param scene - Scene to draw
- * @param ctx - Canvas 2D rendering context
+ * A single frame of a scene transition, rendered between the outgoing and
+ * incoming scene.
  */
+export interface SceneTransitionFrame {
+  /** Outgoing scene */
+  from: Scene;
+  /** Transition style */
+  kind: SceneTransitionKind;
+  /** Entry edge for slide transitions */
+  direction?: SlideDirection;
+  /** Linear progress from 0 (outgoing only) to 1 (incoming only) */
+  progress: number;
+}
+
 interface DrawSceneOptions {
   skipLayerIds?: string[];
-  dirtyRect?: { x: number; y: number; width: number; height: number };
+  /** Redraw only this part of the scene */
+  dirtyRect?: DirtyRect;
+  /** Blend from another scene while a transition is playing */
+  transition?: SceneTransitionFrame | null;
+  /** Scene clock time for keyframes; defaults to the scene's own clock */
+  sceneTime?: number;
+  /** Camera zoom and spotlight applied over the whole frame */
+  viewport?: ViewportFrame | null;
 }
 
+/**
+ * Draw a complete scene to a canvas context.
+ * 
+ * @param scene - Scene to draw
+ * @param ctx - Canvas 2D rendering context
+ * @param options - Optional clipping, skipped layers, transition frame, clock time and viewport
+ */
 export function drawScene(
   scene: Scene | null,
-  ctx: CanvasRenderingContext2D,
+  ctx: RenderContext,
   options: DrawSceneOptions = {}
 ): void {
   const dirtyRect = options.dirtyRect;
@@ -55,6 +87,112 @@ export function drawScene(
     return;
   }
 
+  releaseIdleAnnotationSurfaces();
+
+  const skipSet = new Set(options.skipLayerIds ?? []);
+  const transition = options.transition;
+  const sceneTime = options.sceneTime ?? getSceneTime(scene.id);
+  const viewport = options.viewport;
+
+  // The viewport is a camera over the finished frame; layers are untouched.
+  ctx.save();
+  if (viewport) {
+    applyViewportTransform(ctx, scene, viewport.zoom);
+  }
+
+  if (transition && transition.kind !== 'cut' && transition.progress < 1) {
+    drawTransitionFrame(scene, ctx, transition, skipSet, sceneTime);
+  } else {
+    // Layers outside a partial redraw are skipped; under zoom the clip is in
+    // canvas space, so everything is drawn.
+    const cullRect = shouldClip && !viewport && !coversScene(dirtyRect, scene) ? dirtyRect : null;
+    drawSceneContents(scene, ctx, skipSet, sceneTime, cullRect);
+  }
+
+  if (viewport?.spotlight) {
+    drawSpotlight(ctx, scene, viewport.spotlight);
+  }
+  ctx.restore();
+
+  if (shouldClip) {
+    ctx.restore();
+  }
+}
+
+/**
+ * Draw the outgoing and incoming scenes for one transition frame.
+ */
+function drawTransitionFrame(
+  scene: Scene,
+  ctx: RenderContext,
+  transition: SceneTransitionFrame,
+  skipSet: Set<string>,
+  sceneTime: number
+): void {
+  const t = easeInOut(Math.min(1, Math.max(0, transition.progress)));
+  const fromTime = getSceneTime(transition.from.id);
+
+  if (transition.kind === 'fade') {
+    drawSceneContents(transition.from, ctx, skipSet, fromTime);
+    ctx.save();
+    ctx.globalAlpha *= t;
+    drawSceneContents(scene, ctx, skipSet, sceneTime);
+    ctx.restore();
+    return;
+  }
+
+  // Slide: the incoming scene pushes the outgoing one off the opposite edge.
+  const { dx, dy } = slideVector(transition.direction ?? 'left', scene.width, scene.height);
+  ctx.save();
+  ctx.translate(-dx * t, -dy * t);
+  drawSceneContents(transition.from, ctx, skipSet, fromTime);
+  ctx.restore();
+  ctx.save();
+  ctx.translate(dx * (1 - t), dy * (1 - t));
+  drawSceneContents(scene, ctx, skipSet, sceneTime);
+  ctx.restore();
+}
+
+/**
+ * Offset of the incoming scene at the start of a slide.
+ */
+function slideVector(
+  direction: SlideDirection,
+  width: number,
+  height: number
+): { dx: number; dy: number } {
+  switch (direction) {
+    case 'right':
+      return { dx: -width, dy: 0 };
+    case 'up':
+      return { dx: 0, dy: height };
+    case 'down':
+      return { dx: 0, dy: -height };
+    case 'left':
+    default:
+      return { dx: width, dy: 0 };
+  }
+}
+
+function easeInOut(t: number): number {
+  return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+}
+
+function coversScene(rect: DirtyRect, scene: Scene): boolean {
+  return rect.x <= 0 && rect.y <= 0 && rect.x + rect.width >= scene.width && rect.y + rect.height >= scene.height;
+}
+
+/**
+ * Draw a scene's background and layers without any clipping. With
+ * `cullRect`, layers that paint nothing inside it are skipped.
+ */
+function drawSceneContents(
+  scene: Scene,
+  ctx: RenderContext,
+  skipSet: Set<string>,
+  sceneTime: number,
+  cullRect: DirtyRect | null = null
+): void {
   // Fill canvas with a visible background (lighter than page background)
   // This ensures we can see the canvas even when there are no layers
   ctx.fillStyle = '#2a2a2a';
@@ -107,12 +245,15 @@ export function drawScene(
   const sortedLayers = [...scene.layers].sort((a, b) => a.z - b.z);
 
   // Draw each layer
-  const skipSet = new Set(options.skipLayerIds ?? []);
-
-  for (const layer of sortedLayers) {
+  for (const sceneLayer of sortedLayers) {
     // Skip invisible layers
-    if (!layer.visible) continue;
-    if (skipSet.has(layer.id)) continue;
+    if (!sceneLayer.visible) continue;
+    if (skipSet.has(sceneLayer.id)) continue;
+
+    // Resolve keyframe tracks against the scene clock
+    const layer = evaluateLayer(sceneLayer, sceneTime);
+    if (cullRect && !rectsIntersect(getLayerPaintRect(layer, scene), cullRect)) continue;
+    const drawStartedAt = isSamplingFrame() ? performance.now() : 0;
 
     // Skip locked layers (optional, but good practice)
     // Actually, locked layers should still render, just not be editable
@@ -125,6 +266,9 @@ export function drawScene(
       case 'camera':
         drawCameraLayer(ctx, layer);
         break;
+      case 'video':
+        drawVideoLayer(ctx, layer);
+        break;
       case 'image':
         drawImageLayer(ctx, layer);
         break;
@@ -134,6 +278,12 @@ export function drawScene(
       case 'shape':
         drawShapeLayer(ctx, layer);
         break;
+      case 'annotation':
+        drawAnnotationLayer(ctx, layer);
+        break;
+      case 'timer':
+        drawTimerLayer(ctx, layer);
+        break;
       case 'group':
         // Groups will be handled recursively in a future iteration
         drawGroupLayer(ctx, layer);
@@ -142,10 +292,10 @@ export function drawScene(
         // Unknown layer type, skip
         console.warn('Unknown layer type:', layer);
     }
-  }
 
-  if (shouldClip) {
-    ctx.restore();
+    if (drawStartedAt) {
+      recordLayerTime(layer.id, performance.now() - drawStartedAt);
+    }
   }
 }
 
@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getLayerPaintRect } from './dirtyRegions';
+import { setRenderResources, type LayerFrame } from './renderResources';
+import { createScreenLayer } from '../layers/factory';
+import type { Scene } from '../types/scene';
+
+const scene: Scene = { id: 'scene', width: 1920, height: 1080, layers: [] };
+
+function setCaptureFrame(frame: LayerFrame | null): void {
+  setRenderResources({
+    getCaptureFrame: () => frame,
+    getVideoFileFrame: () => null,
+    getImage: () => null,
+    ensureFont: () => {},
+  });
+}
+
+describe('getLayerPaintRect', () => {
+  afterEach(() => setCaptureFrame(null));
+
+  it('sizes a screen layer by its capture frame, not the scene', () => {
+    setCaptureFrame({ image: {} as CanvasImageSource, width: 2560, height: 1440, version: 1 });
+    const layer = createScreenLayer('screen', scene.width, scene.height);
+    layer.transform = { ...layer.transform, scale: { x: 0.5, y: 0.5 } };
+
+    // 1280×720 drawn around the scene center, plus the antialiasing margin
+    expect(getLayerPaintRect(layer, scene)).toEqual({ x: 316, y: 176, width: 1288, height: 728 });
+  });
+
+  it('falls back to the scene size before a screen frame arrives', () => {
+    const layer = createScreenLayer('screen', scene.width, scene.height);
+    layer.transform = { ...layer.transform, scale: { x: 0.5, y: 0.5 } };
+
+    expect(getLayerPaintRect(layer, scene)).toEqual({ x: 476, y: 266, width: 968, height: 548 });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Dirty-region tracking: which part of the frame changed since the last one
+ * was drawn.
+ *
+ * A layer is dirty when its store object changed, its keyframes moved it,
+ * its timer text ticked or its video produced a new frame. Both its old and
+ * new painted areas are redrawn, so a static slide with a camera bubble only
+ * repaints the bubble. Redrawing everything is cheaper than clipping once
+ * most of the scene is dirty, so large regions fall back to a full frame.
+ */
+
+import type { Layer, Scene, Transform } from '../types/scene';
+import { getLayerSceneBounds, type SceneRect } from '../utils/layerGeometry';
+import { evaluateLayer, getSceneTime } from './animation';
+import { getLayerEffectsOutset } from './layerEffects';
+import { getRenderResources } from './renderResources';
+import { formatTimerText, isTimerFlashing } from './timer';
+
+export type DirtyRect = SceneRect;
+
+/** Share of the scene above which a full redraw beats a clipped one */
+const FULL_REDRAW_RATIO = 0.6;
+/** Slack for antialiased edges and strokes */
+const PAINT_MARGIN = 4;
+
+/**
+ * What a layer looked like when it was last drawn.
+ */
+interface LayerSnapshot {
+  /** Store object, compared by identity */
+  layer: Layer;
+  /** Keyframe-evaluated transform */
+  transform: Transform;
+  /** Version of the video frame shown, for media layers */
+  frameVersion: number | null;
+  /** Rendered text, for timers */
+  timerText: string | null;
+  /** Painted area; null while hidden */
+  rect: DirtyRect | null;
+}
+
+export interface DirtyRegionTracker {
+  /**
+   * Region of `scene` to redraw for the next frame, or null when nothing
+   * changed. Records the scene as drawn.
+   */
+  next(scene: Scene | null, sceneTime?: number): DirtyRect | null;
+  /** Make the next frame a full redraw, e.g. after the canvas was cleared */
+  invalidate(): void;
+}
+
+export function getFullSceneRect(scene: Scene | null): DirtyRect {
+  return { x: 0, y: 0, width: scene?.width ?? 1920, height: scene?.height ?? 1080 };
+}
+
+export function rectsIntersect(a: DirtyRect, b: DirtyRect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+export function unionRects(existing: DirtyRect | null, next: DirtyRect | null): DirtyRect | null {
+  if (!next || next.width <= 0 || next.height <= 0) return existing;
+  if (!existing) return { ...next };
+  const minX = Math.min(existing.x, next.x);
+  const minY = Math.min(existing.y, next.y);
+  const maxX = Math.max(existing.x + existing.width, next.x + next.width);
+  const maxY = Math.max(existing.y + existing.height, next.y + next.height);
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Area of the scene a layer paints, including shadows, blur and borders.
+ * Empty when the layer is entirely off-canvas.
+ */
+export function getLayerPaintRect(layer: Layer, scene: Scene): DirtyRect {
+  const bounds = getLayerSceneBounds(layer, scene);
+  const outset = PAINT_MARGIN + getLayerEffectsOutset(layer);
+  const minX = Math.max(0, bounds.x - outset);
+  const minY = Math.max(0, bounds.y - outset);
+  const maxX = Math.min(scene.width, bounds.x + bounds.width + outset);
+  const maxY = Math.min(scene.height, bounds.y + bounds.height + outset);
+  return { x: minX, y: minY, width: Math.max(0, maxX - minX), height: Math.max(0, maxY - minY) };
+}
+
+function getFrameVersion(layer: Layer): number | null {
+  const resources = getRenderResources();
+  if (layer.type === 'screen' || layer.type === 'camera') {
+    return resources.getCaptureFrame(layer.id)?.version ?? null;
+  }
+  if (layer.type === 'video') {
+    return resources.getVideoFileFrame(layer.id)?.version ?? null;
+  }
+  return null;
+}
+
+function getTimerText(layer: Layer, now: number): string | null {
+  if (layer.type !== 'timer') return null;
+  return `${formatTimerText(layer, now)}|${isTimerFlashing(layer, now)}`;
+}
+
+function sameTransform(a: Transform, b: Transform): boolean {
+  return (
+    a === b ||
+    (a.pos.x === b.pos.x &&
+      a.pos.y === b.pos.y &&
+      a.scale.x === b.scale.x &&
+      a.scale.y === b.scale.y &&
+      a.rot === b.rot &&
+      a.opacity === b.opacity)
+  );
+}
+
+function getLayoutKey(scene: Scene | null): string {
+  if (!scene) return '';
+  return `${scene.id}:${scene.width}x${scene.height}:${scene.layers.map((layer) => layer.id).join('|')}`;
+}
+
+export function createDirtyRegionTracker(): DirtyRegionTracker {
+  let snapshots = new Map<string, LayerSnapshot>();
+  let layoutKey: string | null = null;
+
+  const snapshot = (layer: Layer, scene: Scene, sceneTime: number, now: number, previous?: LayerSnapshot) => {
+    const evaluated = evaluateLayer(layer, sceneTime);
+    const frameVersion = getFrameVersion(layer);
+    const timerText = getTimerText(layer, now);
+    const unchanged =
+      !!previous &&
+      previous.layer === layer &&
+      sameTransform(previous.transform, evaluated.transform) &&
+      previous.frameVersion === frameVersion &&
+      previous.timerText === timerText;
+    const next: LayerSnapshot = {
+      layer,
+      transform: evaluated.transform,
+      frameVersion,
+      timerText,
+      // Measuring text is not free, so bounds are reused while nothing changed.
+      rect: unchanged ? previous.rect : layer.visible ? getLayerPaintRect(evaluated, scene) : null,
+    };
+    return { next, changed: !unchanged };
+  };
+
+  return {
+    next(scene, sceneTime = getSceneTime(scene?.id)) {
+      const nextLayoutKey = getLayoutKey(scene);
+      // Switching scenes, resizing or reordering touches the whole frame.
+      const full = layoutKey !== nextLayoutKey;
+      layoutKey = nextLayoutKey;
+
+      const previous = snapshots;
+      snapshots = new Map();
+      if (!scene) {
+        return full ? getFullSceneRect(null) : null;
+      }
+
+      const now = Date.now();
+      let dirty: DirtyRect | null = null;
+      for (const layer of scene.layers) {
+        const before = previous.get(layer.id);
+        const { next, changed } = snapshot(layer, scene, sceneTime, now, before);
+        snapshots.set(layer.id, next);
+        if (changed) {
+          dirty = unionRects(dirty, before?.rect ?? null);
+          dirty = unionRects(dirty, next.rect);
+        }
+      }
+
+      if (full) return getFullSceneRect(scene);
+      if (!dirty || dirty.width <= 0 || dirty.height <= 0) return null;
+      if (dirty.width * dirty.height > scene.width * scene.height * FULL_REDRAW_RATIO) {
+        return getFullSceneRect(scene);
+      }
+      return dirty;
+    },
+    invalidate() {
+      layoutKey = null;
+    },
+  };
+}
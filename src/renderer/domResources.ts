@@ -0,0 +1,28 @@
+/**
+ * Main-thread render resources: live sources and video files are read from
+ * their <video> elements, images from the image cache and fonts are added to
+ * `document.fonts`.
+ */
+
+import { getVideoForLayer } from '../media/sourceManager';
+import { getVideoFileElement } from '../media/videoFiles';
+import { getAssetImageElement, getImageElement } from './imageCache';
+import { ensureAssetFont } from './fontCache';
+import type { LayerFrame, RenderResources } from './renderResources';
+
+function getVideoFrame(video: HTMLVideoElement | null): LayerFrame | null {
+  if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return null;
+  return { image: video, width: video.videoWidth, height: video.videoHeight, version: video.currentTime };
+}
+
+export const domRenderResources: RenderResources = {
+  getCaptureFrame: (layerId) => getVideoFrame(getVideoForLayer(layerId)),
+  getVideoFileFrame: (layerId) => getVideoFrame(getVideoFileElement(layerId)),
+  getImage: (layer) => {
+    const image = layer.dataUri ? getImageElement(layer.dataUri) : getAssetImageElement(layer.assetId);
+    return image && image.complete && image.naturalWidth > 0 ? image : null;
+  },
+  ensureFont: (assetId, family) => {
+    ensureAssetFont(assetId, family);
+  },
+};
@@ -2,22 +2,58 @@
  * Layer-specific drawing functions for the canvas renderer.
  */
 
-import type { Layer } from '../types/scene';
-import { getVideoForLayer } from '../media/sourceManager';
-import { getImageElement } from './imageCache';
-import { measureTextBlock } from '../utils/layerGeometry';
+import type {
+  AnnotationStroke,
+  ArrowHeadStyle,
+  CameraLayer,
+  Layer,
+  LayerEffects,
+  ScreenLayer,
+  ShapeLayer,
+  ShapeStrokeDash,
+  TextLayer,
+  TextStyle,
+} from '../types/scene';
+import { getRenderResources, type RenderContext } from './renderResources';
+import {
+  measureRichText,
+  measureTextBlock,
+  setCanvasLetterSpacing,
+  type RichTextMetrics,
+  type TextBlockMetrics,
+} from '../utils/layerGeometry';
+import { getPrimaryFontFamily } from '../utils/richText';
+import {
+  getArrowHeadSize,
+  getArrowHeads,
+  getCalloutGeometry,
+  getCornerRadius,
+  getLineStrokeWidth,
+  getPolygonPoints,
+  getShapeStrokeWidth,
+  isLineShape,
+  type CalloutGeometry,
+} from '../utils/shapeGeometry';
+import { formatTimerText, getTimerMeasureText, isTimerFlashing } from './timer';
+import { getVisibleFrame } from '../utils/layerCrop';
+import { getFilterString, hasLayerEffects } from './layerEffects';
 
 /**
- * Apply transform to canvas context.
+ * Apply a layer's transform and effects to the canvas context.
  */
 function applyTransform(
-  ctx: CanvasRenderingContext2D,
-  transform: Layer['transform']
+  ctx: RenderContext,
+  layer: Layer
 ): void {
-  const { pos, scale, rot, opacity } = transform;
+  const { pos, scale, rot, opacity } = layer.transform;
 
   ctx.save();
-  ctx.globalAlpha = opacity;
+  // Multiply so scene-level fades (transitions) compose with layer opacity.
+  ctx.globalAlpha *= opacity;
+
+  if (hasLayerEffects(layer.effects)) {
+    applyLayerEffects(ctx, layer.effects);
+  }
 
   // Translate to position
   ctx.translate(pos.x, pos.y);
@@ -34,69 +70,224 @@ function applyTransform(
 }
 
 /**
- * Draw a screen capture layer using the live video element.
+ * Set blend mode, filter and shadow. Must run before the layer transform:
+ * canvas shadows and filters are measured in canvas pixels, so scene-pixel
+ * sizes are converted with the current canvas-to-scene scale.
+ */
+function applyLayerEffects(ctx: RenderContext, effects: LayerEffects): void {
+  const matrix = ctx.getTransform();
+  const canvasScale = Math.hypot(matrix.a, matrix.b) || 1;
+
+  if (effects.blendMode !== 'normal') {
+    ctx.globalCompositeOperation = effects.blendMode;
+  }
+  const filter = getFilterString(effects.filters, canvasScale);
+  if (filter !== 'none') {
+    ctx.filter = filter;
+  }
+  if (effects.shadow) {
+    ctx.shadowColor = effects.shadow.color;
+    ctx.shadowBlur = effects.shadow.blur * canvasScale;
+    ctx.shadowOffsetX = effects.shadow.offsetX * canvasScale;
+    ctx.shadowOffsetY = effects.shadow.offsetY * canvasScale;
+  }
+}
+
+/**
+ * Stroke the layer's border (if any) around a box centered on the origin.
+ * A radius of half the side turns a square into a circle.
+ */
+function strokeLayerBorder(
+  ctx: RenderContext,
+  layer: Layer,
+  width: number,
+  height: number,
+  radius = 0
+): void {
+  const border = layer.effects?.border;
+  if (!border || border.width <= 0) return;
+  ctx.save();
+  // Keep the outline crisp when the content is blurred.
+  ctx.filter = 'none';
+  ctx.strokeStyle = border.color;
+  ctx.lineWidth = border.width;
+  ctx.beginPath();
+  traceRoundedRect(ctx, -width / 2, -height / 2, width, height, Math.min(radius, width / 2, height / 2));
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Add a rounded rectangle to the current path.
+ */
+function traceRoundedRect(
+  ctx: RenderContext,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number
+): void {
+  // Use roundRect if available, otherwise use quadratic curves for compatibility
+  if (ctx.roundRect) {
+    ctx.roundRect(x, y, width, height, radius);
+    return;
+  }
+  ctx.moveTo(x + radius, y);
+  ctx.lineTo(x + width - radius, y);
+  ctx.quadraticCurveTo(x + width, y, x + width, y + radius);
+  ctx.lineTo(x + width, y + height - radius);
+  ctx.quadraticCurveTo(x + width, y + height, x + width - radius, y + height);
+  ctx.lineTo(x + radius, y + height);
+  ctx.quadraticCurveTo(x, y + height, x, y + height - radius);
+  ctx.lineTo(x, y + radius);
+  ctx.quadraticCurveTo(x, y, x + radius, y);
+  ctx.closePath();
+}
+
+/**
+ * Draw the cropped part of a live video frame centered on the origin,
+ * clipped to the layer's mask.
+ */
+function drawFramedVideo(
+  ctx: RenderContext,
+  video: CanvasImageSource,
+  layer: ScreenLayer | CameraLayer,
+  frameWidth: number,
+  frameHeight: number
+): void {
+  const visible = getVisibleFrame(layer, frameWidth, frameHeight);
+  const halfWidth = visible.width / 2;
+  const halfHeight = visible.height / 2;
+
+  const radius =
+    layer.mask === 'circle'
+      ? Math.min(halfWidth, halfHeight)
+      : layer.mask === 'rounded-rect'
+        ? Math.min(layer.maskRadius, halfWidth, halfHeight)
+        : 0;
+
+  if (layer.mask !== 'none') {
+    ctx.beginPath();
+    traceRoundedRect(ctx, -halfWidth, -halfHeight, visible.width, visible.height, radius);
+    // The clip would cut off a drop shadow, so cast it from the mask shape
+    // first; the opaque frame covers the fill.
+    if (layer.effects?.shadow) {
+      ctx.fillStyle = '#000000';
+      ctx.fill();
+    }
+    ctx.save();
+    ctx.clip();
+  }
+
+  ctx.drawImage(
+    video,
+    visible.x,
+    visible.y,
+    visible.width,
+    visible.height,
+    -halfWidth,
+    -halfHeight,
+    visible.width,
+    visible.height
+  );
+
+  if (layer.mask !== 'none') {
+    ctx.restore();
+  }
+  strokeLayerBorder(ctx, layer, visible.width, visible.height, radius);
+}
+
+/**
+ * Draw a screen capture layer from its latest captured frame.
  */
 export function drawScreenLayer(
-  ctx: CanvasRenderingContext2D,
+  ctx: RenderContext,
   layer: Layer
 ): void {
   if (layer.type !== 'screen') return;
 
-  applyTransform(ctx, layer.transform);
+  applyTransform(ctx, layer);
 
-  const video = getVideoForLayer(layer.id);
-  if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+  const frame = getRenderResources().getCaptureFrame(layer.id);
+  if (!frame) {
     ctx.restore();
     return;
   }
 
-  const width = video.videoWidth || 1920;
-  const height = video.videoHeight || 1080;
+  const width = frame.width || 1920;
+  const height = frame.height || 1080;
 
-  ctx.drawImage(video, -width / 2, -height / 2, width, height);
+  drawFramedVideo(ctx, frame.image, layer, width, height);
 
   ctx.restore();
 }
 
 /**
- * Draw a camera layer (rectangular, similar to screen layer).
+ * Draw a camera layer, cropped and masked (e.g. a round webcam bubble).
  */
 export function drawCameraLayer(
-  ctx: CanvasRenderingContext2D,
+  ctx: RenderContext,
   layer: Layer
 ): void {
   if (layer.type !== 'camera') return;
 
-  applyTransform(ctx, layer.transform);
+  applyTransform(ctx, layer);
 
-  const video = getVideoForLayer(layer.id);
-  if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+  const frame = getRenderResources().getCaptureFrame(layer.id);
+  if (!frame) {
     ctx.restore();
     return;
   }
 
-  const width = video.videoWidth || 1280;
-  const height = video.videoHeight || 720;
+  const width = frame.width || 1280;
+  const height = frame.height || 720;
+
+  drawFramedVideo(ctx, frame.image, layer, width, height);
+
+  ctx.restore();
+}
+
+/**
+ * Draw a video file layer at its intrinsic size, with a placeholder until the
+ * first frame is decoded.
+ */
+export function drawVideoLayer(
+  ctx: RenderContext,
+  layer: Layer
+): void {
+  if (layer.type !== 'video') return;
 
-  ctx.drawImage(video, -width / 2, -height / 2, width, height);
+  applyTransform(ctx, layer);
+
+  const frame = getRenderResources().getVideoFileFrame(layer.id);
+  if (frame) {
+    ctx.drawImage(frame.image, -layer.width / 2, -layer.height / 2, layer.width, layer.height);
+  } else {
+    ctx.fillStyle = '#333333';
+    ctx.fillRect(-layer.width / 2, -layer.height / 2, layer.width, layer.height);
+  }
+  strokeLayerBorder(ctx, layer, layer.width, layer.height);
 
   ctx.restore();
 }
 
 /**
- * Draw an image layer (placeholder for now).
+ * Draw an image layer from the asset store (or an inline data URI).
  */
 export function drawImageLayer(
-  ctx: CanvasRenderingContext2D,
+  ctx: RenderContext,
   layer: Layer
 ): void {
   if (layer.type !== 'image') return;
 
-  applyTransform(ctx, layer.transform);
+  applyTransform(ctx, layer);
 
-  if (layer.dataUri) {
-    const image = getImageElement(layer.dataUri);
-    if (image.complete && image.naturalWidth > 0) {
+  // Inline data URIs remain for scenes saved without IndexedDB.
+  const hasSource = !!layer.dataUri || layer.assetId !== 'placeholder';
+  if (hasSource) {
+    const image = getRenderResources().getImage(layer);
+    if (image) {
       ctx.drawImage(image, -layer.width / 2, -layer.height / 2, layer.width, layer.height);
     } else {
       ctx.fillStyle = '#333333';
@@ -106,56 +297,134 @@ export function drawImageLayer(
     ctx.fillStyle = '#666666';
     ctx.fillRect(-layer.width / 2, -layer.height / 2, layer.width, layer.height);
   }
+  strokeLayerBorder(ctx, layer, layer.width, layer.height);
 
   ctx.restore();
 }
 
 /**
- * Draw a text layer (placeholder for now).
+ * Draw a text layer: formatted runs, bullets and per-line alignment in a
+ * rounded box.
  */
 export function drawTextLayer(
-  ctx: CanvasRenderingContext2D,
+  ctx: RenderContext,
   layer: Layer
 ): void {
   if (layer.type !== 'text') return;
 
-  applyTransform(ctx, layer.transform);
+  if (layer.fontAssetId) {
+    // Draws with the fallback fonts until the upload is registered.
+    getRenderResources().ensureFont(layer.fontAssetId, getPrimaryFontFamily(layer.font));
+  }
+
+  applyTransform(ctx, layer);
+
+  const metrics = measureRichText(layer);
+  fillTextBackground(ctx, layer, metrics.width, metrics.height);
+  drawRichTextLines(ctx, layer, metrics);
+  strokeLayerBorder(ctx, layer, metrics.width, metrics.height, layer.borderRadius);
+
+  ctx.restore();
+}
+
+/** Bullet glyph offset from the line start, as a fraction of the font size */
+const BULLET_OFFSET_RATIO = 0.3;
+
+function drawRichTextLines(ctx: RenderContext, layer: TextLayer, metrics: RichTextMetrics): void {
+  const { fontSize, padding } = layer;
+  const halfWidth = metrics.width / 2;
+  const startY = -metrics.height / 2 + padding + metrics.lineHeight / 2;
+  const underlineOffset = fontSize * 0.4;
+  const underlineWidth = Math.max(1, fontSize / 16);
+
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'left';
+  setCanvasLetterSpacing(ctx, layer.letterSpacing ?? 0);
+
+  metrics.lines.forEach((line, index) => {
+    const y = startY + index * metrics.lineHeight;
+    let x =
+      line.align === 'left'
+        ? -halfWidth + padding
+        : line.align === 'right'
+          ? halfWidth - padding - line.width
+          : -line.width / 2;
+
+    if (line.bullet) {
+      ctx.font = `${fontSize}px ${layer.font || 'sans-serif'}`;
+      ctx.fillStyle = layer.textColor || '#ffffff';
+      ctx.fillText('•', x + fontSize * BULLET_OFFSET_RATIO, y);
+      x += metrics.bulletIndent;
+    }
 
-  const { content, fontSize, backgroundColor, borderRadius, padding, font, textColor, textAlign } = layer;
+    for (const run of line.runs) {
+      ctx.font = run.font;
+      ctx.fillStyle = run.color || '#ffffff';
+      ctx.fillText(run.text, x, y);
+      if (run.underline) {
+        ctx.fillRect(x, y + underlineOffset, run.width, underlineWidth);
+      }
+      x += run.width;
+    }
+  });
+}
+
+/** Background of an expired countdown's "on" flash phase */
+const TIMER_FLASH_COLOR = 'rgba(225, 29, 72, 0.9)';
+
+/**
+ * Draw a timer layer: countdown, stopwatch or clock in a text-styled box.
+ */
+export function drawTimerLayer(
+  ctx: RenderContext,
+  layer: Layer
+): void {
+  if (layer.type !== 'timer') return;
+
+  applyTransform(ctx, layer);
+
+  const now = Date.now();
+  const fontFamily = layer.font || 'sans-serif';
+  // Size the box from normalized digits so it stays put while counting.
+  const metrics = measureTextBlock(getTimerMeasureText(layer, now), layer.fontSize, fontFamily, layer.padding);
+  const style = isTimerFlashing(layer, now)
+    ? { ...layer, backgroundColor: TIMER_FLASH_COLOR, textColor: '#ffffff' }
+    : layer;
+  drawTextBox(ctx, style, metrics, [formatTimerText(layer, now)]);
+  strokeLayerBorder(ctx, layer, metrics.width, metrics.height, layer.borderRadius);
+
+  ctx.restore();
+}
+
+/**
+ * Fill the rounded background box of a text-styled layer, centered on the origin.
+ */
+function fillTextBackground(ctx: RenderContext, style: TextStyle, width: number, height: number): void {
+  ctx.fillStyle = style.backgroundColor;
+  ctx.beginPath();
+  traceRoundedRect(ctx, -width / 2, -height / 2, width, height, style.borderRadius);
+  ctx.fill();
+}
+
+/**
+ * Draw a rounded background box and lines of text centered on the origin.
+ */
+function drawTextBox(
+  ctx: RenderContext,
+  style: TextStyle,
+  metrics: TextBlockMetrics,
+  lines: string[]
+): void {
+  const { fontSize, padding, font, textColor, textAlign } = style;
   const fontFamily = font || 'sans-serif';
   const align = textAlign ?? 'center';
+  fillTextBackground(ctx, style, metrics.width, metrics.height);
   ctx.font = `${fontSize}px ${fontFamily}`;
-  ctx.fillStyle = backgroundColor;
   ctx.textBaseline = 'middle';
   ctx.textAlign = align;
 
-  const metrics = measureTextBlock(content, fontSize, fontFamily, padding);
-  const width = metrics.width;
-  const height = metrics.height;
-  const halfWidth = width / 2;
-  const halfHeight = height / 2;
-
-  ctx.beginPath();
-  
-  // Use roundRect if available, otherwise use arcTo for compatibility
-  if (ctx.roundRect) {
-    ctx.roundRect(-halfWidth, -halfHeight, width, height, borderRadius);
-  } else {
-    // Fallback: draw rounded rectangle manually
-    const x = -halfWidth;
-    const y = -halfHeight;
-    ctx.moveTo(x + borderRadius, y);
-    ctx.lineTo(x + width - borderRadius, y);
-    ctx.quadraticCurveTo(x + width, y, x + width, y + borderRadius);
-    ctx.lineTo(x + width, y + height - borderRadius);
-    ctx.quadraticCurveTo(x + width, y + height, x + width - borderRadius, y + height);
-    ctx.lineTo(x + borderRadius, y + height);
-    ctx.quadraticCurveTo(x, y + height, x, y + height - borderRadius);
-    ctx.lineTo(x, y + borderRadius);
-    ctx.quadraticCurveTo(x, y, x + borderRadius, y);
-    ctx.closePath();
-  }
-  ctx.fill();
+  const halfWidth = metrics.width / 2;
+  const halfHeight = metrics.height / 2;
 
   ctx.fillStyle = textColor || '#ffffff';
 
@@ -166,38 +435,333 @@ export function drawTextLayer(
       : align === 'right'
         ? halfWidth - padding
         : 0;
-  metrics.lines.forEach((line, index) => {
+  lines.forEach((line, index) => {
     const text = line === '' ? ' ' : line;
     const y = startY + index * metrics.lineHeight;
     ctx.fillText(text, x, y);
   });
-
-  ctx.restore();
 }
 
 /**
- * Draw a shape layer (rectangle).
+ * Draw a shape layer: closed shapes are filled then stroked; lines and
+ * arrows are stroked with their heads.
  */
 export function drawShapeLayer(
-  ctx: CanvasRenderingContext2D,
+  ctx: RenderContext,
   layer: Layer
 ): void {
   if (layer.type !== 'shape') return;
 
-  applyTransform(ctx, layer.transform);
+  applyTransform(ctx, layer);
+
+  const { width, height } = layer;
 
-  const { width, height, fillColor, strokeColor, strokeWidth } = layer;
+  if (isLineShape(layer.shapeType)) {
+    drawLineShape(ctx, layer);
+  } else {
+    ctx.beginPath();
+    traceShapePath(ctx, layer);
+    ctx.fillStyle = layer.fillColor;
+    ctx.fill();
+
+    const strokeWidth = getShapeStrokeWidth(layer);
+    if (layer.strokeColor && strokeWidth > 0) {
+      ctx.strokeStyle = layer.strokeColor;
+      ctx.lineWidth = strokeWidth;
+      ctx.lineJoin = 'round';
+      applyStrokeDash(ctx, layer.strokeDash, strokeWidth);
+      ctx.stroke();
+    }
+  }
+  strokeLayerBorder(ctx, layer, width, height);
+
+  ctx.restore();
+}
 
-  // Draw fill
-  ctx.fillStyle = fillColor;
-  ctx.fillRect(-width / 2, -height / 2, width, height);
+function applyStrokeDash(ctx: RenderContext, dash: ShapeStrokeDash | undefined, lineWidth: number): void {
+  if (dash === 'dashed') {
+    ctx.setLineDash([lineWidth * 3, lineWidth * 2]);
+  } else if (dash === 'dotted') {
+    // Zero-length dashes with round caps draw as dots.
+    ctx.setLineDash([0, lineWidth * 2]);
+    ctx.lineCap = 'round';
+  } else {
+    ctx.setLineDash([]);
+  }
+}
 
-  // Draw stroke if specified
-  if (strokeColor && strokeWidth) {
-    ctx.strokeStyle = strokeColor;
-    ctx.lineWidth = strokeWidth;
-    ctx.strokeRect(-width / 2, -height / 2, width, height);
+/**
+ * Add the outline of a closed shape, centered on the origin, to the path.
+ */
+function traceShapePath(ctx: RenderContext, layer: ShapeLayer): void {
+  const { width, height } = layer;
+  switch (layer.shapeType) {
+    case 'ellipse':
+      ctx.ellipse(0, 0, width / 2, height / 2, 0, 0, Math.PI * 2);
+      return;
+    case 'rounded-rect':
+      traceRoundedRect(ctx, -width / 2, -height / 2, width, height, getCornerRadius(layer));
+      return;
+    case 'polygon':
+    case 'star':
+      getPolygonPoints(layer).forEach((point, index) => {
+        if (index === 0) ctx.moveTo(point.x, point.y);
+        else ctx.lineTo(point.x, point.y);
+      });
+      ctx.closePath();
+      return;
+    case 'callout':
+      traceCallout(ctx, getCalloutGeometry(layer));
+      return;
+    default:
+      ctx.rect(-width / 2, -height / 2, width, height);
   }
+}
+
+/**
+ * Speech bubble: a rounded body with the tail spliced into its bottom edge.
+ */
+function traceCallout(ctx: RenderContext, callout: CalloutGeometry): void {
+  const { body, radius, tail } = callout;
+  const left = body.x;
+  const top = body.y;
+  const right = body.x + body.width;
+  const bottom = body.y + body.height;
+  ctx.moveTo(left + radius, top);
+  ctx.arcTo(right, top, right, bottom, radius);
+  ctx.arcTo(right, bottom, left, bottom, radius);
+  ctx.lineTo(tail[2].x, tail[2].y);
+  ctx.lineTo(tail[1].x, tail[1].y);
+  ctx.lineTo(tail[0].x, tail[0].y);
+  ctx.arcTo(left, bottom, left, top, radius);
+  ctx.arcTo(left, top, right, top, radius);
+  ctx.closePath();
+}
+
+/**
+ * Horizontal line through the layer center with optional heads at each end.
+ */
+function drawLineShape(ctx: RenderContext, layer: ShapeLayer): void {
+  const color = layer.strokeColor ?? layer.fillColor;
+  const lineWidth = getLineStrokeWidth(layer);
+  const heads = getArrowHeads(layer);
+  const headSize = getArrowHeadSize(layer);
+  const halfWidth = layer.width / 2;
+  // Stop the shaft short of filled heads so its end does not poke through the tip.
+  const inset = (style: ArrowHeadStyle) =>
+    style === 'triangle' ? headSize * 0.6 : style === 'circle' ? headSize / 4 : 0;
+
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'butt';
+  applyStrokeDash(ctx, layer.strokeDash, lineWidth);
+  ctx.beginPath();
+  ctx.moveTo(-halfWidth + inset(heads.start), 0);
+  ctx.lineTo(halfWidth - inset(heads.end), 0);
+  ctx.stroke();
+
+  ctx.setLineDash([]);
+  drawArrowHead(ctx, heads.start, -halfWidth, -1, headSize, lineWidth);
+  drawArrowHead(ctx, heads.end, halfWidth, 1, headSize, lineWidth);
+}
+
+/**
+ * Draw a line head whose tip is at (tipX, 0), pointing along `direction`.
+ */
+function drawArrowHead(
+  ctx: RenderContext,
+  style: ArrowHeadStyle,
+  tipX: number,
+  direction: 1 | -1,
+  size: number,
+  lineWidth: number
+): void {
+  const backX = tipX - direction * size;
+  const halfSpread = size / 2;
+  ctx.beginPath();
+  switch (style) {
+    case 'triangle':
+      ctx.moveTo(tipX, 0);
+      ctx.lineTo(backX, -halfSpread);
+      ctx.lineTo(backX, halfSpread);
+      ctx.closePath();
+      ctx.fill();
+      return;
+    case 'open':
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.moveTo(backX, -halfSpread);
+      ctx.lineTo(tipX - (direction * lineWidth) / 2, 0);
+      ctx.lineTo(backX, halfSpread);
+      ctx.stroke();
+      return;
+    case 'circle':
+      ctx.arc(tipX - (direction * size) / 4, 0, size / 4, 0, Math.PI * 2);
+      ctx.fill();
+      return;
+    case 'bar':
+      ctx.moveTo(tipX, -halfSpread);
+      ctx.lineTo(tipX, halfSpread);
+      ctx.stroke();
+      return;
+    case 'none':
+    default:
+      return;
+  }
+}
+
+/** Opacity of highlighter ink */
+const HIGHLIGHTER_ALPHA = 0.35;
+
+type SurfaceCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+interface AnnotationSurface {
+  canvas: SurfaceCanvas;
+  ctx: RenderContext | null;
+  /** Strokes already rasterized into `canvas`, in order */
+  committed: AnnotationStroke[];
+  /** Scratch canvas used to composite the stroke still being drawn */
+  scratch: SurfaceCanvas;
+  scratchCtx: RenderContext | null;
+  /** performance.now() of the last draw */
+  lastDrawnAt: number;
+}
+
+const annotationSurfaces = new Map<string, AnnotationSurface>();
+
+/** Surfaces not drawn for this long are freed (deleted layers and scenes) */
+const ANNOTATION_SURFACE_IDLE_MS = 30_000;
+let lastSurfaceSweepAt = 0;
+
+/**
+ * Free the canvases of annotation layers that have not been drawn recently.
+ * A layer that is drawn again simply re-rasterizes its strokes.
+ */
+export function releaseIdleAnnotationSurfaces(now = performance.now()): void {
+  if (now - lastSurfaceSweepAt < ANNOTATION_SURFACE_IDLE_MS) return;
+  lastSurfaceSweepAt = now;
+  annotationSurfaces.forEach((surface, layerId) => {
+    if (now - surface.lastDrawnAt > ANNOTATION_SURFACE_IDLE_MS) {
+      annotationSurfaces.delete(layerId);
+    }
+  });
+}
+
+/**
+ * Offscreen where available, so the program worker can rasterize ink too;
+ * a detached DOM canvas in browsers without OffscreenCanvas.
+ */
+function createSurfaceCanvas(width: number, height: number): { canvas: SurfaceCanvas; ctx: RenderContext | null } {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, ctx: canvas.getContext('2d') };
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d') };
+}
+
+function traceStroke(ctx: RenderContext, stroke: AnnotationStroke): void {
+  const { points } = stroke;
+  if (points.length < 2) return;
+
+  ctx.save();
+  ctx.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
+  ctx.globalAlpha = stroke.tool === 'highlighter' ? HIGHLIGHTER_ALPHA : 1;
+  ctx.strokeStyle = stroke.tool === 'eraser' ? '#000' : stroke.color;
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.lineWidth = stroke.width;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  if (points.length === 2) {
+    // A tap leaves a dot.
+    ctx.beginPath();
+    ctx.arc(points[0], points[1], stroke.width / 2, 0, Math.PI * 2);
+    ctx.fill();
+  } else {
+    // Curve through segment midpoints for smoother ink.
+    ctx.beginPath();
+    ctx.moveTo(points[0], points[1]);
+    for (let i = 2; i < points.length - 2; i += 2) {
+      const midX = (points[i] + points[i + 2]) / 2;
+      const midY = (points[i + 1] + points[i + 3]) / 2;
+      ctx.quadraticCurveTo(points[i], points[i + 1], midX, midY);
+    }
+    ctx.lineTo(points[points.length - 2], points[points.length - 1]);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/**
+ * Rasterize strokes into a layer-sized surface. All strokes but the last are
+ * cached, so extending the stroke being drawn only re-traces that stroke.
+ */
+function getAnnotationSurface(
+  layerId: string,
+  width: number,
+  height: number,
+  strokes: AnnotationStroke[]
+): SurfaceCanvas {
+  let surface = annotationSurfaces.get(layerId);
+  if (!surface || surface.canvas.width !== width || surface.canvas.height !== height) {
+    const { canvas, ctx } = createSurfaceCanvas(width, height);
+    const { canvas: scratch, ctx: scratchCtx } = createSurfaceCanvas(width, height);
+    surface = { canvas, ctx, scratch, scratchCtx, committed: [], lastDrawnAt: 0 };
+    annotationSurfaces.set(layerId, surface);
+  }
+  surface.lastDrawnAt = performance.now();
+
+  const settled = strokes.slice(0, -1);
+  const reusable =
+    surface.committed.length <= settled.length &&
+    surface.committed.every((stroke, index) => stroke === settled[index]);
+  const { ctx, scratchCtx } = surface;
+  if (!ctx) return surface.canvas;
+
+  // Strokes are in layer-local coordinates centered on the origin.
+  if (!reusable) {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+  }
+  ctx.setTransform(1, 0, 0, 1, width / 2, height / 2);
+  settled.slice(reusable ? surface.committed.length : 0).forEach((stroke) => traceStroke(ctx, stroke));
+  surface.committed = settled;
+
+  const last = strokes[strokes.length - 1];
+  if (!last) return surface.canvas;
+
+  if (!scratchCtx) return surface.canvas;
+  scratchCtx.setTransform(1, 0, 0, 1, 0, 0);
+  scratchCtx.clearRect(0, 0, width, height);
+  scratchCtx.drawImage(surface.canvas, 0, 0);
+  scratchCtx.setTransform(1, 0, 0, 1, width / 2, height / 2);
+  traceStroke(scratchCtx, last);
+  return surface.scratch;
+}
+
+/**
+ * Draw an annotation layer (freehand ink).
+ */
+export function drawAnnotationLayer(
+  ctx: RenderContext,
+  layer: Layer
+): void {
+  if (layer.type !== 'annotation') return;
+  if (layer.strokes.length === 0) {
+    annotationSurfaces.delete(layer.id);
+    return;
+  }
+
+  applyTransform(ctx, layer);
+
+  const width = Math.max(1, Math.round(layer.width));
+  const height = Math.max(1, Math.round(layer.height));
+  const surface = getAnnotationSurface(layer.id, width, height, layer.strokes);
+  ctx.drawImage(surface, -width / 2, -height / 2, width, height);
 
   ctx.restore();
 }
@@ -206,7 +770,7 @@ export function drawShapeLayer(
  * Draw a group layer (placeholder - groups will be drawn recursively).
  */
 export function drawGroupLayer(
-  _ctx: CanvasRenderingContext2D,
+  _ctx: RenderContext,
   layer: Layer
 ): void {
   if (layer.type !== 'group') return;
@@ -0,0 +1,59 @@
+/**
+ * Web fonts uploaded into the asset store, registered with `document.fonts`
+ * on first use. Text layers name the font family in `font` and point at the
+ * blob with `fontAssetId`.
+ */
+
+import { loadAsset } from '../app/persistence';
+
+const registered = new Set<string>();
+const pendingFonts = new Set<string>();
+const failedFonts = new Set<string>();
+const loadListeners = new Set<() => void>();
+
+function notifyLoaded(): void {
+  loadListeners.forEach((listener) => listener());
+}
+
+/**
+ * Make sure an uploaded font is registered under `family`. Returns true once
+ * it is ready to draw; subscribers are notified when a pending font loads.
+ */
+export function ensureAssetFont(assetId: string, family: string): boolean {
+  const key = `${assetId}:${family}`;
+  if (registered.has(key)) return true;
+  if (pendingFonts.has(key) || failedFonts.has(key)) return false;
+  if (typeof FontFace === 'undefined' || typeof document === 'undefined') return false;
+
+  pendingFonts.add(key);
+  loadAsset(assetId)
+    .then(async (asset) => {
+      if (!asset) {
+        console.warn('FontCache: asset not found', assetId);
+        failedFonts.add(key);
+        return;
+      }
+      const face = new FontFace(family, await asset.blob.arrayBuffer());
+      await face.load();
+      document.fonts.add(face);
+      registered.add(key);
+      notifyLoaded();
+    })
+    .catch((error) => {
+      console.error('FontCache: failed to load font', assetId, error);
+      failedFonts.add(key);
+    })
+    .finally(() => pendingFonts.delete(key));
+
+  return false;
+}
+
+/**
+ * Subscribe to uploaded fonts finishing loading (to schedule a redraw).
+ */
+export function subscribeFontLoads(listener: () => void): () => void {
+  loadListeners.add(listener);
+  return () => {
+    loadListeners.delete(listener);
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Frame-time profiling of the program render loop, behind the perf HUD.
+ *
+ * Off by default. While on, every program frame records how long `drawScene`
+ * took, how much of the scene was repainted and what each layer cost. Only
+ * frames opened with `beginFrameSample` are sampled, so editor canvas draws
+ * on the same thread do not leak into the numbers. Works in the program
+ * worker and on the main thread alike.
+ */
+
+export interface FrameSample {
+  /** `performance.now()` at the start of the frame */
+  at: number;
+  /** Time spent drawing; 0 when nothing was dirty */
+  drawMs: number;
+  /** Share of the scene repainted, 0 (skipped) to 1 (full frame) */
+  dirtyRatio: number;
+  /** Draw time by layer id */
+  layers: Record<string, number>;
+}
+
+/** Samples kept between collections, about 20 s at 30 fps */
+const MAX_SAMPLES = 600;
+
+let enabled = false;
+let current: FrameSample | null = null;
+let samples: FrameSample[] = [];
+
+export function setFrameProfiling(next: boolean): void {
+  enabled = next;
+  if (!next) {
+    current = null;
+    samples = [];
+  }
+}
+
+export function isFrameProfiling(): boolean {
+  return enabled;
+}
+
+/**
+ * Whether a frame is being sampled, i.e. whether layer draws should be timed.
+ */
+export function isSamplingFrame(): boolean {
+  return current !== null;
+}
+
+export function beginFrameSample(at: number): void {
+  if (!enabled) return;
+  current = { at, drawMs: 0, dirtyRatio: 0, layers: {} };
+}
+
+export function recordLayerTime(layerId: string, ms: number): void {
+  if (!current) return;
+  current.layers[layerId] = (current.layers[layerId] ?? 0) + ms;
+}
+
+export function endFrameSample(drawMs: number, dirtyRatio: number): void {
+  if (!current) return;
+  samples.push({ ...current, drawMs, dirtyRatio });
+  if (samples.length > MAX_SAMPLES) samples.splice(0, samples.length - MAX_SAMPLES);
+  current = null;
+}
+
+/**
+ * Hand over the samples recorded since the last call.
+ */
+export function takeFrameSamples(): FrameSample[] {
+  const taken = samples;
+  samples = [];
+  return taken;
+}
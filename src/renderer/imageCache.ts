@@ -1,8 +1,12 @@
+import { loadAsset, subscribeAssetStored } from '../app/persistence';
+
 const MAX_CACHE_BYTES = 50 * 1024 * 1024; // 50MB approximate cap
 
 type ImageCacheEntry = {
   img: HTMLImageElement;
   size: number;
+  /** Object URL to revoke on eviction (asset-backed images) */
+  objectUrl?: string;
 };
 
 const imageCache = new Map<string, ImageCacheEntry>();
@@ -27,6 +31,9 @@ function evictIfNeeded(neededBytes: number) {
     imageCache.delete(oldestKey);
     if (oldestEntry) {
       cacheSizeBytes = Math.max(0, cacheSizeBytes - oldestEntry.size);
+      if (oldestEntry.objectUrl) {
+        URL.revokeObjectURL(oldestEntry.objectUrl);
+      }
     }
   }
 }
@@ -55,7 +62,80 @@ export function getImageElement(dataUri: string): HTMLImageElement {
   return image;
 }
 
+const ASSET_KEY_PREFIX = 'asset:';
+const pendingAssets = new Set<string>();
+const missingAssets = new Set<string>();
+const loadListeners = new Set<() => void>();
+
+function notifyLoaded(): void {
+  loadListeners.forEach((listener) => listener());
+}
+
+// A layer can render before its asset write commits (e.g. during a bundle
+// import); once the blob is stored, let the next draw load it.
+subscribeAssetStored((assetId) => {
+  if (missingAssets.delete(assetId)) {
+    notifyLoaded();
+  }
+});
+
+/**
+ * Get the decoded image for an asset-store blob. Returns null while the blob
+ * is loading; subscribers are notified once it is ready to draw.
+ */
+export function getAssetImageElement(assetId: string): HTMLImageElement | null {
+  const key = `${ASSET_KEY_PREFIX}${assetId}`;
+  const cached = imageCache.get(key);
+  if (cached) {
+    imageCache.delete(key);
+    imageCache.set(key, cached);
+    return cached.img;
+  }
+  if (pendingAssets.has(assetId) || missingAssets.has(assetId)) {
+    return null;
+  }
+
+  pendingAssets.add(assetId);
+  loadAsset(assetId)
+    .then((asset) => {
+      if (!asset) {
+        console.warn('ImageCache: asset not found', assetId);
+        missingAssets.add(assetId);
+        return;
+      }
+      const objectUrl = URL.createObjectURL(asset.blob);
+      const image = new Image();
+      image.decoding = 'async';
+      image.onload = notifyLoaded;
+      image.src = objectUrl;
+
+      evictIfNeeded(asset.size);
+      imageCache.set(key, { img: image, size: asset.size, objectUrl });
+      cacheSizeBytes = Math.min(MAX_CACHE_BYTES, cacheSizeBytes + asset.size);
+    })
+    .catch((error) => console.error('ImageCache: failed to load asset', assetId, error))
+    .finally(() => pendingAssets.delete(assetId));
+
+  return null;
+}
+
+/**
+ * Subscribe to asset images finishing decode (to schedule a redraw).
+ */
+export function subscribeImageLoads(listener: () => void): () => void {
+  loadListeners.add(listener);
+  return () => {
+    loadListeners.delete(listener);
+  };
+}
+
 export function clearImageCache(): void {
+  imageCache.forEach((entry) => {
+    if (entry.objectUrl) {
+      URL.revokeObjectURL(entry.objectUrl);
+    }
+  });
   imageCache.clear();
+  missingAssets.clear();
   cacheSizeBytes = 0;
 }
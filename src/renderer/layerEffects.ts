@@ -0,0 +1,100 @@
+/**
+ * Layer blend modes, filters, drop shadows and borders.
+ *
+ * Effects are optional per layer (`layer.effects`). Shadow and blur sizes are
+ * in scene pixels: canvas shadows and filters ignore the current transform,
+ * so the drawer converts them with the canvas-to-scene scale.
+ */
+
+import type { Layer, LayerBlendMode, LayerBorder, LayerEffects, LayerFilters, LayerShadow } from '../types/scene';
+
+export const LAYER_BLEND_MODES: LayerBlendMode[] = [
+  'normal',
+  'multiply',
+  'screen',
+  'overlay',
+  'darken',
+  'lighten',
+  'color-dodge',
+  'color-burn',
+  'hard-light',
+  'soft-light',
+  'difference',
+  'exclusion',
+];
+
+export const DEFAULT_LAYER_FILTERS: LayerFilters = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  grayscale: 0,
+  blur: 0,
+};
+
+export const DEFAULT_LAYER_SHADOW: LayerShadow = {
+  color: 'rgba(0, 0, 0, 0.6)',
+  blur: 24,
+  offsetX: 0,
+  offsetY: 8,
+};
+
+export const DEFAULT_LAYER_BORDER: LayerBorder = {
+  color: '#ffffff',
+  width: 4,
+};
+
+export function createDefaultEffects(): LayerEffects {
+  return {
+    blendMode: 'normal',
+    filters: { ...DEFAULT_LAYER_FILTERS },
+    shadow: null,
+    border: null,
+  };
+}
+
+/**
+ * Canvas `filter` value, or 'none' when every filter is at its default.
+ * `blurScale` converts the scene-pixel blur radius to canvas pixels.
+ */
+export function getFilterString(filters: LayerFilters, blurScale = 1): string {
+  const parts: string[] = [];
+  if (filters.brightness !== 100) parts.push(`brightness(${filters.brightness}%)`);
+  if (filters.contrast !== 100) parts.push(`contrast(${filters.contrast}%)`);
+  if (filters.saturation !== 100) parts.push(`saturate(${filters.saturation}%)`);
+  if (filters.grayscale > 0) parts.push(`grayscale(${filters.grayscale}%)`);
+  if (filters.blur > 0) parts.push(`blur(${filters.blur * blurScale}px)`);
+  return parts.length > 0 ? parts.join(' ') : 'none';
+}
+
+/**
+ * Whether any effect changes how the layer is drawn.
+ */
+export function hasLayerEffects(effects: LayerEffects | undefined): effects is LayerEffects {
+  return (
+    !!effects &&
+    (effects.blendMode !== 'normal' ||
+      getFilterString(effects.filters) !== 'none' ||
+      effects.shadow !== null ||
+      effects.border !== null)
+  );
+}
+
+/**
+ * How far, in scene pixels, effects can paint outside the layer's bounds.
+ * Used to grow dirty rects so shadows and blur are repainted.
+ */
+export function getLayerEffectsOutset(layer: Layer): number {
+  const effects = layer.effects;
+  if (!hasLayerEffects(effects)) return 0;
+  const { scale } = layer.transform;
+  const layerScale = Math.max(Math.abs(scale.x), Math.abs(scale.y));
+  let outset = effects.filters.blur * 2;
+  if (effects.border) {
+    outset = Math.max(outset, (effects.border.width / 2) * layerScale);
+  }
+  if (effects.shadow) {
+    const { blur, offsetX, offsetY } = effects.shadow;
+    outset += blur * 2 + Math.max(Math.abs(offsetX), Math.abs(offsetY));
+  }
+  return Math.ceil(outset);
+}
@@ -0,0 +1,233 @@
+/**
+ * Laser pointer and click ripples drawn over the program output.
+ *
+ * Pointer state lives only in this module; it is never written to the scene,
+ * so it is not persisted, not undoable and not part of saved frames.
+ *
+ * Samples are anchored to the layer under the pointer in that layer's local
+ * space. At draw time they are mapped back through the layer's current
+ * (keyframe-evaluated) transform, so the dot stays on the same spot of a
+ * scaled, rotated or moving screen share.
+ */
+
+import type { Layer, Scene } from '../types/scene';
+import { getLayerBaseSize, toLayerLocalPoint } from '../utils/layerGeometry';
+import { evaluateLayer, getSceneTime } from './animation';
+import type { RenderContext } from './renderResources';
+
+export interface PointerAnchor {
+  layerId: string;
+  /** Layer-local coordinates (origin at the layer center, unscaled) */
+  x: number;
+  y: number;
+}
+
+export interface PointerSample {
+  /** Scene coordinates, used when the anchor layer is not in the drawn scene */
+  x: number;
+  y: number;
+  anchor: PointerAnchor | null;
+  at: number;
+}
+
+const LASER_COLOR = '255, 45, 45';
+/** How long trail samples stay visible */
+const TRAIL_MS = 350;
+const RIPPLE_MS = 650;
+/** Dot radius as a fraction of the scene width */
+const DOT_RADIUS_RATIO = 0.007;
+const RIPPLE_RADIUS_RATIO = 0.035;
+
+let cursor: PointerSample | null = null;
+let trail: PointerSample[] = [];
+let ripples: PointerSample[] = [];
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function now(): number {
+  return typeof performance !== 'undefined' && typeof performance.now === 'function'
+    ? performance.now()
+    : Date.now();
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Find the topmost visible layer under a scene point and express the point in
+ * its local space.
+ */
+function anchorPoint(scene: Scene, x: number, y: number): PointerAnchor | null {
+  const time = getSceneTime(scene.id);
+  const layers = [...scene.layers]
+    .filter((layer) => layer.visible && layer.type !== 'group')
+    .sort((a, b) => b.z - a.z);
+
+  for (const sceneLayer of layers) {
+    const layer = evaluateLayer(sceneLayer, time);
+    const local = toLayerLocalPoint(layer, { x, y });
+    const size = getLayerBaseSize(layer, scene);
+    if (Math.abs(local.x) <= size.width / 2 && Math.abs(local.y) <= size.height / 2) {
+      return { layerId: layer.id, ...local };
+    }
+  }
+  return null;
+}
+
+/**
+ * Map a sample into the scene being drawn.
+ */
+function resolvePoint(sample: PointerSample, layersById: Map<string, Layer>, time: number): { x: number; y: number } {
+  const anchorLayer = sample.anchor ? layersById.get(sample.anchor.layerId) : undefined;
+  if (!sample.anchor || !anchorLayer) {
+    return { x: sample.x, y: sample.y };
+  }
+  const { pos, scale, rot } = evaluateLayer(anchorLayer, time).transform;
+  const sx = sample.anchor.x * scale.x;
+  const sy = sample.anchor.y * scale.y;
+  const angle = toRadians(rot);
+  return {
+    x: pos.x + sx * Math.cos(angle) - sy * Math.sin(angle),
+    y: pos.y + sx * Math.sin(angle) + sy * Math.cos(angle),
+  };
+}
+
+function createSample(scene: Scene, x: number, y: number): PointerSample {
+  return { x, y, anchor: anchorPoint(scene, x, y), at: now() };
+}
+
+/**
+ * Move the laser dot to a scene point.
+ */
+export function movePointer(scene: Scene, x: number, y: number): void {
+  cursor = createSample(scene, x, y);
+  trail.push(cursor);
+  notify();
+}
+
+/**
+ * Start a click ripple at a scene point.
+ */
+export function clickPointer(scene: Scene, x: number, y: number): void {
+  ripples.push(createSample(scene, x, y));
+  notify();
+}
+
+/**
+ * Hide the dot (pointer left the canvas or the tool was turned off). The
+ * trail and ripples fade out on their own.
+ */
+export function hidePointer(): void {
+  if (!cursor) return;
+  cursor = null;
+  notify();
+}
+
+/**
+ * Subscribe to pointer input (used by renderers to schedule a redraw).
+ */
+export function subscribePointerOverlay(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Dot, trail and ripples, for mirroring into the program worker. Sample
+ * times are `performance.now()` timestamps.
+ */
+export interface PointerOverlayState {
+  cursor: PointerSample | null;
+  trail: PointerSample[];
+  ripples: PointerSample[];
+}
+
+export function getPointerOverlayState(): PointerOverlayState {
+  return { cursor, trail: [...trail], ripples: [...ripples] };
+}
+
+export function setPointerOverlayState(state: PointerOverlayState): void {
+  cursor = state.cursor;
+  trail = [...state.trail];
+  ripples = [...state.ripples];
+  notify();
+}
+
+/**
+ * Whether the dot, trail or a ripple would be drawn right now.
+ */
+export function isPointerOverlayVisible(): boolean {
+  const time = now();
+  return (
+    !!cursor ||
+    trail.some((sample) => time - sample.at < TRAIL_MS) ||
+    ripples.some((ripple) => time - ripple.at < RIPPLE_MS)
+  );
+}
+
+/**
+ * Draw the laser dot, trail and ripples in scene coordinates. Returns true
+ * while anything is visible, i.e. while the caller should keep redrawing.
+ */
+export function drawPointerOverlay(ctx: RenderContext, scene: Scene | null): boolean {
+  const time = now();
+  trail = trail.filter((sample) => time - sample.at < TRAIL_MS);
+  ripples = ripples.filter((ripple) => time - ripple.at < RIPPLE_MS);
+  if (!scene || (!cursor && trail.length === 0 && ripples.length === 0)) {
+    return false;
+  }
+
+  const layersById = new Map(scene.layers.map((layer) => [layer.id, layer]));
+  const sceneTime = getSceneTime(scene.id);
+  const dotRadius = Math.max(4, scene.width * DOT_RADIUS_RATIO);
+
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  // Trail: segments taper and fade with age.
+  for (let i = 1; i < trail.length; i += 1) {
+    const from = resolvePoint(trail[i - 1], layersById, sceneTime);
+    const to = resolvePoint(trail[i], layersById, sceneTime);
+    const life = 1 - (time - trail[i].at) / TRAIL_MS;
+    ctx.strokeStyle = `rgba(${LASER_COLOR}, ${(0.6 * life).toFixed(3)})`;
+    ctx.lineWidth = dotRadius * 1.4 * life;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  }
+
+  for (const ripple of ripples) {
+    const point = resolvePoint(ripple, layersById, sceneTime);
+    const progress = (time - ripple.at) / RIPPLE_MS;
+    ctx.strokeStyle = `rgba(${LASER_COLOR}, ${(1 - progress).toFixed(3)})`;
+    ctx.lineWidth = Math.max(2, dotRadius * 0.4);
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, dotRadius + scene.width * RIPPLE_RADIUS_RATIO * progress, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  if (cursor) {
+    const point = resolvePoint(cursor, layersById, sceneTime);
+    const glow = ctx.createRadialGradient(point.x, point.y, 0, point.x, point.y, dotRadius * 2.5);
+    glow.addColorStop(0, `rgba(${LASER_COLOR}, 0.45)`);
+    glow.addColorStop(1, `rgba(${LASER_COLOR}, 0)`);
+    ctx.fillStyle = glow;
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, dotRadius * 2.5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = `rgb(${LASER_COLOR})`;
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, dotRadius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.restore();
+  return true;
+}
@@ -0,0 +1,78 @@
+/**
+ * One frame of the program output: the live scene (or a transition into it),
+ * the viewport and the laser pointer. Shared by the program worker and the
+ * main-thread fallback so both draw identically.
+ */
+
+import type { ActiveSceneTransition, Scene } from '../types/scene';
+import { drawScene, type SceneTransitionFrame } from './canvasRenderer';
+import { createDirtyRegionTracker } from './dirtyRegions';
+import { beginFrameSample, endFrameSample } from './frameProfiler';
+import { drawPointerOverlay, isPointerOverlayVisible } from './pointerOverlay';
+import { applyViewportTransform, getViewportFrame, isViewportActive } from './viewport';
+import type { RenderContext } from './renderResources';
+
+export interface ProgramFrameRenderer {
+  /**
+   * Draw the program at `now` (a `performance.now()` timestamp on the drawing
+   * thread), repainting only what changed since the last frame. Returns true
+   * once `transition` has finished playing.
+   */
+  draw(ctx: RenderContext, scene: Scene | null, transition: ActiveSceneTransition | null, now: number): boolean;
+  /** Repaint the whole frame next time, e.g. after a resize or once media arrived */
+  invalidate(): void;
+}
+
+export function createProgramFrameRenderer(): ProgramFrameRenderer {
+  const dirtyRegions = createDirtyRegionTracker();
+  // Whether the last frame was zoomed, spotlit or showed pointer ink.
+  let overlayDrawn = false;
+
+  return {
+    draw(ctx, scene, transition, now) {
+      let transitionFrame: SceneTransitionFrame | null = null;
+      if (transition) {
+        const elapsed = now - transition.startedAt;
+        transitionFrame = {
+          from: transition.from,
+          kind: transition.kind,
+          direction: transition.direction,
+          progress: transition.durationMs > 0 ? elapsed / transition.durationMs : 1,
+        };
+      }
+
+      const viewport = getViewportFrame(scene);
+      // Zoom moves scene space and pointer ink is outside the scene graph, so
+      // both need full frames, plus one more once they are gone.
+      const overlay = isViewportActive(viewport) || isPointerOverlayVisible();
+      if (transitionFrame || overlay || overlayDrawn) {
+        dirtyRegions.invalidate();
+      }
+      overlayDrawn = overlay;
+
+      beginFrameSample(now);
+      const drawStartedAt = performance.now();
+      const dirtyRect = dirtyRegions.next(scene);
+      if (dirtyRect) {
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        drawScene(scene, ctx, { transition: transitionFrame, viewport, dirtyRect });
+        ctx.save();
+        if (scene) {
+          applyViewportTransform(ctx, scene, viewport.zoom);
+        }
+        drawPointerOverlay(ctx, scene);
+        ctx.restore();
+      }
+      const sceneArea = (scene?.width ?? 1920) * (scene?.height ?? 1080);
+      endFrameSample(
+        dirtyRect ? performance.now() - drawStartedAt : 0,
+        dirtyRect ? (dirtyRect.width * dirtyRect.height) / sceneArea : 0
+      );
+
+      return !!transitionFrame && transitionFrame.progress >= 1;
+    },
+    invalidate() {
+      dirtyRegions.invalidate();
+    },
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Messages between the main thread and the program worker.
+ *
+ * Timestamps are `performance.now()` values on the main thread; the worker
+ * shifts them onto its own clock using the `timeOrigin` sent with `init`.
+ */
+
+import type { ActiveSceneTransition, Scene } from '../types/scene';
+import type { ScenePatch } from '../types/history';
+import type { SceneClock } from './animation';
+import type { FrameSample } from './frameProfiler';
+import type { PointerOverlayState } from './pointerOverlay';
+import type { ViewportState } from './viewport';
+
+export type ProgramWorkerMessage =
+  | { type: 'init'; canvas: OffscreenCanvas; fps: number; timeOrigin: number }
+  | { type: 'fps'; fps: number }
+  /** Replace the program scene (first frame, or a different scene went live) */
+  | { type: 'scene'; scene: Scene | null }
+  /** Edit to the scene last sent, as produced by `diffScenes` */
+  | { type: 'scene-patch'; patch: ScenePatch }
+  | { type: 'transition'; transition: ActiveSceneTransition | null }
+  | { type: 'clocks'; clocks: Record<string, SceneClock> }
+  | { type: 'viewport'; state: ViewportState }
+  | { type: 'pointer'; state: PointerOverlayState }
+  /** Frames for a capture layer, read in the worker until released */
+  | { type: 'frame-stream'; layerId: string; frames: ReadableStream<VideoFrame> }
+  /** A single frame for a layer, copied on the main thread */
+  | { type: 'frame'; layerId: string; frame: VideoFrame }
+  | { type: 'release-frames'; layerId: string }
+  | { type: 'image'; key: string; image: ImageBitmap }
+  | { type: 'drop-image'; key: string }
+  | { type: 'font'; assetId: string; family: string; data: Blob }
+  /** Start or stop sampling frame times for the perf HUD */
+  | { type: 'profiling'; enabled: boolean };
+
+export type ProgramWorkerEvent =
+  /** A transition finished; `startedAt` identifies it on the main thread */
+  | { type: 'transition-complete'; startedAt: number }
+  /** Frame-time samples while profiling, timestamped on the main thread's clock */
+  | { type: 'frame-samples'; samples: FrameSample[] };
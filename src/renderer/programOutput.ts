@@ -0,0 +1,331 @@
+/**
+ * Program output: draws what students see onto the program canvas.
+ *
+ * Where the browser supports OffscreenCanvas and VideoFrame, drawing runs in
+ * `programWorker.ts`. This module keeps the worker's copy of the program in
+ * sync: scene edits go over as `diffScenes` patches, live sources as
+ * VideoFrame streams from the source manager, images as ImageBitmaps and
+ * uploaded fonts as blobs. Other browsers draw on the main thread.
+ */
+
+import type { ActiveSceneTransition, Layer, Scene } from '../types/scene';
+import type { ScenePatch } from '../types/history';
+import { diffScenes } from '../app/history';
+import { loadAsset } from '../app/persistence';
+import { getDisplayedVideoTrack, getVideoForLayer, openSourceFrames } from '../media/sourceManager';
+import { getVideoFileElement } from '../media/videoFiles';
+import { getSceneClocks, subscribeSceneClocks } from './animation';
+import { getCanvasSize } from './canvasRenderer';
+import { domRenderResources } from './domResources';
+import { subscribeFontLoads } from './fontCache';
+import { isFrameProfiling, setFrameProfiling, takeFrameSamples, type FrameSample } from './frameProfiler';
+import { subscribeImageLoads } from './imageCache';
+import { getPointerOverlayState, subscribePointerOverlay } from './pointerOverlay';
+import { createProgramFrameRenderer } from './programFrame';
+import type { ProgramWorkerEvent, ProgramWorkerMessage } from './programMessages';
+import { getImageKey } from './renderResources';
+import { getPrimaryFontFamily } from '../utils/richText';
+import { getViewportState, subscribeViewport } from './viewport';
+
+export interface ProgramOutputOptions {
+  fps: number;
+  /** A transition finished playing; `startedAt` identifies it */
+  onTransitionComplete: (startedAt: number) => void;
+  /** Frame-time samples, delivered in batches while profiling is on */
+  onFrameSamples?: (samples: FrameSample[]) => void;
+}
+
+export interface ProgramOutput {
+  /** Show `scene`, playing `transition` into it if one is running */
+  update(scene: Scene | null, transition: ActiveSceneTransition | null): void;
+  setFps(fps: number): void;
+  /** Sample frame times for the perf HUD */
+  setProfiling(enabled: boolean): void;
+  dispose(): void;
+}
+
+/**
+ * Whether program rendering can move off the main thread.
+ */
+export function supportsWorkerRendering(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof VideoFrame !== 'undefined' &&
+    typeof HTMLCanvasElement.prototype.transferControlToOffscreen === 'function'
+  );
+}
+
+/**
+ * Start rendering the program onto `canvas`. With a worker, the canvas is
+ * handed over for good: it cannot be drawn on from the main thread afterwards.
+ */
+export function createProgramOutput(canvas: HTMLCanvasElement, options: ProgramOutputOptions): ProgramOutput {
+  return supportsWorkerRendering()
+    ? createWorkerOutput(canvas, options)
+    : createMainThreadOutput(canvas, options);
+}
+
+/** How often frame samples are handed over while profiling on the main thread */
+const SAMPLE_INTERVAL_MS = 500;
+
+function getProgramScenes(scene: Scene | null, transition: ActiveSceneTransition | null): Scene[] {
+  const scenes = scene ? [scene] : [];
+  if (transition) scenes.push(transition.from);
+  return scenes;
+}
+
+/**
+ * Drop the undo side of a patch: the worker only applies it forwards, so
+ * there is no point cloning the old values (e.g. long text content) across.
+ */
+function toForwardPatch(patch: ScenePatch): ScenePatch {
+  return {
+    layers: patch.layers.map((entry) => (entry.op === 'update' ? { ...entry, before: {} } : entry)),
+    order: patch.order && { before: [], after: patch.order.after },
+    scene: patch.scene && { ...patch.scene, before: {} },
+  };
+}
+
+/**
+ * Copy the frame a <video> element shows right now, or null before one is
+ * decoded.
+ */
+function copyVideoFrame(video: HTMLVideoElement): VideoFrame | null {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return null;
+  try {
+    return new VideoFrame(video);
+  } catch (error) {
+    console.warn('ProgramOutput: failed to copy video frame', error);
+    return null;
+  }
+}
+
+function createWorkerOutput(canvas: HTMLCanvasElement, options: ProgramOutputOptions): ProgramOutput {
+  const worker = new Worker(new URL('./programWorker.ts', import.meta.url), { type: 'module' });
+  const post = (message: ProgramWorkerMessage, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  worker.addEventListener('message', (event: MessageEvent<ProgramWorkerEvent>) => {
+    if (event.data.type === 'transition-complete') {
+      options.onTransitionComplete(event.data.startedAt);
+    } else if (event.data.type === 'frame-samples') {
+      options.onFrameSamples?.(event.data.samples);
+    }
+  });
+  worker.addEventListener('error', (event) => console.error('ProgramOutput: worker failed', event.message));
+
+  const offscreen = canvas.transferControlToOffscreen();
+  post({ type: 'init', canvas: offscreen, fps: options.fps, timeOrigin: performance.timeOrigin }, [offscreen]);
+  post({ type: 'clocks', clocks: getSceneClocks() });
+  post({ type: 'viewport', state: getViewportState() });
+  post({ type: 'pointer', state: getPointerOverlayState() });
+
+  const unsubscribers = [
+    subscribeSceneClocks(() => post({ type: 'clocks', clocks: getSceneClocks() })),
+    subscribeViewport(() => post({ type: 'viewport', state: getViewportState() })),
+    subscribePointerOverlay(() => post({ type: 'pointer', state: getPointerOverlayState() })),
+  ];
+
+  let sentScene: Scene | null = null;
+  let sentTransition: ActiveSceneTransition | null = null;
+  /** Capture layers whose frames the worker reads itself, by the track streamed */
+  const streamedLayers = new Map<string, MediaStreamTrack>();
+  /** Layers fed with copied frames, by the media time of the last copy */
+  const copiedLayers = new Map<string, number>();
+  const sentImages = new Set<string>();
+  const pendingImages = new Set<string>();
+  const sentFonts = new Set<string>();
+
+  const releaseFrames = (layerId: string) => {
+    const streamed = streamedLayers.delete(layerId);
+    const copied = copiedLayers.delete(layerId);
+    if (streamed || copied) post({ type: 'release-frames', layerId });
+  };
+
+  const sendImage = (key: string, image: CanvasImageSource) => {
+    pendingImages.add(key);
+    createImageBitmap(image)
+      .then((bitmap) => {
+        post({ type: 'image', key, image: bitmap }, [bitmap]);
+        sentImages.add(key);
+      })
+      .catch((error) => console.warn('ProgramOutput: failed to decode image', error))
+      .finally(() => pendingImages.delete(key));
+  };
+
+  const sendFont = (assetId: string, family: string) => {
+    loadAsset(assetId)
+      .then((asset) => {
+        if (asset) post({ type: 'font', assetId, family, data: asset.blob });
+      })
+      .catch((error) => console.error('ProgramOutput: failed to load font', assetId, error));
+  };
+
+  /**
+   * Copy a frame of a <video> the worker cannot stream from, when it has
+   * moved on since the last copy (a paused video file is sent once).
+   */
+  const copyFrame = (layerId: string, video: HTMLVideoElement | null) => {
+    if (!video || copiedLayers.get(layerId) === video.currentTime) return;
+    const frame = copyVideoFrame(video);
+    if (!frame) return;
+    post({ type: 'frame', layerId, frame }, [frame]);
+    copiedLayers.set(layerId, video.currentTime);
+  };
+
+  const syncCaptureLayer = (layer: Layer) => {
+    const track = getDisplayedVideoTrack(layer.id);
+    if (!track) {
+      releaseFrames(layer.id);
+      return;
+    }
+    if (streamedLayers.get(layer.id) === track) return;
+    const frames = copiedLayers.has(layer.id) ? null : openSourceFrames(layer.id);
+    if (frames) {
+      post({ type: 'frame-stream', layerId: layer.id, frames }, [frames]);
+      streamedLayers.set(layer.id, track);
+    } else {
+      // No MediaStreamTrackProcessor: copy frames from the <video> instead.
+      copyFrame(layer.id, getVideoForLayer(layer.id));
+    }
+  };
+
+  /**
+   * Bring the worker's media up to date with the layers on air. Runs every
+   * frame because sources start, stop and decode outside the store.
+   */
+  const syncMedia = () => {
+    const layers = getProgramScenes(sentScene, sentTransition).flatMap((scene) => scene.layers);
+    const mediaLayerIds = new Set<string>();
+    const imageKeys = new Set<string>();
+
+    for (const layer of layers) {
+      if (layer.type === 'screen' || layer.type === 'camera') {
+        mediaLayerIds.add(layer.id);
+        syncCaptureLayer(layer);
+      } else if (layer.type === 'video') {
+        mediaLayerIds.add(layer.id);
+        copyFrame(layer.id, getVideoFileElement(layer.id));
+      } else if (layer.type === 'image' && (layer.dataUri || layer.assetId !== 'placeholder')) {
+        const key = getImageKey(layer);
+        imageKeys.add(key);
+        if (sentImages.has(key) || pendingImages.has(key)) continue;
+        // Loads through the main-thread image cache; retried until decoded.
+        const image = domRenderResources.getImage(layer);
+        if (image) sendImage(key, image);
+      } else if (layer.type === 'text' && layer.fontAssetId) {
+        const family = getPrimaryFontFamily(layer.font);
+        const key = `${layer.fontAssetId}:${family}`;
+        if (sentFonts.has(key)) continue;
+        sentFonts.add(key);
+        sendFont(layer.fontAssetId, family);
+      }
+    }
+
+    for (const layerId of [...streamedLayers.keys(), ...copiedLayers.keys()]) {
+      if (!mediaLayerIds.has(layerId)) releaseFrames(layerId);
+    }
+    for (const key of sentImages) {
+      if (imageKeys.has(key)) continue;
+      sentImages.delete(key);
+      post({ type: 'drop-image', key });
+    }
+  };
+
+  let mediaTimer = window.setInterval(syncMedia, 1000 / options.fps);
+
+  return {
+    update(scene, transition) {
+      if (scene !== sentScene) {
+        const patch = scene && sentScene && scene.id === sentScene.id ? diffScenes(sentScene, scene) : undefined;
+        if (patch === undefined) {
+          post({ type: 'scene', scene });
+        } else if (patch) {
+          post({ type: 'scene-patch', patch: toForwardPatch(patch) });
+        }
+        sentScene = scene;
+      }
+      if (transition !== sentTransition) {
+        post({ type: 'transition', transition });
+        sentTransition = transition;
+      }
+      syncMedia();
+    },
+    setFps(fps) {
+      post({ type: 'fps', fps });
+      window.clearInterval(mediaTimer);
+      mediaTimer = window.setInterval(syncMedia, 1000 / fps);
+    },
+    setProfiling(enabled) {
+      post({ type: 'profiling', enabled });
+    },
+    dispose() {
+      window.clearInterval(mediaTimer);
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      worker.terminate();
+    },
+  };
+}
+
+/**
+ * Fallback for browsers without OffscreenCanvas or VideoFrame: the same
+ * frame, drawn from requestAnimationFrame on the main thread.
+ */
+function createMainThreadOutput(canvas: HTMLCanvasElement, options: ProgramOutputOptions): ProgramOutput {
+  let scene: Scene | null = null;
+  let transition: ActiveSceneTransition | null = null;
+  let frameInterval = 1000 / options.fps;
+  let lastTimestamp = 0;
+  let samplesTakenAt = 0;
+  let rafId: number | null = null;
+  const renderer = createProgramFrameRenderer();
+  const unsubscribers = [
+    subscribeImageLoads(() => renderer.invalidate()),
+    subscribeFontLoads(() => renderer.invalidate()),
+  ];
+
+  const pump = (timestamp: number) => {
+    rafId = requestAnimationFrame(pump);
+    if (timestamp - lastTimestamp < frameInterval) return;
+    lastTimestamp = timestamp;
+
+    const ctx = canvas.getContext('2d', { alpha: false });
+    if (!ctx) return;
+    const { width, height } = getCanvasSize(scene);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+      renderer.invalidate();
+    }
+
+    if (renderer.draw(ctx, scene, transition, timestamp) && transition) {
+      const finished = transition;
+      transition = null;
+      options.onTransitionComplete(finished.startedAt);
+    }
+
+    if (isFrameProfiling() && timestamp - samplesTakenAt >= SAMPLE_INTERVAL_MS) {
+      samplesTakenAt = timestamp;
+      options.onFrameSamples?.(takeFrameSamples());
+    }
+  };
+  rafId = requestAnimationFrame(pump);
+
+  return {
+    update(nextScene, nextTransition) {
+      scene = nextScene;
+      transition = nextTransition;
+    },
+    setFps(fps) {
+      frameInterval = 1000 / fps;
+    },
+    setProfiling(enabled) {
+      setFrameProfiling(enabled);
+    },
+    dispose() {
+      if (rafId !== null) cancelAnimationFrame(rafId);
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      setFrameProfiling(false);
+    },
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * Program output worker.
+ *
+ * Owns the OffscreenCanvas behind the program canvas and redraws it at the
+ * stream rate from its own copy of the program scene, kept in sync by diff
+ * messages. Live sources arrive as VideoFrames and images as ImageBitmaps, so
+ * nothing here waits on the main thread: React re-renders in the editor can
+ * no longer drop frames from the students' stream.
+ */
+
+import type { ActiveSceneTransition, Scene } from '../types/scene';
+import { applyScenePatch } from '../app/history';
+import { setSceneClocks, type SceneClock } from './animation';
+import { getCanvasSize } from './canvasRenderer';
+import { isFrameProfiling, setFrameProfiling, takeFrameSamples } from './frameProfiler';
+import { setPointerOverlayState, type PointerSample } from './pointerOverlay';
+import { createProgramFrameRenderer } from './programFrame';
+import type { ProgramWorkerEvent, ProgramWorkerMessage } from './programMessages';
+import { getImageKey, setRenderResources, type LayerFrame } from './renderResources';
+import { setViewportState } from './viewport';
+
+declare const self: WorkerGlobalScope;
+
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+let frameInterval = 1000 / 30;
+let nextFrameAt = 0;
+/** Add to a main-thread timestamp to get the same instant on this clock */
+let clockOffset = 0;
+/** How often frame samples are posted while profiling */
+const SAMPLE_POST_INTERVAL_MS = 500;
+let samplesPostedAt = 0;
+
+let scene: Scene | null = null;
+let transition: ActiveSceneTransition | null = null;
+/** Main-thread start time of `transition`, reported back once it completes */
+let transitionStartedAt = 0;
+
+const renderer = createProgramFrameRenderer();
+
+const frames = new Map<string, VideoFrame>();
+const frameReaders = new Map<string, ReadableStreamDefaultReader<VideoFrame>>();
+const images = new Map<string, ImageBitmap>();
+/** Bumped per layer on every new frame, so unchanged video is not repainted */
+const frameVersions = new Map<string, number>();
+
+function getLayerFrame(layerId: string): LayerFrame | null {
+  const frame = frames.get(layerId);
+  return frame
+    ? { image: frame, width: frame.displayWidth, height: frame.displayHeight, version: frameVersions.get(layerId) ?? 0 }
+    : null;
+}
+
+setRenderResources({
+  getCaptureFrame: getLayerFrame,
+  getVideoFileFrame: getLayerFrame,
+  getImage: (layer) => images.get(getImageKey(layer)) ?? null,
+  // Uploaded fonts are sent by the main thread as soon as a layer uses them.
+  ensureFont: () => {},
+});
+
+function post(event: ProgramWorkerEvent): void {
+  self.postMessage(event);
+}
+
+function fromMainTime(time: number): number {
+  return time + clockOffset;
+}
+
+function toMainTime(time: number): number {
+  return time - clockOffset;
+}
+
+function shiftSample(sample: PointerSample): PointerSample {
+  return { ...sample, at: fromMainTime(sample.at) };
+}
+
+function shiftClocks(clocks: Record<string, SceneClock>): Record<string, SceneClock> {
+  return Object.fromEntries(
+    Object.entries(clocks).map(([sceneId, clock]) => [sceneId, { ...clock, startedAt: fromMainTime(clock.startedAt) }])
+  );
+}
+
+/**
+ * Match the canvas to the program scene's resolution.
+ */
+function fitCanvas(): void {
+  if (!canvas) return;
+  const { width, height } = getCanvasSize(scene);
+  if (canvas.width === width && canvas.height === height) return;
+  // Resizing clears the canvas.
+  canvas.width = width;
+  canvas.height = height;
+  renderer.invalidate();
+}
+
+function renderFrame(): void {
+  const now = performance.now();
+  // Aim for the next slot on a steady cadence rather than `now + interval`.
+  nextFrameAt = Math.max(nextFrameAt + frameInterval, now);
+  // Timers keep running while the presenter tab is hidden, unlike rAF.
+  setTimeout(renderFrame, nextFrameAt - now);
+  if (!ctx) return;
+
+  if (renderer.draw(ctx, scene, transition, now)) {
+    transition = null;
+    post({ type: 'transition-complete', startedAt: transitionStartedAt });
+  }
+
+  if (isFrameProfiling() && now - samplesPostedAt >= SAMPLE_POST_INTERVAL_MS) {
+    samplesPostedAt = now;
+    const samples = takeFrameSamples().map((sample) => ({ ...sample, at: toMainTime(sample.at) }));
+    post({ type: 'frame-samples', samples });
+  }
+}
+
+function setFrame(layerId: string, frame: VideoFrame): void {
+  frames.get(layerId)?.close();
+  frames.set(layerId, frame);
+  frameVersions.set(layerId, (frameVersions.get(layerId) ?? 0) + 1);
+}
+
+function stopReading(layerId: string): void {
+  const reader = frameReaders.get(layerId);
+  if (!reader) return;
+  frameReaders.delete(layerId);
+  reader.cancel().catch(() => { /* already closed */ });
+}
+
+/**
+ * Keep the newest frame of a capture stream until it ends or is replaced.
+ * The last frame stays up while a replacement stream starts.
+ */
+async function readFrames(layerId: string, stream: ReadableStream<VideoFrame>): Promise<void> {
+  stopReading(layerId);
+  const reader = stream.getReader();
+  frameReaders.set(layerId, reader);
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (frameReaders.get(layerId) !== reader) {
+        value.close();
+        break;
+      }
+      setFrame(layerId, value);
+    }
+  } catch (error) {
+    console.warn('ProgramWorker: frame stream failed', layerId, error);
+  } finally {
+    if (frameReaders.get(layerId) === reader) frameReaders.delete(layerId);
+  }
+}
+
+function releaseFrames(layerId: string): void {
+  stopReading(layerId);
+  frames.get(layerId)?.close();
+  frames.delete(layerId);
+}
+
+async function addFont(assetId: string, family: string, data: Blob): Promise<void> {
+  try {
+    const face = new FontFace(family, await data.arrayBuffer());
+    await face.load();
+    self.fonts.add(face);
+    // Text drawn with the fallback font may change size.
+    renderer.invalidate();
+  } catch (error) {
+    console.error('ProgramWorker: failed to load font', assetId, error);
+  }
+}
+
+function handleMessage(message: ProgramWorkerMessage): void {
+  switch (message.type) {
+    case 'init':
+      canvas = message.canvas;
+      ctx = canvas.getContext('2d', { alpha: false });
+      clockOffset = message.timeOrigin - performance.timeOrigin;
+      frameInterval = 1000 / message.fps;
+      fitCanvas();
+      nextFrameAt = performance.now();
+      renderFrame();
+      break;
+    case 'fps':
+      frameInterval = 1000 / message.fps;
+      break;
+    case 'scene':
+      scene = message.scene;
+      fitCanvas();
+      break;
+    case 'scene-patch':
+      if (scene) {
+        scene = applyScenePatch(scene, message.patch, 'redo');
+        fitCanvas();
+      }
+      break;
+    case 'transition':
+      transition = message.transition
+        ? { ...message.transition, startedAt: fromMainTime(message.transition.startedAt) }
+        : null;
+      transitionStartedAt = message.transition?.startedAt ?? 0;
+      break;
+    case 'clocks':
+      setSceneClocks(shiftClocks(message.clocks));
+      break;
+    case 'viewport':
+      setViewportState({ ...message.state, zoomStartedAt: fromMainTime(message.state.zoomStartedAt) });
+      break;
+    case 'pointer':
+      setPointerOverlayState({
+        cursor: message.state.cursor ? shiftSample(message.state.cursor) : null,
+        trail: message.state.trail.map(shiftSample),
+        ripples: message.state.ripples.map(shiftSample),
+      });
+      break;
+    case 'frame-stream':
+      void readFrames(message.layerId, message.frames);
+      break;
+    case 'frame':
+      setFrame(message.layerId, message.frame);
+      break;
+    case 'release-frames':
+      releaseFrames(message.layerId);
+      break;
+    case 'image':
+      images.get(message.key)?.close();
+      images.set(message.key, message.image);
+      renderer.invalidate();
+      break;
+    case 'drop-image':
+      images.get(message.key)?.close();
+      images.delete(message.key);
+      renderer.invalidate();
+      break;
+    case 'font':
+      void addFont(message.assetId, message.family, message.data);
+      break;
+    case 'profiling':
+      setFrameProfiling(message.enabled);
+      break;
+    default:
+      break;
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<ProgramWorkerMessage>) => handleMessage(event.data));
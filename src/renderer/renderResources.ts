@@ -0,0 +1,65 @@
+/**
+ * Media the layer drawers read pixels from: live capture frames, video file
+ * frames, decoded images and uploaded fonts.
+ *
+ * The renderer runs both on the main thread (editor canvas, backed by DOM
+ * elements) and in the program worker (backed by transferred VideoFrames and
+ * ImageBitmaps), so each side registers its own implementation.
+ */
+
+import type { ImageLayer } from '../types/scene';
+
+/**
+ * 2D context the layer drawers paint with: a DOM canvas on the main thread,
+ * an OffscreenCanvas in the program worker.
+ */
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * A drawable frame and its intrinsic size.
+ */
+export interface LayerFrame {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+  /** Changes whenever a new frame is shown, so unchanged video can be skipped */
+  version: number;
+}
+
+export interface RenderResources {
+  /** Latest frame of a screen or camera layer's capture, once one is decoded */
+  getCaptureFrame(layerId: string): LayerFrame | null;
+  /** Current frame of a video file layer, once one is decoded */
+  getVideoFileFrame(layerId: string): LayerFrame | null;
+  /** Decoded image for an image layer; null while it loads */
+  getImage(layer: Pick<ImageLayer, 'assetId' | 'dataUri'>): CanvasImageSource | null;
+  /** Start loading an uploaded font so text can use `family` */
+  ensureFont(assetId: string, family: string): void;
+}
+
+const emptyResources: RenderResources = {
+  getCaptureFrame: () => null,
+  getVideoFileFrame: () => null,
+  getImage: () => null,
+  ensureFont: () => {},
+};
+
+let resources: RenderResources = emptyResources;
+
+/**
+ * Register where this thread's renderer gets media from.
+ */
+export function setRenderResources(next: RenderResources): void {
+  resources = next;
+}
+
+export function getRenderResources(): RenderResources {
+  return resources;
+}
+
+/**
+ * Cache key of an image layer's pixels, shared by every layer showing them.
+ */
+export function getImageKey(layer: Pick<ImageLayer, 'assetId' | 'dataUri'>): string {
+  return layer.dataUri ?? `asset:${layer.assetId}`;
+}
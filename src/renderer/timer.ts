@@ -0,0 +1,125 @@
+/**
+ * Timer layer clock math and display formatting.
+ *
+ * Timers store `elapsedMs` (banked time) plus `startedAt` (epoch ms of the
+ * current run), so the displayed value is derived from the wall clock and
+ * stays correct across scene switches and reloads.
+ */
+
+import type { Scene, TimerLayer } from '../types/scene';
+
+/** Flash on/off period for expired countdowns */
+const FLASH_PERIOD_MS = 500;
+
+/**
+ * Counted time for countdown and count-up modes.
+ */
+export function getTimerElapsedMs(layer: TimerLayer, now = Date.now()): number {
+  const running = layer.startedAt !== null ? Math.max(0, now - layer.startedAt) : 0;
+  return layer.elapsedMs + running;
+}
+
+/**
+ * Countdown time left, clamped at zero.
+ */
+export function getTimerRemainingMs(layer: TimerLayer, now = Date.now()): number {
+  return Math.max(0, layer.durationMs - getTimerElapsedMs(layer, now));
+}
+
+export function isTimerRunning(layer: TimerLayer): boolean {
+  return layer.mode !== 'clock' && layer.startedAt !== null;
+}
+
+/**
+ * A running countdown that has reached zero.
+ */
+export function isTimerExpired(layer: TimerLayer, now = Date.now()): boolean {
+  return layer.mode === 'countdown' && isTimerRunning(layer) && getTimerRemainingMs(layer, now) === 0;
+}
+
+/**
+ * Whether an expired countdown with the flash action is in its "on" phase.
+ */
+export function isTimerFlashing(layer: TimerLayer, now = Date.now()): boolean {
+  if (layer.onZero !== 'flash' || !isTimerExpired(layer, now)) return false;
+  const overdue = getTimerElapsedMs(layer, now) - layer.durationMs;
+  return Math.floor(overdue / FLASH_PERIOD_MS) % 2 === 0;
+}
+
+/**
+ * Text shown by the timer right now.
+ */
+export function formatTimerText(layer: TimerLayer, now = Date.now()): string {
+  if (layer.mode === 'clock') {
+    return new Date(now).toLocaleTimeString([], {
+      hour: 'numeric',
+      minute: '2-digit',
+      ...(layer.showSeconds ? { second: '2-digit' } : {}),
+    });
+  }
+  if (layer.mode === 'countdown') {
+    // Round up so the display hits 0:00 exactly when time runs out.
+    return formatDuration(Math.ceil(getTimerRemainingMs(layer, now) / 1000));
+  }
+  return formatDuration(Math.floor(getTimerElapsedMs(layer, now) / 1000));
+}
+
+/**
+ * Text used to size the timer box: digits are normalized so the box does not
+ * jitter as the value changes.
+ */
+export function getTimerMeasureText(layer: TimerLayer, now = Date.now()): string {
+  return formatTimerText(layer, now).replace(/\d/g, '0');
+}
+
+function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const ss = seconds.toString().padStart(2, '0');
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${ss}`;
+  }
+  return `${minutes}:${ss}`;
+}
+
+/**
+ * Updates that start (or resume) a timer. An expired countdown restarts from
+ * its full length.
+ */
+export function startTimer(layer: TimerLayer, now = Date.now()): Partial<TimerLayer> {
+  if (isTimerRunning(layer)) return {};
+  const finished = layer.mode === 'countdown' && layer.elapsedMs >= layer.durationMs;
+  return { startedAt: now, elapsedMs: finished ? 0 : layer.elapsedMs };
+}
+
+/**
+ * Updates that pause a running timer, banking the time counted so far.
+ */
+export function pauseTimer(layer: TimerLayer, now = Date.now()): Partial<TimerLayer> {
+  if (!isTimerRunning(layer)) return {};
+  const elapsed = getTimerElapsedMs(layer, now);
+  return {
+    startedAt: null,
+    elapsedMs: layer.mode === 'countdown' ? Math.min(elapsed, layer.durationMs) : elapsed,
+  };
+}
+
+/**
+ * Updates that stop a timer and return it to its starting value.
+ */
+export function resetTimer(): Partial<TimerLayer> {
+  return { startedAt: null, elapsedMs: 0 };
+}
+
+/**
+ * Whether the scene shows a timer whose text changes over time.
+ */
+export function sceneHasLiveTimers(scene: Scene | null): boolean {
+  return (
+    !!scene &&
+    scene.layers.some(
+      (layer) => layer.type === 'timer' && layer.visible && (layer.mode === 'clock' || layer.startedAt !== null)
+    )
+  );
+}
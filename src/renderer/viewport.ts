@@ -0,0 +1,230 @@
+/**
+ * Program viewport: zoom-to-region and spotlight.
+ *
+ * The viewport is a camera over the scene, applied by `drawScene` as a canvas
+ * transform; layer transforms are never touched and nothing here is
+ * persisted. Zoom changes animate between regions; the spotlight dims
+ * everything outside a circle in scene coordinates.
+ */
+
+import type { Scene } from '../types/scene';
+import type { RenderContext } from './renderResources';
+
+export interface ViewportRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Spotlight {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+/**
+ * Viewport resolved for one frame.
+ */
+export interface ViewportFrame {
+  /** Visible scene region; null shows the whole scene */
+  zoom: ViewportRect | null;
+  spotlight: Spotlight | null;
+}
+
+const ZOOM_ANIMATION_MS = 450;
+/** Smallest zoom region as a fraction of the scene width (max ~12x) */
+const MIN_ZOOM_FRACTION = 0.08;
+const SPOTLIGHT_DIM = 'rgba(0, 0, 0, 0.72)';
+const DEFAULT_SPOTLIGHT_RADIUS = 240;
+const MIN_SPOTLIGHT_RADIUS = 60;
+const MAX_SPOTLIGHT_RADIUS = 900;
+
+let zoomFrom: ViewportRect | null = null;
+let zoomTo: ViewportRect | null = null;
+let zoomStartedAt = 0;
+let spotlightCenter: { x: number; y: number } | null = null;
+let spotlightRadius = DEFAULT_SPOTLIGHT_RADIUS;
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function now(): number {
+  return typeof performance !== 'undefined' && typeof performance.now === 'function'
+    ? performance.now()
+    : Date.now();
+}
+
+function fullRect(scene: Scene): ViewportRect {
+  return { x: 0, y: 0, width: scene.width, height: scene.height };
+}
+
+function easeInOut(t: number): number {
+  return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+}
+
+function lerpRect(a: ViewportRect, b: ViewportRect, t: number): ViewportRect {
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    width: a.width + (b.width - a.width) * t,
+    height: a.height + (b.height - a.height) * t,
+  };
+}
+
+/**
+ * Grow a region to the scene's aspect ratio around its center and keep it
+ * inside the scene.
+ */
+function fitRegion(scene: Scene, region: ViewportRect): ViewportRect {
+  const aspect = scene.width / scene.height;
+  let width = Math.max(Math.abs(region.width), scene.width * MIN_ZOOM_FRACTION);
+  let height = Math.abs(region.height);
+  if (width / Math.max(height, 1) > aspect) {
+    height = width / aspect;
+  } else {
+    width = height * aspect;
+  }
+  width = Math.min(width, scene.width);
+  height = Math.min(height, scene.height);
+  const centerX = Math.min(region.x, region.x + region.width) + Math.abs(region.width) / 2;
+  const centerY = Math.min(region.y, region.y + region.height) + Math.abs(region.height) / 2;
+  return {
+    x: Math.min(Math.max(0, centerX - width / 2), scene.width - width),
+    y: Math.min(Math.max(0, centerY - height / 2), scene.height - height),
+    width,
+    height,
+  };
+}
+
+function currentZoomRect(scene: Scene, time: number): ViewportRect | null {
+  const progress = Math.min(1, (time - zoomStartedAt) / ZOOM_ANIMATION_MS);
+  if (progress >= 1) return zoomTo;
+  const from = zoomFrom ?? fullRect(scene);
+  const to = zoomTo ?? fullRect(scene);
+  return lerpRect(from, to, easeInOut(progress));
+}
+
+/**
+ * Animate the program to show `region` (scene coordinates). The region is
+ * widened to the scene aspect ratio. Pass null to zoom back out.
+ */
+export function setZoomRegion(scene: Scene, region: ViewportRect | null): void {
+  const time = now();
+  zoomFrom = currentZoomRect(scene, time);
+  zoomTo = region ? fitRegion(scene, region) : null;
+  zoomStartedAt = time;
+  notify();
+}
+
+export function isViewportZoomed(): boolean {
+  return zoomTo !== null;
+}
+
+/**
+ * Center the spotlight on a scene point, or pass null to turn it off.
+ */
+export function setSpotlight(point: { x: number; y: number } | null): void {
+  spotlightCenter = point;
+  notify();
+}
+
+/**
+ * Grow or shrink the spotlight circle.
+ */
+export function adjustSpotlightRadius(delta: number): void {
+  spotlightRadius = Math.min(MAX_SPOTLIGHT_RADIUS, Math.max(MIN_SPOTLIGHT_RADIUS, spotlightRadius + delta));
+  notify();
+}
+
+/**
+ * Subscribe to zoom and spotlight changes.
+ */
+export function subscribeViewport(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Zoom animation and spotlight settings, for mirroring into the program
+ * worker. Times are `performance.now()` timestamps.
+ */
+export interface ViewportState {
+  zoomFrom: ViewportRect | null;
+  zoomTo: ViewportRect | null;
+  zoomStartedAt: number;
+  spotlightCenter: { x: number; y: number } | null;
+  spotlightRadius: number;
+}
+
+export function getViewportState(): ViewportState {
+  return { zoomFrom, zoomTo, zoomStartedAt, spotlightCenter, spotlightRadius };
+}
+
+export function setViewportState(state: ViewportState): void {
+  zoomFrom = state.zoomFrom;
+  zoomTo = state.zoomTo;
+  zoomStartedAt = state.zoomStartedAt;
+  spotlightCenter = state.spotlightCenter;
+  spotlightRadius = state.spotlightRadius;
+  notify();
+}
+
+/**
+ * Viewport for the frame being drawn now.
+ */
+export function getViewportFrame(scene: Scene | null): ViewportFrame {
+  if (!scene) return { zoom: null, spotlight: null };
+  return {
+    zoom: currentZoomRect(scene, now()),
+    spotlight: spotlightCenter ? { ...spotlightCenter, radius: spotlightRadius } : null,
+  };
+}
+
+/**
+ * Whether the viewport changes the picture (zoomed, animating or spotlit).
+ */
+export function isViewportActive(frame: ViewportFrame): boolean {
+  return frame.zoom !== null || frame.spotlight !== null;
+}
+
+/**
+ * Transform the context so scene coordinates inside `zoom` fill the canvas.
+ */
+export function applyViewportTransform(ctx: RenderContext, scene: Scene, zoom: ViewportRect | null): void {
+  if (!zoom) return;
+  ctx.scale(scene.width / zoom.width, scene.height / zoom.height);
+  ctx.translate(-zoom.x, -zoom.y);
+}
+
+/**
+ * Map a point on the zoomed canvas, in scene units, to the scene point shown
+ * there right now.
+ */
+export function viewToScene(scene: Scene, x: number, y: number): { x: number; y: number } {
+  const zoom = currentZoomRect(scene, now());
+  if (!zoom) return { x, y };
+  return {
+    x: zoom.x + (x / scene.width) * zoom.width,
+    y: zoom.y + (y / scene.height) * zoom.height,
+  };
+}
+
+/**
+ * Dim the scene outside the spotlight circle (soft edge). Call inside the
+ * viewport transform.
+ */
+export function drawSpotlight(ctx: RenderContext, scene: Scene, spotlight: Spotlight): void {
+  const { x, y, radius } = spotlight;
+  const gradient = ctx.createRadialGradient(x, y, radius * 0.85, x, y, radius);
+  gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  gradient.addColorStop(1, SPOTLIGHT_DIM);
+  ctx.save();
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, scene.width, scene.height);
+  ctx.restore();
+}
@@ -0,0 +1,50 @@
+import { create } from "zustand";
+import type { AnnotationLayer, AnnotationTool, Scene } from "../types/scene";
+
+export const ANNOTATION_COLORS = ["#ef4444", "#facc15", "#22c55e", "#3b82f6", "#ffffff", "#111111"];
+export const MIN_ANNOTATION_WIDTH = 2;
+export const MAX_ANNOTATION_WIDTH = 48;
+
+interface AnnotationState {
+  // Draw mode: pointer input on the canvas becomes ink instead of selection
+  active: boolean;
+  tool: AnnotationTool;
+  color: string;
+  width: number; // stroke width in scene pixels (highlighter and eraser scale it up)
+
+  setActive: (v: boolean) => void;
+  toggleActive: () => void;
+  setTool: (t: AnnotationTool) => void;
+  setColor: (c: string) => void;
+  setWidth: (px: number) => void;
+}
+
+export const useAnnotationStore = create<AnnotationState>((set) => ({
+  active: false,
+  tool: "pen",
+  color: ANNOTATION_COLORS[0],
+  width: 6,
+
+  setActive: (v) => set({ active: v }),
+  toggleActive: () => set((state) => ({ active: !state.active })),
+  setTool: (t) => set({ tool: t }),
+  setColor: (c) => set({ color: c }),
+  setWidth: (px) =>
+    set({ width: Math.min(MAX_ANNOTATION_WIDTH, Math.max(MIN_ANNOTATION_WIDTH, px)) }),
+}));
+
+/**
+ * Annotation layer that draw mode writes into: the selected annotation layer,
+ * otherwise the topmost visible, unlocked one.
+ */
+export function findAnnotationTarget(scene: Scene, selection: string[]): AnnotationLayer | null {
+  const candidates = scene.layers.filter(
+    (layer): layer is AnnotationLayer => layer.type === "annotation" && layer.visible && !layer.locked
+  );
+  const selected = candidates.find((layer) => selection.includes(layer.id));
+  if (selected) return selected;
+  return candidates.reduce<AnnotationLayer | null>(
+    (top, layer) => (!top || layer.z >= top.z ? layer : top),
+    null
+  );
+}
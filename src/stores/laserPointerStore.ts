@@ -0,0 +1,16 @@
+import { create } from "zustand";
+
+interface LaserPointerState {
+  // Pointer mode: movement over the canvas shows a laser dot to viewers
+  active: boolean;
+
+  setActive: (v: boolean) => void;
+  toggleActive: () => void;
+}
+
+export const useLaserPointerStore = create<LaserPointerState>((set) => ({
+  active: false,
+
+  setActive: (v) => set({ active: v }),
+  toggleActive: () => set((state) => ({ active: !state.active })),
+}));
@@ -0,0 +1,101 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { createId } from "../utils/id";
+import type { SnapLines } from "../utils/snapping";
+
+export const GRID_SIZES = [20, 40, 60, 80, 120];
+
+/**
+ * Safe-area markers, as the share of the frame inset on every side. Action
+ * safe is 93% of the frame and title safe 90%, so overscanning projectors
+ * still show everything inside them.
+ */
+export const SAFE_AREAS = [
+  { id: "action", label: "Action safe", inset: 0.035 },
+  { id: "title", label: "Title safe", inset: 0.05 },
+];
+
+export interface RulerGuide {
+  id: string;
+  // Vertical guides sit at an x position, horizontal guides at a y position
+  orientation: "vertical" | "horizontal";
+  // Scene pixels
+  position: number;
+}
+
+interface LayoutAidsState {
+  // Editor-only layout aids; none of them are drawn into the program output
+  gridVisible: boolean;
+  gridSize: number; // scene pixels
+  snapToGrid: boolean;
+  rulersVisible: boolean;
+  safeAreasVisible: boolean;
+  // Guides dragged out of the rulers, shared by every scene
+  guides: RulerGuide[];
+
+  toggleGrid: () => void;
+  setGridSize: (px: number) => void;
+  toggleSnapToGrid: () => void;
+  toggleRulers: () => void;
+  toggleSafeAreas: () => void;
+  addGuide: (orientation: RulerGuide["orientation"], position: number) => string;
+  moveGuide: (id: string, position: number) => void;
+  removeGuide: (id: string) => void;
+  clearGuides: () => void;
+}
+
+// Layout aids are editor preferences, kept across reloads in localStorage.
+export const useLayoutAidsStore = create<LayoutAidsState>()(
+  persist(
+    (set) => ({
+      gridVisible: false,
+      gridSize: 40,
+      snapToGrid: true,
+      rulersVisible: false,
+      safeAreasVisible: false,
+      guides: [],
+
+      toggleGrid: () => set((state) => ({ gridVisible: !state.gridVisible })),
+      setGridSize: (px) => set({ gridSize: Math.max(1, Math.round(px)) }),
+      toggleSnapToGrid: () => set((state) => ({ snapToGrid: !state.snapToGrid })),
+      toggleRulers: () => set((state) => ({ rulersVisible: !state.rulersVisible })),
+      toggleSafeAreas: () => set((state) => ({ safeAreasVisible: !state.safeAreasVisible })),
+      addGuide: (orientation, position) => {
+        const id = createId("guide");
+        set((state) => ({ guides: [...state.guides, { id, orientation, position }] }));
+        return id;
+      },
+      moveGuide: (id, position) =>
+        set((state) => ({
+          guides: state.guides.map((guide) => (guide.id === id ? { ...guide, position } : guide)),
+        })),
+      removeGuide: (id) => set((state) => ({ guides: state.guides.filter((guide) => guide.id !== id) })),
+      clearGuides: () => set({ guides: [] }),
+    }),
+    {
+      name: "classroom-compositor:layout-aids",
+      partialize: ({ gridVisible, gridSize, snapToGrid, rulersVisible, safeAreasVisible, guides }) => ({
+        gridVisible,
+        gridSize,
+        snapToGrid,
+        rulersVisible,
+        safeAreasVisible,
+        guides,
+      }),
+    }
+  )
+);
+
+/**
+ * Guides and grid lines that drags should snap to right now: guides while the
+ * rulers are shown, the grid while it is shown with snapping on.
+ */
+export function getLayoutSnapLines(): SnapLines {
+  const { guides, rulersVisible, gridVisible, gridSize, snapToGrid } = useLayoutAidsStore.getState();
+  const shown = rulersVisible ? guides : [];
+  return {
+    vertical: shown.filter((guide) => guide.orientation === "vertical").map((guide) => guide.position),
+    horizontal: shown.filter((guide) => guide.orientation === "horizontal").map((guide) => guide.position),
+    grid: gridVisible && snapToGrid ? gridSize : null,
+  };
+}
@@ -0,0 +1,23 @@
+import { create } from "zustand";
+import type { SnapGuide } from "../utils/snapping";
+
+interface SnapGuideState {
+  // Guides for the drag in progress, in scene coordinates
+  guides: SnapGuide[];
+
+  setGuides: (guides: SnapGuide[]) => void;
+  clearGuides: () => void;
+}
+
+export const useSnapGuideStore = create<SnapGuideState>((set, get) => ({
+  guides: [],
+
+  setGuides: (guides) => {
+    if (guides.length === 0 && get().guides.length === 0) return;
+    set({ guides });
+  },
+  clearGuides: () => {
+    if (get().guides.length === 0) return;
+    set({ guides: [] });
+  },
+}));
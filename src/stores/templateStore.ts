@@ -0,0 +1,45 @@
+import { create } from "zustand";
+import type { LayerTemplate } from "../types/template";
+import { deleteTemplate, loadTemplates, saveTemplate } from "../app/persistence";
+import { importTemplateBundle } from "../app/bundle";
+
+interface TemplateState {
+  // The user's saved templates, newest first (built-ins live in layers/templates)
+  templates: LayerTemplate[];
+  loaded: boolean;
+
+  load: () => Promise<void>;
+  save: (template: LayerTemplate) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  importBundle: (file: Blob) => Promise<LayerTemplate[]>;
+}
+
+function sortTemplates(templates: LayerTemplate[]): LayerTemplate[] {
+  return [...templates].sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export const useTemplateStore = create<TemplateState>((set, get) => ({
+  templates: [],
+  loaded: false,
+
+  load: async () => {
+    if (get().loaded) return;
+    const templates = await loadTemplates();
+    set({ templates: sortTemplates(templates), loaded: true });
+  },
+  save: async (template) => {
+    await saveTemplate(template);
+    set((state) => ({
+      templates: sortTemplates([template, ...state.templates.filter((entry) => entry.id !== template.id)]),
+    }));
+  },
+  remove: async (id) => {
+    await deleteTemplate(id);
+    set((state) => ({ templates: state.templates.filter((entry) => entry.id !== id) }));
+  },
+  importBundle: async (file) => {
+    const imported = await importTemplateBundle(file);
+    set((state) => ({ templates: sortTemplates([...imported, ...state.templates]) }));
+    return imported;
+  },
+}));
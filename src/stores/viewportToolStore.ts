@@ -0,0 +1,23 @@
+import { create } from "zustand";
+
+interface ViewportToolState {
+  // Zoom mode: dragging a rectangle on the canvas zooms the program to it
+  zoomActive: boolean;
+  // Spotlight mode: the program is dimmed outside a circle around the cursor
+  spotlightActive: boolean;
+
+  setZoomActive: (v: boolean) => void;
+  toggleZoomActive: () => void;
+  setSpotlightActive: (v: boolean) => void;
+  toggleSpotlightActive: () => void;
+}
+
+export const useViewportToolStore = create<ViewportToolState>((set) => ({
+  zoomActive: false,
+  spotlightActive: false,
+
+  setZoomActive: (v) => set({ zoomActive: v }),
+  toggleZoomActive: () => set((state) => ({ zoomActive: !state.zoomActive })),
+  setSpotlightActive: (v) => set({ spotlightActive: v }),
+  toggleSpotlightActive: () => set((state) => ({ spotlightActive: !state.spotlightActive })),
+}));
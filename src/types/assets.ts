@@ -27,3 +27,18 @@ export interface EmbeddedAsset {
  */
 export type Asset = ReferenceAsset | EmbeddedAsset;
 
+
+/**
+ * A blob held in the local asset store, as returned by persistence.
+ */
+export interface StoredAsset {
+  /** Blob ID referenced by layers (`assetId`) */
+  id: string;
+  /** SHA256 hash of the blob contents */
+  sha256: string;
+  /** MIME type */
+  type: string;
+  /** Size in bytes */
+  size: number;
+  blob: Blob;
+}
@@ -0,0 +1,82 @@
+/**
+ * Undo/redo history. Entries hold patches (only what an edit changed), not
+ * copies of the whole scene.
+ */
+
+import type { AnnotationStroke, Layer, Scene } from './scene';
+
+/**
+ * Changed fields of one object. `keys` lists every changed field; a key
+ * missing from `before` or `after` means the field was absent on that side.
+ */
+export interface FieldPatch<T> {
+  keys: string[];
+  before: Partial<T>;
+  after: Partial<T>;
+}
+
+/**
+ * Items taken out of and put into an id-keyed list. An item that changed is
+ * both removed and added.
+ */
+export interface ListPatch<T> {
+  /** Items with their index in the list before the edit */
+  removed: { index: number; item: T }[];
+  /** Items with their index in the list after the edit */
+  added: { index: number; item: T }[];
+}
+
+export type LayerPatch =
+  | { op: 'add'; layer: Layer }
+  | { op: 'remove'; layer: Layer }
+  | ({
+      op: 'update';
+      id: string;
+      /** Annotation strokes are patched one by one, never as the whole list */
+      strokes?: ListPatch<AnnotationStroke>;
+    } & FieldPatch<Layer>);
+
+export interface ScenePatch {
+  layers: LayerPatch[];
+  /** Layer ID order, when layers were added, removed or reordered */
+  order?: { before: string[]; after: string[] };
+  /** Scene fields other than `layers` (name, size, …) */
+  scene?: FieldPatch<Scene>;
+}
+
+/**
+ * One named step in the history panel.
+ */
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  patch: ScenePatch;
+  /** Epoch milliseconds of the latest edit merged into this entry */
+  timestamp: number;
+  /** Edits sharing a key merge into one entry while they keep coming */
+  coalesceKey?: string;
+}
+
+/**
+ * How an edit may merge into the newest history entry. Edits sharing `key`
+ * merge while they keep coming (slider scrubs, nudges); a `gesture` key names
+ * one pointer gesture, whose edits merge however long the pointer rests.
+ */
+export interface HistoryCoalesce {
+  key: string;
+  gesture?: boolean;
+}
+
+/**
+ * A scene's undo and redo stacks as persisted between sessions.
+ */
+export interface SceneHistory {
+  sceneId: string;
+  /** Oldest first; the last entry is undone first */
+  undo: HistoryEntry[];
+  /** The first entry is redone first */
+  redo: HistoryEntry[];
+  /** Scene schema version the patches were written with */
+  schemaVersion: number;
+  updatedAt: number;
+}
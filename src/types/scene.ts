@@ -2,6 +2,41 @@
  * Type definitions for the Classroom Compositor scene graph.
  */
 
+/**
+ * Easing curve for the segment that starts at a keyframe.
+ * `hold` keeps the key's value until the next key (step).
+ */
+export type KeyframeEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'hold';
+
+/**
+ * A single keyframe on an animation track.
+ */
+export interface Keyframe<T> {
+  /** Time on the scene clock in milliseconds */
+  time: number;
+  value: T;
+  /** Easing towards the next key (defaults to linear) */
+  easing?: KeyframeEasing;
+}
+
+/**
+ * Names of the animatable transform tracks.
+ */
+export type KeyframeTrackName = 'position' | 'scale' | 'rotation' | 'opacity';
+
+/**
+ * Optional keyframe tracks for a transform. A track with keys overrides the
+ * matching static transform value while rendering.
+ */
+export interface TransformKeyframes {
+  position?: Keyframe<{ x: number; y: number }>[];
+  scale?: Keyframe<{ x: number; y: number }>[];
+  rotation?: Keyframe<number>[];
+  opacity?: Keyframe<number>[];
+  /** Restart from the first key after the last one */
+  loop?: boolean;
+}
+
 /**
  * Transform properties for a layer.
  */
@@ -14,6 +49,66 @@ export interface Transform {
   rot: number;
   /** Opacity 0.0 to 1.0 */
   opacity: number;
+  /** Keyframe tracks evaluated against the scene clock */
+  keyframes?: TransformKeyframes;
+}
+
+/**
+ * Canvas compositing mode used to blend a layer onto the layers below it.
+ */
+export type LayerBlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion';
+
+/**
+ * CSS-style filters. Percentages use 100 as "unchanged" (0 for grayscale).
+ */
+export interface LayerFilters {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  grayscale: number;
+  /** Blur radius in scene pixels */
+  blur: number;
+}
+
+/**
+ * Drop shadow cast by the layer's drawn pixels; sizes in scene pixels.
+ */
+export interface LayerShadow {
+  color: string;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * Outline stroked around the layer's box (or its mask shape).
+ */
+export interface LayerBorder {
+  color: string;
+  /** Line width in layer pixels */
+  width: number;
+}
+
+/**
+ * Optional styling applied when the layer is drawn.
+ */
+export interface LayerEffects {
+  blendMode: LayerBlendMode;
+  filters: LayerFilters;
+  shadow: LayerShadow | null;
+  border: LayerBorder | null;
 }
 
 /**
@@ -34,12 +129,40 @@ export interface BaseLayer {
   z: number;
   /** Transform properties */
   transform: Transform;
+  /** Blend mode, filters, shadow and border; absent means none */
+  effects?: LayerEffects;
+}
+
+/**
+ * Crop insets as fractions (0–1) of the source frame on each edge, so a crop
+ * survives changes in capture resolution.
+ */
+export interface CropInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * Shape the cropped frame is clipped to.
+ */
+export type LayerMaskShape = 'none' | 'rounded-rect' | 'circle';
+
+/**
+ * Crop and mask for live video layers.
+ */
+export interface LayerFraming {
+  crop: CropInsets;
+  mask: LayerMaskShape;
+  /** Corner radius for the rounded-rect mask, in layer pixels */
+  maskRadius: number;
 }
 
 /**
  * Screen capture layer.
  */
-export interface ScreenLayer extends BaseLayer {
+export interface ScreenLayer extends BaseLayer, LayerFraming {
   type: 'screen';
   /** MediaStream track ID for screen capture */
   streamId?: string;
@@ -48,7 +171,7 @@ export interface ScreenLayer extends BaseLayer {
 /**
  * Camera (webcam) layer.
  */
-export interface CameraLayer extends BaseLayer {
+export interface CameraLayer extends BaseLayer, LayerFraming {
   type: 'camera';
   /** MediaStream track ID for camera */
   streamId?: string;
@@ -59,24 +182,94 @@ export interface CameraLayer extends BaseLayer {
  */
 export interface ImageLayer extends BaseLayer {
   type: 'image';
-  /** Asset reference (URI or embedded blob ID) */
+  /** Asset store blob ID */
   assetId: string;
   /** Image dimensions */
   width: number;
   height: number;
-  /** Embedded data URI for local images (temporary until asset pipeline) */
+  /** Inline data URI, only used when the asset store is unavailable */
   dataUri?: string;
   /** Maintain uniform scaling when resizing */
   scaleLocked?: boolean;
 }
 
+/**
+ * Local video file layer. The file itself lives in the asset store; playback
+ * state lives on the backing <video> element.
+ */
+export interface VideoLayer extends BaseLayer {
+  type: 'video';
+  /** Asset store blob ID */
+  assetId: string;
+  /** Original file name */
+  fileName?: string;
+  /** Intrinsic video dimensions */
+  width: number;
+  height: number;
+  /** Restart from the beginning when playback ends */
+  loop: boolean;
+  /** Silence the clip locally and in the stream */
+  muted: boolean;
+  /** Playback volume 0.0 to 1.0 */
+  volume?: number;
+  /** Route the clip's audio into the outgoing stream */
+  sendAudio?: boolean;
+  /** Maintain uniform scaling when resizing */
+  scaleLocked?: boolean;
+}
+
+/**
+ * Inline formatting for a run of text. Unset fields use the layer's style.
+ */
+export interface TextRunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  /** Overrides the layer's text color */
+  color?: string;
+}
+
+export interface TextRun extends TextRunStyle {
+  text: string;
+}
+
+/**
+ * One line of a rich text layer.
+ */
+export interface TextLine {
+  runs: TextRun[];
+  /** Overrides the layer's alignment for this line */
+  align?: TextStyle['textAlign'];
+  /** Draw a bullet and indent the line */
+  bullet?: boolean;
+}
+
 /**
  * Text pill layer with styling options.
  */
-export interface TextLayer extends BaseLayer {
+export interface TextLayer extends BaseLayer, TextStyle {
   type: 'text';
-  /** Text content */
+  /** Text content (plain text; always kept in sync with `lines`) */
   content: string;
+  /**
+   * Inline formatting, one entry per line of `content`. Absent or stale
+   * formatting renders `content` in the layer's style.
+   */
+  lines?: TextLine[];
+  /** Extra space between characters, in pixels */
+  letterSpacing: number;
+  /** Line height multiplier (1 = default spacing) */
+  lineSpacing: number;
+  /** Uploaded font in the asset store backing `font`, if any */
+  fontAssetId: string | null;
+  /** Auto-size text to fit content */
+  autoSize: boolean;
+}
+
+/**
+ * Box and font styling shared by text-like layers (text, timer).
+ */
+export interface TextStyle {
   /** Font family */
   font: string;
   /** Font size in pixels */
@@ -93,27 +286,95 @@ export interface TextLayer extends BaseLayer {
   padding: number;
   /** Shadow CSS string */
   shadow: string;
-  /** Auto-size text to fit content */
-  autoSize: boolean;
 }
 
 /**
- * Rectangle shape layer.
+ * Timer display mode.
+ */
+export type TimerMode = 'countdown' | 'countup' | 'clock';
+
+/**
+ * What happens when a countdown reaches zero.
+ */
+export type TimerZeroAction = 'none' | 'flash' | 'chime' | 'switch-scene';
+
+/**
+ * Countdown, stopwatch or wall clock. Run state is stored as wall-clock
+ * timestamps so a timer keeps counting while its scene is not on screen.
+ */
+export interface TimerLayer extends BaseLayer, TextStyle {
+  type: 'timer';
+  mode: TimerMode;
+  /** Countdown length in milliseconds */
+  durationMs: number;
+  /** Time counted before the current run (accumulated across pauses) */
+  elapsedMs: number;
+  /** Epoch milliseconds when the current run started; null while stopped */
+  startedAt: number | null;
+  /** Show seconds in clock mode */
+  showSeconds: boolean;
+  /** Countdown action on reaching zero */
+  onZero: TimerZeroAction;
+  /** Scene to switch to when `onZero` is 'switch-scene' */
+  targetSceneId?: string | null;
+}
+
+/**
+ * Geometry of a shape layer. Lines and arrows run horizontally through the
+ * middle of the layer box; rotate the layer to point them.
+ */
+export type ShapeType =
+  | 'rect'
+  | 'rounded-rect'
+  | 'ellipse'
+  | 'line'
+  | 'arrow'
+  | 'polygon'
+  | 'star'
+  | 'callout';
+
+/**
+ * Dash pattern of a shape's stroke.
+ */
+export type ShapeStrokeDash = 'solid' | 'dashed' | 'dotted';
+
+/**
+ * End cap drawn at either end of a line or arrow.
+ */
+export type ArrowHeadStyle = 'none' | 'triangle' | 'open' | 'circle' | 'bar';
+
+/**
+ * Shape layer: rectangles, ellipses, lines/arrows, polygons/stars and
+ * speech-bubble callouts.
  */
 export interface ShapeLayer extends BaseLayer {
   type: 'shape';
-  /** Shape type (currently only 'rect') */
-  shapeType: 'rect';
+  /** Shape geometry */
+  shapeType: ShapeType;
   /** Width in pixels */
   width: number;
   /** Height in pixels */
   height: number;
-  /** Fill color (CSS color string) */
+  /** Fill color (CSS color string); unused by lines and arrows */
   fillColor: string;
   /** Stroke color (CSS color string) */
   strokeColor?: string;
   /** Stroke width in pixels */
   strokeWidth?: number;
+  /** Stroke dash pattern (default solid) */
+  strokeDash?: ShapeStrokeDash;
+  /** Corner radius in pixels for rounded rectangles and callouts */
+  cornerRadius?: number;
+  /** Number of polygon corners or star points */
+  sides?: number;
+  /** Star inner radius as a fraction of the outer radius */
+  innerRadius?: number;
+  /** Head at the start (left end) of a line or arrow */
+  arrowStart?: ArrowHeadStyle;
+  /** Head at the end (right end) of a line or arrow */
+  arrowEnd?: ArrowHeadStyle;
+  /** Callout tail position along the bottom edge, 0 (left) to 1 (right) */
+  tailPosition?: number;
   /** Maintain uniform scaling when resizing */
   scaleLocked?: boolean;
 }
@@ -129,10 +390,51 @@ export interface GroupLayer extends BaseLayer {
   childVisibility?: Record<string, boolean>;
 }
 
+/**
+ * Annotation drawing tool. The eraser removes ink from earlier strokes on the
+ * same layer only.
+ */
+export type AnnotationTool = 'pen' | 'highlighter' | 'eraser';
+
+/**
+ * A single freehand stroke.
+ */
+export interface AnnotationStroke {
+  id: string;
+  tool: AnnotationTool;
+  /** CSS color (ignored by the eraser) */
+  color: string;
+  /** Line width in layer pixels */
+  width: number;
+  /** Flat [x0, y0, x1, y1, …] list in layer-local coordinates (origin at center) */
+  points: number[];
+}
+
+/**
+ * Freehand ink drawn over the scene (whiteboard / markup).
+ */
+export interface AnnotationLayer extends BaseLayer {
+  type: 'annotation';
+  /** Drawing surface size in pixels (the scene size when created) */
+  width: number;
+  height: number;
+  /** Strokes in drawing order */
+  strokes: AnnotationStroke[];
+}
+
 /**
  * Discriminated union of all layer types.
  */
-export type Layer = ScreenLayer | CameraLayer | ImageLayer | TextLayer | ShapeLayer | GroupLayer;
+export type Layer =
+  | ScreenLayer
+  | CameraLayer
+  | ImageLayer
+  | VideoLayer
+  | TextLayer
+  | ShapeLayer
+  | AnnotationLayer
+  | TimerLayer
+  | GroupLayer;
 
 /**
  * Scene data structure containing canvas dimensions and layers.
@@ -142,6 +444,8 @@ export interface Scene {
   id?: string;
   /** Scene name */
   name?: string;
+  /** Persisted schema version, stamped on save (see app/sceneSchema) */
+  schemaVersion?: number;
   /** Canvas width in pixels */
   width: number;
   /** Canvas height in pixels */
@@ -149,3 +453,60 @@ export interface Scene {
   /** Ordered array of layers */
   layers: Layer[];
 }
+
+/**
+ * Visual style used when the program output switches between scenes.
+ */
+export type SceneTransitionKind = 'cut' | 'fade' | 'slide';
+
+/**
+ * Edge the incoming scene enters from during a slide transition.
+ */
+export type SlideDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * Transition settings applied when switching scenes.
+ */
+export interface SceneTransition {
+  /** Transition style */
+  kind: SceneTransitionKind;
+  /** Duration in milliseconds (ignored for cuts) */
+  durationMs: number;
+  /** Entry edge for slide transitions */
+  direction?: SlideDirection;
+}
+
+/**
+ * A transition that is currently playing on the program output.
+ * The outgoing scene is captured as a snapshot so later edits do not leak
+ * into the animation.
+ */
+export interface ActiveSceneTransition extends SceneTransition {
+  /** Snapshot of the outgoing scene */
+  from: Scene;
+  /** `performance.now()` timestamp when the transition started */
+  startedAt: number;
+}
+
+/**
+ * Output profile preset: scene size, capture frame rate and encoder bitrate.
+ */
+export type OutputProfileId = '720p30' | '1080p30' | '1080p60' | 'vertical' | 'projector';
+
+/**
+ * A "class": an ordered collection of scenes the presenter switches between.
+ */
+export interface SceneCollection {
+  /** Collection identifier (for persistence) */
+  id: string;
+  /** Display name (e.g., "Period 3 — Algebra") */
+  name: string;
+  /** Scene IDs in switcher order */
+  sceneIds: string[];
+  /** Scene that was last on program, restored on reload */
+  activeSceneId?: string | null;
+  /** Transition used by the scene switcher */
+  transition: SceneTransition;
+  /** Output profile for every scene in the class (default 1080p30) */
+  outputProfile?: OutputProfileId;
+}
@@ -0,0 +1,35 @@
+/**
+ * Reusable layer templates ("Back in 5 minutes" cards, lower thirds, text
+ * pills) that can be inserted into any scene.
+ */
+
+import type { Layer } from './scene';
+
+/**
+ * A saved layer, or a group with its children. Text may contain
+ * `{{Label}}` or `{{Label|default}}` placeholders that are filled in when the
+ * template is inserted.
+ */
+export interface LayerTemplate {
+  id: string;
+  name: string;
+  /** Size of the scene the layers were laid out in */
+  width: number;
+  height: number;
+  /** Layers in draw order; group membership refers to IDs within the template */
+  layers: Layer[];
+  /** Scene schema version the layers were written with */
+  schemaVersion: number;
+  /** Shipped with the app; cannot be deleted */
+  builtIn?: boolean;
+  /** Epoch milliseconds */
+  updatedAt: number;
+}
+
+/**
+ * A text placeholder found in a template's layers.
+ */
+export interface TemplatePlaceholder {
+  label: string;
+  defaultValue: string;
+}
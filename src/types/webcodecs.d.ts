@@ -0,0 +1,27 @@
+export {};
+
+declare global {
+  interface MediaStreamTrackProcessorInit {
+    track: MediaStreamTrack;
+  }
+
+  interface MediaStreamTrackProcessor<T extends VideoFrame = VideoFrame> {
+    readonly readable: ReadableStream<T>;
+  }
+
+  const MediaStreamTrackProcessor: {
+    prototype: MediaStreamTrackProcessor;
+    new <T extends VideoFrame = VideoFrame>(init: MediaStreamTrackProcessorInit): MediaStreamTrackProcessor<T>;
+  };
+
+  /**
+   * The parts of a dedicated worker's global scope the program worker uses;
+   * the app compiles against the DOM typings, where `self` is a window.
+   */
+  interface WorkerGlobalScope {
+    /** Fonts the worker's canvases can draw with */
+    readonly fonts: FontFaceSet;
+    postMessage(message: unknown, transfer?: Transferable[]): void;
+    addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Hex form (#rrggbb) of any CSS color, for `<input type="color">`.
+ */
+export function normalizeColor(color: string | undefined): string {
+  if (!color) return '#ffffff';
+  if (color.startsWith('#') && (color.length === 7 || color.length === 4)) return color;
+  // Fallback: create temporary element to compute hex
+  if (typeof document !== 'undefined') {
+    const element = document.createElement('div');
+    element.style.color = color;
+    document.body.appendChild(element);
+    const computed = getComputedStyle(element).color;
+    document.body.removeChild(element);
+    const match = /rgba?\((\d+),\s*(\d+),\s*(\d+)/.exec(computed);
+    if (match) {
+      const [r, g, b] = match.slice(1).map((value) => Number(value));
+      return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+    }
+  }
+  return '#ffffff';
+}
+
+/**
+ * Alpha of an rgba() color; 1 for everything else.
+ */
+export function extractAlpha(color: string | undefined): number {
+  if (!color) return 1;
+  if (color.startsWith('#')) return 1;
+  const match = /rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*(\d*\.?\d+))?\)/.exec(color);
+  if (match) {
+    return match[4] !== undefined ? Number(match[4]) : 1;
+  }
+  return 1;
+}
+
+export function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  let normalized = hex.replace('#', '');
+  if (normalized.length === 3) {
+    normalized = normalized
+      .split('')
+      .map((char) => char + char)
+      .join('');
+  }
+  const bigint = parseInt(normalized, 16);
+  const r = (bigint >> 16) & 255;
+  const g = (bigint >> 8) & 255;
+  const b = bigint & 255;
+  return { r, g, b };
+}
+
+function toHex(value: number): string {
+  return value.toString(16).padStart(2, '0');
+}
+
+/**
+ * rgba() string from a hex color and an alpha.
+ */
+export function toRgba(hex: string, alpha: number): string {
+  const { r, g, b } = hexToRgb(hex);
+  return `rgba(${r}, ${g}, ${b}, ${alpha.toFixed(2)})`;
+}
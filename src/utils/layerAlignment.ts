@@ -0,0 +1,96 @@
+import type { Layer, Scene } from '../types/scene';
+import { applyTransformEdit, evaluateTransform, getSceneTime } from '../renderer/animation';
+import { getLayerSnapBounds, unionBounds } from './snapping';
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+export interface LayerPositionUpdate {
+  id: string;
+  changes: Partial<Layer>;
+}
+
+/**
+ * Shift a layer from where it is drawn at `timeMs`; keyed positions get a
+ * key at that time.
+ */
+function moveBy(layer: Layer, dx: number, dy: number, timeMs: number): LayerPositionUpdate | null {
+  if (Math.abs(dx) < 0.01 && Math.abs(dy) < 0.01) return null;
+  const shown = evaluateTransform(layer.transform, timeMs);
+  const pos = { x: shown.pos.x + dx, y: shown.pos.y + dy };
+  return {
+    id: layer.id,
+    changes: { transform: applyTransformEdit(layer.transform, { ...shown, pos }, timeMs) },
+  };
+}
+
+function isMovable(layer: Layer): boolean {
+  return !layer.locked && layer.type !== 'group';
+}
+
+/**
+ * Line up layers' edges or centers with the selection bounds. Locked layers
+ * stay put but still count towards the bounds.
+ */
+export function getAlignUpdates(layers: Layer[], scene: Scene, mode: AlignMode): LayerPositionUpdate[] {
+  const entries = layers.map((layer) => ({ layer, bounds: getLayerSnapBounds(layer, scene) }));
+  const selection = unionBounds(entries.map((entry) => entry.bounds));
+  if (!selection || entries.length < 2) return [];
+  const time = getSceneTime(scene.id);
+
+  return entries
+    .filter(({ layer }) => isMovable(layer))
+    .map(({ layer, bounds }) => {
+      switch (mode) {
+        case 'left':
+          return moveBy(layer, selection.minX - bounds.minX, 0, time);
+        case 'center':
+          return moveBy(layer, (selection.minX + selection.maxX - bounds.minX - bounds.maxX) / 2, 0, time);
+        case 'right':
+          return moveBy(layer, selection.maxX - bounds.maxX, 0, time);
+        case 'top':
+          return moveBy(layer, 0, selection.minY - bounds.minY, time);
+        case 'middle':
+          return moveBy(layer, 0, (selection.minY + selection.maxY - bounds.minY - bounds.maxY) / 2, time);
+        case 'bottom':
+        default:
+          return moveBy(layer, 0, selection.maxY - bounds.maxY, time);
+      }
+    })
+    .filter((update): update is LayerPositionUpdate => update !== null);
+}
+
+/**
+ * Space layers so the gaps between them are equal. The first and last layer
+ * along the axis keep their positions.
+ */
+export function getDistributeUpdates(layers: Layer[], scene: Scene, axis: DistributeAxis): LayerPositionUpdate[] {
+  const movable = layers.filter(isMovable);
+  if (movable.length < 3) return [];
+
+  const horizontal = axis === 'horizontal';
+  const time = getSceneTime(scene.id);
+  const entries = movable
+    .map((layer) => {
+      const bounds = getLayerSnapBounds(layer, scene);
+      return horizontal
+        ? { layer, min: bounds.minX, max: bounds.maxX }
+        : { layer, min: bounds.minY, max: bounds.maxY };
+    })
+    .sort((a, b) => a.min + a.max - (b.min + b.max));
+
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  const occupied = entries.reduce((sum, entry) => sum + (entry.max - entry.min), 0);
+  const gap = (last.max - first.min - occupied) / (entries.length - 1);
+
+  const updates: LayerPositionUpdate[] = [];
+  let cursor = first.max + gap;
+  for (const entry of entries.slice(1, -1)) {
+    const offset = cursor - entry.min;
+    const update = horizontal ? moveBy(entry.layer, offset, 0, time) : moveBy(entry.layer, 0, offset, time);
+    if (update) updates.push(update);
+    cursor += entry.max - entry.min + gap;
+  }
+  return updates;
+}
@@ -0,0 +1,91 @@
+import type { CameraLayer, CropInsets, Layer, LayerFraming, LayerMaskShape, ScreenLayer } from '../types/scene';
+
+export const DEFAULT_MASK_RADIUS = 32;
+/** Smallest part of the source frame left visible on each axis */
+export const MIN_CROP_VISIBLE = 0.05;
+export const LAYER_MASK_SHAPES: LayerMaskShape[] = ['none', 'rounded-rect', 'circle'];
+
+export type CropEdge = keyof CropInsets;
+
+/**
+ * Visible part of a source frame, in frame pixels.
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function createDefaultFraming(): LayerFraming {
+  return {
+    crop: { top: 0, right: 0, bottom: 0, left: 0 },
+    mask: 'none',
+    maskRadius: DEFAULT_MASK_RADIUS,
+  };
+}
+
+/**
+ * Layers that support crop and mask.
+ */
+export function isFramedLayer(layer: Layer): layer is ScreenLayer | CameraLayer {
+  return layer.type === 'screen' || layer.type === 'camera';
+}
+
+export function isCropped(crop: CropInsets): boolean {
+  return crop.top > 0 || crop.right > 0 || crop.bottom > 0 || crop.left > 0;
+}
+
+/**
+ * Clamp insets to [0, 1] and keep at least MIN_CROP_VISIBLE of each axis.
+ */
+export function clampCrop(crop: CropInsets): CropInsets {
+  const limit = 1 - MIN_CROP_VISIBLE;
+  const clampEdge = (value: number) => (Number.isFinite(value) ? Math.min(limit, Math.max(0, value)) : 0);
+  const next = {
+    top: clampEdge(crop.top),
+    right: clampEdge(crop.right),
+    bottom: clampEdge(crop.bottom),
+    left: clampEdge(crop.left),
+  };
+  const horizontal = next.left + next.right;
+  if (horizontal > limit) {
+    next.left = (next.left / horizontal) * limit;
+    next.right = (next.right / horizontal) * limit;
+  }
+  const vertical = next.top + next.bottom;
+  if (vertical > limit) {
+    next.top = (next.top / vertical) * limit;
+    next.bottom = (next.bottom / vertical) * limit;
+  }
+  return next;
+}
+
+/**
+ * Move one crop edge, leaving the opposite edge where it is.
+ */
+export function setCropEdge(crop: CropInsets, edge: CropEdge, value: number): CropInsets {
+  const opposite: Record<CropEdge, CropEdge> = { top: 'bottom', right: 'left', bottom: 'top', left: 'right' };
+  const max = 1 - MIN_CROP_VISIBLE - crop[opposite[edge]];
+  return { ...crop, [edge]: Math.min(max, Math.max(0, value)) };
+}
+
+/**
+ * Part of a `frameWidth` x `frameHeight` source that the layer shows. The
+ * circle mask keeps the largest centered square of the crop.
+ */
+export function getVisibleFrame(framing: LayerFraming, frameWidth: number, frameHeight: number): CropRect {
+  const crop = framing.crop;
+  let x = crop.left * frameWidth;
+  let y = crop.top * frameHeight;
+  let width = Math.max(1, frameWidth * (1 - crop.left - crop.right));
+  let height = Math.max(1, frameHeight * (1 - crop.top - crop.bottom));
+  if (framing.mask === 'circle') {
+    const side = Math.min(width, height);
+    x += (width - side) / 2;
+    y += (height - side) / 2;
+    width = side;
+    height = side;
+  }
+  return { x, y, width, height };
+}
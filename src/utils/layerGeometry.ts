@@ -1,14 +1,26 @@
-import type { Layer } from '../types/scene';
+import type { CameraLayer, Layer, ScreenLayer, TextLayer, TextStyle } from '../types/scene';
 import type { Scene } from '../types/scene';
-import { getVideoForLayer } from '../media/sourceManager';
+import { getRenderResources } from '../renderer/renderResources';
+import { getTimerMeasureText } from '../renderer/timer';
+import { getVisibleFrame } from './layerCrop';
+import { getRunFont, getTextLines } from './richText';
+import { getShapeBaseSize } from './shapeGeometry';
 
 interface Size {
   width: number;
   height: number;
 }
 
-const measureCanvas = typeof document !== 'undefined' ? document.createElement('canvas') : null;
-const measureCtx = measureCanvas ? measureCanvas.getContext('2d') : null;
+/**
+ * Axis-aligned rectangle in scene coordinates.
+ */
+export interface SceneRect extends Size {
+  x: number;
+  y: number;
+}
+
+// Offscreen so text measures the same in the program worker.
+const measureCtx = typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(1, 1).getContext('2d') : null;
 
 export const TEXT_LINE_HEIGHT_RATIO = 1.25;
 
@@ -46,25 +58,138 @@ export function measureTextBlock(content: string, fontSize: number, fontFamily:
   };
 }
 
+/** Bullet indent as a fraction of the font size */
+export const TEXT_BULLET_INDENT_RATIO = 1.2;
+
+export interface RichTextRunLayout {
+  text: string;
+  /** Canvas font shorthand */
+  font: string;
+  color: string;
+  underline: boolean;
+  width: number;
+}
+
+export interface RichTextLineLayout {
+  runs: RichTextRunLayout[];
+  align: TextStyle['textAlign'];
+  bullet: boolean;
+  /** Width including the bullet indent */
+  width: number;
+}
+
+export interface RichTextMetrics extends Size {
+  lineHeight: number;
+  bulletIndent: number;
+  lines: RichTextLineLayout[];
+}
+
+/**
+ * Set canvas letter spacing where supported (ignored elsewhere).
+ */
+export function setCanvasLetterSpacing(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  spacing: number
+): void {
+  if ('letterSpacing' in ctx) {
+    ctx.letterSpacing = `${spacing}px`;
+  }
+}
+
+/**
+ * Lay out a text layer's formatted lines: per-run fonts and widths, bullets,
+ * alignment and letter/line spacing.
+ */
+export function measureRichText(
+  layer: Pick<TextLayer, 'content' | 'lines' | 'fontSize' | 'font' | 'padding' | 'textAlign' | 'textColor' | 'letterSpacing' | 'lineSpacing'>
+): RichTextMetrics {
+  const fontFamily = layer.font || 'sans-serif';
+  const letterSpacing = layer.letterSpacing ?? 0;
+  const lineHeight = layer.fontSize * TEXT_LINE_HEIGHT_RATIO * (layer.lineSpacing || 1);
+  const bulletIndent = layer.fontSize * TEXT_BULLET_INDENT_RATIO;
+
+  measureCtx?.save();
+  if (measureCtx) setCanvasLetterSpacing(measureCtx, letterSpacing);
+  const measure = (text: string, font: string) => {
+    if (!measureCtx) return text.length * (layer.fontSize * 0.6 + letterSpacing);
+    measureCtx.font = font;
+    return measureCtx.measureText(text).width;
+  };
+
+  const lines = getTextLines(layer).map((line): RichTextLineLayout => {
+    const runs = line.runs.map((run) => {
+      const font = getRunFont(run, layer.fontSize, fontFamily);
+      return {
+        text: run.text,
+        font,
+        color: run.color ?? layer.textColor,
+        underline: !!run.underline,
+        width: measure(run.text, font),
+      };
+    });
+    const bullet = !!line.bullet;
+    // Empty lines still get the width of a space, like measureTextBlock.
+    const textWidth =
+      runs.length > 0
+        ? runs.reduce((sum, run) => sum + run.width, 0)
+        : measure(' ', getRunFont({}, layer.fontSize, fontFamily));
+    return {
+      runs,
+      align: line.align ?? layer.textAlign ?? 'center',
+      bullet,
+      width: (bullet ? bulletIndent : 0) + textWidth,
+    };
+  });
+  measureCtx?.restore();
+
+  const maxWidth = lines.reduce((max, line) => Math.max(max, line.width), 0);
+  return {
+    width: maxWidth + layer.padding * 2,
+    height: lineHeight * lines.length + layer.padding * 2,
+    lineHeight,
+    bulletIndent,
+    lines,
+  };
+}
+
+/**
+ * Uncropped source frame size of a screen or camera layer.
+ */
+export function getLayerFrameSize(layer: ScreenLayer | CameraLayer, scene: Scene): Size {
+  // Get actual video dimensions if available; layers draw at this size
+  const frame = getRenderResources().getCaptureFrame(layer.id);
+  if (frame && frame.width > 0 && frame.height > 0) {
+    return { width: frame.width, height: frame.height };
+  }
+  // Fallback: screens fill the scene, cameras default to 16:9
+  if (layer.type === 'screen') {
+    return { width: scene.width, height: scene.height };
+  }
+  return { width: 1280, height: 720 };
+}
+
 export function getLayerBaseSize(layer: Layer, scene: Scene): Size {
   switch (layer.type) {
     case 'screen':
-      return { width: scene.width, height: scene.height };
     case 'camera': {
-      // Get actual video dimensions if available
-      const video = getVideoForLayer(layer.id);
-      if (video && video.videoWidth > 0 && video.videoHeight > 0) {
-        return { width: video.videoWidth, height: video.videoHeight };
-      }
-      // Fallback: default camera dimensions (16:9 aspect ratio)
-      return { width: 1280, height: 720 };
+      const frame = getLayerFrameSize(layer, scene);
+      const { width, height } = getVisibleFrame(layer, frame.width, frame.height);
+      return { width, height };
     }
     case 'image':
       return { width: layer.width, height: layer.height };
+    case 'video':
+      return { width: layer.width, height: layer.height };
     case 'shape':
+      return getShapeBaseSize(layer);
+    case 'annotation':
       return { width: layer.width, height: layer.height };
-    case 'text':
-      return measureTextBlock(layer.content, layer.fontSize, layer.font, layer.padding);
+    case 'text': {
+      const { width, height } = measureRichText(layer);
+      return { width, height };
+    }
+    case 'timer':
+      return measureTextBlock(getTimerMeasureText(layer), layer.fontSize, layer.font, layer.padding);
     case 'group':
       // TODO: compute bounds from children when groups are implemented
       return { width: 400, height: 300 };
@@ -80,3 +205,41 @@ export function getLayerBoundingSize(layer: Layer, scene: Scene): Size {
     height: base.height * Math.abs(layer.transform.scale.y),
   };
 }
+
+/**
+ * Axis-aligned scene rectangle a layer covers, including rotation.
+ */
+export function getLayerSceneBounds(layer: Layer, scene: Scene): SceneRect {
+  const { width, height } = getLayerBoundingSize(layer, scene);
+  const angle = Math.abs(layer.transform.rot || 0);
+  let boundsWidth = width;
+  let boundsHeight = height;
+  if (angle % 360 !== 0) {
+    const rad = (angle * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(rad));
+    const sin = Math.abs(Math.sin(rad));
+    boundsWidth = width * cos + height * sin;
+    boundsHeight = width * sin + height * cos;
+  }
+  return {
+    x: layer.transform.pos.x - boundsWidth / 2,
+    y: layer.transform.pos.y - boundsHeight / 2,
+    width: boundsWidth,
+    height: boundsHeight,
+  };
+}
+
+/**
+ * Express a scene point in a layer's local space (origin at the layer
+ * center, before rotation and scale).
+ */
+export function toLayerLocalPoint(layer: Layer, point: { x: number; y: number }): { x: number; y: number } {
+  const { pos, scale, rot } = layer.transform;
+  const angle = (-rot * Math.PI) / 180;
+  const dx = point.x - pos.x;
+  const dy = point.y - pos.y;
+  return {
+    x: (dx * Math.cos(angle) - dy * Math.sin(angle)) / (scale.x || 1),
+    y: (dx * Math.sin(angle) + dy * Math.cos(angle)) / (scale.y || 1),
+  };
+}
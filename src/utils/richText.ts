@@ -0,0 +1,148 @@
+import type { TextLayer, TextLine, TextRun, TextRunStyle } from '../types/scene';
+
+const RUN_STYLE_KEYS: Array<keyof TextRunStyle> = ['bold', 'italic', 'underline', 'color'];
+
+/**
+ * Plain text of formatted lines, as stored in `TextLayer.content`.
+ */
+export function linesToContent(lines: TextLine[]): string {
+  return lines.map((line) => line.runs.map((run) => run.text).join('')).join('\n');
+}
+
+export function contentToLines(content: string): TextLine[] {
+  return content.split(/\r?\n/).map((text) => ({ runs: text ? [{ text }] : [] }));
+}
+
+/**
+ * Lines to render for a text layer. Formatting that no longer matches the
+ * content (e.g. content edited without updating `lines`) is ignored.
+ */
+export function getTextLines(layer: Pick<TextLayer, 'content' | 'lines'>): TextLine[] {
+  if (layer.lines && layer.lines.length > 0 && linesToContent(layer.lines) === layer.content) {
+    return layer.lines;
+  }
+  return contentToLines(layer.content);
+}
+
+export function sameRunStyle(a: TextRunStyle, b: TextRunStyle): boolean {
+  return RUN_STYLE_KEYS.every((key) => (a[key] || undefined) === (b[key] || undefined));
+}
+
+/**
+ * Drop empty runs and merge neighbours with the same style.
+ */
+export function normalizeRuns(runs: TextRun[]): TextRun[] {
+  const merged: TextRun[] = [];
+  for (const run of runs) {
+    if (!run.text) continue;
+    const previous = merged[merged.length - 1];
+    if (previous && sameRunStyle(previous, run)) {
+      previous.text += run.text;
+    } else {
+      merged.push({ ...run });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Whether any line carries formatting beyond the layer's own style. Plain
+ * text is stored as `content` alone.
+ */
+export function hasRichFormatting(lines: TextLine[]): boolean {
+  return lines.some(
+    (line) =>
+      line.bullet ||
+      line.align !== undefined ||
+      line.runs.some((run) => RUN_STYLE_KEYS.some((key) => run[key] !== undefined && run[key] !== false))
+  );
+}
+
+/**
+ * Canvas/CSS font shorthand for a run.
+ */
+export function getRunFont(style: TextRunStyle, fontSize: number, fontFamily: string): string {
+  return `${style.italic ? 'italic ' : ''}${style.bold ? 'bold ' : ''}${fontSize}px ${fontFamily}`;
+}
+
+/**
+ * First family of a CSS font-family list, without quotes.
+ */
+export function getPrimaryFontFamily(font: string): string {
+  const first = font.split(',')[0] ?? '';
+  return first.trim().replace(/^["']|["']$/g, '');
+}
+
+type LineAttributes = Pick<TextLine, 'align' | 'bullet'>;
+
+function lineAttributes(line: TextLine | undefined): LineAttributes {
+  const attributes: LineAttributes = {};
+  if (line?.align) attributes.align = line.align;
+  if (line?.bullet) attributes.bullet = true;
+  return attributes;
+}
+
+function runStyle(run: TextRun): TextRunStyle {
+  return { bold: run.bold, italic: run.italic, underline: run.underline, color: run.color };
+}
+
+/**
+ * Replace the plain text of formatted lines, keeping the formatting of the
+ * unchanged start and end. Inserted text takes the style of the character
+ * before it.
+ */
+export function applyContentEdit(lines: TextLine[], next: string): TextLine[] {
+  const chars: Array<{ ch: string; style: TextRunStyle }> = [];
+  lines.forEach((line, index) => {
+    if (index > 0) chars.push({ ch: '\n', style: {} });
+    line.runs.forEach((run) => {
+      const style = runStyle(run);
+      for (const ch of run.text) chars.push({ ch, style });
+    });
+  });
+  const previous = chars.map((entry) => entry.ch);
+  const nextChars = Array.from(next);
+
+  let prefix = 0;
+  while (prefix < previous.length && prefix < nextChars.length && previous[prefix] === nextChars[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < previous.length - prefix &&
+    suffix < nextChars.length - prefix &&
+    previous[previous.length - 1 - suffix] === nextChars[nextChars.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const insertStyle = prefix > 0 ? chars[prefix - 1].style : (chars[0]?.style ?? {});
+  const merged = [
+    ...chars.slice(0, prefix),
+    ...nextChars.slice(prefix, nextChars.length - suffix).map((ch) => ({ ch, style: insertStyle })),
+    ...chars.slice(chars.length - suffix),
+  ];
+
+  // Lines before the edit keep their attributes by index, lines after it by
+  // index from the end; inserted lines copy the line the edit started on.
+  const newlinesBefore = previous.slice(0, prefix).filter((ch) => ch === '\n').length;
+  const newlinesAfter = previous.slice(previous.length - suffix).filter((ch) => ch === '\n').length;
+  const result: TextLine[] = [{ runs: [] }];
+  for (const { ch, style } of merged) {
+    if (ch === '\n') {
+      result.push({ runs: [] });
+    } else {
+      result[result.length - 1].runs.push({ text: ch, ...style });
+    }
+  }
+  return result.map((line, index) => {
+    const fromEnd = result.length - 1 - index;
+    const source =
+      index <= newlinesBefore
+        ? lines[index]
+        : fromEnd <= newlinesAfter
+          ? lines[lines.length - 1 - fromEnd]
+          : lines[newlinesBefore];
+    return { runs: normalizeRuns(line.runs), ...lineAttributes(source) };
+  });
+}
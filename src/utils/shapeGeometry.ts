@@ -0,0 +1,250 @@
+/**
+ * Geometry of shape layers in layer-local coordinates: the layer box is
+ * centered on the origin and spans `width` × `height`.
+ */
+
+import type { ArrowHeadStyle, ShapeLayer, ShapeStrokeDash, ShapeType } from '../types/scene';
+import { extractAlpha } from './color';
+
+export interface ShapePoint {
+  x: number;
+  y: number;
+}
+
+export const SHAPE_TYPES: ShapeType[] = [
+  'rect',
+  'rounded-rect',
+  'ellipse',
+  'line',
+  'arrow',
+  'polygon',
+  'star',
+  'callout',
+];
+
+export const SHAPE_STROKE_DASHES: ShapeStrokeDash[] = ['solid', 'dashed', 'dotted'];
+
+export const ARROW_HEAD_STYLES: ArrowHeadStyle[] = ['none', 'triangle', 'open', 'circle', 'bar'];
+
+/** Sides/points bounds for polygons and stars */
+export const MIN_SHAPE_SIDES = 3;
+export const MAX_SHAPE_SIDES = 24;
+
+/** Box height given to new lines and arrows */
+export const LINE_SHAPE_HEIGHT = 48;
+
+const DEFAULT_POLYGON_SIDES = 6;
+const DEFAULT_STAR_POINTS = 5;
+const DEFAULT_STAR_INNER_RADIUS = 0.45;
+const DEFAULT_CORNER_RADIUS = 24;
+
+/** Callout tail height as a fraction of the layer height */
+const CALLOUT_TAIL_RATIO = 0.22;
+/** Half the callout tail's base width as a fraction of the layer width */
+const CALLOUT_TAIL_HALF_WIDTH_RATIO = 0.07;
+
+export interface CalloutGeometry {
+  /** Speech bubble body (top-left corner and size) */
+  body: { x: number; y: number; width: number; height: number };
+  radius: number;
+  /** Tail base start, tip and base end */
+  tail: [ShapePoint, ShapePoint, ShapePoint];
+}
+
+export function isLineShape(shapeType: ShapeType): boolean {
+  return shapeType === 'line' || shapeType === 'arrow';
+}
+
+export function getShapeStrokeWidth(layer: ShapeLayer): number {
+  return layer.strokeColor && layer.strokeWidth ? layer.strokeWidth : 0;
+}
+
+/**
+ * Lines are drawn even without a stroke color, so they always have a width.
+ */
+export function getLineStrokeWidth(layer: ShapeLayer): number {
+  return Math.max(1, layer.strokeWidth ?? 0);
+}
+
+export function getShapeSides(layer: ShapeLayer): number {
+  const fallback = layer.shapeType === 'star' ? DEFAULT_STAR_POINTS : DEFAULT_POLYGON_SIDES;
+  const sides = Math.round(layer.sides ?? fallback);
+  return Math.min(MAX_SHAPE_SIDES, Math.max(MIN_SHAPE_SIDES, sides));
+}
+
+export function getCornerRadius(layer: ShapeLayer): number {
+  const radius = layer.cornerRadius ?? DEFAULT_CORNER_RADIUS;
+  return Math.max(0, Math.min(radius, layer.width / 2, layer.height / 2));
+}
+
+/**
+ * Heads at either end of a line; arrows default to a triangle at the end.
+ */
+export function getArrowHeads(layer: ShapeLayer): { start: ArrowHeadStyle; end: ArrowHeadStyle } {
+  const defaultEnd: ArrowHeadStyle = layer.shapeType === 'arrow' ? 'triangle' : 'none';
+  return { start: layer.arrowStart ?? 'none', end: layer.arrowEnd ?? defaultEnd };
+}
+
+export function getArrowHeadSize(layer: ShapeLayer): number {
+  return Math.max(16, getLineStrokeWidth(layer) * 4);
+}
+
+/**
+ * Half the thickness a line or arrow covers across its axis.
+ */
+function getLineHalfExtent(layer: ShapeLayer): number {
+  const heads = getArrowHeads(layer);
+  const hasHead = heads.start !== 'none' || heads.end !== 'none';
+  return Math.max(getLineStrokeWidth(layer) / 2, hasHead ? getArrowHeadSize(layer) / 2 : 0);
+}
+
+/**
+ * Box size used for selection and bounds. Lines never get thinner than what
+ * they draw, whatever their stored height.
+ */
+export function getShapeBaseSize(layer: ShapeLayer): { width: number; height: number } {
+  if (isLineShape(layer.shapeType)) {
+    return { width: layer.width, height: Math.max(layer.height, getLineHalfExtent(layer) * 2) };
+  }
+  return { width: layer.width, height: layer.height };
+}
+
+/**
+ * Corners of a regular polygon or star inscribed in the layer box, starting
+ * at the top.
+ */
+export function getPolygonPoints(layer: ShapeLayer): ShapePoint[] {
+  const sides = getShapeSides(layer);
+  const rx = layer.width / 2;
+  const ry = layer.height / 2;
+  if (layer.shapeType === 'star') {
+    const inner = Math.min(0.95, Math.max(0.1, layer.innerRadius ?? DEFAULT_STAR_INNER_RADIUS));
+    return Array.from({ length: sides * 2 }, (_, index) => {
+      const angle = -Math.PI / 2 + (index * Math.PI) / sides;
+      const factor = index % 2 === 0 ? 1 : inner;
+      return { x: Math.cos(angle) * rx * factor, y: Math.sin(angle) * ry * factor };
+    });
+  }
+  return Array.from({ length: sides }, (_, index) => {
+    const angle = -Math.PI / 2 + (index * 2 * Math.PI) / sides;
+    return { x: Math.cos(angle) * rx, y: Math.sin(angle) * ry };
+  });
+}
+
+/**
+ * Speech bubble body plus a tail pointing down from its bottom edge.
+ */
+export function getCalloutGeometry(layer: ShapeLayer): CalloutGeometry {
+  const { width, height } = layer;
+  const tailHeight = height * CALLOUT_TAIL_RATIO;
+  const bodyHeight = height - tailHeight;
+  const body = { x: -width / 2, y: -height / 2, width, height: bodyHeight };
+  const radius = Math.max(0, Math.min(layer.cornerRadius ?? DEFAULT_CORNER_RADIUS, width / 2, bodyHeight / 2));
+  const halfBase = width * CALLOUT_TAIL_HALF_WIDTH_RATIO;
+  // Keep the tail base clear of the rounded corners.
+  const minX = body.x + radius + halfBase;
+  const maxX = body.x + width - radius - halfBase;
+  const position = Math.min(1, Math.max(0, layer.tailPosition ?? 0.25));
+  const baseX = minX <= maxX ? minX + (maxX - minX) * position : 0;
+  const baseY = body.y + bodyHeight;
+  return {
+    body,
+    radius,
+    tail: [
+      { x: baseX - halfBase, y: baseY },
+      { x: baseX - halfBase * 1.5, y: height / 2 },
+      { x: baseX + halfBase, y: baseY },
+    ],
+  };
+}
+
+function distanceToSegment(point: ShapePoint, a: ShapePoint, b: ShapePoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+function pointInPolygon(point: ShapePoint, polygon: ShapePoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i, i += 1) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function nearOutline(point: ShapePoint, polygon: ShapePoint[], reach: number): boolean {
+  return polygon.some((a, index) => distanceToSegment(point, a, polygon[(index + 1) % polygon.length]) <= reach);
+}
+
+function boxCorners(width: number, height: number): ShapePoint[] {
+  return [
+    { x: -width / 2, y: -height / 2 },
+    { x: width / 2, y: -height / 2 },
+    { x: width / 2, y: height / 2 },
+    { x: -width / 2, y: height / 2 },
+  ];
+}
+
+/**
+ * Whether a layer-local point hits the shape. Shapes with a transparent fill
+ * are only hit on their outline, so a circle drawn around something does not
+ * block clicks on it. `tolerance` is in layer-local units.
+ */
+export function hitTestShape(layer: ShapeLayer, point: ShapePoint, tolerance: number): boolean {
+  const { width, height } = layer;
+  const reach = getShapeStrokeWidth(layer) / 2 + tolerance;
+  const filled = extractAlpha(layer.fillColor) > 0;
+
+  switch (layer.shapeType) {
+    case 'line':
+    case 'arrow': {
+      const halfWidth = width / 2;
+      const lineReach = getLineStrokeWidth(layer) / 2 + tolerance;
+      if (distanceToSegment(point, { x: -halfWidth, y: 0 }, { x: halfWidth, y: 0 }) <= lineReach) return true;
+      // Heads are wider than the line itself.
+      const headReach = getLineHalfExtent(layer) + tolerance;
+      const headLength = getArrowHeadSize(layer);
+      return (
+        Math.abs(point.y) <= headReach &&
+        Math.abs(point.x) <= halfWidth + tolerance &&
+        Math.abs(point.x) >= halfWidth - headLength
+      );
+    }
+    case 'ellipse': {
+      const rx = width / 2;
+      const ry = height / 2;
+      const outer = (point.x / (rx + reach)) ** 2 + (point.y / (ry + reach)) ** 2 <= 1;
+      if (!outer) return false;
+      if (filled) return true;
+      const innerRx = rx - reach;
+      const innerRy = ry - reach;
+      return innerRx <= 0 || innerRy <= 0 || (point.x / innerRx) ** 2 + (point.y / innerRy) ** 2 >= 1;
+    }
+    case 'polygon':
+    case 'star': {
+      const points = getPolygonPoints(layer);
+      return (filled && pointInPolygon(point, points)) || nearOutline(point, points, reach);
+    }
+    case 'callout': {
+      const { body, tail } = getCalloutGeometry(layer);
+      const bodyCorners = boxCorners(body.width, body.height).map((corner) => ({
+        x: corner.x,
+        y: corner.y + body.y + body.height / 2,
+      }));
+      if (filled && (pointInPolygon(point, bodyCorners) || pointInPolygon(point, tail))) return true;
+      return nearOutline(point, bodyCorners, reach) || nearOutline(point, tail, reach);
+    }
+    case 'rect':
+    case 'rounded-rect':
+    default: {
+      const corners = boxCorners(width, height);
+      return (filled && pointInPolygon(point, corners)) || nearOutline(point, corners, reach);
+    }
+  }
+}
@@ -0,0 +1,316 @@
+import type { Layer, Scene } from '../types/scene';
+import { evaluateLayer, getSceneTime } from '../renderer/animation';
+import { getLayerBoundingSize } from './layerGeometry';
+
+/** Snap distance in screen pixels; callers divide by the canvas scale */
+export const SNAP_THRESHOLD_PX = 6;
+
+/** Offsets closer than this (scene px) count as lined up when drawing guides */
+const GUIDE_EPSILON = 0.5;
+
+/**
+ * Axis-aligned bounds in scene coordinates.
+ */
+export interface SnapBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Temporary guide line shown while a drag is snapped. Vertical guides sit at
+ * `position` on the x axis and run from `start` to `end` on the y axis;
+ * horizontal guides the other way round.
+ */
+export interface SnapGuide {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+  start: number;
+  end: number;
+  /** 'align' lines up edges or centers; 'spacing' marks equal gaps */
+  kind: 'align' | 'spacing';
+}
+
+/**
+ * Editor layout aids that attract drags too: ruler guide positions (scene px)
+ * and the grid spacing, null when not snapping to the grid.
+ */
+export interface SnapLines {
+  /** x positions of vertical guides */
+  vertical: number[];
+  /** y positions of horizontal guides */
+  horizontal: number[];
+  grid: number | null;
+}
+
+export const NO_SNAP_LINES: SnapLines = { vertical: [], horizontal: [], grid: null };
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  guides: SnapGuide[];
+}
+
+type Axis = 'x' | 'y';
+
+type SceneSize = Pick<Scene, 'width' | 'height'>;
+
+interface Span {
+  min: number;
+  max: number;
+}
+
+interface Gap {
+  from: SnapBounds;
+  to: SnapBounds;
+  size: number;
+}
+
+interface AxisOffset {
+  offset: number;
+  kind: SnapGuide['kind'] | null;
+}
+
+/**
+ * Bounds of a layer as drawn: keyframed layers at the scene's current time.
+ */
+export function getLayerSnapBounds(layer: Layer, scene: Scene): SnapBounds {
+  const shown = evaluateLayer(layer, getSceneTime(scene.id));
+  const size = getLayerBoundingSize(shown, scene);
+  const { pos } = shown.transform;
+  return {
+    minX: pos.x - size.width / 2,
+    maxX: pos.x + size.width / 2,
+    minY: pos.y - size.height / 2,
+    maxY: pos.y + size.height / 2,
+  };
+}
+
+export function unionBounds(bounds: SnapBounds[]): SnapBounds | null {
+  if (bounds.length === 0) return null;
+  return bounds.reduce((acc, entry) => ({
+    minX: Math.min(acc.minX, entry.minX),
+    minY: Math.min(acc.minY, entry.minY),
+    maxX: Math.max(acc.maxX, entry.maxX),
+    maxY: Math.max(acc.maxY, entry.maxY),
+  }));
+}
+
+export function translateBounds(bounds: SnapBounds, dx: number, dy: number): SnapBounds {
+  return { minX: bounds.minX + dx, maxX: bounds.maxX + dx, minY: bounds.minY + dy, maxY: bounds.maxY + dy };
+}
+
+/**
+ * Bounds of every visible layer that can act as a snap target.
+ */
+export function collectSnapTargets(scene: Scene, excludeIds: Iterable<string>): SnapBounds[] {
+  const excluded = new Set(excludeIds);
+  return scene.layers
+    .filter((layer) => layer.visible && layer.type !== 'group' && !excluded.has(layer.id))
+    .map((layer) => getLayerSnapBounds(layer, scene));
+}
+
+function getSpan(bounds: SnapBounds, axis: Axis): Span {
+  return axis === 'x' ? { min: bounds.minX, max: bounds.maxX } : { min: bounds.minY, max: bounds.maxY };
+}
+
+function getCrossSpan(bounds: SnapBounds, axis: Axis): Span {
+  return getSpan(bounds, axis === 'x' ? 'y' : 'x');
+}
+
+function spanPoints(span: Span): number[] {
+  return [span.min, (span.min + span.max) / 2, span.max];
+}
+
+function overlaps(a: Span, b: Span): boolean {
+  return a.min < b.max && b.min < a.max;
+}
+
+/**
+ * Boxes sharing a row (for x) or column (for y) with the moving box, sorted
+ * along the axis.
+ */
+function getRow(moving: SnapBounds, targets: SnapBounds[], axis: Axis): SnapBounds[] {
+  const cross = getCrossSpan(moving, axis);
+  return targets
+    .filter((target) => overlaps(getCrossSpan(target, axis), cross))
+    .sort((a, b) => getSpan(a, axis).min - getSpan(b, axis).min);
+}
+
+/**
+ * Gaps between neighbouring boxes of a row that do not overlap.
+ */
+function getRowGaps(row: SnapBounds[], axis: Axis): Gap[] {
+  const gaps: Gap[] = [];
+  for (let i = 0; i < row.length - 1; i += 1) {
+    const from = row[i];
+    const to = row[i + 1];
+    const size = getSpan(to, axis).min - getSpan(from, axis).max;
+    if (size > 0) gaps.push({ from, to, size });
+  }
+  return gaps;
+}
+
+function getGuideLines(axis: Axis, lines: SnapLines): number[] {
+  return axis === 'x' ? lines.vertical : lines.horizontal;
+}
+
+function findAxisOffset(
+  axis: Axis,
+  moving: SnapBounds,
+  targets: SnapBounds[],
+  scene: SceneSize,
+  threshold: number,
+  snapLines: SnapLines
+): AxisOffset {
+  const span = getSpan(moving, axis);
+  const sceneLength = axis === 'x' ? scene.width : scene.height;
+  let best: AxisOffset = { offset: 0, kind: null };
+  let bestDistance = threshold;
+
+  const consider = (offset: number, kind: SnapGuide['kind']) => {
+    const distance = Math.abs(offset);
+    // Alignment wins ties so spacing never pulls a box off a shared edge.
+    if (distance < bestDistance || (distance === bestDistance && kind === 'align')) {
+      bestDistance = distance;
+      best = { offset, kind };
+    }
+  };
+
+  // Edges and centers of the canvas and other layers, plus ruler guides.
+  const lines = [
+    0,
+    sceneLength / 2,
+    sceneLength,
+    ...targets.flatMap((target) => spanPoints(getSpan(target, axis))),
+    ...getGuideLines(axis, snapLines),
+  ];
+  const points = spanPoints(span);
+  for (const line of lines) {
+    for (const point of points) {
+      consider(line - point, 'align');
+    }
+  }
+
+  // Edges onto the nearest grid line.
+  const { grid } = snapLines;
+  if (grid) {
+    for (const edge of [span.min, span.max]) {
+      consider(Math.round(edge / grid) * grid - edge, 'align');
+    }
+  }
+
+  // Equal spacing with layers in the same row or column.
+  const row = getRow(moving, targets, axis);
+  const size = span.max - span.min;
+  const gaps = getRowGaps(row, axis);
+  for (const box of row) {
+    const boxSpan = getSpan(box, axis);
+    for (const gap of gaps) {
+      consider(boxSpan.max + gap.size - span.min, 'spacing');
+      consider(boxSpan.min - gap.size - span.max, 'spacing');
+    }
+  }
+  for (let i = 0; i < row.length; i += 1) {
+    for (let j = i + 1; j < row.length; j += 1) {
+      const left = getSpan(row[i], axis);
+      const right = getSpan(row[j], axis);
+      if (right.min - left.max < size) continue;
+      consider((left.max + right.min - size) / 2 - span.min, 'spacing');
+    }
+  }
+
+  return best;
+}
+
+function makeGuide(axis: Axis, position: number, start: number, end: number, kind: SnapGuide['kind']): SnapGuide {
+  return { orientation: axis === 'x' ? 'vertical' : 'horizontal', position, start, end, kind };
+}
+
+function buildAlignGuides(
+  axis: Axis,
+  moving: SnapBounds,
+  targets: SnapBounds[],
+  scene: SceneSize,
+  snapLines: SnapLines
+): SnapGuide[] {
+  const guides: SnapGuide[] = [];
+  const points = spanPoints(getSpan(moving, axis));
+  const cross = getCrossSpan(moving, axis);
+  const sceneLength = axis === 'x' ? scene.width : scene.height;
+  const sceneCross = axis === 'x' ? scene.height : scene.width;
+  const matches = (line: number) => points.some((point) => Math.abs(point - line) < GUIDE_EPSILON);
+
+  // Grid lines get no guide, or the grid would light up on every move.
+  for (const line of [0, sceneLength / 2, sceneLength, ...getGuideLines(axis, snapLines)]) {
+    if (matches(line)) guides.push(makeGuide(axis, line, 0, sceneCross, 'align'));
+  }
+  for (const target of targets) {
+    const targetCross = getCrossSpan(target, axis);
+    for (const line of spanPoints(getSpan(target, axis))) {
+      if (!matches(line)) continue;
+      guides.push(
+        makeGuide(axis, line, Math.min(cross.min, targetCross.min), Math.max(cross.max, targetCross.max), 'align')
+      );
+    }
+  }
+  return guides;
+}
+
+function buildSpacingGuides(axis: Axis, moving: SnapBounds, targets: SnapBounds[]): SnapGuide[] {
+  const row = getRow(moving, targets, axis);
+  const span = getSpan(moving, axis);
+  const before = row.filter((box) => getSpan(box, axis).max <= span.min + GUIDE_EPSILON).pop();
+  const after = row.find((box) => getSpan(box, axis).min >= span.max - GUIDE_EPSILON);
+
+  const movingGaps: Gap[] = [];
+  if (before) movingGaps.push({ from: before, to: moving, size: span.min - getSpan(before, axis).max });
+  if (after) movingGaps.push({ from: moving, to: after, size: getSpan(after, axis).min - span.max });
+  const rowGaps = getRowGaps(row, axis);
+
+  const gapGuide = (gap: Gap) => {
+    const a = getCrossSpan(gap.from, axis);
+    const b = getCrossSpan(gap.to, axis);
+    const crossMid = (Math.max(a.min, b.min) + Math.min(a.max, b.max)) / 2;
+    // Spacing guides run along the axis, so they are perpendicular to align guides.
+    return makeGuide(axis === 'x' ? 'y' : 'x', crossMid, getSpan(gap.from, axis).max, getSpan(gap.to, axis).min, 'spacing');
+  };
+
+  const guides: SnapGuide[] = [];
+  for (const gap of movingGaps) {
+    const equal = [...rowGaps, ...movingGaps].filter(
+      (other) => other !== gap && Math.abs(other.size - gap.size) < GUIDE_EPSILON
+    );
+    if (equal.length === 0) continue;
+    guides.push(gapGuide(gap), ...equal.filter((other) => !movingGaps.includes(other)).map(gapGuide));
+  }
+  return guides;
+}
+
+/**
+ * Snap a box being dragged to the canvas edges and center, to other layers'
+ * edges and centers, to positions that repeat an existing gap and to the
+ * editor's ruler guides and grid. `moving` is where the box would be without
+ * snapping; the result is the offset to add plus guides for the snapped
+ * position.
+ */
+export function snapMove(
+  moving: SnapBounds,
+  targets: SnapBounds[],
+  scene: SceneSize,
+  threshold: number,
+  snapLines: SnapLines = NO_SNAP_LINES
+): SnapResult {
+  const x = findAxisOffset('x', moving, targets, scene, threshold, snapLines);
+  const y = findAxisOffset('y', moving, targets, scene, threshold, snapLines);
+  const snapped = translateBounds(moving, x.offset, y.offset);
+
+  const guides: SnapGuide[] = [];
+  if (x.kind === 'align') guides.push(...buildAlignGuides('x', snapped, targets, scene, snapLines));
+  if (x.kind === 'spacing') guides.push(...buildSpacingGuides('x', snapped, targets));
+  if (y.kind === 'align') guides.push(...buildAlignGuides('y', snapped, targets, scene, snapLines));
+  if (y.kind === 'spacing') guides.push(...buildSpacingGuides('y', snapped, targets));
+
+  return { dx: x.offset, dy: y.offset, guides };
+}
@@ -149,6 +149,41 @@ export async function replaceHostAudioTrack(track: MediaStreamTrack | null): Pro
   await Promise.all(promises);
 }
 
+/**
+ * Cap the video encoder bitrate of one sender. Encodings only exist once the
+ * connection is negotiated, so earlier calls are a no-op.
+ */
+async function applyVideoMaxBitrate(sender: RTCRtpSender | null, viewerId: string): Promise<void> {
+  if (!sender) return;
+  const params = sender.getParameters();
+  if (!params.encodings || params.encodings.length === 0) return;
+  params.encodings = params.encodings.map((encoding) => {
+    const next = { ...encoding };
+    if (hostVideoMaxBitrate === null) {
+      delete next.maxBitrate;
+    } else {
+      next.maxBitrate = hostVideoMaxBitrate;
+    }
+    return next;
+  });
+  try {
+    await sender.setParameters(params);
+  } catch (err) {
+    console.warn(`[webrtc] Failed to set video bitrate for viewer ${viewerId}`, err);
+  }
+}
+
+/**
+ * Set the video bitrate ceiling (bits per second) for every current and
+ * future viewer. `null` leaves it to the browser.
+ */
+export async function setHostVideoMaxBitrate(bitsPerSecond: number | null): Promise<void> {
+  hostVideoMaxBitrate = bitsPerSecond;
+  await Promise.all(
+    [...viewerConnections.values()].map((conn) => applyVideoMaxBitrate(conn.videoSender, conn.viewerId))
+  );
+}
+
 /**
  * Convenience wrappers when you don't care about awaiting the swap (e.g., UI button handlers).
  * They catch and log errors to avoid unhandled promise rejections.
@@ -456,6 +491,8 @@ let startingHost = false; // prevents double-click races
 let liveHandle: HostHandle | null = null;
 let currentSessionId: string | null = null;
 let hostTag: number = 0;
+// Encoder ceiling from the output profile, applied to each viewer's video sender
+let hostVideoMaxBitrate: number | null = null;
 
 // Firestore unsubscribers for host side (now per-viewer)
 let unsubViewerAnswersCollection: (() => void) | null = null;
@@ -486,6 +523,56 @@ export async function stopHost(keepPc = false): Promise<void> {
     liveHandle = null;
   }
 
+/**
+ * Cumulative outbound video counters of one viewer connection, as reported
+ * by getStats(). Rates come from differences between two reads.
+ */
+export interface ViewerVideoStats {
+  viewerId: string;
+  /** RTCStats timestamp (ms) */
+  timestamp: number;
+  framesEncoded: number;
+  framesSent: number;
+  /** Seconds spent encoding, summed over all frames */
+  totalEncodeTime: number;
+  bytesSent: number;
+  frameWidth: number;
+  frameHeight: number;
+  qualityLimitationReason: string;
+}
+
+/**
+ * Outbound video stats for every connected viewer (perf HUD).
+ */
+export async function getViewerVideoStats(): Promise<ViewerVideoStats[]> {
+  const reads = [...viewerConnections.values()].map(async (conn) => {
+    try {
+      const report = await conn.pc.getStats(conn.videoSender?.track ?? null);
+      const outbound = [...report.values()].find(
+        (entry): entry is RTCOutboundRtpStreamStats => entry.type === "outbound-rtp" && entry.kind === "video"
+      );
+      if (!outbound) return null;
+      const stats: ViewerVideoStats = {
+        viewerId: conn.viewerId,
+        timestamp: outbound.timestamp,
+        framesEncoded: outbound.framesEncoded ?? 0,
+        framesSent: outbound.framesSent ?? 0,
+        totalEncodeTime: outbound.totalEncodeTime ?? 0,
+        bytesSent: outbound.bytesSent ?? 0,
+        frameWidth: outbound.frameWidth ?? 0,
+        frameHeight: outbound.frameHeight ?? 0,
+        qualityLimitationReason: outbound.qualityLimitationReason ?? "none",
+      };
+      return stats;
+    } catch (e) {
+      console.warn("[webrtc] getStats failed for viewer", conn.viewerId, e);
+      return null;
+    }
+  });
+  const results = await Promise.all(reads);
+  return results.filter((stats): stats is ViewerVideoStats => stats !== null);
+}
+
 /**
  * Helper: Create answer for a viewer's offer
  * Called when a new viewer offer arrives
@@ -659,6 +746,7 @@ async function handleViewerOffer(
     viewerId,
     createdAt: Date.now(),
   });
+  await applyVideoMaxBitrate(vSender, viewerId);
 
   console.log("🎉 [HOST] Answer complete for viewer:", viewerId);
 }
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, readZip, type ZipEntry } from './zip';
+
+const encoder = new TextEncoder();
+
+function bytes(length: number, seed: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, index) => (index * 31 + seed) & 0xff);
+}
+
+async function roundTrip(entries: ZipEntry[]): Promise<Map<string, Uint8Array>> {
+  return readZip(createZip(entries));
+}
+
+describe('createZip / readZip', () => {
+  it('round-trips a single file', async () => {
+    const data = encoder.encode('{"format":"classcast"}');
+    const files = await roundTrip([{ name: 'manifest.json', data }]);
+
+    expect([...files.keys()]).toEqual(['manifest.json']);
+    expect(files.get('manifest.json')).toEqual(data);
+  });
+
+  it('round-trips several files byte for byte', async () => {
+    const entries: ZipEntry[] = [
+      { name: 'manifest.json', data: encoder.encode('{}') },
+      { name: 'scenes/scene-1.json', data: encoder.encode('{"layers":[]}') },
+      { name: 'assets/image.png', data: bytes(70_000, 7) },
+      { name: 'assets/empty.bin', data: new Uint8Array(0) },
+      { name: 'fonts/Schrift ä.woff2', data: bytes(1_234, 99) },
+    ];
+    const files = await roundTrip(entries);
+
+    expect(files.size).toBe(entries.length);
+    for (const entry of entries) {
+      expect(files.get(entry.name)).toEqual(entry.data);
+    }
+  });
+
+  it('rejects data that is not a ZIP archive', async () => {
+    await expect(readZip(new Blob([bytes(100, 1) as Uint8Array<ArrayBuffer>]))).rejects.toThrow('Not a ZIP archive');
+  });
+
+  it('refuses an entry too large for a 32-bit archive', () => {
+    // Only the length is read before the size check.
+    const huge = { length: 2 ** 32 } as Uint8Array;
+    expect(() => createZip([{ name: 'video.webm', data: huge }])).toThrow('limited to 4 GB');
+  });
+
+  it('refuses archives that add up to more than 4 GB', () => {
+    const large = { length: 2 ** 31 } as Uint8Array;
+    expect(() => createZip([
+      { name: 'a.webm', data: large },
+      { name: 'b.webm', data: large },
+    ])).toThrow('limited to 4 GB');
+  });
+});
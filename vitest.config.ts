@@ -4,7 +4,7 @@ export default defineConfig({
   test: {
     globals: false,
     environment: 'node',
-    include: ['packages/video-effects/src/tests/**/*.test.ts'],
+    include: ['packages/video-effects/src/tests/**/*.test.ts', 'src/**/*.test.ts'],
     coverage: {
       enabled: false,
     },